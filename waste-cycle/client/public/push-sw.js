@@ -0,0 +1,42 @@
+/**
+ * Push service worker - shows web push notifications sent by the API
+ *
+ * Payload: { title, body, link, type, tag }
+ * Clicking a notification focuses an open Waste-Cycle tab and asks it to open `link`
+ * (App listens for { type: 'open-link' }), or opens a new tab at /?link=<link>.
+ */
+
+self.addEventListener('push', (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch {
+    data = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'Waste-Cycle', {
+      body: data.body || '',
+      icon: '/vite.svg',
+      tag: data.tag,
+      renotify: !!data.tag,
+      data: { link: data.link || null },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const link = event.notification.data && event.notification.data.link;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const client = windows.find((w) => new URL(w.url).origin === self.location.origin);
+      if (client) {
+        if (link) client.postMessage({ type: 'open-link', link });
+        return client.focus();
+      }
+      return self.clients.openWindow(link ? `/?link=${encodeURIComponent(link)}` : '/');
+    })
+  );
+});
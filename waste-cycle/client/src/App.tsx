@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { type User as FirebaseUser } from 'firebase/auth';
 // แก้ไข Paths โดยใช้ @/
 import { Header } from './components/Header';
@@ -10,6 +10,7 @@ import { Marketplace } from './components/Marketplace';
 import { CreatePost } from './components/CreatePost';
 import { PostDetail } from './components/PostDetail';
 import { BookingPage } from './components/BookingPage';
+import { DemandRequestsPage } from './components/DemandRequestsPage';
 import { FertilizerAdvisor } from './components/FertilizerAdvisor';
 import { CircularEconomy } from './components/CircularEconomy';
 import { AdminPanel } from './components/AdminPanel';
@@ -23,20 +24,32 @@ import api, {
   getMyProfile,
   loginUser,
   logoutUser,
+  accountRestrictionMessage,
   registerUser,
   createProfile,
   getProducts,          // Legacy - kept for backward compatibility
   getAllProducts,       // Get all posts from all users (for Marketplace)
   getMyProducts,        // Get posts for current user only (for Profile/Dashboard)
+  getProductById,
   createProduct,
   updateProduct,
   deleteProduct,
   getChatRooms,         // MULTI-USER: Get chat rooms via API
+  getChatRoomById,
   createChatRoom,       // MULTI-USER: Create or get chat room
+  markChatRoomRead,
+  getChatUnreadCount,
+  createBooking,
+  type ImageVariant,
 } from './apiServer'; // แก้ไข Path
 import { Recycle } from 'lucide-react';
+import { toast } from 'sonner';
+import { Toaster } from './components/ui/sonner';
 import { useJsApiLoader } from '@react-google-maps/api';
 import { generateMockPosts } from './mockData';
+import { connectChatSocket, disconnectChatSocket, type ChatSocketEvent } from './services/chatSocket';
+import { useChatEvents, useChatSocketStatus } from './hooks/useChatSocket';
+import { disablePush, subscribeOpenLink } from './services/pushService';
 
 export type UserRole = 'user' | 'admin' | 'seller';
 
@@ -51,6 +64,8 @@ export interface User {
   location?: { lat: number; lng: number };
   verified?: boolean;
   avatar?: string;
+  rating?: number;       // Average review rating as a seller (kept by the server)
+  reviewCount?: number;
 }
 
 // แก้ไข: เพิ่ม 'export' และเปลี่ยน 'location'
@@ -61,6 +76,7 @@ export interface Post {
   animalType: string;
   wasteType: string;
   quantity: number;
+  reservedQuantity?: number; // ปริมาณที่ถูกจองไว้แล้ว (จัดการโดย server)
   price: number;
   unit: string;
   location: { lat: number; lng: number }; // <-- แก้ไข
@@ -70,7 +86,8 @@ export interface Post {
   npk: { n: number; p: number; k: number };
   feedType: string;
   description: string;
-  images: string[];
+  images: string[];               // Full-size image URLs
+  imageVariants?: ImageVariant[]; // Every stored size, same order as images
   farmName: string;
   contactPhone: string;
   rating: number;
@@ -101,7 +118,12 @@ export default function App() {
   // MULTI-USER: Chat rooms and messages managed via API
   const [chatRooms, setChatRooms] = useState<any[]>([]);
   const [chatMessages, setChatMessages] = useState<Record<string, any[]>>({});
-  const [confirmedChatRooms, setConfirmedChatRooms] = useState<Set<string>>(new Set());
+  const [unreadChatCount, setUnreadChatCount] = useState(0); // Header badge, all rooms
+  // Cursors for the next page of paginated lists (null = no more pages)
+  const [postsCursor, setPostsCursor] = useState<string | null>(null);
+  const [chatRoomsCursor, setChatRoomsCursor] = useState<string | null>(null);
+  const [isLoadingMorePosts, setIsLoadingMorePosts] = useState(false);
+  const [isLoadingMoreChatRooms, setIsLoadingMoreChatRooms] = useState(false);
   
   const [selectedPostId, setSelectedPostId] = useState<string | null>(null);
   const [isEditingPost, setIsEditingPost] = useState(false);
@@ -151,6 +173,8 @@ export default function App() {
       setAllPosts(fetchedAllPosts);  // All posts for Marketplace
       setMyPosts(fetchedMyPosts);     // User's own posts for Profile/Dashboard
       setChatRooms(chatRoomsResponse.data.data || []);  // MULTI-USER: Chat rooms via API
+      setPostsCursor(allProductsResponse.data.nextCursor || null);
+      setChatRoomsCursor(chatRoomsResponse.data.nextCursor || null);
       
       console.log(`✅ Fetched ${fetchedAllPosts.length} all posts and ${fetchedMyPosts.length} user posts for user ${user.id}`);
     } catch (err) {
@@ -161,9 +185,54 @@ export default function App() {
       setAllPosts(mockPosts);
       setMyPosts([]);  // No user posts in fallback mode
       setChatRooms([]);  // No chat rooms in fallback mode
+      setPostsCursor(null);
+      setChatRoomsCursor(null);
     }
   }, [user]);
 
+  /**
+   * Load the next page of marketplace posts (infinite scroll)
+   * Real posts are kept ahead of the demo mock posts
+   */
+  const loadMorePosts = useCallback(async () => {
+    if (!postsCursor || isLoadingMorePosts) return;
+    setIsLoadingMorePosts(true);
+    try {
+      const response = await getAllProducts({ cursor: postsCursor });
+      const nextPosts: Post[] = response.data.data || [];
+      setAllPosts(prev => {
+        const existingIds = new Set(prev.map(p => p.id));
+        const realPosts = prev.filter(p => !p.id.startsWith('mock-post-'));
+        const mockPosts = prev.filter(p => p.id.startsWith('mock-post-'));
+        return [...realPosts, ...nextPosts.filter(p => !existingIds.has(p.id)), ...mockPosts];
+      });
+      setPostsCursor(response.data.nextCursor || null);
+    } catch (err) {
+      console.error("Failed to load more posts:", err);
+    } finally {
+      setIsLoadingMorePosts(false);
+    }
+  }, [postsCursor, isLoadingMorePosts]);
+
+  // Load the next page of chat rooms (infinite scroll in ChatPage)
+  const loadMoreChatRooms = useCallback(async () => {
+    if (!chatRoomsCursor || isLoadingMoreChatRooms) return;
+    setIsLoadingMoreChatRooms(true);
+    try {
+      const response = await getChatRooms({ cursor: chatRoomsCursor });
+      const nextRooms = response.data.data || [];
+      setChatRooms(prev => {
+        const existingIds = new Set(prev.map(room => room.id));
+        return [...prev, ...nextRooms.filter((room: any) => !existingIds.has(room.id))];
+      });
+      setChatRoomsCursor(response.data.nextCursor || null);
+    } catch (err) {
+      console.error("Failed to load more chat rooms:", err);
+    } finally {
+      setIsLoadingMoreChatRooms(false);
+    }
+  }, [chatRoomsCursor, isLoadingMoreChatRooms]);
+
   /**
    * MULTI-USER AUTHENTICATION:
    * - ใช้ onAuthStateChanged เพื่อตรวจสอบ auth state แบบ real-time
@@ -231,6 +300,11 @@ export default function App() {
                 setUser(null);
                 setAuthToken(null);
               }
+            } else if (accountRestrictionMessage(profileError.response?.data)) {
+              // Suspended or banned by an admin: explain why, then sign out
+              toast.error(accountRestrictionMessage(profileError.response.data), { duration: 10000 });
+              setUser(null);
+              await logoutUser();
             } else {
               // Other errors (401 unauthorized, 500 server error, etc.)
               console.error("Auth error:", profileError.response?.status, profileError.response?.data);
@@ -250,6 +324,7 @@ export default function App() {
         setMyPosts([]);
         setChatRooms([]);
         setChatMessages({});
+        setUnreadChatCount(0);
         setAuthToken(null);
         setCurrentPage('landing');
       }
@@ -264,11 +339,86 @@ export default function App() {
     return () => unsubscribe();
   }, []);
 
+  // Total unread chat messages (the room list is paginated, so the server sums it)
+  const refreshUnreadChatCount = useCallback(async () => {
+    try {
+      const response = await getChatUnreadCount();
+      setUnreadChatCount(response.data.data?.unread || 0);
+    } catch (err) {
+      console.error("Failed to load unread chat count:", err);
+    }
+  }, []);
+
   useEffect(() => {
     if (user) {
       fetchAllData();
+      refreshUnreadChatCount();
     }
-  }, [user, fetchAllData]);
+  }, [user, fetchAllData, refreshUnreadChatCount]);
+
+  // Real-time chat: keep the socket open while logged in
+  useEffect(() => {
+    if (!user) return;
+    connectChatSocket();
+    return () => disconnectChatSocket();
+  }, [user?.id]);
+
+  // Pushed room updates and new messages (only for rooms the user is in)
+  useChatEvents(useCallback((event: ChatSocketEvent) => {
+    if (event.type === 'room') {
+      // Most recently active first, same as GET /api/chat; read receipts update in place
+      setChatRooms(prev => {
+        const existing = prev.find(room => room.id === event.room.id);
+        if (existing && existing.updatedAt === event.room.updatedAt) {
+          return prev.map(room => (room.id === event.room.id ? event.room : room));
+        }
+        return [event.room, ...prev.filter(room => room.id !== event.room.id)];
+      });
+      refreshUnreadChatCount();
+    } else if (event.type === 'message') {
+      // Known ids are updates (an offer was answered); the rest are new messages
+      setChatMessages(prev => {
+        const loaded = prev[event.roomId] || [];
+        return {
+          ...prev,
+          [event.roomId]: loaded.some(message => message.id === event.message.id)
+            ? loaded.map(message => (message.id === event.message.id ? event.message : message))
+            : [...loaded, event.message],
+        };
+      });
+    }
+  }, [refreshUnreadChatCount]));
+
+  // After a reconnect, catch up on room changes missed while the socket was down
+  const chatSocketConnected = useChatSocketStatus();
+  const chatSocketConnectedBefore = useRef(false);
+  useEffect(() => {
+    if (!chatSocketConnected) return;
+    if (chatSocketConnectedBefore.current) {
+      getChatRooms()
+        .then(response => {
+          const latest = response.data.data || [];
+          const latestIds = new Set(latest.map((room: any) => room.id));
+          setChatRooms(prev => [...latest, ...prev.filter(room => !latestIds.has(room.id))]);
+        })
+        .catch(err => console.error("Failed to refresh chat rooms:", err));
+      refreshUnreadChatCount();
+    }
+    chatSocketConnectedBefore.current = true;
+  }, [chatSocketConnected]);
+
+  // Opened a room with unread messages
+  const handleMarkChatRead = useCallback(async (roomId: string) => {
+    setChatRooms(prev => prev.map(room => (room.id === roomId ? { ...room, unreadCount: 0 } : room)));
+    try {
+      const response = await markChatRoomRead(roomId);
+      const room = response.data.data;
+      setChatRooms(prev => prev.map(r => (r.id === roomId ? { ...r, ...room } : r)));
+    } catch (err) {
+      console.error("Failed to mark chat room read:", err);
+    }
+    refreshUnreadChatCount();
+  }, [refreshUnreadChatCount]);
 
   const handleLogin = async (email: string, password: string) => {
     try {
@@ -298,12 +448,15 @@ export default function App() {
   };
 
   const handleLogout = async () => {
+    // Pushes for this account should not keep arriving on a shared device
+    await disablePush().catch(err => console.error("Failed to disable push:", err));
     await logoutUser();
     setUser(null);
     setAllPosts([]);      // Clear all posts
     setMyPosts([]);       // Clear user's posts
     setChatRooms([]);
     setChatMessages({});
+    setUnreadChatCount(0);
     setAuthToken(null);
     setCurrentPage('landing');
   };
@@ -318,7 +471,60 @@ export default function App() {
     }
   };
 
-  const handleViewPostDetail = (postId: string) => {
+  /**
+   * Open an in-app link from a notification
+   * Links look like /bookings/<id>, /demands/<id>, /chat/<roomId> or /products/<id>
+   */
+  const handleOpenLink = async (link: string) => {
+    const [section, id] = link.split('/').filter(Boolean);
+    if (section === 'chat' && id) {
+      // The room may be on a page of the room list that is not loaded yet
+      if (!chatRooms.some(room => room.id === id)) {
+        try {
+          const response = await getChatRoomById(id);
+          setChatRooms(prev => (prev.some(room => room.id === id) ? prev : [response.data.data, ...prev]));
+        } catch (err) {
+          console.error("Failed to load chat room:", err);
+          return;
+        }
+      }
+      setSelectedRoomId(id);
+      navigateTo('chat');
+    } else if (section === 'products' && id) {
+      handleViewPostDetail(id);
+    } else if (section === 'bookings' || section === 'demands' || section === 'profile') {
+      navigateTo(section);
+    }
+  };
+
+  // Web push: a clicked notification opens its link in this tab (message from the service worker)
+  // or starts a new tab at /?link=<link>
+  const openLinkRef = useRef(handleOpenLink);
+  openLinkRef.current = handleOpenLink;
+  useEffect(() => {
+    if (!user) return;
+    const pendingLink = new URLSearchParams(window.location.search).get('link');
+    if (pendingLink) {
+      window.history.replaceState(null, '', window.location.pathname);
+      openLinkRef.current(pendingLink);
+    }
+    return subscribeOpenLink(link => openLinkRef.current(link));
+  }, [user?.id]);
+
+  const handleViewPostDetail = async (postId: string) => {
+    // Posts linked from elsewhere (e.g. fertilizer matches) may not be on a loaded marketplace page yet
+    if (!allPosts.some(p => p.id === postId)) {
+      try {
+        const response = await getProductById(postId);
+        const post = response.data.data;
+        if (post) {
+          setAllPosts(prev => [{ ...post, id: postId }, ...prev]);
+        }
+      } catch (err) {
+        console.error("Failed to load post:", err);
+        return;
+      }
+    }
     setSelectedPostId(postId);
     setCurrentPage('post-detail');
   };
@@ -395,10 +601,8 @@ export default function App() {
         const response = await createChatRoom(postId);
         const room = response.data.data;
         
-        // Add room to state if not exists
-        if (!chatRooms.find(r => r.id === room.id)) {
-          setChatRooms(prev => [...prev, room]);
-        }
+        // Add room to state if not exists (the socket may already have pushed it)
+        setChatRooms(prev => (prev.some(r => r.id === room.id) ? prev : [...prev, room]));
         
         // Navigate to chat with room ID
         setSelectedRoomId(room.id);
@@ -414,6 +618,29 @@ export default function App() {
     }
   };
   
+  /**
+   * Handle booking a post from PostDetail
+   * Buyer is always the logged-in user; seller is the post owner
+   */
+  const handleBookPost = async (post: Post, quantity: number, bookingDate: string) => {
+    if (!user) return;
+    try {
+      await createBooking({
+        productId: post.id,
+        buyerId: user.uid || user.id,
+        sellerId: post.userId,
+        quantity,
+        bookingDate,
+      });
+      toast.success('ส่งคำขอจองแล้ว');
+      await fetchAllData(); // Refresh remaining/reserved quantity
+      navigateTo('bookings');
+    } catch (err: any) {
+      console.error("Failed to create booking:", err);
+      toast.error(err?.response?.data?.message || "ไม่สามารถจองได้");
+    }
+  };
+  
   const handleOpenChatDialog = (postId: string) => {
     setChatPostId(postId);
   };
@@ -422,31 +649,6 @@ export default function App() {
     setChatPostId(null);
   };
   
-  /**
-   * Handle confirming a sale
-   * Updates the post's sold status in both allPosts and myPosts
-   */
-  const handleConfirmSale = (postId: string, roomId: string) => {
-    // Update in allPosts (for Marketplace view)
-    setAllPosts(prev => prev.map(p => p.id === postId ? { ...p, sold: true } : p));
-    // Update in myPosts (for Profile/Dashboard view) if it's user's own post
-    setMyPosts(prev => prev.map(p => p.id === postId ? { ...p, sold: true } : p));
-    setConfirmedChatRooms(prev => new Set([...prev, roomId]));
-  };
-
-  /**
-   * Handle canceling a chat
-   * MULTI-USER: Chat rooms are managed by ChatPage, so we just clear the selection
-   */
-  const handleCancelChat = (roomId: string) => {
-    setSelectedRoomId(null);
-    setConfirmedChatRooms(prev => {
-      const newSet = new Set(prev);
-      newSet.delete(roomId);
-      return newSet;
-    });
-  };
-
   /**
    * MULTI-USER AUTHENTICATION:
    * - ถ้ายังไม่ login → แสดงหน้า Login/Register/Landing เท่านั้น
@@ -493,7 +695,7 @@ export default function App() {
   // ถ้า login แล้ว → แสดงหน้าเว็บทั้งหมด
   return (
     <div className="min-h-screen bg-gray-50">
-      <Header user={user!} onLogout={handleLogout} onNavigate={navigateTo} currentPage={currentPage} />
+      <Header user={user!} onLogout={handleLogout} onNavigate={navigateTo} currentPage={currentPage} unreadChatCount={unreadChatCount} onOpenLink={handleOpenLink} />
       
       <main className="pt-16">
         {error && (
@@ -528,6 +730,9 @@ export default function App() {
             onDelete={handleDeletePost}
             onChat={handleOpenChatDialog}
             chattingPostIds={new Set(chatRooms.map(room => room.postId || room.productId))}
+            hasMore={postsCursor !== null}
+            isLoadingMore={isLoadingMorePosts}
+            onLoadMore={loadMorePosts}
           />
         )}
         {currentPage === 'create-post' && user!.role !== 'admin' && (
@@ -549,12 +754,21 @@ export default function App() {
             onDelete={() => handleDeletePost(currentPost.id)}
             isMyPost={String(currentPost.userId) === String(user!.id || user!.uid)}
             onChat={() => handleOpenChat(currentPost.id)}
+            onBook={(quantity, bookingDate) => handleBookPost(currentPost, quantity, bookingDate)}
           />
         )}
         {currentPage === 'bookings' && user!.role !== 'admin' && <BookingPage user={user!} />}
+        {currentPage === 'demands' && user!.role !== 'admin' && (
+          <DemandRequestsPage
+            user={user!}
+            myPosts={myPosts}            // Seller offers one of their own products
+            onBookingCreated={fetchAllData}
+          />
+        )}
         {currentPage === 'fertilizer-advisor' && user!.role !== 'admin' && (
           <FertilizerAdvisor 
             defaultTab="recommendation" 
+            onViewProduct={handleViewPostDetail}
             onTabChange={(tab) => {
               if (tab === 'calculator') {
                 setCurrentPage('npk-calculator');
@@ -568,6 +782,7 @@ export default function App() {
         {currentPage === 'npk-calculator' && user!.role !== 'admin' && (
           <FertilizerAdvisor 
             defaultTab="calculator" 
+            onViewProduct={handleViewPostDetail}
             onTabChange={(tab) => {
               if (tab === 'recommendation') {
                 setCurrentPage('fertilizer-advisor');
@@ -587,13 +802,16 @@ export default function App() {
             user={user!} 
             chatRooms={chatRooms}        // MULTI-USER: Chat rooms from API
             posts={allPosts}              // MULTI-USER: Use allPosts to find post details
-            confirmedRoomIds={confirmedChatRooms}
             chatMessages={chatMessages}
             setChatMessages={setChatMessages}
             onBack={() => navigateTo('dashboard')} 
-            onConfirmSale={handleConfirmSale}
+            onBookingChanged={fetchAllData}
+            onViewBookings={() => navigateTo('bookings')}
             initialRoomId={selectedRoomId}
-            onCancelChat={handleCancelChat}
+            hasMoreRooms={chatRoomsCursor !== null}
+            isLoadingMoreRooms={isLoadingMoreChatRooms}
+            onLoadMoreRooms={loadMoreChatRooms}
+            onMarkRead={handleMarkChatRead}
           />
         )}
         {currentPage === 'profile' && user!.role !== 'admin' && (
@@ -615,6 +833,7 @@ export default function App() {
           />
         )}
         </main>
+        <Toaster position="top-right" richColors />
       </div>
   );
 }
\ No newline at end of file
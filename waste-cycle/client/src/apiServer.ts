@@ -14,8 +14,9 @@ import {
   type User as FirebaseUser,
 } from 'firebase/auth';
 import app from './firebaseConfig';
+import type { ChatAttachment, ChatOffer } from './services/chatService';
 
-const API_URL = 'http://localhost:8000/api';
+export const API_URL = 'http://localhost:8000/api';
 
 const api = axios.create({
   baseURL: API_URL,
@@ -113,6 +114,22 @@ api.interceptors.response.use(
   }
 );
 
+/**
+ * Thai message for a 403 from a suspended or banned account (null for any other response body)
+ */
+export const accountRestrictionMessage = (data?: { code?: string; reason?: string; expiresAt?: string | null }) => {
+  if (data?.code === 'ACCOUNT_BANNED') {
+    return `บัญชีของคุณถูกแบน${data.reason ? `: ${data.reason}` : ''}`;
+  }
+  if (data?.code === 'ACCOUNT_SUSPENDED') {
+    const until = data.expiresAt
+      ? ` ถึง ${new Date(data.expiresAt).toLocaleString('th-TH', { dateStyle: 'medium', timeStyle: 'short' })}`
+      : '';
+    return `บัญชีของคุณถูกระงับชั่วคราว${until}${data.reason ? ` (${data.reason})` : ''}`;
+  }
+  return null;
+};
+
 /**
  * Firebase Authentication Functions
  */
@@ -255,6 +272,15 @@ export const createProfile = async (profileData: {
   }
 };
 
+/**
+ * Cursor pagination shared by list endpoints
+ * Pass the nextCursor from the previous response to get the following page (null = last page)
+ */
+export interface PageParams {
+  limit?: number;
+  cursor?: string | null;
+}
+
 /**
  * Product API Functions
  */
@@ -264,8 +290,8 @@ export const createProfile = async (profileData: {
  * This endpoint returns posts from ALL users combined
  * Used in: Marketplace page
  */
-export const getAllProducts = () => {
-  return api.get('/products/all');
+export const getAllProducts = (params: PageParams = {}) => {
+  return api.get('/products/all', { params });
 };
 
 /**
@@ -301,20 +327,293 @@ export const deleteProduct = (id: string) => {
   return api.delete(`/products/${id}`);
 };
 
+/**
+ * Upload API Functions
+ */
+
+export interface ImageVariant {
+  url: string;        // Full size (longest side 1600px)
+  medium: string;     // 800px, cards and previews
+  thumbnail: string;  // 320px
+}
+
+export interface UploadedImage extends ImageVariant {
+  id: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Upload images to the blob store (EXIF/GPS removed, resized on the server)
+ * Returns one UploadedImage per file, in order
+ */
+export const uploadImages = (files: File[], folder: 'products' | 'chat' | 'reviews' | 'verifications' = 'products') => {
+  const formData = new FormData();
+  files.forEach(file => formData.append('images', file));
+  return api.post('/uploads/images', formData, { params: { folder } });
+};
+
+export interface UploadedFile {
+  id: string;
+  url: string;
+  name: string;
+  size: number;
+  contentType: string;
+}
+
+/**
+ * Upload documents (PDF only, 5MB each) for chat attachments and GAP certificates
+ * Returns one UploadedFile per file, in order
+ */
+export const uploadFiles = (files: File[], folder: 'chat' | 'verifications' = 'chat') => {
+  const formData = new FormData();
+  files.forEach(file => formData.append('files', file));
+  return api.post('/uploads/files', formData, { params: { folder } });
+};
+
+/**
+ * Market Search API Functions
+ */
+
+export interface MarketSearchParams {
+  q?: string;
+  wasteType?: string;
+  sortBy?: string;
+  order?: 'asc' | 'desc';
+  lat?: number;
+  lng?: number;
+  radiusKm?: number;
+  bbox?: string;          // minLat,minLng,maxLat,maxLng
+  includeSold?: boolean;
+}
+
+/**
+ * Search products on the server
+ * Distances are computed from lat/lng (or the user's saved location) by the server
+ */
+export const searchMarket = (params: MarketSearchParams) => {
+  return api.get('/market/search', { params });
+};
+
+/**
+ * Fertilizer API Functions
+ */
+
+export interface ManureRate {
+  manureType: string;
+  name: string;
+  feedType: string;
+  processingState: string;   // Composition the rate is dosed from (default composted)
+  kgPerRai: number;
+  tonPerRai: number;
+  suppliedPerRai: { n: number; p: number; k: number };
+  balancePerRai: { n: number; p: number; k: number };   // supplied - need (kg/rai)
+  limitingNutrient: 'n' | 'p' | 'k' | null;             // still short at the N-based rate
+  totalKg: number;
+  totalTon: number;
+}
+
+export interface FertilizerRecommendationResult {
+  cropType: string;
+  growthStage: string | null;
+  soilType: string;
+  feedType: string;
+  processingState: string;
+  area: { rai: number; hectare: number };
+  needPerRai: { n: number; p: number; k: number };
+  totalNeed: { n: number; p: number; k: number };
+  manures: ManureRate[];   // Smallest application rate first
+}
+
+export const getFertilizerRecommendation = (params: {
+  cropType: string;
+  growthStage?: string;
+  area: number;
+  areaUnit?: 'rai' | 'hectare';
+  soilType?: string;
+  manureTypes?: string[];
+  feedType?: string;
+  processingState?: string;
+}) => {
+  return api.post('/fertilizer/recommend', params);
+};
+
+export interface NutrientRange {
+  min: number;
+  max: number;
+}
+
+export interface NPKCalculationResult {
+  animalType: string;
+  feedType: string;
+  processingState: 'fresh' | 'dried' | 'composted';
+  quantity: number;
+  dryMatter: number;
+  npk: { n: number; p: number; k: number };                    // % of manure as-is
+  npkRange: { n: NutrientRange; p: NutrientRange; k: NutrientRange };
+  nutrientsKg: { n: number; p: number; k: number };
+  nutrientsKgRange: { n: NutrientRange; p: NutrientRange; k: NutrientRange };
+  confidence: number;   // ± relative spread, e.g. 0.2 = ±20%
+}
+
+export const calculateNPK = (params: {
+  animalType: string;
+  feedType: string;
+  processingState: string;
+  quantity: number;
+}) => {
+  return api.post('/fertilizer/calculate', params);
+};
+
+/**
+ * Matching API Functions
+ */
+
+export interface MatchFactor {
+  score: number;   // 0..1
+  weight: number;
+  value: any;
+}
+
+export interface ProductMatch {
+  productId: string;
+  title: string;
+  sellerId: string | null;
+  farmName: string;
+  npk: { n: number; p: number; k: number };
+  price: number;
+  unit: string;
+  available: number;
+  distance: number | null;
+  matchScore: number;  // 0..100
+  breakdown: {
+    npkFit: MatchFactor;
+    distance: MatchFactor;
+    price: MatchFactor;       // value = baht per kg of N+P+K
+    verification: MatchFactor;
+    rating: MatchFactor;
+  };
+}
+
+// Rank available products for a crop (location defaults to the user's saved farm location)
+export const findProductMatches = (params: {
+  cropType: string;
+  quantity?: number;
+  location?: { lat: number; lng: number };
+  radiusKm?: number;
+  limit?: number;
+}) => {
+  return api.post('/matching/find', params);
+};
+
+/**
+ * Demand Request API Functions
+ * Buyers post what they need; sellers answer with offers on their products
+ */
+
+export interface DemandRequestInput {
+  crop: string;
+  wantedNpk?: { n: number; p: number; k: number } | null;
+  quantity: number;
+  unit?: string;
+  deliveryWindow: { from: string; to: string };
+  maxPrice?: number | null;
+  location: { lat: number; lng: number };
+  notes?: string;
+}
+
+export interface OfferInput {
+  productId: string;
+  quantity: number;
+  pricePerUnit: number;
+  deliveryDate: string;
+  message?: string;
+}
+
+// Open requests near lat/lng (defaults to the user's saved location on the server)
+export const getNearbyDemands = (params: { lat?: number; lng?: number; radiusKm?: number; crop?: string } = {}) => {
+  return api.get('/demands', { params });
+};
+
+export const getMyDemands = (params: PageParams = {}) => {
+  return api.get('/demands/mine', { params });
+};
+
+export const createDemand = (demand: DemandRequestInput) => {
+  return api.post('/demands', demand);
+};
+
+export const updateDemand = (id: string, demand: Partial<DemandRequestInput>) => {
+  return api.put(`/demands/${id}`, demand);
+};
+
+export const closeDemand = (id: string) => {
+  return api.delete(`/demands/${id}`);
+};
+
+export const getDemandOffers = (demandId: string) => {
+  return api.get(`/demands/${demandId}/offers`);
+};
+
+export const createOffer = (demandId: string, offer: OfferInput) => {
+  return api.post(`/demands/${demandId}/offers`, offer);
+};
+
+// Accepting creates a booking and returns it
+export const acceptOffer = (demandId: string, offerId: string) => {
+  return api.put(`/demands/${demandId}/offers/${offerId}/accept`);
+};
+
+export const rejectOffer = (demandId: string, offerId: string, reason?: string) => {
+  return api.put(`/demands/${demandId}/offers/${offerId}/reject`, { reason });
+};
+
 /**
  * Chat API Functions
  */
 
-export const getChatRooms = () => {
-  return api.get('/chat');
+export const getChatRooms = (params: PageParams = {}) => {
+  return api.get('/chat', { params });
+};
+
+export const getChatRoomById = (chatId: string) => {
+  return api.get(`/chat/${chatId}`);
 };
 
-export const getChatMessages = (chatId: string) => {
-  return api.get(`/chat/${chatId}/messages`);
+// Newest page of messages in chronological order; nextCursor loads older ones
+export const getChatMessages = (chatId: string, params: PageParams = {}) => {
+  return api.get(`/chat/${chatId}/messages`, { params });
 };
 
-export const sendChatMessage = (chatId: string, text: string) => {
-  return api.post(`/chat/${chatId}/messages`, { text });
+// Attachments must be uploaded first (uploadImages / uploadFiles with folder 'chat')
+export const sendChatMessage = (chatId: string, text: string, attachments: ChatAttachment[] = []) => {
+  return api.post(`/chat/${chatId}/messages`, { text, attachments });
+};
+
+export type ChatOfferTerms = Pick<ChatOffer, 'quantity' | 'pricePerUnit' | 'pickupDate' | 'deliveryOption' | 'note'>;
+
+// Send an offer; replaces the room's pending offer (a counter-offer when the other side made it)
+export const sendChatOffer = (chatId: string, terms: ChatOfferTerms) => {
+  return api.post(`/chat/${chatId}/offers`, terms);
+};
+
+// Accept the offer you received; returns the created booking
+export const acceptChatOffer = (chatId: string, messageId: string) => {
+  return api.put(`/chat/${chatId}/offers/${messageId}/accept`);
+};
+
+export const declineChatOffer = (chatId: string, messageId: string, reason?: string) => {
+  return api.put(`/chat/${chatId}/offers/${messageId}/decline`, { reason });
+};
+
+// Reset the current user's unread count for a room (the other side sees the read receipt)
+export const markChatRoomRead = (chatId: string) => {
+  return api.put(`/chat/${chatId}/read`);
+};
+
+// Total unread messages across all rooms: { unread }
+export const getChatUnreadCount = () => {
+  return api.get('/chat/unread-count');
 };
 
 export const createChatRoom = (productId: string) => {
@@ -337,18 +636,390 @@ export const updateBookingStatus = (id: string, status: string) => {
   return api.put(`/bookings/${id}/status`, { status });
 };
 
+/**
+ * Review API Functions
+ */
+
+export interface Review {
+  id: string;             // Same as bookingId (one review per booking)
+  bookingId: string;
+  productId: string;
+  productTitle: string;
+  sellerId: string;
+  buyerId: string;
+  buyerName: string;
+  rating: number;         // 1-5
+  comment: string;
+  photos: ImageVariant[];
+  reply: { text: string; createdAt: string } | null;
+  createdAt: string;
+}
+
+// Buyer only, after the booking is completed; photos come from uploadImages(files, 'reviews')
+export const createReview = (review: { bookingId: string; rating: number; comment?: string; photos?: ImageVariant[] }) => {
+  return api.post('/reviews', review);
+};
+
+// Seller only, once per review
+export const replyToReview = (reviewId: string, text: string) => {
+  return api.put(`/reviews/${reviewId}/reply`, { text });
+};
+
+// Newest first; paginated like the other list endpoints
+export const getProductReviews = (productId: string, params: PageParams = {}) => {
+  return api.get(`/reviews/product/${productId}`, { params });
+};
+
+export const getSellerReviews = (sellerId: string, params: PageParams = {}) => {
+  return api.get(`/reviews/seller/${sellerId}`, { params });
+};
+
 /**
  * Notification API Functions
  */
 
-export const getNotifications = () => {
-  return api.get('/notifications');
+export type NotificationType =
+  | 'new_booking'
+  | 'booking_update'
+  | 'match_accepted'
+  | 'match_rejected'
+  | 'new_offer'
+  | 'new_review'
+  | 'verification'
+  | 'chat'
+  | 'report_update'   // What happened to something I reported
+  | 'warning';        // Moderator warning about my content
+
+export interface AppNotification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  title?: string;
+  message: string;
+  link?: string;          // In-app path, e.g. /bookings/<id>, /chat/<roomId>, /demands/<id>
+  read: boolean;
+  createdAt: string;
+  messageCount?: number;  // Chat notifications batch a burst of messages
+}
+
+// Newest first; paginated like the other list endpoints
+export const getNotifications = (params: { type?: NotificationType; limit?: number; cursor?: string } = {}) => {
+  return api.get('/notifications', { params });
+};
+
+// { unread }
+export const getUnreadNotificationCount = () => {
+  return api.get('/notifications/unread-count');
 };
 
 export const markNotificationAsRead = (id: string) => {
   return api.put(`/notifications/${id}/read`);
 };
 
+export const markAllNotificationsAsRead = () => {
+  return api.put('/notifications/read-all');
+};
+
+export const deleteNotification = (id: string) => {
+  return api.delete(`/notifications/${id}`);
+};
+
+export type NotificationChannel = 'inApp' | 'email' | 'line' | 'push';
+
+export interface NotificationPreferences {
+  types: Record<NotificationType, boolean>;
+  channels: Record<NotificationChannel, boolean>;
+  quietHours: { enabled: boolean; start: string; end: string; timezone: string }; // email/LINE wait until `end`
+  line: { connected: boolean }; // The LINE user id is never returned
+}
+
+export interface NotificationPreferencesUpdate {
+  types?: Partial<Record<NotificationType, boolean>>;
+  channels?: Partial<Record<NotificationChannel, boolean>>;
+  quietHours?: Partial<NotificationPreferences['quietHours']>;
+  line?: { userId?: string | null }; // Messaging API user id; null disconnects
+}
+
+export const getNotificationPreferences = () => {
+  return api.get('/notifications/preferences');
+};
+
+// Partial update; responds with the saved preferences
+export const updateNotificationPreferences = (update: NotificationPreferencesUpdate) => {
+  return api.put('/notifications/preferences', update);
+};
+
+// { publicKey } - VAPID key for PushManager.subscribe, null when the server has no push configured
+export const getPushPublicKey = () => {
+  return api.get('/notifications/push/public-key');
+};
+
+// Register this device (PushSubscription.toJSON())
+export const subscribePush = (subscription: PushSubscriptionJSON) => {
+  return api.post('/notifications/push/subscriptions', subscription);
+};
+
+export const unsubscribePush = (endpoint: string) => {
+  return api.delete('/notifications/push/subscriptions', { data: { endpoint } });
+};
+
+/**
+ * Farm Verification API Functions
+ */
+
+export type FarmVerificationStatus = 'pending' | 'approved' | 'rejected';
+
+export interface FarmVerification {
+  id: string;             // Same as userId (one application per seller)
+  userId: string;
+  userName: string;
+  email: string;
+  farmName: string;
+  registrationNumber: string;
+  livestockType: string;
+  livestockCount: number;
+  photos: ImageVariant[];
+  gapCertificate: Omit<UploadedFile, 'id'> | null;
+  status: FarmVerificationStatus;
+  reason: string;         // Why it was rejected
+  submittedAt: string;
+  reviewedAt: string | null;
+  reviewedBy: string | null;
+  history: { status: FarmVerificationStatus; at: string; by: string; reason?: string }[];
+}
+
+export interface FarmVerificationInput {
+  farmName?: string;
+  registrationNumber: string;
+  livestockType?: string;
+  livestockCount: number;
+  photos: ImageVariant[];                         // uploadImages(files, 'verifications')
+  gapCertificate?: Omit<UploadedFile, 'id'> | null; // uploadFiles([pdf], 'verifications')
+}
+
+// My application, data is null when I never applied
+export const getMyFarmVerification = () => {
+  return api.get('/farms/verification');
+};
+
+// Allowed when there is no application yet or the last one was rejected
+export const submitFarmVerification = (application: FarmVerificationInput) => {
+  return api.post('/farms/verification', application);
+};
+
+/**
+ * Content Report API Functions
+ */
+
+export type ReportTargetType = 'product' | 'community_post' | 'comment' | 'chat_message' | 'user';
+export type ReportStatus = 'pending' | 'reviewing' | 'actioned' | 'dismissed';
+export type ReportReason = 'spam' | 'scam' | 'misleading' | 'inappropriate' | 'harassment' | 'other';
+export type ReportAction = 'hide' | 'warn' | 'suspend' | 'dismiss';
+
+// Comments need their postId and chat messages their chatRoomId
+export interface ReportContext {
+  postId?: string;
+  chatRoomId?: string;
+}
+
+export interface ContentReport {
+  id: string;
+  targetType: ReportTargetType;
+  targetId: string;
+  context: ReportContext;
+  targetOwnerId: string;
+  targetPreview: string;   // Title or first characters of the text at report time
+  reporterId: string;
+  reporterName: string;
+  reason: ReportReason;
+  details: string;
+  status: ReportStatus;
+  resolution: { action: ReportAction; note: string; by: string; at: string } | null;
+  history: { status: ReportStatus; by: string; at: string; note?: string }[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReportInput {
+  targetType: ReportTargetType;
+  targetId: string;
+  reason: ReportReason;
+  details?: string;
+  context?: ReportContext;
+}
+
+// 409 when I already have an open report on the same target
+export const createReport = (report: ReportInput) => {
+  return api.post('/reports', report);
+};
+
+/**
+ * Admin API Functions
+ */
+
+export type AdminUserRole = 'user' | 'seller' | 'admin';
+
+export interface AdminUser {
+  id: string;
+  name: string;
+  email: string;
+  role: AdminUserRole;
+  farmName?: string;
+  verified?: boolean;
+  suspended?: boolean;
+  suspendedUntil?: string | null;   // null = until lifted; past dates no longer apply
+  suspensionReason?: string;
+  banned?: boolean;
+  banReason?: string;
+  createdAt?: string | null;
+  postsCount: number;
+  bookingsCount: number;   // As buyer or seller
+}
+
+export interface AdminUserFilters extends PageParams {
+  q?: string;              // Name, email or farm name
+  role?: AdminUserRole;
+  verified?: boolean;
+  joinedFrom?: string;     // YYYY-MM-DD
+  joinedTo?: string;       // YYYY-MM-DD, inclusive
+}
+
+// { users, nextCursor }
+export const getAdminUsers = (params: AdminUserFilters = {}) => {
+  return api.get('/admin/users', { params });
+};
+
+export type BulkUserAction = 'suspend' | 'unsuspend' | 'role' | 'verify';
+
+export interface SuspensionInput {
+  reason: string;
+  days?: number;           // Omit both days and until to suspend until lifted
+  until?: string;
+}
+
+// { updated, results: [{ id, success, error? }] }; suspend needs a SuspensionInput
+export const bulkUpdateUsers = (
+  action: BulkUserAction,
+  userIds: string[],
+  options: { role?: AdminUserRole } & Partial<SuspensionInput> = {}
+) => {
+  return api.post('/admin/users/bulk', { action, userIds, ...options });
+};
+
+export const suspendUser = (userId: string, suspension: SuspensionInput) => {
+  return api.post(`/admin/users/${userId}/suspend`, suspension);
+};
+
+export const unsuspendUser = (userId: string, reason?: string) => {
+  return api.post(`/admin/users/${userId}/unsuspend`, { reason });
+};
+
+export type BanListingMode = 'keep' | 'hide' | 'transfer';
+
+// Disables the account; active listings are kept, hidden or moved to transferTo
+export const banUser = (userId: string, ban: { reason: string; listings?: BanListingMode; transferTo?: string }) => {
+  return api.post(`/admin/users/${userId}/ban`, ban);
+};
+
+// Listings hidden or transferred by the ban come back unless restoreListings is false
+export const unbanUser = (userId: string, options: { reason?: string; restoreListings?: boolean } = {}) => {
+  return api.post(`/admin/users/${userId}/unban`, options);
+};
+
+export interface ModerationLogEntry {
+  id: string;
+  userId: string;
+  action: 'suspend' | 'unsuspend' | 'ban' | 'unban';
+  reason: string;
+  until: string | null;
+  listings: { mode: BanListingMode | 'restore'; productIds: string[]; transferTo: string | null } | null;
+  by: string;
+  at: string;
+}
+
+// Newest first; paginated like the other list endpoints
+export const getUserModerationLog = (userId: string, params: PageParams = {}) => {
+  return api.get(`/admin/users/${userId}/moderation`, { params });
+};
+
+// Pending applications oldest first; approved/rejected newest first
+export const getFarmVerifications = (params: PageParams & { status?: FarmVerificationStatus } = {}) => {
+  return api.get('/admin/verifications', { params });
+};
+
+// Marks the seller and all their products as verified
+export const approveFarmVerification = (userId: string) => {
+  return api.put(`/admin/verifications/${userId}/approve`);
+};
+
+export const rejectFarmVerification = (userId: string, reason: string) => {
+  return api.put(`/admin/verifications/${userId}/reject`, { reason });
+};
+
+// Pending/reviewing oldest first; actioned/dismissed newest first
+export const getReports = (params: PageParams & { status?: ReportStatus; targetType?: ReportTargetType } = {}) => {
+  return api.get('/admin/reports', { params });
+};
+
+// Marks the report as being reviewed by me
+export const startReportReview = (reportId: string) => {
+  return api.put(`/admin/reports/${reportId}/review`);
+};
+
+// Closes every open report on the same target and notifies the reporters; days only applies to suspend
+export const actOnReport = (reportId: string, action: ReportAction, options: { note?: string; days?: number } = {}) => {
+  return api.post(`/admin/reports/${reportId}/action`, { action, ...options });
+};
+
+// Hide or show content outside of a report (e.g. undo a hide)
+export const moderateContent = (
+  action: 'hide' | 'unhide',
+  targetType: Exclude<ReportTargetType, 'user'>,
+  targetId: string,
+  context: ReportContext = {}
+) => {
+  return api.post('/admin/content', { action, targetType, targetId, context });
+};
+
+export type AuditTargetType = 'user' | 'product' | 'booking' | 'report' | 'verification' | 'content';
+
+export interface AuditLogEntry {
+  id: string;
+  action: string;          // e.g. user.role, booking.status, product.delete, user.suspend
+  actorId: string | null;
+  actorRole: string | null;
+  targetType: AuditTargetType | null;
+  targetId: string | null;
+  changes: Record<string, { before: unknown; after: unknown }>;
+  metadata: Record<string, unknown>;
+  method: string | null;   // null for background jobs (actorRole 'system')
+  path: string | null;
+  statusCode: number | null;
+  ip: string | null;
+  requestId: string | null;
+  at: string;
+}
+
+export interface AuditLogFilters extends PageParams {
+  q?: string;              // Substring of action, actor, target, path, IP or request id
+  action?: string;
+  actorId?: string;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  from?: string;           // YYYY-MM-DD
+  to?: string;             // YYYY-MM-DD, inclusive
+}
+
+// Newest first; paginated like the other list endpoints
+export const getAuditLogs = (params: AuditLogFilters = {}) => {
+  return api.get('/admin/audit-logs', { params });
+};
+
+// CSV file (Blob) of the filtered log; X-Truncated: true when the row limit was hit
+export const exportAuditLogs = (params: Omit<AuditLogFilters, 'limit' | 'cursor'> = {}) => {
+  return api.get('/admin/audit-logs/export', { params, responseType: 'blob' });
+};
+
 // Initialize token from localStorage on module load
 const token = localStorage.getItem('authToken');
 if (token) {
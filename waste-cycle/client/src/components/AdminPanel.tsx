@@ -1,9 +1,12 @@
-import { useState } from 'react';
-import { Users, FileText, CheckCircle, XCircle, AlertTriangle, Search } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { Users, FileText, CheckCircle, XCircle, AlertTriangle, Search, Loader2, Ban } from 'lucide-react';
+import { toast } from 'sonner';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import {
   Table,
@@ -13,40 +16,119 @@ import {
   TableHeader,
   TableRow,
 } from './ui/table';
+import {
+  getAdminUsers,
+  bulkUpdateUsers,
+  type AdminUser,
+  type AdminUserRole,
+  type AdminUserFilters,
+  type BulkUserAction,
+} from '../apiServer';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import { FarmVerificationQueue } from './FarmVerification';
+import { UserModerationDialog, isSuspensionActive } from './UserModeration';
+import { ReportQueue } from './ContentReports';
+import { AuditLogViewer } from './AuditLogViewer';
 
-interface UserData {
-  id: string;
-  name: string;
-  email: string;
-  role: string;
-  farmName?: string;
-  verified: boolean;
-  postsCount: number;
-  joinedDate: string;
-}
-
-const mockUsers: UserData[] = [
-  { id: '1', name: 'สมชาย', email: 'somchai@farm.com', role: 'user', farmName: 'ฟาร์มไก่ไข่ภูเก็ต', verified: true, postsCount: 12, joinedDate: '2024-08-15' },
-  { id: '2', name: 'สมหญิง', email: 'somying@farm.com', role: 'user', farmName: 'ฟาร์มโคนมสุรินทร์', verified: true, postsCount: 8, joinedDate: '2024-09-20' },
-  { id: '3', name: 'สมศักดิ์', email: 'somsak@crop.com', role: 'user', farmName: 'ฟาร์มผักอินทรีย์', verified: false, postsCount: 3, joinedDate: '2024-11-05' },
-  { id: '4', name: 'สมพร', email: 'somporn@farm.com', role: 'user', farmName: 'ฟาร์มมังคุด', verified: true, postsCount: 5, joinedDate: '2024-10-12' },
-];
-
-const mockReports = [
-  { id: 'r1', type: 'post', targetId: 'p5', reason: 'ข้อมูลไม่ตรงกับสินค้าจริง', reporter: 'ผู้ใช้ A', date: '2024-11-10', status: 'pending' },
-  { id: 'r2', type: 'user', targetId: 'u12', reason: 'พฤติกรรมไม่เหมาะสม', reporter: 'ผู้ใช้ B', date: '2024-11-09', status: 'pending' },
-  { id: 'r3', type: 'post', targetId: 'p8', reason: 'ราคาไม่สมเหตุสมผล', reporter: 'ผู้ใช้ C', date: '2024-11-08', status: 'resolved' },
-];
+const roleLabels: Record<AdminUserRole, string> = {
+  user: 'ผู้ใช้ทั่วไป',
+  seller: 'ผู้ขาย',
+  admin: 'ผู้ดูแลระบบ',
+};
 
 export function AdminPanel() {
   const [searchTerm, setSearchTerm] = useState('');
+  const [roleFilter, setRoleFilter] = useState<'all' | AdminUserRole>('all');
+  const [verifiedFilter, setVerifiedFilter] = useState<'all' | 'true' | 'false'>('all');
+  const [joinedFrom, setJoinedFrom] = useState('');
+  const [joinedTo, setJoinedTo] = useState('');
   const [selectedTab, setSelectedTab] = useState('users');
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [usersCursor, setUsersCursor] = useState<string | null>(null);
+  const [isLoadingUsers, setIsLoadingUsers] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkRole, setBulkRole] = useState<AdminUserRole>('seller');
+  const [isApplyingBulk, setIsApplyingBulk] = useState(false);
+  const [moderatedUser, setModeratedUser] = useState<AdminUser | null>(null);
 
-  const filteredUsers = mockUsers.filter(user =>
-    user.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    user.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    user.farmName?.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  // Search and filters run on the server (name/email/farm name, role, verified, joined date)
+  const [filters, setFilters] = useState<AdminUserFilters>({});
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters({
+        q: searchTerm.trim() || undefined,
+        role: roleFilter === 'all' ? undefined : roleFilter,
+        verified: verifiedFilter === 'all' ? undefined : verifiedFilter === 'true',
+        joinedFrom: joinedFrom || undefined,
+        joinedTo: joinedTo || undefined,
+      });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm, roleFilter, verifiedFilter, joinedFrom, joinedTo]);
+
+  // Load one page of users; cursor = null starts from the first page
+  const fetchUsers = useCallback(async (cursor: string | null) => {
+    setIsLoadingUsers(true);
+    try {
+      const response = await getAdminUsers({ ...filters, cursor });
+      const page: AdminUser[] = response.data.users || [];
+      setUsers(prev => {
+        if (!cursor) return page;
+        const existingIds = new Set(prev.map(u => u.id));
+        return [...prev, ...page.filter(u => !existingIds.has(u.id))];
+      });
+      setUsersCursor(response.data.nextCursor || null);
+    } catch (err) {
+      console.error('Failed to fetch users:', err);
+    } finally {
+      setIsLoadingUsers(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    setSelectedIds(new Set());
+    fetchUsers(null);
+  }, [fetchUsers]);
+
+  const loadMoreUsersRef = useInfiniteScroll(() => fetchUsers(usersCursor), usersCursor !== null, isLoadingUsers);
+
+  const toggleSelected = (userId: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(userId);
+      else next.delete(userId);
+      return next;
+    });
+  };
+
+  const allSelected = users.length > 0 && users.every(u => selectedIds.has(u.id));
+
+  const applyBulk = async (action: BulkUserAction, userIds: string[] = [...selectedIds]) => {
+    if (userIds.length === 0) return;
+
+    const options: Parameters<typeof bulkUpdateUsers>[2] = {};
+    if (action === 'role') options.role = bulkRole;
+    if (action === 'suspend') {
+      // Bulk suspensions last until lifted; time-bound ones are set per user
+      const reason = prompt(`เหตุผลในการระงับบัญชีผู้ใช้ ${userIds.length} คน`);
+      if (!reason?.trim()) return;
+      options.reason = reason.trim();
+    }
+
+    setIsApplyingBulk(true);
+    try {
+      const response = await bulkUpdateUsers(action, userIds, options);
+      const failed = response.data.results.filter((r: { success: boolean }) => !r.success).length;
+      if (failed > 0) toast.error(`ดำเนินการไม่สำเร็จ ${failed} บัญชี`);
+      if (response.data.updated > 0) toast.success(`อัปเดตผู้ใช้ ${response.data.updated} บัญชีแล้ว`);
+      setSelectedIds(new Set());
+      await fetchUsers(null);
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'ไม่สามารถอัปเดตผู้ใช้ได้');
+    } finally {
+      setIsApplyingBulk(false);
+    }
+  };
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -107,7 +189,9 @@ export function AdminPanel() {
       <Tabs value={selectedTab} onValueChange={setSelectedTab}>
         <TabsList className="mb-6">
           <TabsTrigger value="users">จัดการผู้ใช้</TabsTrigger>
+          <TabsTrigger value="verifications">ยืนยันฟาร์ม</TabsTrigger>
           <TabsTrigger value="reports">รายงานปัญหา</TabsTrigger>
+          <TabsTrigger value="audit">บันทึกการดำเนินการ</TabsTrigger>
           <TabsTrigger value="settings">ตั้งค่าระบบ</TabsTrigger>
         </TabsList>
 
@@ -123,64 +207,154 @@ export function AdminPanel() {
                 <div className="relative w-full md:w-64">
                   <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
                   <Input
-                    placeholder="ค้นหาผู้ใช้..."
+                    placeholder="ค้นหาชื่อ อีเมล หรือฟาร์ม..."
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
                     className="pl-10"
                   />
                 </div>
               </div>
+              <div className="flex flex-wrap items-center gap-2 mt-4">
+                <Select value={roleFilter} onValueChange={(value: 'all' | AdminUserRole) => setRoleFilter(value)}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">ทุกบทบาท</SelectItem>
+                    {(Object.keys(roleLabels) as AdminUserRole[]).map(role => (
+                      <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={verifiedFilter} onValueChange={(value: 'all' | 'true' | 'false') => setVerifiedFilter(value)}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">ทุกสถานะ</SelectItem>
+                    <SelectItem value="true">ยืนยันแล้ว</SelectItem>
+                    <SelectItem value="false">ยังไม่ยืนยัน</SelectItem>
+                  </SelectContent>
+                </Select>
+                <span className="text-sm text-gray-600 ml-2">สมัครระหว่าง</span>
+                <Input type="date" className="w-40" value={joinedFrom} onChange={(e) => setJoinedFrom(e.target.value)} />
+                <span className="text-sm text-gray-600">ถึง</span>
+                <Input type="date" className="w-40" value={joinedTo} onChange={(e) => setJoinedTo(e.target.value)} />
+              </div>
+
+              {/* Bulk actions for the selected users */}
+              {selectedIds.size > 0 && (
+                <div className="flex flex-wrap items-center gap-2 mt-4 p-3 bg-gray-50 rounded-lg">
+                  <span className="text-sm">เลือก {selectedIds.size} บัญชี</span>
+                  <Button size="sm" variant="outline" disabled={isApplyingBulk} onClick={() => applyBulk('verify')}>
+                    <CheckCircle className="w-4 h-4 mr-1" />
+                    ยืนยันฟาร์ม
+                  </Button>
+                  <Button size="sm" variant="outline" disabled={isApplyingBulk} onClick={() => applyBulk('suspend')}>
+                    <Ban className="w-4 h-4 mr-1" />
+                    ระงับบัญชี
+                  </Button>
+                  <Button size="sm" variant="outline" disabled={isApplyingBulk} onClick={() => applyBulk('unsuspend')}>
+                    ยกเลิกการระงับ
+                  </Button>
+                  <Select value={bulkRole} onValueChange={(value: AdminUserRole) => setBulkRole(value)}>
+                    <SelectTrigger className="w-36 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(roleLabels) as AdminUserRole[]).map(role => (
+                        <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button size="sm" variant="outline" disabled={isApplyingBulk} onClick={() => applyBulk('role')}>
+                    เปลี่ยนบทบาท
+                  </Button>
+                  {isApplyingBulk && <Loader2 className="w-4 h-4 animate-spin text-gray-500" />}
+                </div>
+              )}
             </CardHeader>
             <CardContent>
               <div className="overflow-x-auto">
                 <Table>
                   <TableHeader>
                     <TableRow>
+                      <TableHead>
+                        <Checkbox
+                          checked={allSelected}
+                          onCheckedChange={(checked: boolean | 'indeterminate') => setSelectedIds(checked === true ? new Set(users.map(u => u.id)) : new Set())}
+                          aria-label="เลือกทั้งหมด"
+                        />
+                      </TableHead>
                       <TableHead>ชื่อ</TableHead>
                       <TableHead>อีเมล</TableHead>
                       <TableHead>บทบาท</TableHead>
                       <TableHead>ฟาร์ม</TableHead>
                       <TableHead>สถานะ</TableHead>
                       <TableHead>โพสต์</TableHead>
+                      <TableHead>การจอง</TableHead>
                       <TableHead>วันที่สมัคร</TableHead>
                       <TableHead>จัดการ</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {filteredUsers.map(user => (
+                    {users.map(user => (
                       <TableRow key={user.id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.has(user.id)}
+                            onCheckedChange={(checked: boolean | 'indeterminate') => toggleSelected(user.id, checked === true)}
+                            aria-label={`เลือก ${user.name}`}
+                          />
+                        </TableCell>
                         <TableCell>{user.name}</TableCell>
                         <TableCell className="text-sm text-gray-600">{user.email}</TableCell>
                         <TableCell>
-                          <Badge variant="outline">ผู้ใช้ทั่วไป</Badge>
+                          <Badge variant="outline">{roleLabels[user.role] || user.role}</Badge>
                         </TableCell>
                         <TableCell className="text-sm">{user.farmName || '-'}</TableCell>
                         <TableCell>
-                          {user.verified ? (
-                            <Badge className="bg-green-100 text-green-800">
-                              <CheckCircle className="w-3 h-3 mr-1" />
-                              ยืนยันแล้ว
-                            </Badge>
-                          ) : (
-                            <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">
-                              <AlertTriangle className="w-3 h-3 mr-1" />
-                              รอยืนยัน
-                            </Badge>
-                          )}
+                          <div className="flex flex-col gap-1 items-start">
+                            {user.verified ? (
+                              <Badge className="bg-green-100 text-green-800">
+                                <CheckCircle className="w-3 h-3 mr-1" />
+                                ยืนยันแล้ว
+                              </Badge>
+                            ) : (
+                              <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">
+                                <AlertTriangle className="w-3 h-3 mr-1" />
+                                รอยืนยัน
+                              </Badge>
+                            )}
+                            {user.banned ? (
+                              <Badge className="bg-red-100 text-red-800">
+                                <Ban className="w-3 h-3 mr-1" />
+                                ถูกแบน
+                              </Badge>
+                            ) : isSuspensionActive(user) && (
+                              <Badge className="bg-red-100 text-red-800">
+                                <XCircle className="w-3 h-3 mr-1" />
+                                {user.suspendedUntil
+                                  ? `ระงับถึง ${new Date(user.suspendedUntil).toLocaleDateString('th-TH')}`
+                                  : 'ถูกระงับ'}
+                              </Badge>
+                            )}
+                          </div>
                         </TableCell>
                         <TableCell>{user.postsCount}</TableCell>
+                        <TableCell>{user.bookingsCount}</TableCell>
                         <TableCell className="text-sm text-gray-600">
-                          {new Date(user.joinedDate).toLocaleDateString('th-TH')}
+                          {user.createdAt ? new Date(user.createdAt).toLocaleDateString('th-TH') : '-'}
                         </TableCell>
                         <TableCell>
                           <div className="flex gap-2">
                             {!user.verified && (
-                              <Button size="sm" variant="outline">
+                              <Button size="sm" variant="outline" onClick={() => setSelectedTab('verifications')}>
                                 ยืนยัน
                               </Button>
                             )}
-                            <Button size="sm" variant="ghost">
-                              ดู
+                            <Button size="sm" variant="ghost" onClick={() => setModeratedUser(user)}>
+                              จัดการบัญชี
                             </Button>
                           </div>
                         </TableCell>
@@ -188,57 +362,37 @@ export function AdminPanel() {
                     ))}
                   </TableBody>
                 </Table>
+                {users.length === 0 && !isLoadingUsers && (
+                  <p className="text-sm text-gray-500 text-center py-8">ไม่พบผู้ใช้ที่ตรงกับเงื่อนไข</p>
+                )}
+                {/* Infinite scroll sentinel for the next page of users */}
+                <div ref={loadMoreUsersRef} className="py-4 flex justify-center text-gray-500">
+                  {isLoadingUsers && <Loader2 className="w-5 h-5 animate-spin" />}
+                </div>
               </div>
             </CardContent>
           </Card>
         </TabsContent>
 
+        <UserModerationDialog
+          user={moderatedUser}
+          onClose={() => setModeratedUser(null)}
+          onChanged={() => fetchUsers(null)}
+        />
+
+        {/* Farm Verification */}
+        <TabsContent value="verifications">
+          <FarmVerificationQueue />
+        </TabsContent>
+
         {/* Reports */}
         <TabsContent value="reports">
-          <Card>
-            <CardHeader>
-              <CardTitle>รายงานปัญหา</CardTitle>
-              <CardDescription>จัดการรายงานจากผู้ใช้</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {mockReports.map(report => (
-                  <Card key={report.id} className={report.status === 'pending' ? 'border-yellow-200 bg-yellow-50' : ''}>
-                    <CardContent className="pt-6">
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1">
-                          <div className="flex items-center gap-2 mb-2">
-                            <Badge variant={report.type === 'post' ? 'default' : 'secondary'}>
-                              {report.type === 'post' ? 'โพสต์' : 'ผู้ใช้'}
-                            </Badge>
-                            <Badge variant={report.status === 'pending' ? 'secondary' : 'outline'}>
-                              {report.status === 'pending' ? 'รอดำเนินการ' : 'ดำเนินการแล้ว'}
-                            </Badge>
-                          </div>
-                          <p className="mb-1">
-                            <span className="text-gray-600">เหตุผล:</span> {report.reason}
-                          </p>
-                          <p className="text-sm text-gray-600">
-                            รายงานโดย: {report.reporter} • {new Date(report.date).toLocaleDateString('th-TH')}
-                          </p>
-                        </div>
-                        {report.status === 'pending' && (
-                          <div className="flex gap-2">
-                            <Button size="sm" variant="outline">
-                              ดูรายละเอียด
-                            </Button>
-                            <Button size="sm">
-                              ดำเนินการ
-                            </Button>
-                          </div>
-                        )}
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
+          <ReportQueue />
+        </TabsContent>
+
+        {/* Audit Log */}
+        <TabsContent value="audit">
+          <AuditLogViewer />
         </TabsContent>
 
         {/* Settings */}
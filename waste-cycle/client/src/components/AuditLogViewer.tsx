@@ -0,0 +1,237 @@
+/**
+ * Admin viewer for the audit log: who changed what (role changes, deletes, booking status,
+ * moderation), with search, filters and CSV export of the filtered entries
+ */
+
+import { useState, useEffect, useCallback, Fragment } from 'react';
+import { Search, Loader2, Download, ChevronDown, ChevronRight } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table';
+import {
+  getAuditLogs,
+  exportAuditLogs,
+  type AuditLogEntry,
+  type AuditLogFilters,
+  type AuditTargetType,
+} from '../apiServer';
+
+const PAGE_SIZE = 50;
+
+const targetLabels: Record<AuditTargetType, string> = {
+  user: 'ผู้ใช้',
+  product: 'ประกาศ',
+  booking: 'การจอง',
+  report: 'รายงานปัญหา',
+  verification: 'ยืนยันฟาร์ม',
+  content: 'เนื้อหา',
+};
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+export function AuditLogViewer() {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [targetType, setTargetType] = useState<'all' | AuditTargetType>('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Same debounce as the user search in AdminPanel
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters({
+        q: searchTerm.trim() || undefined,
+        targetType: targetType === 'all' ? undefined : targetType,
+        from: from || undefined,
+        to: to || undefined,
+      });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm, targetType, from, to]);
+
+  const loadPage = useCallback(async (cursor?: string) => {
+    setIsLoading(true);
+    try {
+      const response = await getAuditLogs({ ...filters, limit: PAGE_SIZE, cursor });
+      const page: AuditLogEntry[] = response.data.data;
+      setEntries(prev => (cursor ? [...prev, ...page] : page));
+      setNextCursor(response.data.nextCursor);
+    } catch (err: any) {
+      console.error('Error loading audit logs:', err);
+      toast.error(err?.response?.data?.message || 'ไม่สามารถโหลดบันทึกได้');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const response = await exportAuditLogs(filters);
+      const url = URL.createObjectURL(response.data as Blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-logs-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+      if (response.headers['x-truncated'] === 'true') {
+        toast.warning('มีรายการมากเกินไป ไฟล์มีเฉพาะรายการล่าสุด กรุณาจำกัดช่วงวันที่');
+      }
+    } catch (error) {
+      console.error('Error exporting audit logs:', error);
+      toast.error('ไม่สามารถส่งออกไฟล์ได้');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <CardTitle>บันทึกการดำเนินการ</CardTitle>
+            <CardDescription>ประวัติการเปลี่ยนแปลงโดยผู้ดูแลระบบและการกระทำสำคัญของผู้ใช้</CardDescription>
+          </div>
+          <Button variant="outline" disabled={isExporting} onClick={handleExport}>
+            {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            ส่งออก CSV
+          </Button>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 mt-4">
+          <div className="relative w-full md:w-72">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <Input
+              placeholder="ค้นหาการกระทำ ผู้ใช้ เป้าหมาย IP..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Select value={targetType} onValueChange={(value: 'all' | AuditTargetType) => setTargetType(value)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">ทุกประเภท</SelectItem>
+              {(Object.keys(targetLabels) as AuditTargetType[]).map(value => (
+                <SelectItem key={value} value={value}>{targetLabels[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-sm text-gray-600 ml-2">ระหว่าง</span>
+          <Input type="date" className="w-40" value={from} onChange={(e) => setFrom(e.target.value)} />
+          <span className="text-sm text-gray-600">ถึง</span>
+          <Input type="date" className="w-40" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead />
+              <TableHead>เวลา</TableHead>
+              <TableHead>การกระทำ</TableHead>
+              <TableHead>ผู้ดำเนินการ</TableHead>
+              <TableHead>เป้าหมาย</TableHead>
+              <TableHead>IP</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map(entry => {
+              const isExpanded = expandedId === entry.id;
+              const changedFields = Object.keys(entry.changes || {});
+              return (
+                <Fragment key={entry.id}>
+                  <TableRow className="cursor-pointer" onClick={() => setExpandedId(isExpanded ? null : entry.id)}>
+                    <TableCell>
+                      {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{new Date(entry.at).toLocaleString('th-TH')}</TableCell>
+                    <TableCell>
+                      <code className="text-xs">{entry.action}</code>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {entry.actorId || '—'}
+                      {entry.actorRole && <Badge variant="outline" className="ml-2">{entry.actorRole}</Badge>}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {entry.targetType ? `${targetLabels[entry.targetType]} ` : ''}{entry.targetId || ''}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">{entry.ip || '—'}</TableCell>
+                  </TableRow>
+                  {isExpanded && (
+                    <TableRow>
+                      <TableCell />
+                      <TableCell colSpan={5} className="bg-gray-50 text-sm space-y-2 whitespace-normal">
+                        <p className="text-gray-600">
+                          {entry.method
+                            ? `${entry.method} ${entry.path} • ${entry.statusCode} • request ${entry.requestId || '—'}`
+                            : 'งานอัตโนมัติของระบบ'}
+                        </p>
+                        {changedFields.length > 0 ? (
+                          <ul className="space-y-1">
+                            {changedFields.map(field => (
+                              <li key={field} className="break-all">
+                                <span className="font-medium">{field}</span>:{' '}
+                                <span className="text-red-700 line-through">{formatValue(entry.changes[field].before)}</span>
+                                {' → '}
+                                <span className="text-green-700">{formatValue(entry.changes[field].after)}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <p className="text-gray-500">ไม่มีข้อมูลก่อน/หลังการเปลี่ยนแปลง</p>
+                        )}
+                        {Object.keys(entry.metadata || {}).length > 0 && (
+                          <pre className="text-xs bg-white border rounded p-2 overflow-x-auto">
+                            {JSON.stringify(entry.metadata, null, 2)}
+                          </pre>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        {entries.length === 0 && !isLoading && (
+          <p className="text-sm text-gray-500 text-center py-8">ไม่มีบันทึก</p>
+        )}
+        {isLoading && (
+          <div className="py-4 flex justify-center text-gray-500">
+            <Loader2 className="w-5 h-5 animate-spin" />
+          </div>
+        )}
+        {!isLoading && nextCursor && (
+          <Button variant="outline" className="w-full mt-4" onClick={() => loadPage(nextCursor)}>
+            โหลดเพิ่มเติม
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,107 +1,161 @@
-import { useState } from 'react';
-import { Calendar, Package, User, MapPin, Clock, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { Calendar, Package, User, MapPin, Clock, CheckCircle, XCircle, AlertCircle, Loader2, Star } from 'lucide-react';
+import { toast } from 'sonner';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import type { User as UserType } from '../App';
+import { getUserBookings, updateBookingStatus } from '../apiServer';
+import { ReviewForm } from './Reviews';
 
 interface BookingPageProps {
   user: UserType;
 }
 
-interface Booking {
+export type BookingStatus = 'requested' | 'accepted' | 'confirmed' | 'in-transit' | 'completed' | 'cancelled';
+
+export interface Booking {
   id: string;
-  postId: string;
+  productId: string;
+  buyerId: string;
+  sellerId: string;
   buyerName: string;
   sellerName: string;
-  farmName: string;
-  wasteType: string;
   quantity: number;
-  totalPrice: number;
-  pickupDate: string;
-  status: 'requested' | 'accepted' | 'confirmed' | 'in-transit' | 'completed' | 'cancelled';
-  distance: number;
-  npk: { n: number; p: number; k: number };
+  bookingDate: string;
+  status: BookingStatus;
+  role: 'buyer' | 'seller';
+  allowedTransitions: BookingStatus[];   // Computed by the server for the current user
+  totalPrice: number | null;
+  reviewId?: string;                     // Set once the buyer reviewed the completed booking
+  createdAt: string;
+  product: {
+    title: string;
+    npk: { n: number; p: number; k: number };
+    price: number;
+    unit: string;
+    wasteType: string;
+    animalType: string;
+    farmName: string;
+    address: string;
+    distance: number;
+  } | null;
 }
 
-const mockBookings: Booking[] = [
-  {
-    id: 'b1',
-    postId: 'p1',
-    buyerName: 'ฟาร์มผักอินทรีย์',
-    sellerName: 'ฟาร์มไก่ไข่ภูเก็ต',
-    farmName: 'ฟาร์มไก่ไข่ภูเก็ต',
-    wasteType: 'มูลไก่แห้ง',
-    quantity: 200,
-    totalPrice: 60000,
-    pickupDate: '2025-11-15',
-    status: 'requested',
-    distance: 12.5,
-    npk: { n: 3.2, p: 2.8, k: 1.5 },
-  },
-  {
-    id: 'b2',
-    postId: 'p2',
-    buyerName: 'ฟาร์มข้าวโพด',
-    sellerName: 'ฟาร์มโคนมสุรินทร์',
-    farmName: 'ฟาร์มโคนมสุรินทร์',
-    wasteType: 'มูลโคหมัก',
-    quantity: 500,
-    totalPrice: 125000,
-    pickupDate: '2025-11-12',
-    status: 'in-transit',
-    distance: 8.3,
-    npk: { n: 2.5, p: 1.8, k: 2.1 },
-  },
-  {
-    id: 'b3',
-    postId: 'p3',
-    buyerName: 'ฟาร์มผักสวนครัว',
-    sellerName: 'ฟาร์มสุกรนครปฐม',
-    farmName: 'ฟาร์มสุกรนครปฐม',
-    wasteType: 'มูลสุกรสด',
-    quantity: 300,
-    totalPrice: 60000,
-    pickupDate: '2025-11-08',
-    status: 'completed',
-    distance: 15.7,
-    npk: { n: 3.8, p: 3.2, k: 2.4 },
-  },
-];
+// Button label for each status the user can move a booking to
+const actionLabels: Record<BookingStatus, string> = {
+  requested: '',
+  accepted: 'ยอมรับการจอง',
+  confirmed: 'ยืนยันพร้อมรับของ',
+  'in-transit': 'เริ่มขนส่ง',
+  completed: 'ได้รับของแล้ว',
+  cancelled: 'ยกเลิกการจอง',
+};
 
 export function BookingPage({ user }: BookingPageProps) {
   const [selectedTab, setSelectedTab] = useState('all');
+  const [roleFilter, setRoleFilter] = useState<'all' | 'buyer' | 'seller'>('all');
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingIds, setPendingIds] = useState<Set<string>>(new Set());
+
+  const fetchBookings = useCallback(async () => {
+    try {
+      const response = await getUserBookings(user.uid || user.id);
+      const { bought = [], sold = [] } = response.data.data || {};
+      const merged: Booking[] = [...bought, ...sold];
+      merged.sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime());
+      setBookings(merged);
+    } catch (err: any) {
+      console.error('Failed to fetch bookings:', err);
+      toast.error(err?.response?.data?.message || 'ไม่สามารถโหลดรายการจองได้');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user.uid, user.id]);
+
+  useEffect(() => {
+    fetchBookings();
+  }, [fetchBookings]);
+
+  /**
+   * Optimistic status change:
+   * update the card immediately, roll back and show the server error if the transition is rejected
+   */
+  const handleStatusChange = async (booking: Booking, status: BookingStatus) => {
+    const previous = booking;
+    setPendingIds(prev => new Set(prev).add(booking.id));
+    setBookings(prev => prev.map(b => b.id === booking.id ? { ...b, status, allowedTransitions: [] } : b));
+
+    try {
+      await updateBookingStatus(booking.id, status);
+      toast.success('อัปเดตสถานะการจองแล้ว');
+      // Reload to get the next legal actions from the server
+      await fetchBookings();
+    } catch (err: any) {
+      console.error('Failed to update booking status:', err);
+      setBookings(prev => prev.map(b => b.id === booking.id ? previous : b));
+      toast.error(err?.response?.data?.message || 'ไม่สามารถอัปเดตสถานะการจองได้');
+    } finally {
+      setPendingIds(prev => {
+        const next = new Set(prev);
+        next.delete(booking.id);
+        return next;
+      });
+    }
+  };
 
-  const filteredBookings = mockBookings.filter(booking => {
+  const filteredBookings = bookings.filter(booking => {
+    if (roleFilter !== 'all' && booking.role !== roleFilter) return false;
     if (selectedTab === 'all') return true;
     return booking.status === selectedTab;
   });
 
   return (
     <div className="container mx-auto px-4 py-8">
-      <h1 className="text-3xl mb-6">การจอง</h1>
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <h1 className="text-3xl">การจอง</h1>
+        <div className="flex gap-2">
+          <Button size="sm" variant={roleFilter === 'all' ? 'default' : 'outline'} onClick={() => setRoleFilter('all')}>ทั้งหมด</Button>
+          <Button size="sm" variant={roleFilter === 'buyer' ? 'default' : 'outline'} onClick={() => setRoleFilter('buyer')}>ที่ฉันซื้อ</Button>
+          <Button size="sm" variant={roleFilter === 'seller' ? 'default' : 'outline'} onClick={() => setRoleFilter('seller')}>ที่ฉันขาย</Button>
+        </div>
+      </div>
 
       <Tabs value={selectedTab} onValueChange={setSelectedTab}>
         <TabsList className="mb-6">
           <TabsTrigger value="all">ทั้งหมด</TabsTrigger>
           <TabsTrigger value="requested">รอยืนยัน</TabsTrigger>
           <TabsTrigger value="accepted">ยืนยันแล้ว</TabsTrigger>
+          <TabsTrigger value="confirmed">พร้อมรับ</TabsTrigger>
           <TabsTrigger value="in-transit">กำลังจัดส่ง</TabsTrigger>
           <TabsTrigger value="completed">เสร็จสิ้น</TabsTrigger>
+          <TabsTrigger value="cancelled">ยกเลิก</TabsTrigger>
         </TabsList>
 
         <TabsContent value={selectedTab}>
           <div className="space-y-4">
-            {filteredBookings.map(booking => (
-              <BookingCard 
-                key={booking.id} 
-                booking={booking} 
-                userRole={user.role}
+            {isLoading && (
+              <Card>
+                <CardContent className="py-12 flex items-center justify-center gap-2 text-gray-500">
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                  กำลังโหลดรายการจอง...
+                </CardContent>
+              </Card>
+            )}
+
+            {!isLoading && filteredBookings.map(booking => (
+              <BookingCard
+                key={booking.id}
+                booking={booking}
+                isPending={pendingIds.has(booking.id)}
+                onStatusChange={(status) => handleStatusChange(booking, status)}
+                onReviewed={(reviewId) => setBookings(prev => prev.map(b => (b.id === booking.id ? { ...b, reviewId } : b)))}
               />
             ))}
 
-            {filteredBookings.length === 0 && (
+            {!isLoading && filteredBookings.length === 0 && (
               <Card>
                 <CardContent className="py-12 text-center">
                   <p className="text-gray-500">ไม่พบรายการจอง</p>
@@ -115,7 +169,16 @@ export function BookingPage({ user }: BookingPageProps) {
   );
 }
 
-function BookingCard({ booking, userRole }: { booking: Booking; userRole: string | null }) {
+interface BookingCardProps {
+  booking: Booking;
+  isPending: boolean;
+  onStatusChange: (status: BookingStatus) => void;
+  onReviewed: (reviewId: string) => void;
+}
+
+function BookingCard({ booking, isPending, onStatusChange, onReviewed }: BookingCardProps) {
+  const [isReviewing, setIsReviewing] = useState(false);
+
   const getStatusBadge = (status: string) => {
     const statusConfig = {
       requested: { label: 'รอยืนยัน', variant: 'secondary' as const, icon: AlertCircle, color: 'text-yellow-600' },
@@ -126,7 +189,7 @@ function BookingCard({ booking, userRole }: { booking: Booking; userRole: string
       cancelled: { label: 'ยกเลิก', variant: 'destructive' as const, icon: XCircle, color: 'text-red-600' },
     };
 
-    const config = statusConfig[status as keyof typeof statusConfig];
+    const config = statusConfig[status as keyof typeof statusConfig] || statusConfig.requested;
     const Icon = config.icon;
 
     return (
@@ -137,15 +200,17 @@ function BookingCard({ booking, userRole }: { booking: Booking; userRole: string
     );
   };
 
-  // Determine if current user is seller or buyer for this booking
-  const isMyPost = booking.sellerName === 'ฟาร์มของฉัน'; // Mock - in real app, check against user ID
+  // Determine if current user is seller or buyer for this booking (computed by the server)
+  const isMyPost = booking.role === 'seller';
+  const product = booking.product;
+  const canReview = booking.role === 'buyer' && booking.status === 'completed';
 
   return (
     <Card>
       <CardHeader>
         <div className="flex items-start justify-between">
           <div>
-            <CardTitle>{booking.farmName}</CardTitle>
+            <CardTitle>{product?.title || product?.farmName || booking.sellerName}</CardTitle>
             <CardDescription>
               รหัสการจอง: {booking.id} • {isMyPost ? 'คุณขาย' : 'คุณซื้อ'}
             </CardDescription>
@@ -160,7 +225,7 @@ function BookingCard({ booking, userRole }: { booking: Booking; userRole: string
             <Package className="w-5 h-5 text-gray-400 mt-0.5" />
             <div>
               <p className="text-sm text-gray-600">ประเภท</p>
-              <p>{booking.wasteType}</p>
+              <p>{product ? [product.animalType, product.wasteType].filter(Boolean).join(' • ') : '-'}</p>
             </div>
           </div>
 
@@ -178,7 +243,7 @@ function BookingCard({ booking, userRole }: { booking: Booking; userRole: string
             <Calendar className="w-5 h-5 text-gray-400 mt-0.5" />
             <div>
               <p className="text-sm text-gray-600">วันที่รับของ</p>
-              <p>{new Date(booking.pickupDate).toLocaleDateString('th-TH')}</p>
+              <p>{booking.bookingDate ? new Date(booking.bookingDate).toLocaleDateString('th-TH') : '-'}</p>
             </div>
           </div>
 
@@ -186,7 +251,7 @@ function BookingCard({ booking, userRole }: { booking: Booking; userRole: string
             <MapPin className="w-5 h-5 text-gray-400 mt-0.5" />
             <div>
               <p className="text-sm text-gray-600">ระยะทาง</p>
-              <p>{booking.distance} กม.</p>
+              <p>{product ? `${product.distance} กม.` : '-'}</p>
             </div>
           </div>
         </div>
@@ -199,45 +264,70 @@ function BookingCard({ booking, userRole }: { booking: Booking; userRole: string
             </div>
             <div>
               <p className="text-sm text-gray-600">ราคารวม</p>
-              <p>฿{booking.totalPrice.toLocaleString()}</p>
+              <p>{booking.totalPrice !== null ? `฿${booking.totalPrice.toLocaleString()}` : '-'}</p>
             </div>
-            <div className="col-span-2">
-              <p className="text-sm text-gray-600 mb-1">คุณค่า NPK</p>
-              <div className="flex gap-2">
-                <Badge variant="outline">N: {booking.npk.n}%</Badge>
-                <Badge variant="outline">P: {booking.npk.p}%</Badge>
-                <Badge variant="outline">K: {booking.npk.k}%</Badge>
+            {product && (
+              <div className="col-span-2">
+                <p className="text-sm text-gray-600 mb-1">คุณค่า NPK</p>
+                <div className="flex gap-2">
+                  <Badge variant="outline">N: {product.npk.n}%</Badge>
+                  <Badge variant="outline">P: {product.npk.p}%</Badge>
+                  <Badge variant="outline">K: {product.npk.k}%</Badge>
+                </div>
               </div>
-            </div>
+            )}
           </div>
         </div>
 
-        {/* Action buttons based on who you are and status */}
-        <div className="flex gap-2 pt-2">
-          {isMyPost && booking.status === 'requested' && (
-            <>
-              <Button className="flex-1">ยืนยันการจอง</Button>
-              <Button variant="destructive" className="flex-1">ปฏิเสธ</Button>
-            </>
-          )}
-
-          {!isMyPost && booking.status === 'accepted' && (
-            <Button className="w-full">ยืนยันการรับของ</Button>
-          )}
-
-          {booking.status === 'in-transit' && (
-            <Button variant="outline" className="w-full">ติดตามสถานะ</Button>
-          )}
-
-          {booking.status === 'completed' && (
-            <Button variant="outline" className="w-full">ดูใบเสร็จ</Button>
-          )}
-
-          {(booking.status === 'requested' || booking.status === 'accepted') && (
-            <Button variant="outline" className="flex-1">ติดต่อผู้{isMyPost ? 'ซื้อ' : 'ขาย'}</Button>
-          )}
-        </div>
+        {/* Action buttons: only the transitions the server allows for this user */}
+        {(booking.allowedTransitions.length > 0 || isPending) && (
+          <div className="flex gap-2 pt-2">
+            {isPending && (
+              <Button disabled className="flex-1">
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                กำลังอัปเดต...
+              </Button>
+            )}
+
+            {!isPending && booking.allowedTransitions.map(status => (
+              <Button
+                key={status}
+                className="flex-1"
+                variant={status === 'cancelled' ? 'destructive' : 'default'}
+                onClick={() => onStatusChange(status)}
+              >
+                {status === 'cancelled' && isMyPost && booking.status === 'requested'
+                  ? 'ปฏิเสธ'
+                  : actionLabels[status]}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {/* Buyers review a booking once it is completed */}
+        {canReview && (
+          booking.reviewId ? (
+            <p className="text-sm text-green-700 flex items-center gap-1">
+              <CheckCircle className="w-4 h-4" />
+              คุณรีวิวการซื้อครั้งนี้แล้ว
+            </p>
+          ) : isReviewing ? (
+            <ReviewForm
+              bookingId={booking.id}
+              onSubmitted={(review) => {
+                setIsReviewing(false);
+                onReviewed(review.id);
+              }}
+              onCancel={() => setIsReviewing(false)}
+            />
+          ) : (
+            <Button variant="outline" onClick={() => setIsReviewing(true)}>
+              <Star className="w-4 h-4 mr-2" />
+              เขียนรีวิว
+            </Button>
+          )
+        )}
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,149 @@
+/**
+ * Chat attachment rendering (images, PDF files, location pins)
+ * Used by ChatPage for message bubbles and by ChatDialog for the product preview
+ */
+
+import { FileText, MapPin, X, Loader2 } from 'lucide-react';
+import type { ChatAttachment } from '../services/chatService';
+
+const MAPS_API_KEY = import.meta.env.VITE_GOOGLE_MAPS_API_KEY;
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const mapsLink = (lat: number, lng: number) => `https://www.google.com/maps?q=${lat},${lng}`;
+
+// Static map image; needs the same key as the interactive maps
+const staticMapUrl = (lat: number, lng: number) =>
+  `https://maps.googleapis.com/maps/api/staticmap?center=${lat},${lng}&zoom=14&size=320x160&scale=2` +
+  `&markers=color:green%7C${lat},${lng}&key=${MAPS_API_KEY}`;
+
+interface LocationPreviewProps {
+  lat: number;
+  lng: number;
+  label?: string | null;
+}
+
+// Map preview that opens Google Maps
+export function LocationPreview({ lat, lng, label }: LocationPreviewProps) {
+  return (
+    <a
+      href={mapsLink(lat, lng)}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="block w-60 max-w-full rounded-lg overflow-hidden border bg-white text-gray-900"
+    >
+      {MAPS_API_KEY ? (
+        <img src={staticMapUrl(lat, lng)} alt={label || 'ตำแหน่ง'} className="w-full h-28 object-cover" loading="lazy" />
+      ) : (
+        <div className="w-full h-28 bg-green-50 flex items-center justify-center">
+          <MapPin className="w-8 h-8 text-green-600" />
+        </div>
+      )}
+      <div className="flex items-center gap-2 px-3 py-2">
+        <MapPin className="w-4 h-4 text-green-600 shrink-0" />
+        <div className="min-w-0">
+          <p className="text-sm truncate">{label || 'ตำแหน่งที่แชร์'}</p>
+          <p className="text-xs text-gray-500">{lat.toFixed(5)}, {lng.toFixed(5)}</p>
+        </div>
+      </div>
+    </a>
+  );
+}
+
+interface MessageAttachmentsProps {
+  attachments: ChatAttachment[];
+}
+
+// Attachments inside a message bubble
+export function MessageAttachments({ attachments }: MessageAttachmentsProps) {
+  if (attachments.length === 0) return null;
+
+  const images = attachments.filter((a): a is Extract<ChatAttachment, { type: 'image' }> => a.type === 'image');
+  const others = attachments.filter(a => a.type !== 'image');
+
+  return (
+    <div className="space-y-2 mb-1">
+      {images.length > 0 && (
+        <div className={`grid gap-1 ${images.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+          {images.map(image => (
+            <a key={image.url} href={image.url} target="_blank" rel="noopener noreferrer">
+              <img
+                src={images.length > 1 ? image.thumbnail : image.medium}
+                alt="รูปภาพ"
+                className="w-full max-w-60 max-h-60 object-cover rounded-lg"
+                loading="lazy"
+              />
+            </a>
+          ))}
+        </div>
+      )}
+      {others.map((attachment, index) =>
+        attachment.type === 'file' ? (
+          <a
+            key={attachment.url}
+            href={attachment.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-2 w-60 max-w-full rounded-lg border bg-white text-gray-900 px-3 py-2"
+          >
+            <FileText className="w-8 h-8 text-red-500 shrink-0" />
+            <div className="min-w-0">
+              <p className="text-sm truncate">{attachment.name}</p>
+              <p className="text-xs text-gray-500">PDF • {formatFileSize(attachment.size)}</p>
+            </div>
+          </a>
+        ) : attachment.type === 'location' ? (
+          <LocationPreview key={`location-${index}`} lat={attachment.lat} lng={attachment.lng} label={attachment.label} />
+        ) : null
+      )}
+    </div>
+  );
+}
+
+export interface PendingAttachment {
+  id: string;
+  kind: ChatAttachment['type'];
+  label: string;
+  previewUrl?: string;  // Object URL for images
+  file?: File;          // Not uploaded yet (image or PDF)
+  location?: { lat: number; lng: number; label?: string };
+}
+
+interface PendingAttachmentsProps {
+  attachments: PendingAttachment[];
+  isUploading: boolean;
+  onRemove: (id: string) => void;
+}
+
+// Chips above the message input for attachments that will go with the next message
+export function PendingAttachments({ attachments, isUploading, onRemove }: PendingAttachmentsProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 px-4 pt-3 border-t bg-white">
+      {attachments.map(attachment => (
+        <div key={attachment.id} className="flex items-center gap-2 bg-gray-100 rounded-lg pl-1 pr-2 py-1 max-w-[12rem]">
+          {attachment.previewUrl ? (
+            <img src={attachment.previewUrl} alt="" className="w-8 h-8 rounded object-cover" />
+          ) : attachment.kind === 'file' ? (
+            <FileText className="w-6 h-6 text-red-500 shrink-0" />
+          ) : (
+            <MapPin className="w-6 h-6 text-green-600 shrink-0" />
+          )}
+          <span className="text-xs truncate">{attachment.label}</span>
+          {isUploading ? (
+            <Loader2 className="w-3 h-3 animate-spin shrink-0" />
+          ) : (
+            <button type="button" onClick={() => onRemove(attachment.id)} className="text-gray-500 hover:text-gray-900">
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { X, MessageCircle } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import type { Post, User } from '../App';
+import { LocationPreview } from './ChatAttachments';
 
 interface ChatDialogProps {
   post: Post;
@@ -11,6 +12,8 @@ interface ChatDialogProps {
 }
 
 export function ChatDialog({ post, currentUser, onClose, onConfirm }: ChatDialogProps) {
+  const thumbnail = post.imageVariants?.[0]?.thumbnail || post.images?.[0];
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
       <Card className="w-full max-w-md">
@@ -33,15 +36,25 @@ export function ChatDialog({ post, currentUser, onClose, onConfirm }: ChatDialog
             <p className="text-center text-gray-700">
               ต้องการแชทกับ <span className="font-medium">{post.farmName}</span> เกี่ยวกับ
             </p>
-            <div className="bg-gray-50 p-4 rounded-lg">
-              <p className="font-medium mb-1">{post.title}</p>
-              <p className="text-sm text-gray-600">{post.animalType} • ฿{post.price}/กก.</p>
+            <div className="bg-gray-50 p-4 rounded-lg flex gap-3">
+              {thumbnail && (
+                <img src={thumbnail} alt={post.title} className="w-16 h-16 rounded-lg object-cover shrink-0" />
+              )}
+              <div className="min-w-0">
+                <p className="font-medium mb-1">{post.title}</p>
+                <p className="text-sm text-gray-600">{post.animalType} • ฿{post.price}/กก.</p>
+              </div>
             </div>
+            {post.location && (
+              <div className="flex justify-center">
+                <LocationPreview lat={post.location.lat} lng={post.location.lng} label="จุดรับสินค้า" />
+              </div>
+            )}
             <p className="text-sm text-gray-600 text-center">
               เมื่อยืนยันแล้ว จะเพิ่มการสนทนานี้ไปยังรายการแชทของคุณ
             </p>
-            <p className="text-sm font-medium text-red-600 text-center">
-              ⚠️ เมื่อยืนยันแล้ว โพสต์นี้จะเปลี่ยนสถานะเป็น "ขายแล้ว"
+            <p className="text-sm text-gray-600 text-center">
+              ตกลงปริมาณและราคาได้ด้วยการยื่นข้อเสนอในแชท เมื่ออีกฝ่ายตอบรับ ระบบจะสร้างการจองให้
             </p>
           </div>
 
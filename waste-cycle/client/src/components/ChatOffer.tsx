@@ -0,0 +1,157 @@
+/**
+ * Chat offers: the card shown in the thread and the form for new offers and counter-offers
+ * Accepting an offer creates the booking on the server (the room then carries bookingId/bookingStatus)
+ */
+
+import { useState } from 'react';
+import { Check, X, Repeat, Loader2, Truck, Package } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import type { ChatOffer } from '../services/chatService';
+import type { ChatOfferTerms } from '../apiServer';
+
+const offerStatusLabels: Record<ChatOffer['status'], string> = {
+  pending: 'รอตอบรับ',
+  accepted: 'ตอบรับแล้ว',
+  declined: 'ปฏิเสธแล้ว',
+  countered: 'มีข้อเสนอใหม่',
+  withdrawn: 'ถอนข้อเสนอแล้ว',
+};
+
+const deliveryOptionLabels: Record<ChatOffer['deliveryOption'], string> = {
+  pickup: 'รับเองที่ฟาร์ม',
+  delivery: 'ให้ผู้ขายจัดส่ง',
+};
+
+interface OfferCardProps {
+  offer: ChatOffer;
+  isMine: boolean;
+  canRespond: boolean;  // Received, still pending, and the room has no active booking
+  isBusy: boolean;
+  onAccept: () => void;
+  onCounter: () => void;
+  onDecline: () => void;
+  onViewBooking?: () => void;
+}
+
+export function OfferCard({ offer, isMine, canRespond, isBusy, onAccept, onCounter, onDecline, onViewBooking }: OfferCardProps) {
+  const total = offer.quantity * offer.pricePerUnit;
+  const DeliveryIcon = offer.deliveryOption === 'delivery' ? Truck : Package;
+
+  return (
+    <div className="w-64 max-w-full rounded-lg border bg-white text-gray-900 p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-medium text-sm">{isMine ? 'ข้อเสนอของคุณ' : 'ข้อเสนอ'}</p>
+        <Badge variant={offer.status === 'pending' ? 'secondary' : 'outline'}>{offerStatusLabels[offer.status]}</Badge>
+      </div>
+      <div className="text-sm space-y-1">
+        <p>{offer.quantity} {offer.unit} × ฿{offer.pricePerUnit}</p>
+        <p className="font-medium text-green-700">รวม ฿{total.toLocaleString()}</p>
+        <p className="text-gray-600">วันที่รับสินค้า: {new Date(offer.pickupDate).toLocaleDateString('th-TH')}</p>
+        <p className="text-gray-600 flex items-center gap-1">
+          <DeliveryIcon className="w-4 h-4" />
+          {deliveryOptionLabels[offer.deliveryOption]}
+        </p>
+        {offer.note && <p className="text-gray-600 italic">"{offer.note}"</p>}
+      </div>
+
+      {canRespond && (
+        <div className="flex gap-2 pt-1">
+          <Button size="sm" className="flex-1 bg-green-600 hover:bg-green-700" onClick={onAccept} disabled={isBusy}>
+            {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+            ตอบรับ
+          </Button>
+          <Button size="sm" variant="outline" onClick={onCounter} disabled={isBusy} title="เสนอราคาใหม่">
+            <Repeat className="w-4 h-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={onDecline} disabled={isBusy} title="ปฏิเสธ">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+
+      {offer.status === 'accepted' && offer.bookingId && onViewBooking && (
+        <Button size="sm" variant="outline" className="w-full" onClick={onViewBooking}>
+          ดูการจอง
+        </Button>
+      )}
+    </div>
+  );
+}
+
+interface OfferFormProps {
+  title: string;
+  unit: string;
+  initial?: Partial<ChatOfferTerms>;
+  isSubmitting: boolean;
+  onSubmit: (terms: ChatOfferTerms) => void;
+  onCancel: () => void;
+}
+
+// Inline form above the message input (new offer or counter-offer)
+export function OfferForm({ title, unit, initial, isSubmitting, onSubmit, onCancel }: OfferFormProps) {
+  const [quantity, setQuantity] = useState(initial?.quantity ? String(initial.quantity) : '');
+  const [pricePerUnit, setPricePerUnit] = useState(initial?.pricePerUnit ? String(initial.pricePerUnit) : '');
+  const [pickupDate, setPickupDate] = useState(initial?.pickupDate?.slice(0, 10) || '');
+  const [deliveryOption, setDeliveryOption] = useState<ChatOfferTerms['deliveryOption']>(initial?.deliveryOption || 'pickup');
+  const [note, setNote] = useState('');
+
+  const isValid = Number(quantity) > 0 && Number(pricePerUnit) > 0 && !!pickupDate;
+
+  const handleSubmit = () => {
+    if (!isValid) return;
+    onSubmit({
+      quantity: Number(quantity),
+      pricePerUnit: Number(pricePerUnit),
+      pickupDate,
+      deliveryOption,
+      note: note.trim() || undefined,
+    });
+  };
+
+  return (
+    <div className="border-t bg-gray-50 p-4 grid grid-cols-2 gap-3">
+      <p className="col-span-2 font-medium">{title}</p>
+      <div className="space-y-1">
+        <Label>ปริมาณ ({unit})</Label>
+        <Input type="number" min="1" value={quantity} onChange={(e) => setQuantity(e.target.value)} />
+      </div>
+      <div className="space-y-1">
+        <Label>ราคาต่อหน่วย (บาท)</Label>
+        <Input type="number" min="0" value={pricePerUnit} onChange={(e) => setPricePerUnit(e.target.value)} />
+      </div>
+      <div className="space-y-1">
+        <Label>วันที่รับสินค้า</Label>
+        <Input type="date" value={pickupDate} onChange={(e) => setPickupDate(e.target.value)} />
+      </div>
+      <div className="space-y-1">
+        <Label>การรับสินค้า</Label>
+        <Select value={deliveryOption} onValueChange={(value: string) => setDeliveryOption(value as ChatOfferTerms['deliveryOption'])}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(deliveryOptionLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1 col-span-2">
+        <Label>ข้อความเพิ่มเติม</Label>
+        <Textarea value={note} onChange={(e) => setNote(e.target.value)} rows={2} />
+      </div>
+      <div className="flex gap-2 col-span-2">
+        <Button onClick={handleSubmit} disabled={isSubmitting || !isValid} className="bg-green-600 hover:bg-green-700">
+          {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          ส่งข้อเสนอ
+        </Button>
+        <Button variant="outline" onClick={onCancel}>ยกเลิก</Button>
+      </div>
+    </div>
+  );
+}
@@ -5,44 +5,124 @@
  * - Uses API endpoints instead of direct Firestore access
  * - Prevents Firestore permission errors
  * - Backend handles authorization
- * - Polling for real-time-like updates
+ * - New messages, room updates and typing arrive over the chat socket;
+ *   polls every 2 seconds only while the socket is down
  */
 
-import { useState, useEffect, useRef } from 'react';
-import { Send, Search, ArrowLeft, Check, X } from 'lucide-react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Send, Search, ArrowLeft, Loader2, Paperclip, MapPin, HandCoins } from 'lucide-react';
 import { Card, CardContent } from './ui/card';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Badge } from './ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import type { User, Post } from '../App';
-import { getChatRooms as apiGetChatRooms, getChatMessages, sendChatMessage, createChatRoom } from '../apiServer';
-import type { ChatRoom, Message } from '../services/chatService';
+import {
+  getChatRooms as apiGetChatRooms,
+  getChatMessages,
+  sendChatMessage,
+  createChatRoom,
+  uploadImages,
+  uploadFiles,
+  sendChatOffer,
+  acceptChatOffer,
+  declineChatOffer,
+  updateBookingStatus,
+  type UploadedImage,
+  type UploadedFile,
+  type ChatOfferTerms,
+} from '../apiServer';
+import type { ChatAttachment, ChatRoom, Message } from '../services/chatService';
+import { MessageAttachments, PendingAttachments, formatFileSize, type PendingAttachment } from './ChatAttachments';
+import { OfferCard, OfferForm } from './ChatOffer';
+import { ReportButton } from './ContentReports';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import { useChatEvents, useChatSocketStatus } from '../hooks/useChatSocket';
+import { sendTyping, type ChatSocketEvent } from '../services/chatSocket';
 
 interface ChatPageProps {
   user: User;
   chatRooms: ChatRoom[];
   posts: Post[];
-  confirmedRoomIds: Set<string>;
   chatMessages: Record<string, Message[]>;
   setChatMessages: React.Dispatch<React.SetStateAction<Record<string, Message[]>>>;
   onBack: () => void;
-  onConfirmSale?: (postId: string, roomId: string) => void;
-  onCancelChat?: (roomId: string) => void;
+  // A booking was created or cancelled from this chat (product stock changed)
+  onBookingChanged?: () => void;
+  onViewBookings?: () => void;
   initialRoomId?: string | null;
+  // Infinite scroll over the paginated chat room list
+  hasMoreRooms?: boolean;
+  isLoadingMoreRooms?: boolean;
+  onLoadMoreRooms?: () => void;
+  // Called when the open room has unread messages
+  onMarkRead?: (roomId: string) => void;
+}
+
+/**
+ * Merge the newest page of messages (from polling) into what is already loaded,
+ * keeping older pages the user has scrolled back to
+ */
+const mergeLatestMessages = (loaded: Message[], latest: Message[]) => {
+  if (latest.length === 0) return loaded;
+  const latestIds = new Set(latest.map(m => m.id));
+  const oldestLatest = new Date(latest[0].timestamp).getTime();
+  const older = loaded.filter(m => !latestIds.has(m.id) && new Date(m.timestamp).getTime() <= oldestLatest);
+  return [...older, ...latest];
+};
+
+// Resend "typing" at most this often while the user keeps typing
+const TYPING_SEND_INTERVAL_MS = 3000;
+// Hide the other side's indicator when no refresh arrives within this time
+const TYPING_TIMEOUT_MS = 5000;
+
+// Booking status shown in the chat (same wording as BookingPage.tsx)
+const bookingStatusLabels: Record<string, string> = {
+  requested: 'รอยืนยัน',
+  accepted: 'ยืนยันแล้ว',
+  confirmed: 'พร้อมรับ',
+  'in-transit': 'กำลังจัดส่ง',
+  completed: 'เสร็จสิ้น',
+  cancelled: 'ยกเลิก',
+};
+
+// Same limits as the server (imageProcessor.js, chatAttachments.js)
+const MAX_ATTACHMENTS = 5;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const MAX_PDF_BYTES = 5 * 1024 * 1024;
+const ATTACHMENT_ACCEPT = 'image/jpeg,image/png,image/webp,image/heic,image/heif,application/pdf';
+
+interface LoadMoreRoomsProps {
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+}
+
+// Sentinel at the end of a room list; each list (mobile/desktop, both tabs) observes its own
+function LoadMoreRooms({ hasMore, isLoading, onLoadMore }: LoadMoreRoomsProps) {
+  const sentinelRef = useInfiniteScroll(onLoadMore, hasMore, isLoading);
+  if (!hasMore && !isLoading) return null;
+  return (
+    <div ref={sentinelRef} className="p-4 flex justify-center text-gray-500">
+      {isLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+    </div>
+  );
 }
 
 export function ChatPage({ 
   user, 
   chatRooms, 
   posts, 
-  confirmedRoomIds, 
   chatMessages, 
   setChatMessages, 
   onBack, 
-  onConfirmSale, 
-  onCancelChat, 
-  initialRoomId 
+  onBookingChanged,
+  onViewBookings,
+  initialRoomId,
+  hasMoreRooms = false,
+  isLoadingMoreRooms = false,
+  onLoadMoreRooms,
+  onMarkRead,
 }: ChatPageProps) {
   const [selectedRoomId, setSelectedRoomId] = useState<string | null>(
     initialRoomId || (chatRooms.length > 0 ? chatRooms[chatRooms.length - 1].id : null)
@@ -51,12 +131,32 @@ export function ChatPage({
   const [newMessage, setNewMessage] = useState('');
   const [showChatView, setShowChatView] = useState(false);
   const [activeTab, setActiveTab] = useState('chat');
+  // Cursor for older messages per room (null = oldest message already loaded)
+  const [messageCursors, setMessageCursors] = useState<Record<string, string | null>>({});
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  // Rooms where the other participant is typing
+  const [typingRoomIds, setTypingRoomIds] = useState<Set<string>>(new Set());
+  const typingTimers = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const lastTypingSentAt = useRef(0);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Attachments for the next message in the selected room
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Offer form: closed, a new offer, or a counter to a received one
+  const [offerForm, setOfferForm] = useState<{ title: string; initial?: Partial<ChatOfferTerms> } | null>(null);
+  const [isSubmittingOffer, setIsSubmittingOffer] = useState(false);
+  const [busyOfferId, setBusyOfferId] = useState<string | null>(null);
+  const [isCancellingBooking, setIsCancellingBooking] = useState(false);
+  const socketConnected = useChatSocketStatus();
 
   const selectedRoom = chatRooms.find(room => room.id === selectedRoomId);
   const selectedPost = selectedRoom ? posts.find(p => p.id === selectedRoom.postId || p.id === selectedRoom.productId) : null;
   const messages = selectedRoomId ? (chatMessages[selectedRoomId] || []) : [];
-  const isConfirmed = selectedRoomId ? confirmedRoomIds.has(selectedRoomId) : false;
+  // The room's booking (from an accepted offer) unless it was cancelled
+  const hasActiveBooking = !!selectedRoom?.bookingId && selectedRoom.bookingStatus !== 'cancelled';
+  const isOtherTyping = selectedRoomId ? typingRoomIds.has(selectedRoomId) : false;
   
   // MULTI-USER: Filter chat rooms by current user
   const myChats = chatRooms.filter(room => {
@@ -100,9 +200,11 @@ export function ChatPage({
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  // Only follow new messages at the bottom; loading older ones keeps the scroll position
+  const lastMessageId = messages.length > 0 ? messages[messages.length - 1].id : null;
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [lastMessageId]);
 
   // MULTI-USER: Load messages when room is selected (via API)
   useEffect(() => {
@@ -117,8 +219,12 @@ export function ChatPage({
         // SAFETY CHECK: Ensure messages is an array
         setChatMessages(prev => ({
           ...prev,
-          [selectedRoomId]: Array.isArray(msgs) ? msgs : []
+          [selectedRoomId]: mergeLatestMessages(prev[selectedRoomId] || [], Array.isArray(msgs) ? msgs : [])
         }));
+        // The first load tells us where older messages start; later polls must not reset it
+        setMessageCursors(prev => (
+          selectedRoomId in prev ? prev : { ...prev, [selectedRoomId]: response.data.nextCursor || null }
+        ));
       } catch (error) {
         console.error('Error loading messages:', error);
         setChatMessages(prev => ({
@@ -128,36 +234,218 @@ export function ChatPage({
       }
     };
 
+    // Initial load, and catch-up after the socket reconnects
     loadMessages();
 
-    // Poll for new messages every 2 seconds
+    // New messages arrive over the socket; poll every 2 seconds only while it is down
+    if (socketConnected) return;
     const pollInterval = setInterval(loadMessages, 2000);
 
     return () => clearInterval(pollInterval);
-  }, [selectedRoomId]);
+  }, [selectedRoomId, socketConnected]);
+
+  // Mark the open room read whenever it has unread messages (the list is hidden behind the room on mobile)
+  const selectedRoomUnread = selectedRoom?.unreadCount || 0;
+  useEffect(() => {
+    if (!selectedRoomId || selectedRoomUnread === 0 || !onMarkRead) return;
+    const isRoomVisible = showChatView || window.matchMedia('(min-width: 1024px)').matches;
+    if (isRoomVisible) onMarkRead(selectedRoomId);
+  }, [selectedRoomId, selectedRoomUnread, showChatView]);
+
+  // Typing indicator from the other participant
+  useChatEvents(useCallback((event: ChatSocketEvent) => {
+    if (event.type !== 'typing' || event.userId === user.id) return;
+    clearTimeout(typingTimers.current[event.roomId]);
+    setTypingRoomIds(prev => {
+      const next = new Set(prev);
+      if (event.isTyping) next.add(event.roomId);
+      else next.delete(event.roomId);
+      return next;
+    });
+    if (event.isTyping) {
+      typingTimers.current[event.roomId] = setTimeout(() => {
+        setTypingRoomIds(prev => {
+          const next = new Set(prev);
+          next.delete(event.roomId);
+          return next;
+        });
+      }, TYPING_TIMEOUT_MS);
+    }
+  }, [user.id]));
+
+  useEffect(() => () => Object.values(typingTimers.current).forEach(clearTimeout), []);
+
+  const handleMessageChange = (value: string) => {
+    setNewMessage(value);
+    if (!selectedRoomId || !value.trim()) return;
+    const now = Date.now();
+    if (now - lastTypingSentAt.current >= TYPING_SEND_INTERVAL_MS) {
+      lastTypingSentAt.current = now;
+      sendTyping(selectedRoomId, true);
+    }
+  };
+
+  const clearPendingAttachments = useCallback(() => {
+    setPendingAttachments(prev => {
+      prev.forEach(a => a.previewUrl && URL.revokeObjectURL(a.previewUrl));
+      return [];
+    });
+  }, []);
+
+  // Attachments belong to the room they were picked in
+  useEffect(() => clearPendingAttachments, [selectedRoomId, clearPendingAttachments]);
+
+  const handleFilesSelected = (fileList: FileList | null) => {
+    const files = Array.from(fileList || []);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (files.length === 0) return;
+
+    if (pendingAttachments.length + files.length > MAX_ATTACHMENTS) {
+      alert(`แนบได้สูงสุด ${MAX_ATTACHMENTS} รายการต่อข้อความ`);
+      return;
+    }
+
+    const added: PendingAttachment[] = [];
+    for (const file of files) {
+      const isPdf = file.type === 'application/pdf';
+      if (!isPdf && !file.type.startsWith('image/')) {
+        alert(`${file.name}: รองรับเฉพาะรูปภาพและไฟล์ PDF`);
+        return;
+      }
+      const maxBytes = isPdf ? MAX_PDF_BYTES : MAX_IMAGE_BYTES;
+      if (file.size > maxBytes) {
+        alert(`${file.name}: ไฟล์ใหญ่เกิน ${formatFileSize(maxBytes)}`);
+        return;
+      }
+      added.push({
+        id: `${file.name}-${file.lastModified}-${Math.random().toString(36).slice(2)}`,
+        kind: isPdf ? 'file' : 'image',
+        label: file.name,
+        previewUrl: isPdf ? undefined : URL.createObjectURL(file),
+        file,
+      });
+    }
+    setPendingAttachments(prev => [...prev, ...added]);
+  };
+
+  const handleShareLocation = () => {
+    if (pendingAttachments.length >= MAX_ATTACHMENTS) {
+      alert(`แนบได้สูงสุด ${MAX_ATTACHMENTS} รายการต่อข้อความ`);
+      return;
+    }
+    if (!navigator.geolocation) {
+      alert('เบราว์เซอร์นี้ไม่รองรับการระบุตำแหน่ง');
+      return;
+    }
+
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        const { latitude: lat, longitude: lng } = position.coords;
+        setPendingAttachments(prev => [
+          ...prev,
+          { id: `location-${Date.now()}`, kind: 'location', label: 'ตำแหน่งปัจจุบัน', location: { lat, lng, label: 'ตำแหน่งปัจจุบัน' } },
+        ]);
+      },
+      (error) => {
+        setIsLocating(false);
+        console.error('Error getting location:', error);
+        alert('ไม่สามารถระบุตำแหน่งได้ กรุณาอนุญาตการเข้าถึงตำแหน่ง');
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  };
+
+  const handleRemoveAttachment = (id: string) => {
+    setPendingAttachments(prev => {
+      const removed = prev.find(a => a.id === id);
+      if (removed?.previewUrl) URL.revokeObjectURL(removed.previewUrl);
+      return prev.filter(a => a.id !== id);
+    });
+  };
+
+  // Upload pending files, keeping the order they were picked in
+  const uploadPendingAttachments = async (): Promise<ChatAttachment[]> => {
+    const imageFiles = pendingAttachments.filter(a => a.kind === 'image' && a.file).map(a => a.file as File);
+    const pdfFiles = pendingAttachments.filter(a => a.kind === 'file' && a.file).map(a => a.file as File);
+
+    const [images, files] = await Promise.all([
+      imageFiles.length > 0 ? uploadImages(imageFiles, 'chat').then(r => r.data.data as UploadedImage[]) : [],
+      pdfFiles.length > 0 ? uploadFiles(pdfFiles, 'chat').then(r => r.data.data as UploadedFile[]) : [],
+    ]);
+
+    let imageIndex = 0;
+    let fileIndex = 0;
+    return pendingAttachments.map((attachment): ChatAttachment => {
+      if (attachment.kind === 'image') {
+        const { url, medium, thumbnail, width, height } = images[imageIndex++];
+        return { type: 'image', url, medium, thumbnail, width, height };
+      }
+      if (attachment.kind === 'file') {
+        const { url, name, size, contentType } = files[fileIndex++];
+        return { type: 'file', url, name, size, contentType };
+      }
+      const { lat, lng, label } = attachment.location!;
+      return { type: 'location', lat, lng, label };
+    });
+  };
+
+  const canSend = (newMessage.trim().length > 0 || pendingAttachments.length > 0) && !isUploading;
 
   const handleSend = async () => {
-    if (!newMessage.trim() || !selectedRoomId) return;
+    if (!canSend || !selectedRoomId) return;
 
+    setIsUploading(true);
     try {
+      const attachments = await uploadPendingAttachments();
+
       // MULTI-USER: Send message via API (backend handles senderId/receiverId)
-      await sendChatMessage(selectedRoomId, newMessage.trim());
-      
-      // Reload messages to get the new one
-      const response = await getChatMessages(selectedRoomId);
-      const msgs = response.data.data || [];
-      setChatMessages(prev => ({
-        ...prev,
-        [selectedRoomId]: Array.isArray(msgs) ? msgs : []
-      }));
-      
+      const response = await sendChatMessage(selectedRoomId, newMessage.trim(), attachments);
+      const sent: Message = response.data.data;
+
+      // The socket may have delivered it already
+      setChatMessages(prev => {
+        const loaded = prev[selectedRoomId] || [];
+        if (loaded.some(m => m.id === sent.id)) return prev;
+        return { ...prev, [selectedRoomId]: [...loaded, sent] };
+      });
+
       setNewMessage('');
+      clearPendingAttachments();
+      lastTypingSentAt.current = 0;
+      sendTyping(selectedRoomId, false);
     } catch (error: any) {
       console.error('Error sending message:', error);
-      alert('ไม่สามารถส่งข้อความได้ กรุณาลองใหม่อีกครั้ง');
+      alert(error.response?.data?.message || 'ไม่สามารถส่งข้อความได้ กรุณาลองใหม่อีกครั้ง');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  // Load the page of messages before the oldest one shown
+  const handleLoadOlder = async () => {
+    if (!selectedRoomId || !messageCursors[selectedRoomId] || isLoadingOlder) return;
+    const roomId = selectedRoomId;
+    setIsLoadingOlder(true);
+    try {
+      const response = await getChatMessages(roomId, { cursor: messageCursors[roomId] });
+      const olderMessages: Message[] = response.data.data || [];
+      setChatMessages(prev => {
+        const loaded = prev[roomId] || [];
+        const loadedIds = new Set(loaded.map(m => m.id));
+        return { ...prev, [roomId]: [...olderMessages.filter(m => !loadedIds.has(m.id)), ...loaded] };
+      });
+      setMessageCursors(prev => ({ ...prev, [roomId]: response.data.nextCursor || null }));
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    } finally {
+      setIsLoadingOlder(false);
     }
   };
 
+  const hasOlderMessages = selectedRoomId ? !!messageCursors[selectedRoomId] : false;
+
   const handleRoomClick = (roomId: string) => {
     setSelectedRoomId(roomId);
     setShowChatView(true);
@@ -168,13 +456,154 @@ export function ChatPage({
     setSelectedRoomId(null);
   };
 
-  const handleCancelChat = () => {
+  // Replace a message that changed (offer answered) or add it if it is new
+  const upsertMessage = (roomId: string, message: Message) => {
+    setChatMessages(prev => {
+      const loaded = prev[roomId] || [];
+      return {
+        ...prev,
+        [roomId]: loaded.some(m => m.id === message.id)
+          ? loaded.map(m => (m.id === message.id ? message : m))
+          : [...loaded, message],
+      };
+    });
+  };
+
+  // Opened from elsewhere (a notification) while the chat page is already showing
+  useEffect(() => {
+    if (!initialRoomId) return;
+    setSelectedRoomId(initialRoomId);
+    setShowChatView(true);
+  }, [initialRoomId]);
+
+  // Offers are per room
+  useEffect(() => setOfferForm(null), [selectedRoomId]);
+
+  const handleOpenOfferForm = () => {
+    setOfferForm({
+      title: 'ยื่นข้อเสนอ',
+      initial: selectedPost ? { pricePerUnit: selectedPost.price } : undefined,
+    });
+  };
+
+  const handleCounterOffer = (message: Message) => {
+    if (!message.offer) return;
+    const { quantity, pricePerUnit, pickupDate, deliveryOption } = message.offer;
+    setOfferForm({ title: 'เสนอราคาใหม่', initial: { quantity, pricePerUnit, pickupDate, deliveryOption } });
+  };
+
+  const handleSubmitOffer = async (terms: ChatOfferTerms) => {
     if (!selectedRoomId) return;
-    if (onCancelChat) {
-      onCancelChat(selectedRoomId);
+    setIsSubmittingOffer(true);
+    try {
+      const response = await sendChatOffer(selectedRoomId, terms);
+      upsertMessage(selectedRoomId, response.data.data);
+      setOfferForm(null);
+    } catch (error: any) {
+      console.error('Error sending offer:', error);
+      alert(error.response?.data?.message || 'ไม่สามารถส่งข้อเสนอได้ กรุณาลองใหม่อีกครั้ง');
+    } finally {
+      setIsSubmittingOffer(false);
+    }
+  };
+
+  const handleAcceptOffer = async (message: Message) => {
+    if (!selectedRoomId || !window.confirm('ตอบรับข้อเสนอนี้และสร้างการจอง?')) return;
+    setBusyOfferId(message.id);
+    try {
+      await acceptChatOffer(selectedRoomId, message.id);
+      onBookingChanged?.();
+    } catch (error: any) {
+      console.error('Error accepting offer:', error);
+      alert(error.response?.data?.message || 'ไม่สามารถตอบรับข้อเสนอได้ กรุณาลองใหม่อีกครั้ง');
+    } finally {
+      setBusyOfferId(null);
+    }
+  };
+
+  const handleDeclineOffer = async (message: Message) => {
+    if (!selectedRoomId) return;
+    const reason = window.prompt('เหตุผลที่ปฏิเสธ (ไม่บังคับ)');
+    if (reason === null) return;
+    setBusyOfferId(message.id);
+    try {
+      const response = await declineChatOffer(selectedRoomId, message.id, reason.trim() || undefined);
+      upsertMessage(selectedRoomId, response.data.data);
+    } catch (error: any) {
+      console.error('Error declining offer:', error);
+      alert(error.response?.data?.message || 'ไม่สามารถปฏิเสธข้อเสนอได้ กรุณาลองใหม่อีกครั้ง');
+    } finally {
+      setBusyOfferId(null);
     }
-    setSelectedRoomId(null);
-    setShowChatView(false);
+  };
+
+  // Cancels the booking itself; the room follows its status
+  const handleCancelBooking = async () => {
+    if (!selectedRoom?.bookingId || !window.confirm('ยกเลิกการจองนี้?')) return;
+    setIsCancellingBooking(true);
+    try {
+      await updateBookingStatus(selectedRoom.bookingId, 'cancelled');
+      onBookingChanged?.();
+    } catch (error: any) {
+      console.error('Error cancelling booking:', error);
+      alert(error.response?.data?.message || 'ไม่สามารถยกเลิกการจองได้');
+    } finally {
+      setIsCancellingBooking(false);
+    }
+  };
+
+  const renderOffer = (message: Message) => (
+    <OfferCard
+      offer={message.offer!}
+      isMine={isMyMessage(message)}
+      canRespond={!isMyMessage(message) && message.offer!.status === 'pending' && !hasActiveBooking}
+      isBusy={busyOfferId === message.id}
+      onAccept={() => handleAcceptOffer(message)}
+      onCounter={() => handleCounterOffer(message)}
+      onDecline={() => handleDeclineOffer(message)}
+      onViewBooking={onViewBookings}
+    />
+  );
+
+  // Offer form or the room's booking status, above the message input
+  const renderDealPanel = () => {
+    if (offerForm) {
+      return (
+        <OfferForm
+          key={offerForm.title + (offerForm.initial?.pickupDate || '')}
+          title={offerForm.title}
+          unit={selectedPost?.unit || 'kg'}
+          initial={offerForm.initial}
+          isSubmitting={isSubmittingOffer}
+          onSubmit={handleSubmitOffer}
+          onCancel={() => setOfferForm(null)}
+        />
+      );
+    }
+
+    if (hasActiveBooking) {
+      const canCancel = selectedRoom!.bookingStatus === 'requested' || selectedRoom!.bookingStatus === 'accepted';
+      return (
+        <div className="flex items-center justify-between gap-2 px-4 py-2 border-t bg-green-50 text-sm">
+          <span className="text-green-800">
+            จองแล้ว • {bookingStatusLabels[selectedRoom!.bookingStatus || 'accepted'] || selectedRoom!.bookingStatus}
+          </span>
+          <div className="flex gap-2">
+            {onViewBookings && (
+              <Button size="sm" variant="outline" onClick={onViewBookings}>ดูการจอง</Button>
+            )}
+            {canCancel && (
+              <Button size="sm" variant="outline" onClick={handleCancelBooking} disabled={isCancellingBooking}>
+                {isCancellingBooking && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                ยกเลิกการจอง
+              </Button>
+            )}
+          </div>
+        </div>
+      );
+    }
+
+    return null;
   };
 
   // Get display name for other participant
@@ -190,6 +619,31 @@ export function ChatPage({
     return message.senderId === user.id;
   };
 
+  const otherParticipantId = selectedRoom?.participants?.find(id => id !== user.id);
+
+  // Messages hidden by an admin after a report arrive without text or attachments
+  const renderMessageContent = (message: Message) => {
+    if (message.hidden) {
+      return <p className="text-sm italic opacity-75">ข้อความนี้ถูกซ่อนโดยผู้ดูแลระบบ</p>;
+    }
+    return (
+      <>
+        {message.offer && renderOffer(message)}
+        {message.attachments && message.attachments.length > 0 && (
+          <MessageAttachments attachments={message.attachments} />
+        )}
+        {message.text && <p className="text-sm">{message.text}</p>}
+      </>
+    );
+  };
+
+  // Read receipt: the other participant opened the room after this message was sent
+  const isReadByOther = (message: Message) => {
+    if (!isMyMessage(message)) return false;
+    const otherReadAt = selectedRoom?.lastReadAt?.[message.receiverId];
+    return message.read || (!!otherReadAt && otherReadAt >= message.timestamp);
+  };
+
   // Format timestamp
   const formatTime = (timestamp: string) => {
     try {
@@ -202,6 +656,16 @@ export function ChatPage({
 
   return (
     <div className="min-h-screen bg-gray-50">
+      {/* Shared by the mobile and desktop attach buttons */}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={ATTACHMENT_ACCEPT}
+        multiple
+        className="hidden"
+        onChange={(e) => handleFilesSelected(e.target.files)}
+      />
+
       {/* Mobile View */}
       <div className="lg:hidden">
         {!showChatView ? (
@@ -257,9 +721,16 @@ export function ChatPage({
                                 <p className="text-sm text-gray-600 truncate">
                                   {room.productTitle || room.farmName || 'ไม่มีชื่อสินค้า'}
                                 </p>
-                                <p className="text-sm text-gray-500 truncate mt-1">
-                                  {room.lastMessage || 'ยังไม่มีข้อความ'}
-                                </p>
+                                <div className="flex items-center justify-between gap-2 mt-1">
+                                  <p className={`text-sm truncate ${room.unreadCount ? 'text-gray-900 font-medium' : 'text-gray-500'}`}>
+                                    {room.lastMessage || 'ยังไม่มีข้อความ'}
+                                  </p>
+                                  {!!room.unreadCount && (
+                                    <Badge className="bg-red-500 text-white text-xs px-1.5 py-0.5 min-w-[20px] justify-center">
+                                      {room.unreadCount > 99 ? '99+' : room.unreadCount}
+                                    </Badge>
+                                  )}
+                                </div>
                               </div>
                             </div>
                           </div>
@@ -267,6 +738,11 @@ export function ChatPage({
                       })}
                     </div>
                   )}
+                  <LoadMoreRooms
+                    hasMore={hasMoreRooms}
+                    isLoading={isLoadingMoreRooms}
+                    onLoadMore={() => onLoadMoreRooms?.()}
+                  />
                 </TabsContent>
 
                 <TabsContent value="requests" className="flex-1 overflow-y-auto">
@@ -298,9 +774,16 @@ export function ChatPage({
                                 <p className="text-sm text-gray-600 truncate">
                                   {room.productTitle || room.farmName || 'ไม่มีชื่อสินค้า'}
                                 </p>
-                                <p className="text-sm text-gray-500 truncate mt-1">
-                                  {room.lastMessage || 'ยังไม่มีข้อความ'}
-                                </p>
+                                <div className="flex items-center justify-between gap-2 mt-1">
+                                  <p className={`text-sm truncate ${room.unreadCount ? 'text-gray-900 font-medium' : 'text-gray-500'}`}>
+                                    {room.lastMessage || 'ยังไม่มีข้อความ'}
+                                  </p>
+                                  {!!room.unreadCount && (
+                                    <Badge className="bg-red-500 text-white text-xs px-1.5 py-0.5 min-w-[20px] justify-center">
+                                      {room.unreadCount > 99 ? '99+' : room.unreadCount}
+                                    </Badge>
+                                  )}
+                                </div>
                               </div>
                             </div>
                           </div>
@@ -308,6 +791,11 @@ export function ChatPage({
                       })}
                     </div>
                   )}
+                  <LoadMoreRooms
+                    hasMore={hasMoreRooms}
+                    isLoading={isLoadingMoreRooms}
+                    onLoadMore={() => onLoadMoreRooms?.()}
+                  />
                 </TabsContent>
               </Tabs>
             </CardContent>
@@ -327,17 +815,28 @@ export function ChatPage({
                     <div className="min-w-0 flex-1">
                       <p className="font-medium truncate">{getDisplayName(selectedRoom)}</p>
                       <p className="text-xs text-gray-600 truncate">
-                        {selectedRoom.productTitle || selectedRoom.farmName || 'ไม่มีชื่อสินค้า'}
+                        {isOtherTyping ? 'กำลังพิมพ์...' : (selectedRoom.productTitle || selectedRoom.farmName || 'ไม่มีชื่อสินค้า')}
                       </p>
                     </div>
+                    {otherParticipantId && (
+                      <ReportButton targetType="user" targetId={otherParticipantId} className="text-gray-500" />
+                    )}
                   </div>
 
                   <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                    {hasOlderMessages && (
+                      <div className="flex justify-center">
+                        <Button variant="ghost" size="sm" onClick={handleLoadOlder} disabled={isLoadingOlder}>
+                          {isLoadingOlder && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                          โหลดข้อความก่อนหน้า
+                        </Button>
+                      </div>
+                    )}
                     {messages && messages.length > 0 ? (
                       messages.map((message) => (
                         <div
                           key={message.id}
-                          className={`flex ${isMyMessage(message) ? 'justify-end' : 'justify-start'}`}
+                          className={`flex gap-1 ${isMyMessage(message) ? 'justify-end' : 'justify-start'}`}
                         >
                           <div
                             className={`max-w-[70%] rounded-lg p-3 ${
@@ -346,15 +845,24 @@ export function ChatPage({
                                 : 'bg-gray-200 text-gray-900'
                             }`}
                           >
-                            <p className="text-sm">{message.text}</p>
+                            {renderMessageContent(message)}
                             <p
                               className={`text-xs mt-1 ${
                                 isMyMessage(message) ? 'text-green-100' : 'text-gray-500'
                               }`}
                             >
                               {formatTime(message.timestamp)}
+                              {isReadByOther(message) && ' · อ่านแล้ว'}
                             </p>
                           </div>
+                          {!isMyMessage(message) && !message.hidden && (
+                            <ReportButton
+                              targetType="chat_message"
+                              targetId={message.id}
+                              context={{ chatRoomId: message.chatRoomId }}
+                              className="self-end text-gray-400"
+                            />
+                          )}
                         </div>
                       ))
                     ) : (
@@ -366,10 +874,26 @@ export function ChatPage({
                     <div ref={messagesEndRef} />
                   </div>
 
-                  <div className="flex items-center gap-2 p-4 border-t bg-white">
+                  {renderDealPanel()}
+                  {renderDealPanel()}
+                <PendingAttachments
+                    attachments={pendingAttachments}
+                    isUploading={isUploading}
+                    onRemove={handleRemoveAttachment}
+                  />
+                  <div className={`flex items-center gap-2 p-4 bg-white ${pendingAttachments.length === 0 ? 'border-t' : ''}`}>
+                    <Button variant="ghost" size="icon" onClick={() => fileInputRef.current?.click()} disabled={isUploading} title="แนบรูปภาพหรือ PDF">
+                      <Paperclip className="w-5 h-5" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={handleShareLocation} disabled={isUploading || isLocating} title="แชร์ตำแหน่ง">
+                      {isLocating ? <Loader2 className="w-5 h-5 animate-spin" /> : <MapPin className="w-5 h-5" />}
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={handleOpenOfferForm} disabled={hasActiveBooking || !!offerForm} title="ยื่นข้อเสนอ">
+                      <HandCoins className="w-5 h-5" />
+                    </Button>
                     <Input
                       value={newMessage}
-                      onChange={(e) => setNewMessage(e.target.value)}
+                      onChange={(e) => handleMessageChange(e.target.value)}
                       onKeyPress={(e) => {
                         if (e.key === 'Enter' && !e.shiftKey) {
                           e.preventDefault();
@@ -381,11 +905,11 @@ export function ChatPage({
                     />
                     <Button
                       onClick={handleSend}
-                      disabled={!newMessage.trim()}
+                      disabled={!canSend}
                       className="bg-green-600 hover:bg-green-700"
                       size="icon"
                     >
-                      <Send className="w-5 h-5" />
+                      {isUploading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Send className="w-5 h-5" />}
                     </Button>
                   </div>
                 </>
@@ -457,9 +981,16 @@ export function ChatPage({
                                 <p className="text-sm text-gray-600 truncate">
                                   {room.productTitle || room.farmName || 'ไม่มีชื่อสินค้า'}
                                 </p>
-                                <p className="text-sm text-gray-500 truncate mt-1">
-                                  {room.lastMessage || 'ยังไม่มีข้อความ'}
-                                </p>
+                                <div className="flex items-center justify-between gap-2 mt-1">
+                                  <p className={`text-sm truncate ${room.unreadCount ? 'text-gray-900 font-medium' : 'text-gray-500'}`}>
+                                    {room.lastMessage || 'ยังไม่มีข้อความ'}
+                                  </p>
+                                  {!!room.unreadCount && (
+                                    <Badge className="bg-red-500 text-white text-xs px-1.5 py-0.5 min-w-[20px] justify-center">
+                                      {room.unreadCount > 99 ? '99+' : room.unreadCount}
+                                    </Badge>
+                                  )}
+                                </div>
                               </div>
                             </div>
                           </div>
@@ -467,6 +998,11 @@ export function ChatPage({
                       })}
                     </div>
                   )}
+                  <LoadMoreRooms
+                    hasMore={hasMoreRooms}
+                    isLoading={isLoadingMoreRooms}
+                    onLoadMore={() => onLoadMoreRooms?.()}
+                  />
                 </TabsContent>
 
                 <TabsContent value="requests" className="flex-1 overflow-y-auto">
@@ -500,9 +1036,16 @@ export function ChatPage({
                                 <p className="text-sm text-gray-600 truncate">
                                   {room.productTitle || room.farmName || 'ไม่มีชื่อสินค้า'}
                                 </p>
-                                <p className="text-sm text-gray-500 truncate mt-1">
-                                  {room.lastMessage || 'ยังไม่มีข้อความ'}
-                                </p>
+                                <div className="flex items-center justify-between gap-2 mt-1">
+                                  <p className={`text-sm truncate ${room.unreadCount ? 'text-gray-900 font-medium' : 'text-gray-500'}`}>
+                                    {room.lastMessage || 'ยังไม่มีข้อความ'}
+                                  </p>
+                                  {!!room.unreadCount && (
+                                    <Badge className="bg-red-500 text-white text-xs px-1.5 py-0.5 min-w-[20px] justify-center">
+                                      {room.unreadCount > 99 ? '99+' : room.unreadCount}
+                                    </Badge>
+                                  )}
+                                </div>
                               </div>
                             </div>
                           </div>
@@ -510,6 +1053,11 @@ export function ChatPage({
                       })}
                     </div>
                   )}
+                  <LoadMoreRooms
+                    hasMore={hasMoreRooms}
+                    isLoading={isLoadingMoreRooms}
+                    onLoadMore={() => onLoadMoreRooms?.()}
+                  />
                 </TabsContent>
               </Tabs>
             </CardContent>
@@ -527,18 +1075,29 @@ export function ChatPage({
                     <div>
                       <p className="font-medium">{getDisplayName(selectedRoom)}</p>
                       <p className="text-sm text-gray-600">
-                        {selectedRoom.productTitle || selectedRoom.farmName || 'ไม่มีชื่อสินค้า'}
+                        {isOtherTyping ? 'กำลังพิมพ์...' : (selectedRoom.productTitle || selectedRoom.farmName || 'ไม่มีชื่อสินค้า')}
                       </p>
                     </div>
+                    {otherParticipantId && (
+                      <ReportButton targetType="user" targetId={otherParticipantId} label="รายงานผู้ใช้" className="ml-auto text-gray-500" />
+                    )}
                   </div>
                 </div>
 
                 <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                  {hasOlderMessages && (
+                    <div className="flex justify-center">
+                      <Button variant="ghost" size="sm" onClick={handleLoadOlder} disabled={isLoadingOlder}>
+                        {isLoadingOlder && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        โหลดข้อความก่อนหน้า
+                      </Button>
+                    </div>
+                  )}
                   {messages && messages.length > 0 ? (
                     messages.map((message) => (
                       <div
                         key={message.id}
-                        className={`flex ${isMyMessage(message) ? 'justify-end' : 'justify-start'}`}
+                        className={`flex gap-1 ${isMyMessage(message) ? 'justify-end' : 'justify-start'}`}
                       >
                         <div
                           className={`max-w-[70%] rounded-lg p-3 ${
@@ -547,15 +1106,24 @@ export function ChatPage({
                               : 'bg-gray-200 text-gray-900'
                           }`}
                         >
-                          <p className="text-sm">{message.text}</p>
+                          {renderMessageContent(message)}
                           <p
                             className={`text-xs mt-1 ${
                               isMyMessage(message) ? 'text-green-100' : 'text-gray-500'
                             }`}
                           >
                             {formatTime(message.timestamp)}
+                            {isReadByOther(message) && ' · อ่านแล้ว'}
                           </p>
                         </div>
+                        {!isMyMessage(message) && !message.hidden && (
+                          <ReportButton
+                            targetType="chat_message"
+                            targetId={message.id}
+                            context={{ chatRoomId: message.chatRoomId }}
+                            className="self-end text-gray-400"
+                          />
+                        )}
                       </div>
                     ))
                   ) : (
@@ -567,10 +1135,24 @@ export function ChatPage({
                   <div ref={messagesEndRef} />
                 </div>
 
-                <div className="flex items-center gap-2 p-4 border-t bg-white">
+                <PendingAttachments
+                  attachments={pendingAttachments}
+                  isUploading={isUploading}
+                  onRemove={handleRemoveAttachment}
+                />
+                <div className={`flex items-center gap-2 p-4 bg-white ${pendingAttachments.length === 0 ? 'border-t' : ''}`}>
+                  <Button variant="ghost" size="icon" onClick={() => fileInputRef.current?.click()} disabled={isUploading} title="แนบรูปภาพหรือ PDF">
+                    <Paperclip className="w-5 h-5" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={handleShareLocation} disabled={isUploading || isLocating} title="แชร์ตำแหน่ง">
+                    {isLocating ? <Loader2 className="w-5 h-5 animate-spin" /> : <MapPin className="w-5 h-5" />}
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={handleOpenOfferForm} disabled={hasActiveBooking || !!offerForm} title="ยื่นข้อเสนอ">
+                    <HandCoins className="w-5 h-5" />
+                  </Button>
                   <Input
                     value={newMessage}
-                    onChange={(e) => setNewMessage(e.target.value)}
+                    onChange={(e) => handleMessageChange(e.target.value)}
                     onKeyPress={(e) => {
                       if (e.key === 'Enter' && !e.shiftKey) {
                         e.preventDefault();
@@ -582,11 +1164,11 @@ export function ChatPage({
                   />
                   <Button
                     onClick={handleSend}
-                    disabled={!newMessage.trim()}
+                    disabled={!canSend}
                     className="bg-green-600 hover:bg-green-700"
                     size="icon"
                   >
-                    <Send className="w-5 h-5" />
+                    {isUploading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Send className="w-5 h-5" />}
                   </Button>
                 </div>
               </CardContent>
@@ -0,0 +1,397 @@
+/**
+ * Content reports: the report button/dialog users see on products, chat messages and users
+ * (PostDetail, ChatPage) and the admin moderation queue (AdminPanel)
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Flag, Loader2, EyeOff, Eye, AlertTriangle, Ban, XCircle, Clock } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Textarea } from './ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  createReport,
+  getReports,
+  startReportReview,
+  actOnReport,
+  moderateContent,
+  type ContentReport,
+  type ReportAction,
+  type ReportContext,
+  type ReportReason,
+  type ReportStatus,
+  type ReportTargetType,
+} from '../apiServer';
+
+const PAGE_SIZE = 20;
+const MAX_DETAILS_LENGTH = 1000;
+
+const reasonLabels: Record<ReportReason, string> = {
+  spam: 'สแปมหรือโฆษณา',
+  scam: 'หลอกลวงหรือฉ้อโกง',
+  misleading: 'ข้อมูลไม่ตรงกับความจริง',
+  inappropriate: 'เนื้อหาไม่เหมาะสม',
+  harassment: 'คุกคามหรือใช้คำหยาบ',
+  other: 'อื่น ๆ',
+};
+
+const targetLabels: Record<ReportTargetType, string> = {
+  product: 'ประกาศ',
+  community_post: 'โพสต์ชุมชน',
+  comment: 'ความคิดเห็น',
+  chat_message: 'ข้อความแชท',
+  user: 'ผู้ใช้',
+};
+
+const statusBadges: Record<ReportStatus, { label: string; className: string }> = {
+  pending: { label: 'รอตรวจสอบ', className: 'bg-yellow-100 text-yellow-800' },
+  reviewing: { label: 'กำลังตรวจสอบ', className: 'bg-blue-100 text-blue-800' },
+  actioned: { label: 'ดำเนินการแล้ว', className: 'bg-green-100 text-green-800' },
+  dismissed: { label: 'ยกเลิกรายงาน', className: 'bg-gray-100 text-gray-800' },
+};
+
+const actionLabels: Record<ReportAction, string> = {
+  hide: 'ซ่อนเนื้อหา',
+  warn: 'ตักเตือนเจ้าของ',
+  suspend: 'ระงับบัญชีเจ้าของ',
+  dismiss: 'ยกเลิกรายงาน',
+};
+
+const SUSPENSION_DAYS = ['1', '3', '7', '30'];
+
+interface ReportButtonProps {
+  targetType: ReportTargetType;
+  targetId: string;
+  context?: ReportContext;
+  label?: string;          // Omit for an icon-only button
+  className?: string;
+}
+
+export function ReportButton({ targetType, targetId, context, label, className }: ReportButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason>('spam');
+  const [details, setDetails] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const handleSubmit = async () => {
+    setIsSending(true);
+    try {
+      await createReport({ targetType, targetId, reason, details: details.trim() || undefined, context });
+      toast.success('ส่งรายงานแล้ว เราจะแจ้งผลการตรวจสอบให้ทราบ');
+      setIsOpen(false);
+      setDetails('');
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'ไม่สามารถส่งรายงานได้');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        className={className}
+        title={`รายงาน${targetLabels[targetType]}`}
+        onClick={() => setIsOpen(true)}
+      >
+        <Flag className={label ? 'w-4 h-4 mr-1' : 'w-4 h-4'} />
+        {label}
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={(open: boolean) => setIsOpen(open)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>รายงาน{targetLabels[targetType]}</DialogTitle>
+            <DialogDescription>ผู้ดูแลระบบจะตรวจสอบและแจ้งผลให้คุณทราบ ผู้ถูกรายงานจะไม่เห็นชื่อของคุณ</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>เหตุผล</Label>
+              <Select value={reason} onValueChange={(value: ReportReason) => setReason(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(reasonLabels) as ReportReason[]).map(value => (
+                    <SelectItem key={value} value={value}>{reasonLabels[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="report-details">รายละเอียดเพิ่มเติม (ไม่บังคับ)</Label>
+              <Textarea
+                id="report-details"
+                rows={3}
+                maxLength={MAX_DETAILS_LENGTH}
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" disabled={isSending} onClick={() => setIsOpen(false)}>
+                ยกเลิก
+              </Button>
+              <Button variant="destructive" disabled={isSending} onClick={handleSubmit}>
+                {isSending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                ส่งรายงาน
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+interface ReportItemProps {
+  report: ContentReport;
+  onChanged: (report: ContentReport) => void;
+}
+
+function ReportItem({ report, onChanged }: ReportItemProps) {
+  const [note, setNote] = useState('');
+  const [days, setDays] = useState('7');
+  const [isSending, setIsSending] = useState(false);
+  const [isHidden, setIsHidden] = useState(report.resolution?.action === 'hide');
+
+  const open = report.status === 'pending' || report.status === 'reviewing';
+
+  const run = async (action: () => Promise<{ data: { data: ContentReport } }>, success: string) => {
+    setIsSending(true);
+    try {
+      const response = await action();
+      toast.success(success);
+      onChanged(response.data.data);
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'ไม่สามารถดำเนินการได้');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const resolve = (action: ReportAction) => run(
+    () => actOnReport(report.id, action, {
+      note: note.trim() || undefined,
+      days: action === 'suspend' ? Number(days) : undefined,
+    }),
+    actionLabels[action]
+  );
+
+  // Undo or redo a hide after the report was closed
+  const toggleHidden = async () => {
+    if (report.targetType === 'user') return;
+    setIsSending(true);
+    try {
+      await moderateContent(isHidden ? 'unhide' : 'hide', report.targetType, report.targetId, report.context);
+      toast.success(isHidden ? 'แสดงเนื้อหาอีกครั้งแล้ว' : 'ซ่อนเนื้อหาแล้ว');
+      setIsHidden(!isHidden);
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'ไม่สามารถดำเนินการได้');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Card className={report.status === 'pending' ? 'border-yellow-200 bg-yellow-50' : ''}>
+      <CardContent className="pt-6 space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex-1">
+            <div className="flex items-center gap-2 mb-2">
+              <Badge variant="secondary">{targetLabels[report.targetType]}</Badge>
+              <Badge className={statusBadges[report.status].className}>{statusBadges[report.status].label}</Badge>
+            </div>
+            <p className="mb-1">
+              <span className="text-gray-600">เหตุผล:</span> {reasonLabels[report.reason]}
+            </p>
+            {report.details && <p className="text-sm text-gray-700 mb-1">{report.details}</p>}
+            <p className="text-sm text-gray-600">
+              รายงานโดย: {report.reporterName || report.reporterId} • {new Date(report.createdAt).toLocaleDateString('th-TH')}
+            </p>
+          </div>
+        </div>
+
+        <div className="p-3 bg-white border rounded text-sm text-gray-700 break-words">
+          {report.targetPreview || <span className="text-gray-400">(ไม่มีข้อความ)</span>}
+          <p className="text-xs text-gray-400 mt-1">เจ้าของ: {report.targetOwnerId}</p>
+        </div>
+
+        {report.resolution && (
+          <p className="text-sm text-gray-600">
+            {actionLabels[report.resolution.action]} • {new Date(report.resolution.at).toLocaleString('th-TH')}
+            {report.resolution.note ? ` • ${report.resolution.note}` : ''}
+          </p>
+        )}
+
+        {open ? (
+          <div className="space-y-2">
+            <Textarea
+              rows={2}
+              maxLength={MAX_DETAILS_LENGTH}
+              placeholder="บันทึก (ส่งถึงเจ้าของเนื้อหาเมื่อตักเตือนหรือระงับบัญชี)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+            <div className="flex flex-wrap items-center gap-2">
+              {report.status === 'pending' && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={isSending}
+                  onClick={() => run(() => startReportReview(report.id), 'เริ่มตรวจสอบแล้ว')}
+                >
+                  <Clock className="w-4 h-4 mr-1" />
+                  เริ่มตรวจสอบ
+                </Button>
+              )}
+              {report.targetType !== 'user' && (
+                <Button size="sm" variant="outline" disabled={isSending} onClick={() => resolve('hide')}>
+                  <EyeOff className="w-4 h-4 mr-1" />
+                  {actionLabels.hide}
+                </Button>
+              )}
+              <Button size="sm" variant="outline" disabled={isSending} onClick={() => resolve('warn')}>
+                <AlertTriangle className="w-4 h-4 mr-1" />
+                {actionLabels.warn}
+              </Button>
+              <Select value={days} onValueChange={(value: string) => setDays(value)}>
+                <SelectTrigger className="w-28 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUSPENSION_DAYS.map(value => (
+                    <SelectItem key={value} value={value}>{value} วัน</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                variant="destructive"
+                disabled={isSending}
+                onClick={() => {
+                  if (!confirm(`ระงับบัญชีเจ้าของเนื้อหา ${days} วัน?`)) return;
+                  resolve('suspend');
+                }}
+              >
+                <Ban className="w-4 h-4 mr-1" />
+                {actionLabels.suspend}
+              </Button>
+              <Button size="sm" variant="ghost" disabled={isSending} onClick={() => resolve('dismiss')}>
+                <XCircle className="w-4 h-4 mr-1" />
+                {actionLabels.dismiss}
+              </Button>
+            </div>
+          </div>
+        ) : report.targetType !== 'user' && report.resolution?.action === 'hide' && (
+          <Button size="sm" variant="outline" disabled={isSending} onClick={toggleHidden}>
+            {isHidden ? <Eye className="w-4 h-4 mr-1" /> : <EyeOff className="w-4 h-4 mr-1" />}
+            {isHidden ? 'แสดงเนื้อหาอีกครั้ง' : 'ซ่อนอีกครั้ง'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function ReportQueue() {
+  const [status, setStatus] = useState<ReportStatus>('pending');
+  const [targetType, setTargetType] = useState<'all' | ReportTargetType>('all');
+  const [reports, setReports] = useState<ContentReport[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadPage = useCallback(async (cursor?: string) => {
+    setIsLoading(true);
+    try {
+      const response = await getReports({
+        status,
+        targetType: targetType === 'all' ? undefined : targetType,
+        limit: PAGE_SIZE,
+        cursor,
+      });
+      const page: ContentReport[] = response.data.data;
+      setReports(prev => (cursor ? [...prev, ...page] : page));
+      setNextCursor(response.data.nextCursor);
+    } catch (error) {
+      console.error('Error loading reports:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, targetType]);
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage]);
+
+  // A changed report leaves this status tab; resolving also closes other open reports on the same target
+  const handleChanged = (updated: ContentReport) => {
+    setReports(prev => prev.filter(r => (
+      updated.status === 'actioned' || updated.status === 'dismissed'
+        ? !(r.targetType === updated.targetType && r.targetId === updated.targetId)
+        : r.id !== updated.id
+    )));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <CardTitle>รายงานปัญหา</CardTitle>
+            <CardDescription>จัดการรายงานจากผู้ใช้</CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(statusBadges) as ReportStatus[]).map(value => (
+              <Button
+                key={value}
+                size="sm"
+                variant={status === value ? 'default' : 'outline'}
+                onClick={() => setStatus(value)}
+              >
+                {statusBadges[value].label}
+              </Button>
+            ))}
+            <Select value={targetType} onValueChange={(value: 'all' | ReportTargetType) => setTargetType(value)}>
+              <SelectTrigger className="w-40 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">ทุกประเภท</SelectItem>
+                {(Object.keys(targetLabels) as ReportTargetType[]).map(value => (
+                  <SelectItem key={value} value={value}>{targetLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {reports.length === 0 && !isLoading && (
+          <p className="text-sm text-gray-500 text-center py-8">ไม่มีรายงาน</p>
+        )}
+
+        {reports.map(report => (
+          <ReportItem key={report.id} report={report} onChanged={handleChanged} />
+        ))}
+
+        {isLoading && (
+          <div className="py-4 flex justify-center text-gray-500">
+            <Loader2 className="w-5 h-5 animate-spin" />
+          </div>
+        )}
+        {!isLoading && nextCursor && (
+          <Button variant="outline" className="w-full" onClick={() => loadPage(nextCursor)}>
+            โหลดเพิ่มเติม
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,8 +6,9 @@ import { Label } from '../components/ui/label';
 import { Textarea } from '../components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
-import { ArrowLeft, MapPin, Upload } from 'lucide-react';
+import { ArrowLeft, MapPin, Upload, Loader2 } from 'lucide-react';
 import { type User, type Post } from '../App'; // แก้ไข Path
+import { uploadImages, type ImageVariant } from '../apiServer';
 import { GoogleMap, MarkerF } from '@react-google-maps/api';
 
 interface CreatePostProps {
@@ -32,13 +33,10 @@ const defaultCenter = {
 };
 
 /**
- * Compress image to reduce file size
- * FIREBASE FIRESTORE LIMIT: Array field has ~1MB limit
- * We need to compress images more aggressively to fit within limit
- * - Reduced max dimensions: 1200x1200 (from 1920x1920)
- * - Reduced quality: 0.6 (from 0.8)
+ * Shrink large photos before upload to save bandwidth on mobile connections.
+ * The server still resizes to its own sizes and strips EXIF.
  */
-const compressImage = (file: File, maxWidth: number = 1200, maxHeight: number = 1200, quality: number = 0.6): Promise<File> => {
+const compressImage = (file: File, maxWidth: number = 2000, maxHeight: number = 2000, quality: number = 0.85): Promise<File> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = (e) => {
@@ -96,25 +94,6 @@ const compressImage = (file: File, maxWidth: number = 1200, maxHeight: number =
   });
 };
 
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise(async (resolve, reject) => {
-    try {
-      // Compress image first if it's an image file
-      const isImage = file.type.startsWith('image/');
-      const fileToProcess = isImage ? await compressImage(file) : file;
-      
-      const reader = new FileReader();
-      reader.onload = () => {
-        resolve(reader.result as string);
-      };
-      reader.onerror = (error) => reject(error);
-      reader.readAsDataURL(fileToProcess);
-    } catch (error) {
-      reject(error);
-    }
-  });
-};
-
 
 export function CreatePost({ user, onBack, onCreate, onUpdate, editingPost, isLoaded, loadError }: CreatePostProps) {
   const [title, setTitle] = useState(editingPost?.title || '');
@@ -125,7 +104,11 @@ export function CreatePost({ user, onBack, onCreate, onUpdate, editingPost, isLo
   const [quantity, setQuantity] = useState(editingPost?.quantity || 0);
   const [price, setPrice] = useState(editingPost?.price || 0);
   const [unit, setUnit] = useState(editingPost?.unit || 'kg');
-  const [images, setImages] = useState<string[]>(editingPost?.images || []);
+  // Uploaded images (URLs only); posts created before uploads existed only have full-size URLs
+  const [images, setImages] = useState<ImageVariant[]>(
+    editingPost?.imageVariants || (editingPost?.images || []).map(url => ({ url, medium: url, thumbnail: url }))
+  );
+  const [isUploading, setIsUploading] = useState(false);
 
   
   const [markerPosition, setMarkerPosition] = useState<{ lat: number; lng: number } | null>(
@@ -179,28 +162,18 @@ export function CreatePost({ user, onBack, onCreate, onUpdate, editingPost, isLo
       if (!proceed) return;
     }
 
+    setIsUploading(true);
     try {
-      // Convert all files to base64 with compression
-      const base64List = await Promise.all(
-        filesToAdd.map((file) => fileToBase64(file))
-      );
-      
-      // FIREBASE FIRESTORE LIMIT CHECK:
-      // Check total size of new images + existing images
-      // Firestore has a limit of ~1MB per array field
-      const newImages = [...images, ...base64List];
-      const totalSize = JSON.stringify(newImages).length;
-      const maxSize = 900000; // ~900KB (leave some buffer below 1MB limit of 1,048,487 bytes)
-      
-      if (totalSize > maxSize) {
-        alert(`รูปภาพมีขนาดใหญ่เกินไป (${Math.round(totalSize / 1024)}KB > ${Math.round(maxSize / 1024)}KB)\nกรุณาลดจำนวนหรือขนาดรูปภาพ`);
-        return;
-      }
-      
-      setImages(newImages);
-    } catch (error) {
-      console.error("แปลงรูปเป็น Base64 ไม่สำเร็จ", error);
-      alert("อัปโหลดรูปไม่สำเร็จ ลองใหม่อีกครั้ง");
+      const compressed = await Promise.all(filesToAdd.map((file) => compressImage(file)));
+      const response = await uploadImages(compressed);
+      const uploaded: ImageVariant[] = (response.data.data || []).map(({ url, medium, thumbnail }: ImageVariant) => ({ url, medium, thumbnail }));
+      setImages(prev => [...prev, ...uploaded]);
+    } catch (error: any) {
+      console.error("อัปโหลดรูปไม่สำเร็จ", error);
+      alert(error?.response?.data?.message || "อัปโหลดรูปไม่สำเร็จ ลองใหม่อีกครั้ง");
+    } finally {
+      setIsUploading(false);
+      e.target.value = '';
     }
   };
 
@@ -231,7 +204,8 @@ export function CreatePost({ user, onBack, onCreate, onUpdate, editingPost, isLo
       distance: 0, 
       verified: false,
       npk: { n: 0, p: 0, k: 0 }, // Should be calculated
-      images,
+      images: images.map(image => image.url),
+      imageVariants: images,
       farmName: user.farmName || user.name,
       contactPhone: '', // Should be from user profile
       sold: false
@@ -369,7 +343,11 @@ export function CreatePost({ user, onBack, onCreate, onUpdate, editingPost, isLo
               <div className="flex items-center justify-center w-full">
                 <Label htmlFor="dropzone-file" className="flex flex-col items-center justify-center w-full h-32 border-2 border-dashed rounded-lg cursor-pointer bg-gray-50 hover:bg-gray-100">
                   <div className="flex flex-col items-center justify-center pt-5 pb-6">
-                    <Upload className="w-10 h-10 mb-3 text-gray-400" />
+                    {isUploading ? (
+                      <Loader2 className="w-10 h-10 mb-3 text-gray-400 animate-spin" />
+                    ) : (
+                      <Upload className="w-10 h-10 mb-3 text-gray-400" />
+                    )}
                     <p className="mb-2 text-sm text-gray-500"><span className="font-semibold">คลิกเพื่ออัปโหลด</span> หรือลากและวาง</p>
                     <p className="text-xs text-gray-500">รูปภาพ (สูงสุด 5 รูป)</p>
                   </div>
@@ -380,7 +358,7 @@ export function CreatePost({ user, onBack, onCreate, onUpdate, editingPost, isLo
                       multiple
                       accept="image/*"
                       onChange={handleImageChange}
-                      disabled={images.length >= 5}
+                      disabled={images.length >= 5 || isUploading}
                     />
                 </Label>
               </div>
@@ -389,9 +367,9 @@ export function CreatePost({ user, onBack, onCreate, onUpdate, editingPost, isLo
               {images.length > 0 && (
                 <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mt-4">
                   {images.map((img, index) => (
-                    <div key={index} className="relative group">
+                    <div key={img.url} className="relative group">
                       <img 
-                        src={img} 
+                        src={img.thumbnail} 
                         alt={`Preview ${index + 1}`}
                         className="w-full h-32 object-cover rounded-lg border"
                       />
@@ -413,7 +391,7 @@ export function CreatePost({ user, onBack, onCreate, onUpdate, editingPost, isLo
               )}
             </div>
 
-            <Button type="submit" className="w-full">
+            <Button type="submit" className="w-full" disabled={isUploading}>
               {editingPost ? 'บันทึกการเปลี่ยนแปลง' : 'สร้างโพสต์'}
             </Button>
           </form>
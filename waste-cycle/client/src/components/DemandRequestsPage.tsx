@@ -0,0 +1,588 @@
+import { useState, useEffect, useCallback } from 'react';
+import { MapPin, Calendar, Package, Plus, Loader2, CheckCircle, XCircle, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import type { User, Post } from '../App';
+import {
+  getNearbyDemands,
+  getMyDemands,
+  createDemand,
+  closeDemand,
+  getDemandOffers,
+  createOffer,
+  acceptOffer,
+  rejectOffer,
+} from '../apiServer';
+
+interface DemandRequestsPageProps {
+  user: User;
+  myPosts: Post[];   // Products the seller can offer
+  onBookingCreated?: () => void;
+}
+
+export interface DemandRequest {
+  id: string;
+  buyerId: string;
+  buyerName: string;
+  crop: string;
+  wantedNpk: { n: number; p: number; k: number } | null;
+  quantity: number;
+  unit: string;
+  deliveryWindow: { from: string; to: string };
+  maxPrice: number | null;
+  location: { lat: number; lng: number };
+  notes?: string;
+  status: 'open' | 'fulfilled' | 'closed';
+  offerCount: number;
+  distance?: number;
+  createdAt: string;
+}
+
+export interface DemandOffer {
+  id: string;
+  sellerId: string;
+  sellerName: string;
+  productId: string;
+  productTitle: string;
+  npk: { n: number; p: number; k: number } | null;
+  quantity: number;
+  pricePerUnit: number;
+  deliveryDate: string;
+  message: string;
+  status: 'pending' | 'accepted' | 'rejected';
+  bookingId: string | null;
+  createdAt: string;
+}
+
+const statusLabels: Record<DemandRequest['status'], string> = {
+  open: 'เปิดรับข้อเสนอ',
+  fulfilled: 'ได้ผู้ขายแล้ว',
+  closed: 'ปิดแล้ว',
+};
+
+const offerStatusLabels: Record<DemandOffer['status'], string> = {
+  pending: 'รอพิจารณา',
+  accepted: 'ยอมรับแล้ว',
+  rejected: 'ปฏิเสธแล้ว',
+};
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString('th-TH');
+
+const errorMessage = (err: any, fallback: string) => err?.response?.data?.message || fallback;
+
+export function DemandRequestsPage({ user, myPosts, onBookingCreated }: DemandRequestsPageProps) {
+  const [activeTab, setActiveTab] = useState('nearby');
+  const [radiusKm, setRadiusKm] = useState('50');
+  const [nearby, setNearby] = useState<DemandRequest[]>([]);
+  const [mine, setMine] = useState<DemandRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+
+  const fetchNearby = useCallback(async () => {
+    if (!user.location) {
+      setNearby([]);
+      return;
+    }
+    try {
+      const response = await getNearbyDemands({ radiusKm: Number(radiusKm) });
+      setNearby((response.data.data || []).filter((d: DemandRequest) => d.buyerId !== (user.uid || user.id)));
+    } catch (err: any) {
+      console.error('Failed to fetch nearby demand requests:', err);
+      toast.error(errorMessage(err, 'ไม่สามารถโหลดคำขอซื้อได้'));
+    }
+  }, [radiusKm, user.location, user.uid, user.id]);
+
+  const fetchMine = useCallback(async () => {
+    try {
+      const response = await getMyDemands();
+      setMine(response.data.data || []);
+    } catch (err: any) {
+      console.error('Failed to fetch my demand requests:', err);
+      toast.error(errorMessage(err, 'ไม่สามารถโหลดคำขอของคุณได้'));
+    }
+  }, []);
+
+  useEffect(() => {
+    setIsLoading(true);
+    Promise.all([fetchNearby(), fetchMine()]).finally(() => setIsLoading(false));
+  }, [fetchNearby, fetchMine]);
+
+  const handleClose = async (demand: DemandRequest) => {
+    try {
+      await closeDemand(demand.id);
+      toast.success('ปิดคำขอแล้ว');
+      fetchMine();
+    } catch (err: any) {
+      toast.error(errorMessage(err, 'ไม่สามารถปิดคำขอได้'));
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl">คำขอซื้อปุ๋ย</h1>
+          <p className="text-gray-600">ผู้ซื้อประกาศความต้องการ ผู้ขายยื่นข้อเสนอจากสินค้าของตนเอง</p>
+        </div>
+        <Button onClick={() => { setActiveTab('mine'); setShowCreateForm(true); }} className="bg-green-600 hover:bg-green-700">
+          <Plus className="w-4 h-4 mr-2" />
+          สร้างคำขอซื้อ
+        </Button>
+      </div>
+
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList className="mb-6">
+          <TabsTrigger value="nearby">คำขอใกล้ฉัน ({nearby.length})</TabsTrigger>
+          <TabsTrigger value="mine">คำขอของฉัน ({mine.length})</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="nearby">
+          <div className="flex items-center gap-3 mb-4">
+            <Label>ระยะทาง</Label>
+            <Select value={radiusKm} onValueChange={setRadiusKm}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {['10', '25', '50', '100', '200'].map(km => (
+                  <SelectItem key={km} value={km}>{km} กม.</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!user.location && (
+            <Card>
+              <CardContent className="py-12 text-center text-gray-500">
+                กรุณาตั้งค่าตำแหน่งฟาร์มในโปรไฟล์เพื่อดูคำขอซื้อใกล้คุณ
+              </CardContent>
+            </Card>
+          )}
+
+          {isLoading && <LoadingCard />}
+
+          {!isLoading && user.location && (
+            <div className="space-y-4">
+              {nearby.map(demand => (
+                <NearbyDemandCard key={demand.id} demand={demand} myPosts={myPosts} onOffered={fetchNearby} />
+              ))}
+              {nearby.length === 0 && (
+                <Card>
+                  <CardContent className="py-12 text-center text-gray-500">ไม่มีคำขอซื้อในระยะนี้</CardContent>
+                </Card>
+              )}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="mine">
+          {showCreateForm && (
+            <CreateDemandForm
+              user={user}
+              onCancel={() => setShowCreateForm(false)}
+              onCreated={() => { setShowCreateForm(false); fetchMine(); }}
+            />
+          )}
+
+          {isLoading && <LoadingCard />}
+
+          {!isLoading && (
+            <div className="space-y-4">
+              {mine.map(demand => (
+                <MyDemandCard
+                  key={demand.id}
+                  demand={demand}
+                  onClose={() => handleClose(demand)}
+                  onAccepted={() => { fetchMine(); onBookingCreated?.(); }}
+                />
+              ))}
+              {mine.length === 0 && !showCreateForm && (
+                <Card>
+                  <CardContent className="py-12 text-center text-gray-500">คุณยังไม่มีคำขอซื้อ</CardContent>
+                </Card>
+              )}
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+function LoadingCard() {
+  return (
+    <Card>
+      <CardContent className="py-12 flex items-center justify-center gap-2 text-gray-500">
+        <Loader2 className="w-5 h-5 animate-spin" />
+        กำลังโหลด...
+      </CardContent>
+    </Card>
+  );
+}
+
+function DemandSummary({ demand }: { demand: DemandRequest }) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      <div className="flex items-start gap-3">
+        <Package className="w-5 h-5 text-gray-400 mt-0.5" />
+        <div>
+          <p className="text-sm text-gray-600">ปริมาณ</p>
+          <p>{demand.quantity.toLocaleString()} {demand.unit}</p>
+        </div>
+      </div>
+      <div className="flex items-start gap-3">
+        <Calendar className="w-5 h-5 text-gray-400 mt-0.5" />
+        <div>
+          <p className="text-sm text-gray-600">ช่วงส่งมอบ</p>
+          <p>{formatDate(demand.deliveryWindow.from)} - {formatDate(demand.deliveryWindow.to)}</p>
+        </div>
+      </div>
+      <div>
+        <p className="text-sm text-gray-600">ราคาสูงสุด</p>
+        <p>{demand.maxPrice ? `฿${demand.maxPrice.toLocaleString()}/${demand.unit}` : 'ไม่ระบุ'}</p>
+      </div>
+      <div>
+        <p className="text-sm text-gray-600 mb-1">NPK ที่ต้องการ</p>
+        {demand.wantedNpk ? (
+          <div className="flex gap-2">
+            <Badge variant="outline">N: {demand.wantedNpk.n}%</Badge>
+            <Badge variant="outline">P: {demand.wantedNpk.p}%</Badge>
+            <Badge variant="outline">K: {demand.wantedNpk.k}%</Badge>
+          </div>
+        ) : (
+          <p>ไม่ระบุ</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface NearbyDemandCardProps {
+  demand: DemandRequest;
+  myPosts: Post[];
+  onOffered: () => void;
+}
+
+function NearbyDemandCard({ demand, myPosts, onOffered }: NearbyDemandCardProps) {
+  const availablePosts = myPosts.filter(post => !post.sold);
+  const [showForm, setShowForm] = useState(false);
+  const [productId, setProductId] = useState(availablePosts[0]?.id || '');
+  const [quantity, setQuantity] = useState(String(demand.quantity));
+  const [pricePerUnit, setPricePerUnit] = useState('');
+  const [deliveryDate, setDeliveryDate] = useState(demand.deliveryWindow.from.slice(0, 10));
+  const [message, setMessage] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await createOffer(demand.id, {
+        productId,
+        quantity: Number(quantity),
+        pricePerUnit: Number(pricePerUnit),
+        deliveryDate,
+        message,
+      });
+      toast.success('ส่งข้อเสนอแล้ว');
+      setShowForm(false);
+      onOffered();
+    } catch (err: any) {
+      toast.error(errorMessage(err, 'ไม่สามารถส่งข้อเสนอได้'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle>{demand.crop}</CardTitle>
+            <CardDescription className="flex items-center gap-1">
+              <MapPin className="w-3 h-3" />
+              {demand.buyerName || 'ผู้ซื้อ'} • {demand.distance} กม. • ข้อเสนอ {demand.offerCount}
+            </CardDescription>
+          </div>
+          <Badge variant="secondary">{statusLabels[demand.status]}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <DemandSummary demand={demand} />
+        {demand.notes && <p className="text-sm text-gray-600">{demand.notes}</p>}
+
+        {!showForm ? (
+          <Button onClick={() => setShowForm(true)} disabled={availablePosts.length === 0} className="bg-green-600 hover:bg-green-700">
+            <Send className="w-4 h-4 mr-2" />
+            {availablePosts.length === 0 ? 'ไม่มีสินค้าที่จะเสนอ' : 'ยื่นข้อเสนอ'}
+          </Button>
+        ) : (
+          <div className="border-t pt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>สินค้าที่เสนอ</Label>
+              <Select value={productId} onValueChange={setProductId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="เลือกสินค้า" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availablePosts.map(post => (
+                    <SelectItem key={post.id} value={post.id}>{post.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>ปริมาณ ({demand.unit})</Label>
+              <Input type="number" min="1" value={quantity} onChange={(e) => setQuantity(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>ราคาต่อหน่วย (บาท)</Label>
+              <Input type="number" min="0" value={pricePerUnit} onChange={(e) => setPricePerUnit(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>วันที่ส่งมอบ</Label>
+              <Input type="date" value={deliveryDate} onChange={(e) => setDeliveryDate(e.target.value)} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>ข้อความถึงผู้ซื้อ</Label>
+              <Textarea value={message} onChange={(e) => setMessage(e.target.value)} rows={2} />
+            </div>
+            <div className="flex gap-2 md:col-span-2">
+              <Button
+                onClick={handleSubmit}
+                disabled={isSubmitting || !productId || !(Number(quantity) > 0) || !(Number(pricePerUnit) > 0)}
+                className="bg-green-600 hover:bg-green-700"
+              >
+                {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                ส่งข้อเสนอ
+              </Button>
+              <Button variant="outline" onClick={() => setShowForm(false)}>ยกเลิก</Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface MyDemandCardProps {
+  demand: DemandRequest;
+  onClose: () => void;
+  onAccepted: () => void;
+}
+
+function MyDemandCard({ demand, onClose, onAccepted }: MyDemandCardProps) {
+  const [offers, setOffers] = useState<DemandOffer[] | null>(null);
+  const [pendingOfferId, setPendingOfferId] = useState<string | null>(null);
+
+  const loadOffers = async () => {
+    try {
+      const response = await getDemandOffers(demand.id);
+      setOffers(response.data.data || []);
+    } catch (err: any) {
+      toast.error(errorMessage(err, 'ไม่สามารถโหลดข้อเสนอได้'));
+    }
+  };
+
+  const handleDecision = async (offer: DemandOffer, decision: 'accept' | 'reject') => {
+    setPendingOfferId(offer.id);
+    try {
+      if (decision === 'accept') {
+        await acceptOffer(demand.id, offer.id);
+        toast.success('ยอมรับข้อเสนอแล้ว ระบบสร้างการจองให้อัตโนมัติ');
+        onAccepted();
+      } else {
+        await rejectOffer(demand.id, offer.id);
+        toast.success('ปฏิเสธข้อเสนอแล้ว');
+      }
+      await loadOffers();
+    } catch (err: any) {
+      toast.error(errorMessage(err, 'ไม่สามารถดำเนินการได้'));
+    } finally {
+      setPendingOfferId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle>{demand.crop}</CardTitle>
+            <CardDescription>สร้างเมื่อ {formatDate(demand.createdAt)} • ข้อเสนอ {demand.offerCount}</CardDescription>
+          </div>
+          <Badge variant={demand.status === 'open' ? 'secondary' : 'outline'}>{statusLabels[demand.status]}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <DemandSummary demand={demand} />
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => (offers ? setOffers(null) : loadOffers())}>
+            {offers ? 'ซ่อนข้อเสนอ' : 'ดูข้อเสนอ'}
+          </Button>
+          {demand.status === 'open' && (
+            <Button variant="destructive" onClick={onClose}>ปิดคำขอ</Button>
+          )}
+        </div>
+
+        {offers && (
+          <div className="border-t pt-4 space-y-3">
+            {offers.length === 0 && <p className="text-sm text-gray-500">ยังไม่มีข้อเสนอ</p>}
+            {offers.map(offer => (
+              <div key={offer.id} className="border rounded-lg p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                <div>
+                  <p className="font-medium">{offer.productTitle} • {offer.sellerName || 'ผู้ขาย'}</p>
+                  <p className="text-sm text-gray-600">
+                    {offer.quantity.toLocaleString()} {demand.unit} × ฿{offer.pricePerUnit.toLocaleString()} • ส่งมอบ {formatDate(offer.deliveryDate)}
+                  </p>
+                  {offer.npk && (
+                    <p className="text-sm text-gray-600">NPK {offer.npk.n}-{offer.npk.p}-{offer.npk.k}</p>
+                  )}
+                  {offer.message && <p className="text-sm text-gray-500 mt-1">{offer.message}</p>}
+                </div>
+                {offer.status === 'pending' && demand.status === 'open' ? (
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      className="bg-green-600 hover:bg-green-700"
+                      disabled={pendingOfferId !== null}
+                      onClick={() => handleDecision(offer, 'accept')}
+                    >
+                      <CheckCircle className="w-4 h-4 mr-1" />
+                      ยอมรับ
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={pendingOfferId !== null}
+                      onClick={() => handleDecision(offer, 'reject')}
+                    >
+                      <XCircle className="w-4 h-4 mr-1" />
+                      ปฏิเสธ
+                    </Button>
+                  </div>
+                ) : (
+                  <Badge variant="outline">{offerStatusLabels[offer.status]}</Badge>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface CreateDemandFormProps {
+  user: User;
+  onCancel: () => void;
+  onCreated: () => void;
+}
+
+function CreateDemandForm({ user, onCancel, onCreated }: CreateDemandFormProps) {
+  const [crop, setCrop] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
+  const [npk, setNpk] = useState({ n: '', p: '', k: '' });
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const hasNpk = npk.n !== '' && npk.p !== '' && npk.k !== '';
+
+  const handleSubmit = async () => {
+    if (!user.location) {
+      toast.error('กรุณาตั้งค่าตำแหน่งฟาร์มในโปรไฟล์ก่อนสร้างคำขอ');
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await createDemand({
+        crop,
+        quantity: Number(quantity),
+        maxPrice: maxPrice ? Number(maxPrice) : null,
+        wantedNpk: hasNpk ? { n: Number(npk.n), p: Number(npk.p), k: Number(npk.k) } : null,
+        deliveryWindow: { from, to },
+        location: user.location,
+        notes,
+      });
+      toast.success('สร้างคำขอซื้อแล้ว');
+      onCreated();
+    } catch (err: any) {
+      toast.error(errorMessage(err, 'ไม่สามารถสร้างคำขอได้'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>สร้างคำขอซื้อ</CardTitle>
+        <CardDescription>ผู้ขายใกล้คุณจะเห็นคำขอนี้และยื่นข้อเสนอได้</CardDescription>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>พืชที่ปลูก</Label>
+          <Input value={crop} onChange={(e) => setCrop(e.target.value)} placeholder="เช่น ข้าว, ทุเรียน" />
+        </div>
+        <div className="space-y-2">
+          <Label>ปริมาณที่ต้องการ (กก.)</Label>
+          <Input type="number" min="1" value={quantity} onChange={(e) => setQuantity(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label>NPK ที่ต้องการ (%)</Label>
+          <div className="flex gap-2">
+            {(['n', 'p', 'k'] as const).map(key => (
+              <Input
+                key={key}
+                type="number"
+                min="0"
+                step="0.1"
+                placeholder={key.toUpperCase()}
+                value={npk[key]}
+                onChange={(e) => setNpk(prev => ({ ...prev, [key]: e.target.value }))}
+              />
+            ))}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>ราคาสูงสุดต่อกก. (บาท)</Label>
+          <Input type="number" min="0" value={maxPrice} onChange={(e) => setMaxPrice(e.target.value)} placeholder="ไม่ระบุ" />
+        </div>
+        <div className="space-y-2">
+          <Label>ส่งมอบตั้งแต่</Label>
+          <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label>ส่งมอบไม่เกิน</Label>
+          <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+        <div className="space-y-2 md:col-span-2">
+          <Label>รายละเอียดเพิ่มเติม</Label>
+          <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+        </div>
+        <div className="flex gap-2 md:col-span-2">
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || !crop.trim() || !(Number(quantity) > 0) || !from || !to}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            สร้างคำขอ
+          </Button>
+          <Button variant="outline" onClick={onCancel}>ยกเลิก</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,548 @@
+/**
+ * Farm verification: the seller's application form and status (ProfilePage)
+ * and the admin review queue with approve / reject with reason (AdminPanel)
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ShieldCheck, ImagePlus, FileText, X, Loader2, CheckCircle, XCircle, Clock } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Textarea } from './ui/textarea';
+import { ImageWithFallback } from './figma/ImageWithFallback';
+import {
+  getMyFarmVerification,
+  submitFarmVerification,
+  getFarmVerifications,
+  approveFarmVerification,
+  rejectFarmVerification,
+  uploadImages,
+  uploadFiles,
+  type FarmVerification,
+  type FarmVerificationStatus,
+  type UploadedImage,
+  type UploadedFile,
+} from '../apiServer';
+
+const MAX_PHOTOS = 5;
+const MAX_PHOTO_BYTES = 10 * 1024 * 1024;
+const MAX_CERTIFICATE_BYTES = 5 * 1024 * 1024;
+const PAGE_SIZE = 20;
+
+const statusBadges: Record<FarmVerificationStatus, { label: string; className: string }> = {
+  pending: { label: 'รอตรวจสอบ', className: 'bg-yellow-100 text-yellow-800' },
+  approved: { label: 'ยืนยันแล้ว', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'ไม่ผ่านการตรวจสอบ', className: 'bg-red-100 text-red-800' },
+};
+
+function StatusBadge({ status }: { status: FarmVerificationStatus }) {
+  return <Badge className={statusBadges[status].className}>{statusBadges[status].label}</Badge>;
+}
+
+function ApplicationDetails({ application }: { application: FarmVerification }) {
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+        <div>
+          <p className="text-gray-600">เลขทะเบียนฟาร์ม</p>
+          <p>{application.registrationNumber}</p>
+        </div>
+        <div>
+          <p className="text-gray-600">ชนิดสัตว์</p>
+          <p>{application.livestockType || '-'}</p>
+        </div>
+        <div>
+          <p className="text-gray-600">จำนวนสัตว์</p>
+          <p>{application.livestockCount.toLocaleString()} ตัว</p>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {application.photos.map(photo => (
+          <a key={photo.url} href={photo.url} target="_blank" rel="noreferrer" className="w-20 h-20 rounded overflow-hidden bg-gray-100">
+            <ImageWithFallback src={photo.thumbnail} alt="รูปฟาร์ม" className="w-full h-full object-cover" />
+          </a>
+        ))}
+      </div>
+      {application.gapCertificate && (
+        <a
+          href={application.gapCertificate.url}
+          target="_blank"
+          rel="noreferrer"
+          className="inline-flex items-center gap-2 text-sm text-blue-600 hover:underline"
+        >
+          <FileText className="w-4 h-4" />
+          {application.gapCertificate.name}
+        </a>
+      )}
+    </div>
+  );
+}
+
+interface FarmVerificationFormProps {
+  farmName?: string;
+}
+
+export function FarmVerificationForm({ farmName = '' }: FarmVerificationFormProps) {
+  const [application, setApplication] = useState<FarmVerification | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+
+  const [form, setForm] = useState({ farmName, registrationNumber: '', livestockType: '', livestockCount: '' });
+  const [photos, setPhotos] = useState<{ file: File; preview: string }[]>([]);
+  const [certificate, setCertificate] = useState<File | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const certificateInputRef = useRef<HTMLInputElement>(null);
+
+  // Release preview URLs when the form goes away
+  const photosRef = useRef(photos);
+  photosRef.current = photos;
+  useEffect(() => () => photosRef.current.forEach(photo => URL.revokeObjectURL(photo.preview)), []);
+
+  useEffect(() => {
+    getMyFarmVerification()
+      .then(response => setApplication(response.data.data))
+      .catch(error => console.error('Error loading farm verification:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const startEditing = () => {
+    // A rejected application is resubmitted with its previous answers
+    if (application) {
+      setForm({
+        farmName: application.farmName,
+        registrationNumber: application.registrationNumber,
+        livestockType: application.livestockType,
+        livestockCount: String(application.livestockCount),
+      });
+    }
+    setIsEditing(true);
+  };
+
+  const handlePhotos = (files: FileList | null) => {
+    const selected = Array.from(files || []);
+    if (selected.some(file => file.size > MAX_PHOTO_BYTES)) toast.error('รูปต้องมีขนาดไม่เกิน 10MB');
+
+    const accepted = selected
+      .filter(file => file.type.startsWith('image/') && file.size <= MAX_PHOTO_BYTES)
+      .slice(0, MAX_PHOTOS - photos.length);
+    setPhotos(prev => [...prev, ...accepted.map(file => ({ file, preview: URL.createObjectURL(file) }))]);
+  };
+
+  const removePhoto = (index: number) => {
+    URL.revokeObjectURL(photos[index].preview);
+    setPhotos(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleCertificate = (file: File | undefined) => {
+    if (!file) return;
+    if (file.type !== 'application/pdf') {
+      toast.error('ใบรับรอง GAP ต้องเป็นไฟล์ PDF');
+      return;
+    }
+    if (file.size > MAX_CERTIFICATE_BYTES) {
+      toast.error('ใบรับรอง GAP ต้องมีขนาดไม่เกิน 5MB');
+      return;
+    }
+    setCertificate(file);
+  };
+
+  const livestockCount = Number(form.livestockCount);
+  const canSubmit = form.registrationNumber.trim() !== '' &&
+    Number.isInteger(livestockCount) && livestockCount >= 1 &&
+    photos.length > 0 && !isSubmitting;
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      const uploadedPhotos: UploadedImage[] = (await uploadImages(photos.map(photo => photo.file), 'verifications')).data.data;
+      let gapCertificate: Omit<UploadedFile, 'id'> | null = null;
+      if (certificate) {
+        const [{ url, name, size, contentType }]: UploadedFile[] = (await uploadFiles([certificate], 'verifications')).data.data;
+        gapCertificate = { url, name, size, contentType };
+      }
+
+      const response = await submitFarmVerification({
+        farmName: form.farmName,
+        registrationNumber: form.registrationNumber,
+        livestockType: form.livestockType,
+        livestockCount,
+        photos: uploadedPhotos.map(({ url, medium, thumbnail }) => ({ url, medium, thumbnail })),
+        gapCertificate,
+      });
+      setApplication(response.data.data);
+      setIsEditing(false);
+      photos.forEach(photo => URL.revokeObjectURL(photo.preview));
+      setPhotos([]);
+      setCertificate(null);
+      toast.success('ส่งคำขอยืนยันฟาร์มแล้ว ผู้ดูแลระบบจะตรวจสอบโดยเร็ว');
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'ไม่สามารถส่งคำขอยืนยันฟาร์มได้');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="py-12 flex justify-center text-gray-500">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (application && !isEditing) {
+    return (
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>ยืนยันฟาร์ม</CardTitle>
+              <CardDescription>
+                ส่งคำขอเมื่อ {new Date(application.submittedAt).toLocaleDateString('th-TH')}
+              </CardDescription>
+            </div>
+            <StatusBadge status={application.status} />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {application.status === 'pending' && (
+            <p className="text-sm text-gray-600">คำขอของคุณอยู่ระหว่างการตรวจสอบ คุณจะได้รับการแจ้งเตือนเมื่อผู้ดูแลระบบพิจารณาแล้ว</p>
+          )}
+          {application.status === 'approved' && (
+            <p className="text-sm text-green-700">ฟาร์มของคุณได้รับการยืนยันแล้ว สินค้าทุกรายการของคุณจะแสดงป้าย "ยืนยันแล้ว"</p>
+          )}
+          {application.status === 'rejected' && (
+            <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-sm">
+              <p className="font-medium text-red-800 mb-1">เหตุผลที่ไม่ผ่าน</p>
+              <p className="text-red-700 whitespace-pre-line">{application.reason}</p>
+            </div>
+          )}
+          <ApplicationDetails application={application} />
+          {application.status === 'rejected' && (
+            <Button className="bg-green-600 hover:bg-green-700" onClick={startEditing}>
+              ส่งคำขออีกครั้ง
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!application && !isEditing) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center space-y-4">
+          <ShieldCheck className="w-12 h-12 text-green-600 mx-auto" />
+          <div>
+            <p className="text-lg">ยืนยันฟาร์มของคุณ</p>
+            <p className="text-sm text-gray-600">ฟาร์มที่ยืนยันแล้วจะได้รับป้าย "ยืนยันแล้ว" บนสินค้าทุกรายการ ช่วยให้ผู้ซื้อมั่นใจมากขึ้น</p>
+          </div>
+          <Button className="bg-green-600 hover:bg-green-700" onClick={startEditing}>
+            ยื่นคำขอยืนยันฟาร์ม
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>ยื่นคำขอยืนยันฟาร์ม</CardTitle>
+        <CardDescription>ผู้ดูแลระบบจะตรวจสอบข้อมูลและเอกสารของคุณ</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="verification-farm-name">ชื่อฟาร์ม</Label>
+            <Input
+              id="verification-farm-name"
+              maxLength={100}
+              value={form.farmName}
+              onChange={(e) => setForm({ ...form, farmName: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="verification-registration">เลขทะเบียนฟาร์ม *</Label>
+            <Input
+              id="verification-registration"
+              maxLength={100}
+              value={form.registrationNumber}
+              onChange={(e) => setForm({ ...form, registrationNumber: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="verification-livestock-type">ชนิดสัตว์</Label>
+            <Input
+              id="verification-livestock-type"
+              maxLength={100}
+              placeholder="เช่น ไก่ไข่ โคนม สุกร"
+              value={form.livestockType}
+              onChange={(e) => setForm({ ...form, livestockType: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="verification-livestock-count">จำนวนสัตว์ (ตัว) *</Label>
+            <Input
+              id="verification-livestock-count"
+              type="number"
+              min={1}
+              step={1}
+              value={form.livestockCount}
+              onChange={(e) => setForm({ ...form, livestockCount: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <div>
+          <Label className="mb-2 block">รูปฟาร์ม * (สูงสุด {MAX_PHOTOS} รูป)</Label>
+          <div className="flex flex-wrap gap-2">
+            {photos.map((photo, index) => (
+              <div key={photo.preview} className="relative w-20 h-20 rounded overflow-hidden bg-gray-200">
+                <img src={photo.preview} alt="" className="w-full h-full object-cover" />
+                <button
+                  type="button"
+                  onClick={() => removePhoto(index)}
+                  className="absolute top-0.5 right-0.5 bg-black/60 text-white rounded-full p-0.5"
+                  aria-label="ลบรูป"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+            {photos.length < MAX_PHOTOS && (
+              <button
+                type="button"
+                onClick={() => photoInputRef.current?.click()}
+                className="w-20 h-20 rounded border-2 border-dashed border-gray-300 flex items-center justify-center text-gray-400 hover:text-green-600 hover:border-green-600"
+                aria-label="เพิ่มรูป"
+              >
+                <ImagePlus className="w-5 h-5" />
+              </button>
+            )}
+            <input
+              ref={photoInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                handlePhotos(e.target.files);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+
+        <div>
+          <Label className="mb-2 block">ใบรับรอง GAP (PDF ไม่เกิน 5MB ถ้ามี)</Label>
+          {certificate ? (
+            <div className="inline-flex items-center gap-2 text-sm p-2 bg-gray-50 rounded">
+              <FileText className="w-4 h-4 text-gray-500" />
+              <span>{certificate.name}</span>
+              <button type="button" onClick={() => setCertificate(null)} aria-label="ลบไฟล์">
+                <X className="w-4 h-4 text-gray-500" />
+              </button>
+            </div>
+          ) : (
+            <Button variant="outline" size="sm" onClick={() => certificateInputRef.current?.click()}>
+              <FileText className="w-4 h-4 mr-2" />
+              เลือกไฟล์
+            </Button>
+          )}
+          <input
+            ref={certificateInputRef}
+            type="file"
+            accept="application/pdf"
+            className="hidden"
+            onChange={(e) => {
+              handleCertificate(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <Button className="bg-green-600 hover:bg-green-700" disabled={!canSubmit} onClick={handleSubmit}>
+            {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            ส่งคำขอ
+          </Button>
+          <Button variant="outline" disabled={isSubmitting} onClick={() => setIsEditing(false)}>
+            ยกเลิก
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface QueueItemProps {
+  application: FarmVerification;
+  onReviewed: (application: FarmVerification) => void;
+}
+
+function QueueItem({ application, onReviewed }: QueueItemProps) {
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const review = async (action: () => Promise<{ data: { data: FarmVerification } }>, success: string) => {
+    setIsSending(true);
+    try {
+      const response = await action();
+      toast.success(success);
+      onReviewed(response.data.data);
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'ไม่สามารถบันทึกผลการตรวจสอบได้');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Card className={application.status === 'pending' ? 'border-yellow-200 bg-yellow-50' : ''}>
+      <CardContent className="pt-6 space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <p className="text-lg">{application.farmName || application.userName}</p>
+            <p className="text-sm text-gray-600">
+              {application.userName} • {application.email} • ส่งเมื่อ {new Date(application.submittedAt).toLocaleDateString('th-TH')}
+            </p>
+          </div>
+          <StatusBadge status={application.status} />
+        </div>
+
+        <ApplicationDetails application={application} />
+
+        {application.status === 'rejected' && application.reason && (
+          <p className="text-sm text-red-700">เหตุผล: {application.reason}</p>
+        )}
+
+        {application.status === 'pending' && (
+          isRejecting ? (
+            <div className="space-y-2">
+              <Textarea
+                rows={2}
+                maxLength={1000}
+                placeholder="เหตุผลที่ไม่อนุมัติ (ผู้ขายจะเห็นข้อความนี้)"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  disabled={!reason.trim() || isSending}
+                  onClick={() => review(() => rejectFarmVerification(application.userId, reason.trim()), 'ปฏิเสธคำขอแล้ว')}
+                >
+                  ยืนยันการปฏิเสธ
+                </Button>
+                <Button size="sm" variant="outline" disabled={isSending} onClick={() => setIsRejecting(false)}>
+                  ยกเลิก
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                className="bg-green-600 hover:bg-green-700"
+                disabled={isSending}
+                onClick={() => review(() => approveFarmVerification(application.userId), 'อนุมัติฟาร์มแล้ว')}
+              >
+                <CheckCircle className="w-4 h-4 mr-1" />
+                อนุมัติ
+              </Button>
+              <Button size="sm" variant="outline" disabled={isSending} onClick={() => setIsRejecting(true)}>
+                <XCircle className="w-4 h-4 mr-1" />
+                ปฏิเสธ
+              </Button>
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function FarmVerificationQueue() {
+  const [status, setStatus] = useState<FarmVerificationStatus>('pending');
+  const [applications, setApplications] = useState<FarmVerification[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadPage = useCallback(async (cursor?: string) => {
+    setIsLoading(true);
+    try {
+      const response = await getFarmVerifications({ status, limit: PAGE_SIZE, cursor });
+      const page: FarmVerification[] = response.data.data;
+      setApplications(prev => (cursor ? [...prev, ...page] : page));
+      setNextCursor(response.data.nextCursor);
+    } catch (error) {
+      console.error('Error loading farm verifications:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <CardTitle>ยืนยันฟาร์ม</CardTitle>
+            <CardDescription>ตรวจสอบเอกสารและอนุมัติฟาร์มของผู้ขาย</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {(Object.keys(statusBadges) as FarmVerificationStatus[]).map(value => (
+              <Button
+                key={value}
+                size="sm"
+                variant={status === value ? 'default' : 'outline'}
+                onClick={() => setStatus(value)}
+              >
+                {value === 'pending' && <Clock className="w-4 h-4 mr-1" />}
+                {statusBadges[value].label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {applications.length === 0 && !isLoading && (
+          <p className="text-sm text-gray-500 text-center py-8">ไม่มีคำขอ</p>
+        )}
+
+        {applications.map(application => (
+          <QueueItem
+            key={application.id}
+            application={application}
+            // Reviewed applications leave the pending queue
+            onReviewed={(updated) => setApplications(prev => prev.filter(a => a.id !== updated.id))}
+          />
+        ))}
+
+        {isLoading && (
+          <div className="py-4 flex justify-center text-gray-500">
+            <Loader2 className="w-5 h-5 animate-spin" />
+          </div>
+        )}
+        {!isLoading && nextCursor && (
+          <Button variant="outline" className="w-full" onClick={() => loadPage(nextCursor)}>
+            โหลดเพิ่มเติม
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
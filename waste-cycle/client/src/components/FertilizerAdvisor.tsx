@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Sprout, Calculator, TrendingUp, Leaf, Droplets, BookOpen } from 'lucide-react';
+import { Sprout, Calculator, TrendingUp, Leaf, Droplets, BookOpen, Loader2, ShieldCheck } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
@@ -7,13 +7,22 @@ import { Label } from './ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Badge } from './ui/badge';
+import {
+  calculateNPK,
+  findProductMatches,
+  getFertilizerRecommendation,
+  type ProductMatch,
+  type FertilizerRecommendationResult,
+  type NPKCalculationResult,
+} from '../apiServer';
 
 interface FertilizerAdvisorProps {
   defaultTab?: 'recommendation' | 'calculator';
   onTabChange?: (tab: 'recommendation' | 'calculator') => void;
+  onViewProduct?: (productId: string) => void;
 }
 
-export function FertilizerAdvisor({ defaultTab = 'recommendation', onTabChange }: FertilizerAdvisorProps) {
+export function FertilizerAdvisor({ defaultTab = 'recommendation', onTabChange, onViewProduct }: FertilizerAdvisorProps) {
   const [activeTab, setActiveTab] = useState(defaultTab);
 
   const handleTabChange = (tab: 'recommendation' | 'calculator') => {
@@ -39,7 +48,7 @@ export function FertilizerAdvisor({ defaultTab = 'recommendation', onTabChange }
           </TabsList>
 
           <TabsContent value="recommendation">
-            <FertilizerRecommendation />
+            <FertilizerRecommendation onViewProduct={onViewProduct} />
           </TabsContent>
 
           <TabsContent value="calculator">
@@ -51,39 +60,65 @@ export function FertilizerAdvisor({ defaultTab = 'recommendation', onTabChange }
   );
 }
 
-function FertilizerRecommendation() {
+// Labels for the score breakdown returned by /matching/find
+const matchFactorLabels: Record<keyof ProductMatch['breakdown'], string> = {
+  npkFit: 'NPK ตรงความต้องการ',
+  distance: 'ระยะทาง',
+  price: 'ราคาต่อธาตุอาหาร',
+  verification: 'ผู้ขายยืนยันแล้ว',
+  rating: 'คะแนนรีวิว',
+};
+
+const cropLabels: Record<string, string> = {
+  vegetables: 'ผักใบ',
+  fruits: 'ไม้ผล',
+  rice: 'ข้าว',
+  corn: 'ข้าวโพด',
+  cassava: 'มันสำปะหลัง',
+  sugarcane: 'อ้อย',
+};
+
+const nutrientLabels: Record<'n' | 'p' | 'k', string> = { n: 'N', p: 'P', k: 'K' };
+
+function FertilizerRecommendation({ onViewProduct }: { onViewProduct?: (productId: string) => void }) {
   const [cropType, setCropType] = useState('');
   const [area, setArea] = useState('');
   const [growthStage, setGrowthStage] = useState('');
+  const [soilType, setSoilType] = useState('loam');
   const [showResults, setShowResults] = useState(false);
-
-  const handleCalculate = () => {
-    if (cropType && area && growthStage) {
-      setShowResults(true);
+  const [recommendation, setRecommendation] = useState<FertilizerRecommendationResult | null>(null);
+  const [recommendationError, setRecommendationError] = useState<string | null>(null);
+  const [recommendedSources, setRecommendedSources] = useState<ProductMatch[]>([]);
+  const [isMatching, setIsMatching] = useState(false);
+  const [matchError, setMatchError] = useState<string | null>(null);
+
+  const handleCalculate = async () => {
+    if (!cropType || !area || !growthStage) return;
+    setShowResults(true);
+    setIsMatching(true);
+    setMatchError(null);
+    setRecommendationError(null);
+
+    getFertilizerRecommendation({ cropType, growthStage, area: Number(area), areaUnit: 'rai', soilType })
+      .then(response => setRecommendation(response.data.data))
+      .catch((err: any) => {
+        console.error('Failed to calculate fertilizer:', err);
+        setRecommendation(null);
+        setRecommendationError(err?.response?.data?.message || 'ไม่สามารถคำนวณปุ๋ยได้');
+      });
+
+    try {
+      const response = await findProductMatches({ cropType, limit: 5 });
+      setRecommendedSources(response.data.data || []);
+    } catch (err: any) {
+      console.error('Failed to find matching sources:', err);
+      setRecommendedSources([]);
+      setMatchError(err?.response?.data?.message || 'ไม่สามารถค้นหาแหล่งซื้อได้');
+    } finally {
+      setIsMatching(false);
     }
   };
 
-  const recommendedSources = [
-    {
-      id: '1',
-      name: 'มูลไก่อินทรีย์',
-      seller: 'ฟาร์มไก่ไข่ภูเก็ต',
-      npk: { n: 3.5, p: 3.0, k: 1.8 },
-      price: 320,
-      distance: 4.2,
-      matchScore: 95,
-    },
-    {
-      id: '2',
-      name: 'มูลโคนมพร้อมใช้',
-      seller: 'ฟาร์มโคนมสุรินทร์',
-      npk: { n: 2.5, p: 1.8, k: 2.1 },
-      price: 250,
-      distance: 8.3,
-      matchScore: 88,
-    },
-  ];
-
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -106,10 +141,9 @@ function FertilizerRecommendation() {
                   <SelectValue placeholder="เลือกชนิดพืช" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="vegetables">ผักใบ</SelectItem>
-                  <SelectItem value="fruits">ผลไม้</SelectItem>
-                  <SelectItem value="rice">ข้าว</SelectItem>
-                  <SelectItem value="corn">ข้าวโพด</SelectItem>
+                  {Object.entries(cropLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -140,6 +174,21 @@ function FertilizerRecommendation() {
               </Select>
             </div>
 
+            <div>
+              <Label htmlFor="soil-type" className="mb-2 block">ชนิดดิน</Label>
+              <Select value={soilType} onValueChange={setSoilType}>
+                <SelectTrigger id="soil-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="sandy">ดินทราย</SelectItem>
+                  <SelectItem value="loam">ดินร่วน</SelectItem>
+                  <SelectItem value="clay">ดินเหนียว</SelectItem>
+                  <SelectItem value="organic">ดินอินทรีย์</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
             <Button 
               onClick={handleCalculate} 
               className="w-full bg-green-500 hover:bg-green-600 text-white"
@@ -157,31 +206,59 @@ function FertilizerRecommendation() {
           <Card>
             <CardHeader>
               <CardTitle>ผลการคำนวณ</CardTitle>
-              <CardDescription>ปุ๋ยที่แนะนำสำหรับ{cropType} พื้นที่ {area} ไร่</CardDescription>
+              <CardDescription>ปุ๋ยที่แนะนำสำหรับ{cropLabels[cropType] || cropType} พื้นที่ {area} ไร่</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="grid grid-cols-3 gap-4">
-                <div className="bg-green-50 rounded-lg p-4 text-center">
-                  <div className="text-xs text-gray-600 mb-2">N (ไนโตรเจน)</div>
-                  <div className="text-3xl text-green-600 mb-1">2.5</div>
-                  <div className="text-xs text-gray-500">สัดส่วน</div>
-                </div>
-                <div className="bg-blue-50 rounded-lg p-4 text-center">
-                  <div className="text-xs text-gray-600 mb-2">P (ฟอสฟอรัส)</div>
-                  <div className="text-3xl text-blue-600 mb-1">1.8</div>
-                  <div className="text-xs text-gray-500">สัดส่วน</div>
-                </div>
-                <div className="bg-orange-50 rounded-lg p-4 text-center">
-                  <div className="text-xs text-gray-600 mb-2">K (โพแทสเซียม)</div>
-                  <div className="text-3xl text-orange-600 mb-1">2.1</div>
-                  <div className="text-xs text-gray-500">สัดส่วน</div>
-                </div>
-              </div>
+              {recommendationError && <p className="text-sm text-red-600">{recommendationError}</p>}
+
+              {recommendation && (
+                <>
+                  {/* Nutrient need for this stage, adjusted for soil */}
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="bg-green-50 rounded-lg p-4 text-center">
+                      <div className="text-xs text-gray-600 mb-2">N (ไนโตรเจน)</div>
+                      <div className="text-3xl text-green-600 mb-1">{recommendation.needPerRai.n}</div>
+                      <div className="text-xs text-gray-500">กก./ไร่</div>
+                    </div>
+                    <div className="bg-blue-50 rounded-lg p-4 text-center">
+                      <div className="text-xs text-gray-600 mb-2">P (ฟอสฟอรัส)</div>
+                      <div className="text-3xl text-blue-600 mb-1">{recommendation.needPerRai.p}</div>
+                      <div className="text-xs text-gray-500">กก./ไร่</div>
+                    </div>
+                    <div className="bg-orange-50 rounded-lg p-4 text-center">
+                      <div className="text-xs text-gray-600 mb-2">K (โพแทสเซียม)</div>
+                      <div className="text-3xl text-orange-600 mb-1">{recommendation.needPerRai.k}</div>
+                      <div className="text-xs text-gray-500">กก./ไร่</div>
+                    </div>
+                  </div>
+
+                  {/* Application rate of each manure type */}
+                  <div className="space-y-2">
+                    <h4 className="text-sm text-gray-900">อัตราการใส่ปุ๋ยคอก</h4>
+                    {recommendation.manures.map(manure => (
+                      <div key={manure.manureType} className="flex items-center justify-between border rounded-lg p-3 text-sm">
+                        <div>
+                          <p className="text-gray-900">{manure.name}</p>
+                          {manure.limitingNutrient && (
+                            <p className="text-xs text-orange-600">
+                              {nutrientLabels[manure.limitingNutrient]} ยังขาด {Math.abs(manure.balancePerRai[manure.limitingNutrient])} กก./ไร่ ควรเสริมปุ๋ยอื่น
+                            </p>
+                          )}
+                        </div>
+                        <div className="text-right">
+                          <p className="text-green-600">{manure.kgPerRai.toLocaleString()} กก./ไร่</p>
+                          <p className="text-xs text-gray-500">รวม {manure.totalTon.toLocaleString()} ตัน ({recommendation.area.rai} ไร่)</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
 
               <div className="bg-blue-50 rounded-lg p-4">
                 <h4 className="text-sm text-blue-900 mb-2">💡 คำแนะนำ</h4>
                 <ul className="text-sm text-blue-800 space-y-1">
-                  <li>• ควรใส่ปุ๋ยประมาณ {(Number(area) * 50).toFixed(0)} กก. ต่อครั้ง</li>
+                  <li>• อัตราคำนวณจากไนโตรเจนที่พืชใช้ได้ในฤดูแรก หลังปรับตามชนิดดิน</li>
                   <li>• แบ่งใส่ 2-3 ครั้งในช่วงระยะนี้</li>
                   <li>• ควรใส่ปุ๋ยในช่วงเช้าหรือเย็น เมื่อดินมีความชื้น</li>
                   <li>• หลังใส่ปุ๋ยควรรดน้ำเบาๆ เพื่อให้ธาตุอาหารละลายซึมสู่ดิน</li>
@@ -197,15 +274,30 @@ function FertilizerRecommendation() {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {recommendedSources.map((source) => (
+                {isMatching && (
+                  <div className="py-6 flex items-center justify-center gap-2 text-gray-500">
+                    <Loader2 className="w-5 h-5 animate-spin" />
+                    กำลังค้นหาแหล่งซื้อที่เหมาะสม...
+                  </div>
+                )}
+                {!isMatching && matchError && (
+                  <p className="text-sm text-red-600 text-center py-4">{matchError}</p>
+                )}
+                {!isMatching && !matchError && recommendedSources.length === 0 && (
+                  <p className="text-sm text-gray-500 text-center py-4">ยังไม่พบสินค้าที่เหมาะสมในพื้นที่ใกล้คุณ</p>
+                )}
+                {!isMatching && recommendedSources.map((source) => (
                   <div
-                    key={source.id}
+                    key={source.productId}
                     className="border border-gray-200 rounded-lg p-4 hover:border-green-500 transition-colors"
                   >
                     <div className="flex items-start justify-between mb-3">
                       <div>
-                        <h4 className="text-gray-900 mb-1">{source.name}</h4>
-                        <p className="text-sm text-gray-600">{source.seller}</p>
+                        <h4 className="text-gray-900 mb-1">{source.title}</h4>
+                        <p className="text-sm text-gray-600 flex items-center gap-1">
+                          {source.farmName}
+                          {source.breakdown.verification.value && <ShieldCheck className="w-4 h-4 text-green-600" />}
+                        </p>
                       </div>
                       <Badge className="bg-green-500">
                         <TrendingUp className="w-3 h-3 mr-1" />
@@ -228,15 +320,33 @@ function FertilizerRecommendation() {
                       </div>
                     </div>
 
+                    {/* Score breakdown per factor */}
+                    <div className="flex flex-wrap gap-2 mb-3">
+                      {(Object.keys(matchFactorLabels) as Array<keyof ProductMatch['breakdown']>).map(factor => (
+                        <Badge key={factor} variant="outline" className="text-xs">
+                          {matchFactorLabels[factor]} {Math.round(source.breakdown[factor].score * 100)}%
+                        </Badge>
+                      ))}
+                    </div>
+
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-4 text-sm text-gray-600">
-                        <span className="text-lg text-green-600">฿{source.price}/กก.</span>
-                        <span className="flex items-center gap-1">
-                          <Leaf className="w-4 h-4" />
-                          {source.distance} กม.
-                        </span>
+                        <span className="text-lg text-green-600">฿{source.price}/{source.unit === 'kg' ? 'กก.' : source.unit}</span>
+                        {source.breakdown.price.value !== null && (
+                          <span>฿{source.breakdown.price.value.toLocaleString()}/กก. ธาตุอาหาร</span>
+                        )}
+                        {source.distance !== null && (
+                          <span className="flex items-center gap-1">
+                            <Leaf className="w-4 h-4" />
+                            {source.distance} กม.
+                          </span>
+                        )}
                       </div>
-                      <Button size="sm" className="bg-green-500 hover:bg-green-600">
+                      <Button
+                        size="sm"
+                        className="bg-green-500 hover:bg-green-600"
+                        onClick={() => onViewProduct?.(source.productId)}
+                      >
                         ดูรายละเอียด
                       </Button>
                     </div>
@@ -256,24 +366,46 @@ function FertilizerRecommendation() {
   );
 }
 
+const animalLabels: Record<string, string> = {
+  chicken: 'ไก่',
+  cow: 'โค',
+  pig: 'สุกร',
+  buffalo: 'กระบือ',
+  goat: 'แพะ',
+};
+
+const processingLabels: Record<string, string> = {
+  fresh: 'สด',
+  dried: 'ตากแห้ง',
+  composted: 'หมักแล้ว',
+};
+
 function NPKCalculatorContent() {
   const [animalType, setAnimalType] = useState('');
   const [quantity, setQuantity] = useState('');
   const [feedType, setFeedType] = useState('');
-  const [showResults, setShowResults] = useState(false);
-
-  const handleCalculate = () => {
-    if (animalType && quantity && feedType) {
-      setShowResults(true);
+  const [processingState, setProcessingState] = useState('fresh');
+  const [result, setResult] = useState<NPKCalculationResult | null>(null);
+  const [isCalculating, setIsCalculating] = useState(false);
+  const [calculationError, setCalculationError] = useState<string | null>(null);
+
+  const handleCalculate = async () => {
+    if (!animalType || !quantity || !feedType) return;
+    setIsCalculating(true);
+    setCalculationError(null);
+
+    try {
+      const response = await calculateNPK({ animalType, feedType, processingState, quantity: Number(quantity) });
+      setResult(response.data.data);
+    } catch (err: any) {
+      console.error('Failed to calculate NPK:', err);
+      setResult(null);
+      setCalculationError(err?.response?.data?.message || 'ไม่สามารถคำนวณค่า NPK ได้');
+    } finally {
+      setIsCalculating(false);
     }
   };
 
-  const npkData: Record<string, { n: number; p: number; k: number }> = {
-    chicken: { n: 3.5, p: 3.0, k: 1.8 },
-    cow: { n: 2.5, p: 1.8, k: 2.1 },
-    pig: { n: 3.8, p: 3.2, k: 2.4 },
-  };
-
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -312,9 +444,9 @@ function NPKCalculatorContent() {
                 <SelectValue placeholder="เลือกชนิดสัตว์" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="chicken">ไก่</SelectItem>
-                <SelectItem value="cow">โค</SelectItem>
-                <SelectItem value="pig">สุกร</SelectItem>
+                {Object.entries(animalLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -333,6 +465,20 @@ function NPKCalculatorContent() {
             </Select>
           </div>
 
+          <div>
+            <Label htmlFor="processing-state" className="mb-2 block">สภาพมูลสัตว์</Label>
+            <Select value={processingState} onValueChange={setProcessingState}>
+              <SelectTrigger id="processing-state">
+                <SelectValue placeholder="เลือกสภาพมูลสัตว์" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(processingLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           <div>
             <Label htmlFor="quantity" className="mb-2 block">ปริมาณมูลสัตว์ (กก.)</Label>
             <Input
@@ -347,40 +493,42 @@ function NPKCalculatorContent() {
           <Button 
             onClick={handleCalculate} 
             className="w-full bg-blue-500 hover:bg-blue-600 text-white"
-            disabled={!animalType || !quantity || !feedType}
+            disabled={!animalType || !quantity || !feedType || isCalculating}
           >
-            <Calculator className="w-4 h-4 mr-2" />
+            {isCalculating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Calculator className="w-4 h-4 mr-2" />}
             คำนวณค่า NPK
           </Button>
+          {calculationError && <p className="text-sm text-red-600">{calculationError}</p>}
         </CardContent>
       </Card>
 
       {/* Results */}
-      {showResults && animalType && (
+      {result && (
         <>
           <Card>
             <CardHeader>
               <CardTitle>ผลการคำนวณ NPK</CardTitle>
               <CardDescription>
-                จาก{animalType === 'chicken' ? 'ไก่' : animalType === 'cow' ? 'โค' : 'สุกร'} ปริมาณ {quantity} กก.
+                มูล{animalLabels[result.animalType]} ({processingLabels[result.processingState]}) ปริมาณ {result.quantity} กก.
+                {' '}· ค่าอาจคลาดเคลื่อน ±{Math.round(result.confidence * 100)}%
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="grid grid-cols-3 gap-4">
                 <div className="bg-green-50 rounded-lg p-4 text-center">
                   <div className="text-xs text-gray-600 mb-2">N (ไนโตรเจน)</div>
-                  <div className="text-3xl text-green-600 mb-1">{npkData[animalType].n}</div>
-                  <div className="text-xs text-gray-500">%</div>
+                  <div className="text-3xl text-green-600 mb-1">{result.npk.n}</div>
+                  <div className="text-xs text-gray-500">% ({result.npkRange.n.min}–{result.npkRange.n.max})</div>
                 </div>
                 <div className="bg-blue-50 rounded-lg p-4 text-center">
                   <div className="text-xs text-gray-600 mb-2">P (ฟอสฟอรัส)</div>
-                  <div className="text-3xl text-blue-600 mb-1">{npkData[animalType].p}</div>
-                  <div className="text-xs text-gray-500">%</div>
+                  <div className="text-3xl text-blue-600 mb-1">{result.npk.p}</div>
+                  <div className="text-xs text-gray-500">% ({result.npkRange.p.min}–{result.npkRange.p.max})</div>
                 </div>
                 <div className="bg-orange-50 rounded-lg p-4 text-center">
                   <div className="text-xs text-gray-600 mb-2">K (โพแทสเซียม)</div>
-                  <div className="text-3xl text-orange-600 mb-1">{npkData[animalType].k}</div>
-                  <div className="text-xs text-gray-500">%</div>
+                  <div className="text-3xl text-orange-600 mb-1">{result.npk.k}</div>
+                  <div className="text-xs text-gray-500">% ({result.npkRange.k.min}–{result.npkRange.k.max})</div>
                 </div>
               </div>
 
@@ -389,15 +537,18 @@ function NPKCalculatorContent() {
                 <div className="grid grid-cols-3 gap-2 text-sm">
                   <div>
                     <span className="text-gray-600">N: </span>
-                    <span className="text-green-600">{((Number(quantity) * npkData[animalType].n) / 100).toFixed(2)} กก.</span>
+                    <span className="text-green-600">{result.nutrientsKg.n} กก.</span>
+                    <div className="text-xs text-gray-500">{result.nutrientsKgRange.n.min}–{result.nutrientsKgRange.n.max} กก.</div>
                   </div>
                   <div>
                     <span className="text-gray-600">P: </span>
-                    <span className="text-blue-600">{((Number(quantity) * npkData[animalType].p) / 100).toFixed(2)} กก.</span>
+                    <span className="text-blue-600">{result.nutrientsKg.p} กก.</span>
+                    <div className="text-xs text-gray-500">{result.nutrientsKgRange.p.min}–{result.nutrientsKgRange.p.max} กก.</div>
                   </div>
                   <div>
                     <span className="text-gray-600">K: </span>
-                    <span className="text-orange-600">{((Number(quantity) * npkData[animalType].k) / 100).toFixed(2)} กก.</span>
+                    <span className="text-orange-600">{result.nutrientsKg.k} กก.</span>
+                    <div className="text-xs text-gray-500">{result.nutrientsKgRange.k.min}–{result.nutrientsKgRange.k.max} กก.</div>
                   </div>
                 </div>
               </div>
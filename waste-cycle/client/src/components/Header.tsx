@@ -1,17 +1,21 @@
-import { Recycle, LogOut, Menu, X, Home, ShoppingBag, Calculator, BarChart3, User, MessageCircle, BookOpen } from 'lucide-react';
+import { Recycle, LogOut, Menu, X, Home, ShoppingBag, Calculator, BarChart3, User, MessageCircle, BookOpen, ClipboardList, Handshake } from 'lucide-react';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { useState } from 'react';
 import type { User as UserType } from '../App';
+import { NotificationCenter } from './NotificationCenter';
 
 interface HeaderProps {
   user: UserType | null;
   onLogout: () => void;
   onNavigate: (page: string) => void;
   currentPage: string;
+  unreadChatCount?: number;
+  // Opens a notification's in-app link (/bookings/<id>, /chat/<roomId>, ...)
+  onOpenLink: (link: string) => void;
 }
 
-export function Header({ user, onLogout, onNavigate, currentPage }: HeaderProps) {
+export function Header({ user, onLogout, onNavigate, currentPage, unreadChatCount = 0, onOpenLink }: HeaderProps) {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
   if (!user) return null;
@@ -24,6 +28,8 @@ export function Header({ user, onLogout, onNavigate, currentPage }: HeaderProps)
     : [
         { id: 'dashboard', label: 'แผนที่', icon: Home },
         { id: 'marketplace', label: 'ตลาดกลาง', icon: ShoppingBag },
+        { id: 'bookings', label: 'การจอง', icon: ClipboardList },
+        { id: 'demands', label: 'คำขอซื้อ', icon: Handshake },
         { id: 'fertilizer-advisor', label: 'คำนวนปุ๋ย', icon: BookOpen },
         { id: 'npk-calculator', label: 'คำนวณ NPK', icon: Calculator },
         { id: 'circular-view', label: 'วงจรหมุนเวียน', icon: BarChart3 },
@@ -84,6 +90,9 @@ export function Header({ user, onLogout, onNavigate, currentPage }: HeaderProps)
                 </Button>
               )}
 
+              {/* Notifications */}
+              <NotificationCenter onOpenLink={onOpenLink} />
+
               {/* Chat Button */}
               {user.role !== 'admin' && (
                 <button
@@ -91,9 +100,11 @@ export function Header({ user, onLogout, onNavigate, currentPage }: HeaderProps)
                   className="relative p-2 hover:bg-gray-100 rounded-lg transition-colors"
                 >
                   <MessageCircle className="w-5 h-5 text-gray-700" />
-                  <Badge className="absolute -top-1 -right-1 bg-red-500 text-white text-xs px-1.5 py-0.5 min-w-[20px]">
-                    3
-                  </Badge>
+                  {unreadChatCount > 0 && (
+                    <Badge className="absolute -top-1 -right-1 bg-red-500 text-white text-xs px-1.5 py-0.5 min-w-[20px]">
+                      {unreadChatCount > 99 ? '99+' : unreadChatCount}
+                    </Badge>
+                  )}
                 </button>
               )}
 
@@ -30,6 +30,9 @@ export function LoginPage({ onLogin, onBack, onRegisterClick, showBackButton = f
       console.error("Login failed:", err);
       if (err.code === 'auth/invalid-credential') {
         setError('อีเมลหรือรหัสผ่านไม่ถูกต้อง');
+      } else if (err.code === 'auth/user-disabled') {
+        // Banned accounts are disabled in Firebase Auth
+        setError('บัญชีนี้ถูกแบนจากระบบ กรุณาติดต่อผู้ดูแลระบบ');
       } else {
         setError('เกิดข้อผิดพลาดในการเข้าสู่ระบบ');
       }
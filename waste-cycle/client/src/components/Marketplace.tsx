@@ -1,5 +1,5 @@
-import { useState } from 'react';
-import { Filter, Plus, MapPin, Eye, Edit, Trash2, MessageCircle, Calendar, Package } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { Filter, Plus, MapPin, Eye, Edit, Trash2, MessageCircle, Calendar, Package, Loader2 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
@@ -9,6 +9,8 @@ import { Label } from './ui/label';
 import { Slider } from './ui/slider';
 import type { User, Post } from '../App';
 import { ImageWithFallback } from './figma/ImageWithFallback';
+import { searchMarket } from '../apiServer';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
 
 interface MarketplaceProps {
   user: User;
@@ -18,14 +20,58 @@ interface MarketplaceProps {
   onDelete: (postId: string) => void;
   onChat: (postId: string) => void;
   chattingPostIds: Set<string>;
+  // Infinite scroll over the paginated product list
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
-export function Marketplace({ user, posts, onViewDetail, onEdit, onDelete, onChat, chattingPostIds }: MarketplaceProps) {
+export function Marketplace({ user, posts, onViewDetail, onEdit, onDelete, onChat, chattingPostIds, hasMore = false, isLoadingMore = false, onLoadMore }: MarketplaceProps) {
+  const loadMoreRef = useInfiniteScroll(() => onLoadMore?.(), hasMore, isLoadingMore);
   const [activeTab, setActiveTab] = useState('all');
   const [wasteTypeFilter, setWasteTypeFilter] = useState('all');
   const [maxDistance, setMaxDistance] = useState([50]);
   const [sortBy, setSortBy] = useState('distance');
   const [showFilters, setShowFilters] = useState(true);
+  // Real distances (km) from the server's radius search, keyed by post id
+  // null = not available (no saved location or request failed) → fall back to post.distance
+  const [serverDistances, setServerDistances] = useState<Map<string, number> | null>(null);
+
+  const radiusKm = maxDistance[0];
+  useEffect(() => {
+    if (!user.location) {
+      setServerDistances(null);
+      return;
+    }
+
+    // Debounce slider changes before asking the server
+    const timer = setTimeout(async () => {
+      try {
+        const response = await searchMarket({
+          radiusKm,
+          lat: user.location!.lat,
+          lng: user.location!.lng,
+          includeSold: true,
+        });
+        const results: Post[] = response.data.data || [];
+        setServerDistances(new Map(results.map(post => [post.id, post.distance])));
+      } catch (err) {
+        console.error('Failed to fetch distances from server:', err);
+        setServerDistances(null);
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [radiusKm, user.location?.lat, user.location?.lng]);
+
+  // Mock posts are not on the server, so they keep their demo distance
+  const withDistance = (post: Post): Post | null => {
+    if (!serverDistances || post.id.startsWith('mock-post-')) {
+      return post.distance <= radiusKm ? post : null;
+    }
+    const distance = serverDistances.get(post.id);
+    return distance !== undefined ? { ...post, distance } : null;
+  };
 
   // CRITICAL FIX: Use String() for comparison to handle type mismatches
   // This ensures userId comparison works correctly even after server restart
@@ -45,8 +91,8 @@ export function Marketplace({ user, posts, onViewDetail, onEdit, onDelete, onCha
       filtered = filtered.filter(post => post.wasteType === wasteTypeFilter);
     }
 
-    // Filter by distance
-    filtered = filtered.filter(post => post.distance <= maxDistance[0]);
+    // Filter by distance (server radius search when the user has a saved location)
+    filtered = filtered.map(withDistance).filter((post): post is Post => post !== null);
 
     // Sort
     if (sortBy === 'distance') {
@@ -200,6 +246,16 @@ export function Marketplace({ user, posts, onViewDetail, onEdit, onDelete, onCha
             )}
           </TabsContent>
         </Tabs>
+
+        {/* Infinite scroll sentinel: loads the next page when it comes into view */}
+        <div ref={loadMoreRef} className="py-6 flex justify-center text-gray-500">
+          {isLoadingMore && (
+            <span className="flex items-center gap-2">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              กำลังโหลดโพสต์เพิ่มเติม...
+            </span>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -229,7 +285,7 @@ function ModernPostCard({ post, isMyPost, onViewDetail, onEdit, onDelete, onChat
       <div className="relative h-48 bg-gradient-to-br from-green-100 to-blue-100">
         {post.images && Array.isArray(post.images) && post.images.length > 0 && post.images[0] ? (
           <ImageWithFallback 
-            src={post.images[0]} 
+            src={post.imageVariants?.[0]?.medium || post.images[0]} 
             alt={post.title}
             className="w-full h-full object-cover"
           />
@@ -294,7 +350,10 @@ function ModernPostCard({ post, isMyPost, onViewDetail, onEdit, onDelete, onChat
           </div>
           <div className="text-right">
             <p className="text-sm text-gray-600">มีพร้อม</p>
-            <p className="text-sm">{post.quantity} กก.</p>
+            <p className="text-sm">{Math.max(0, post.quantity - (post.reservedQuantity || 0))} กก.</p>
+            {(post.reservedQuantity || 0) > 0 && (
+              <p className="text-xs text-yellow-600">จองแล้ว {post.reservedQuantity} กก.</p>
+            )}
           </div>
         </div>
 
@@ -0,0 +1,243 @@
+/**
+ * NotificationCenter - bell button in the Header with the user's notifications
+ *
+ * - Unread badge (refreshed every minute and whenever the dropdown closes)
+ * - Type filters, infinite scroll over the paginated list
+ * - Mark one / all as read, delete
+ * - Clicking a notification marks it read and opens its `link`
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Bell, Trash2, CheckCheck, Loader2, ClipboardList, RefreshCw, Handshake, HandCoins, XCircle, MessageCircle, Star, ShieldCheck, Flag, AlertTriangle } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import {
+  getNotifications,
+  getUnreadNotificationCount,
+  markNotificationAsRead,
+  markAllNotificationsAsRead,
+  deleteNotification,
+  type AppNotification,
+  type NotificationType,
+} from '../apiServer';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+
+const UNREAD_POLL_MS = 60 * 1000;
+const PAGE_SIZE = 20;
+
+const filters: { id: NotificationType | 'all'; label: string }[] = [
+  { id: 'all', label: 'ทั้งหมด' },
+  { id: 'new_booking', label: 'การจองใหม่' },
+  { id: 'booking_update', label: 'อัปเดตการจอง' },
+  { id: 'new_offer', label: 'ข้อเสนอใหม่' },
+  { id: 'match_accepted', label: 'ข้อเสนอที่ตอบรับ' },
+  { id: 'match_rejected', label: 'ข้อเสนอที่ถูกปฏิเสธ' },
+  { id: 'new_review', label: 'รีวิว' },
+  { id: 'verification', label: 'ยืนยันฟาร์ม' },
+  { id: 'chat', label: 'แชท' },
+  { id: 'report_update', label: 'การรายงาน' },
+  { id: 'warning', label: 'คำเตือน' },
+];
+
+const typeIcons: Record<NotificationType, typeof Bell> = {
+  new_booking: ClipboardList,
+  booking_update: RefreshCw,
+  new_offer: HandCoins,
+  match_accepted: Handshake,
+  match_rejected: XCircle,
+  new_review: Star,
+  verification: ShieldCheck,
+  chat: MessageCircle,
+  report_update: Flag,
+  warning: AlertTriangle,
+};
+
+const formatRelativeTime = (timestamp: string) => {
+  const minutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000);
+  if (minutes < 1) return 'เมื่อสักครู่';
+  if (minutes < 60) return `${minutes} นาทีที่แล้ว`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} ชั่วโมงที่แล้ว`;
+  return new Date(timestamp).toLocaleDateString('th-TH', { day: 'numeric', month: 'short' });
+};
+
+interface NotificationCenterProps {
+  onOpenLink: (link: string) => void;
+}
+
+export function NotificationCenter({ onOpenLink }: NotificationCenterProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [filter, setFilter] = useState<NotificationType | 'all'>('all');
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  // Id of the latest list request; responses from older ones (e.g. before a filter switch) are dropped
+  const requestIdRef = useRef(0);
+
+  const refreshUnreadCount = useCallback(async () => {
+    try {
+      const response = await getUnreadNotificationCount();
+      setUnreadCount(response.data.data.unread);
+    } catch (error) {
+      console.error('Error loading unread notification count:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshUnreadCount();
+    const timer = setInterval(refreshUnreadCount, UNREAD_POLL_MS);
+    return () => clearInterval(timer);
+  }, [refreshUnreadCount]);
+
+  const loadPage = useCallback(async (cursor?: string) => {
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+    try {
+      const response = await getNotifications({
+        type: filter === 'all' ? undefined : filter,
+        limit: PAGE_SIZE,
+        cursor,
+      });
+      if (requestId !== requestIdRef.current) return;
+      const page: AppNotification[] = response.data.data;
+      setNotifications(prev => (cursor ? [...prev, ...page] : page));
+      setNextCursor(response.data.nextCursor);
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    } finally {
+      if (requestId === requestIdRef.current) setIsLoading(false);
+    }
+  }, [filter]);
+
+  // First page whenever the dropdown opens or the filter changes
+  useEffect(() => {
+    if (isOpen) loadPage();
+  }, [isOpen, loadPage]);
+
+  const sentinelRef = useInfiniteScroll(
+    () => nextCursor && loadPage(nextCursor),
+    nextCursor !== null,
+    isLoading
+  );
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) refreshUnreadCount();
+  };
+
+  const handleClick = async (notification: AppNotification) => {
+    if (!notification.read) {
+      setNotifications(prev => prev.map(n => (n.id === notification.id ? { ...n, read: true } : n)));
+      setUnreadCount(count => Math.max(count - 1, 0));
+      markNotificationAsRead(notification.id).catch(error => console.error('Error marking notification read:', error));
+    }
+    if (notification.link) {
+      setIsOpen(false);
+      onOpenLink(notification.link);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllNotificationsAsRead();
+      setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+      setUnreadCount(0);
+    } catch (error) {
+      console.error('Error marking all notifications read:', error);
+    }
+  };
+
+  const handleDelete = async (notification: AppNotification) => {
+    try {
+      await deleteNotification(notification.id);
+      setNotifications(prev => prev.filter(n => n.id !== notification.id));
+      if (!notification.read) setUnreadCount(count => Math.max(count - 1, 0));
+    } catch (error) {
+      console.error('Error deleting notification:', error);
+    }
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button className="relative p-2 hover:bg-gray-100 rounded-lg transition-colors" aria-label="การแจ้งเตือน">
+          <Bell className="w-5 h-5 text-gray-700" />
+          {unreadCount > 0 && (
+            <Badge className="absolute -top-1 -right-1 bg-red-500 text-white text-xs px-1.5 py-0.5 min-w-[20px]">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </Badge>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 sm:w-96 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <p className="font-medium">การแจ้งเตือน</p>
+          <Button variant="ghost" size="sm" onClick={handleMarkAllRead} disabled={unreadCount === 0}>
+            <CheckCheck className="w-4 h-4 mr-1" />
+            อ่านทั้งหมด
+          </Button>
+        </div>
+
+        <div className="flex gap-1 px-3 py-2 border-b overflow-x-auto">
+          {filters.map(item => (
+            <button
+              key={item.id}
+              onClick={() => setFilter(item.id)}
+              className={`text-xs whitespace-nowrap px-3 py-1 rounded-full transition-colors ${
+                filter === item.id ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 && !isLoading ? (
+            <p className="text-center text-sm text-gray-500 py-8">ไม่มีการแจ้งเตือน</p>
+          ) : (
+            notifications.map(notification => {
+              const Icon = typeIcons[notification.type] || Bell;
+              return (
+                <div
+                  key={notification.id}
+                  onClick={() => handleClick(notification)}
+                  className={`flex gap-3 px-4 py-3 border-b cursor-pointer hover:bg-gray-50 ${
+                    notification.read ? '' : 'bg-green-50'
+                  }`}
+                >
+                  <Icon className="w-5 h-5 text-green-600 shrink-0 mt-0.5" />
+                  <div className="flex-1 min-w-0">
+                    {notification.title && <p className="text-sm font-medium">{notification.title}</p>}
+                    <p className="text-sm text-gray-700 break-words">{notification.message}</p>
+                    <p className="text-xs text-gray-500 mt-1">{formatRelativeTime(notification.createdAt)}</p>
+                  </div>
+                  <div className="flex flex-col items-end gap-2">
+                    {!notification.read && <span className="w-2 h-2 rounded-full bg-green-600" />}
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(notification);
+                      }}
+                      className="text-gray-400 hover:text-red-600 transition-colors"
+                      aria-label="ลบการแจ้งเตือน"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+          {(nextCursor !== null || isLoading) && (
+            <div ref={sentinelRef} className="p-3 flex justify-center text-gray-500">
+              {isLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
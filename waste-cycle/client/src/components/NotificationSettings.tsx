@@ -0,0 +1,254 @@
+/**
+ * NotificationSettings - the user's notification preferences (ProfilePage tab)
+ *
+ * - Which events notify at all
+ * - Channels: in-app, email, LINE (Messaging API user id of our Official Account), push (plus this device's subscription)
+ * - Quiet hours: email/LINE/push are held until they end, in-app still appears
+ * Switches save immediately; quiet hours and the LINE connection have their own save buttons.
+ */
+
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Bell, Mail, MessageSquare, Moon, Loader2, Smartphone } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+  type NotificationPreferences,
+  type NotificationPreferencesUpdate,
+  type NotificationType,
+  type NotificationChannel,
+} from '../apiServer';
+import { usePushNotifications } from '../hooks/usePushNotifications';
+
+const typeLabels: Record<NotificationType, string> = {
+  new_booking: 'มีการจองสินค้าของฉัน',
+  booking_update: 'สถานะการจองเปลี่ยน',
+  match_accepted: 'ข้อเสนอของฉันได้รับการตอบรับ',
+  match_rejected: 'ข้อเสนอของฉันถูกปฏิเสธ',
+  new_offer: 'มีข้อเสนอใหม่',
+  new_review: 'มีรีวิวสินค้าของฉัน',
+  verification: 'ผลการยืนยันฟาร์ม',
+  chat: 'ข้อความแชทใหม่',
+  report_update: 'ผลการตรวจสอบเรื่องที่ฉันรายงาน',
+  warning: 'คำเตือนจากผู้ดูแลระบบ',
+};
+
+const channelOptions: { id: NotificationChannel; label: string; icon: typeof Bell }[] = [
+  { id: 'inApp', label: 'ในแอป', icon: Bell },
+  { id: 'email', label: 'อีเมล', icon: Mail },
+  { id: 'line', label: 'LINE', icon: MessageSquare },
+  { id: 'push', label: 'แจ้งเตือนบนอุปกรณ์ (เมื่อไม่ได้เปิดแอป)', icon: Smartphone },
+];
+
+export function NotificationSettings() {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [quietHours, setQuietHours] = useState({ start: '22:00', end: '07:00' });
+  const [lineUserId, setLineUserId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const push = usePushNotifications();
+
+  useEffect(() => {
+    getNotificationPreferences()
+      .then(response => {
+        const loaded: NotificationPreferences = response.data.data;
+        setPreferences(loaded);
+        setQuietHours({ start: loaded.quietHours.start, end: loaded.quietHours.end });
+      })
+      .catch(error => {
+        console.error('Error loading notification preferences:', error);
+        toast.error('ไม่สามารถโหลดการตั้งค่าการแจ้งเตือนได้');
+      });
+  }, []);
+
+  const save = async (update: NotificationPreferencesUpdate, successMessage?: string) => {
+    setIsSaving(true);
+    try {
+      const response = await updateNotificationPreferences(update);
+      setPreferences(response.data.data);
+      if (successMessage) toast.success(successMessage);
+      return true;
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'ไม่สามารถบันทึกการตั้งค่าได้');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleConnectLine = async () => {
+    const userId = lineUserId.trim();
+    if (!userId) return;
+    if (await save({ line: { userId } }, 'เชื่อมต่อ LINE แล้ว')) setLineUserId('');
+  };
+
+  if (!preferences) {
+    return (
+      <div className="py-12 flex justify-center text-gray-500">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>แจ้งเตือนฉันเมื่อ</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {(Object.keys(typeLabels) as NotificationType[]).map(type => (
+            <div key={type} className="flex items-center justify-between">
+              <Label htmlFor={`type-${type}`}>{typeLabels[type]}</Label>
+              <Switch
+                id={`type-${type}`}
+                checked={preferences.types[type] !== false}
+                disabled={isSaving}
+                onCheckedChange={(checked: boolean) => save({ types: { [type]: checked } })}
+              />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>ช่องทางการแจ้งเตือน</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {channelOptions.map(({ id, label, icon: Icon }) => (
+            <div key={id} className="flex items-center justify-between">
+              <Label htmlFor={`channel-${id}`} className="flex items-center gap-2">
+                <Icon className="w-4 h-4 text-gray-500" />
+                {label}
+              </Label>
+              <Switch
+                id={`channel-${id}`}
+                checked={preferences.channels[id]}
+                disabled={isSaving}
+                onCheckedChange={(checked: boolean) => save({ channels: { [id]: checked } })}
+              />
+            </div>
+          ))}
+
+          {preferences.channels.push && (
+            <div className="rounded-lg bg-gray-50 p-4 flex items-center justify-between gap-2">
+              <p className="text-sm text-gray-700">
+                {!push.supported
+                  ? 'เบราว์เซอร์นี้ไม่รองรับการแจ้งเตือนแบบพุช'
+                  : push.permission === 'denied'
+                    ? 'เบราว์เซอร์บล็อกการแจ้งเตือนไว้ เปิดได้ที่การตั้งค่าเว็บไซต์'
+                    : push.isSubscribed
+                      ? 'อุปกรณ์นี้รับการแจ้งเตือนอยู่'
+                      : 'อุปกรณ์นี้ยังไม่ได้เปิดรับการแจ้งเตือน'}
+              </p>
+              {push.supported && push.permission !== 'denied' && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={push.isBusy}
+                  onClick={push.isSubscribed ? push.disable : push.enable}
+                >
+                  {push.isSubscribed ? 'ปิดบนอุปกรณ์นี้' : 'เปิดบนอุปกรณ์นี้'}
+                </Button>
+              )}
+            </div>
+          )}
+
+          {preferences.channels.line && (
+            <div className="rounded-lg bg-gray-50 p-4 space-y-3">
+              {preferences.line.connected ? (
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm text-gray-700">
+                    เชื่อมต่อ LINE Official Account แล้ว
+                  </p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isSaving}
+                    onClick={() => save({ line: { userId: null } }, 'ยกเลิกการเชื่อมต่อ LINE แล้ว')}
+                  >
+                    ยกเลิกการเชื่อมต่อ
+                  </Button>
+                </div>
+              ) : (
+                <>
+                  <Label htmlFor="line-user-id">LINE user ID</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="line-user-id"
+                      placeholder="U ตามด้วยตัวอักษร 32 ตัว"
+                      value={lineUserId}
+                      onChange={(e) => setLineUserId(e.target.value)}
+                    />
+                    <Button
+                      onClick={handleConnectLine}
+                      disabled={isSaving || !lineUserId.trim()}
+                      className="bg-green-600 hover:bg-green-700"
+                    >
+                      เชื่อมต่อ
+                    </Button>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Moon className="w-5 h-5 text-gray-500" />
+            ช่วงเวลางดแจ้งเตือน
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="quiet-hours">พักการส่งอีเมล LINE และพุชในช่วงเวลานี้</Label>
+            <Switch
+              id="quiet-hours"
+              checked={preferences.quietHours.enabled}
+              disabled={isSaving}
+              onCheckedChange={(checked: boolean) => save({ quietHours: { enabled: checked } })}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="quiet-start">ตั้งแต่</Label>
+              <Input
+                id="quiet-start"
+                type="time"
+                value={quietHours.start}
+                onChange={(e) => setQuietHours({ ...quietHours, start: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="quiet-end">ถึง</Label>
+              <Input
+                id="quiet-end"
+                type="time"
+                value={quietHours.end}
+                onChange={(e) => setQuietHours({ ...quietHours, end: e.target.value })}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            การแจ้งเตือนในแอปยังแสดงตามปกติ อีเมล LINE และพุชจะส่งเมื่อพ้นช่วงเวลานี้ ({preferences.quietHours.timezone})
+          </p>
+          <Button
+            variant="outline"
+            disabled={isSaving || !quietHours.start || !quietHours.end}
+            onClick={() => save({ quietHours }, 'บันทึกช่วงเวลางดแจ้งเตือนแล้ว')}
+          >
+            บันทึกช่วงเวลา
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
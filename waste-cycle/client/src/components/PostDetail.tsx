@@ -1,9 +1,14 @@
+import { useState } from 'react';
 import { ArrowLeft, MapPin, Calendar, Package, DollarSign, Edit, Trash2, MessageCircle, ShoppingCart } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
 import { ImageWithFallback } from './figma/ImageWithFallback';
 import type { Post } from '../App';
+import { ProductReviews, StarRating } from './Reviews';
+import { ReportButton } from './ContentReports';
 
 interface PostDetailProps {
   post: Post;
@@ -12,15 +17,35 @@ interface PostDetailProps {
   onDelete: () => void;
   isMyPost: boolean;
   onChat: () => void;
+  onBook: (quantity: number, bookingDate: string) => Promise<void>;
 }
 
-export function PostDetail({ post, onBack, onEdit, onDelete, isMyPost, onChat }: PostDetailProps) {
+export function PostDetail({ post, onBack, onEdit, onDelete, isMyPost, onChat, onBook }: PostDetailProps) {
+  // Stock left to book = total stock - stock held by active bookings
+  const reservedQuantity = post.reservedQuantity || 0;
+  const availableQuantity = Math.max(0, post.quantity - reservedQuantity);
+
+  const [isBookingFormOpen, setIsBookingFormOpen] = useState(false);
+  const [bookingQuantity, setBookingQuantity] = useState<number>(availableQuantity);
+  const [bookingDate, setBookingDate] = useState(new Date().toISOString().split('T')[0]);
+  const [isBooking, setIsBooking] = useState(false);
+
   const handleDelete = () => {
     if (confirm('คุณต้องการลบโพสต์นี้หรือไม่?')) {
       onDelete();
     }
   };
 
+  const handleBook = async () => {
+    setIsBooking(true);
+    try {
+      await onBook(bookingQuantity, bookingDate);
+      setIsBookingFormOpen(false);
+    } finally {
+      setIsBooking(false);
+    }
+  };
+
   return (
     <div className="container mx-auto px-4 py-8 max-w-4xl">
       <Button variant="ghost" onClick={onBack} className="mb-4">
@@ -32,6 +57,12 @@ export function PostDetail({ post, onBack, onEdit, onDelete, isMyPost, onChat }:
           <div className="flex items-start justify-between">
             <div>
               <CardTitle className="text-2xl mb-2">{post.title}</CardTitle>
+              {post.reviewCount > 0 && (
+                <div className="flex items-center gap-1 text-sm text-gray-600 mb-2">
+                  <StarRating value={post.rating} />
+                  <span>{post.rating.toFixed(1)} ({post.reviewCount} รีวิว)</span>
+                </div>
+              )}
               <div className="flex gap-2 mb-2">
                 <Badge className={post.sold ? "bg-red-100 text-red-800" : "bg-green-100 text-green-800"}>
                   {post.sold ? "ขายแล้ว" : "พร้อมขาย"}
@@ -97,8 +128,11 @@ export function PostDetail({ post, onBack, onEdit, onDelete, isMyPost, onChat }:
                 <p className="text-sm text-gray-600 mb-1">ปริมาณ</p>
                 <div className="flex items-center gap-2">
                   <Package className="w-5 h-5 text-gray-400" />
-                  <p className="text-lg">{post.quantity} กก.</p>
+                  <p className="text-lg">คงเหลือ {availableQuantity} กก.</p>
                 </div>
+                {reservedQuantity > 0 && (
+                  <p className="text-sm text-yellow-600">จองแล้ว {reservedQuantity} กก. จากทั้งหมด {post.quantity} กก.</p>
+                )}
                 <p className="text-sm text-gray-500">{post.unit}</p>
               </div>
 
@@ -161,13 +195,63 @@ export function PostDetail({ post, onBack, onEdit, onDelete, isMyPost, onChat }:
                   พูดคุย
                 </Button>
                 <Button variant="outline" className="flex-1">โทร {post.contactPhone}</Button>
-                <Button className="flex-1 bg-green-700 hover:bg-green-800">
+                <Button
+                  className="flex-1 bg-green-700 hover:bg-green-800"
+                  disabled={post.sold || availableQuantity <= 0}
+                  onClick={() => setIsBookingFormOpen(!isBookingFormOpen)}
+                >
                   <ShoppingCart className="w-4 h-4 mr-2" />
                   จองเลย
                 </Button>
               </div>
+              <div className="flex justify-end gap-1 mt-2">
+                <ReportButton targetType="product" targetId={post.id} label="รายงานประกาศ" className="text-gray-500" />
+                <ReportButton targetType="user" targetId={post.userId} label="รายงานผู้ขาย" className="text-gray-500" />
+              </div>
+
+              {isBookingFormOpen && (
+                <div className="mt-4 p-4 bg-gray-50 rounded-lg grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+                  <div>
+                    <Label htmlFor="booking-quantity">ปริมาณ (กก.)</Label>
+                    <Input
+                      id="booking-quantity"
+                      type="number"
+                      min={1}
+                      max={availableQuantity}
+                      value={bookingQuantity}
+                      onChange={(e) => setBookingQuantity(Number(e.target.value))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="booking-date">วันที่รับของ</Label>
+                    <Input
+                      id="booking-date"
+                      type="date"
+                      value={bookingDate}
+                      onChange={(e) => setBookingDate(e.target.value)}
+                    />
+                  </div>
+                  <Button
+                    className="bg-green-600 hover:bg-green-700"
+                    disabled={isBooking || bookingQuantity <= 0 || bookingQuantity > availableQuantity}
+                    onClick={handleBook}
+                  >
+                    {isBooking ? 'กำลังจอง...' : `ยืนยันการจอง ฿${(bookingQuantity * post.price).toLocaleString()}`}
+                  </Button>
+                </div>
+              )}
             </div>
           )}
+
+          {/* Reviews */}
+          <div className="border-t pt-6">
+            <ProductReviews
+              productId={post.id}
+              rating={post.rating || 0}
+              reviewCount={post.reviewCount || 0}
+              isMyPost={isMyPost}
+            />
+          </div>
         </CardContent>
       </Card>
     </div>
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { MapPin, Phone, Mail, Calendar, Star, Package, TrendingUp, Edit, Save, X, Eye, Trash2 } from 'lucide-react';
+import { MapPin, Phone, Mail, Calendar, Star, Package, TrendingUp, Edit, Save, X, Eye, Trash2, BellRing } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
@@ -8,6 +8,11 @@ import { Input } from './ui/input';
 import { Label } from './ui/label';
 import type { User, Post } from '../App';
 import { ImageWithFallback } from './figma/ImageWithFallback';
+import { NotificationSettings } from './NotificationSettings';
+import { FarmVerificationForm } from './FarmVerification';
+import { usePushNotifications } from '../hooks/usePushNotifications';
+
+const PUSH_PROMPT_DISMISSED_KEY = 'pushPromptDismissed';
 
 interface ProfilePageProps {
   user: User;
@@ -39,6 +44,16 @@ export function ProfilePage({ user, posts, onViewDetail, onEdit, onDelete }: Pro
     location: 'นครปฐม',
   });
 
+  const push = usePushNotifications();
+  const [pushPromptDismissed, setPushPromptDismissed] = useState(
+    () => localStorage.getItem(PUSH_PROMPT_DISMISSED_KEY) === 'true'
+  );
+
+  const dismissPushPrompt = () => {
+    localStorage.setItem(PUSH_PROMPT_DISMISSED_KEY, 'true');
+    setPushPromptDismissed(true);
+  };
+
   const handleSave = () => {
     // In real app, this would update the database
     alert('บันทึกข้อมูลสำเร็จ!');
@@ -80,9 +95,11 @@ export function ProfilePage({ user, posts, onViewDetail, onEdit, onDelete }: Pro
                     <span>{user?.name?.[0] || 'U'}</span>
                   )}
                 </div>
-                <Badge className="absolute top-0 right-0 bg-green-500 text-white">
-                  ✓ ยืนยันแล้ว
-                </Badge>
+                {user.verified && (
+                  <Badge className="absolute top-0 right-0 bg-green-500 text-white">
+                    ✓ ยืนยันแล้ว
+                  </Badge>
+                )}
               </div>
 
               {/* User Info */}
@@ -184,13 +201,34 @@ export function ProfilePage({ user, posts, onViewDetail, onEdit, onDelete }: Pro
           </CardContent>
         </Card>
 
+        {/* Web push opt-in (until enabled or dismissed on this device) */}
+        {push.supported && !push.isSubscribed && push.permission !== 'denied' && !pushPromptDismissed && (
+          <Card className="mb-6 border-green-200 bg-green-50">
+            <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center gap-4">
+              <BellRing className="w-8 h-8 text-green-600 shrink-0" />
+              <div className="flex-1">
+                <p className="font-medium">รับการแจ้งเตือนบนมือถือ</p>
+                <p className="text-sm text-gray-600">รู้ทันทีเมื่อมีคนจองสินค้าหรือส่งข้อความถึงคุณ แม้ไม่ได้เปิดแอปอยู่</p>
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={push.enable} disabled={push.isBusy} className="bg-green-600 hover:bg-green-700">
+                  เปิดการแจ้งเตือน
+                </Button>
+                <Button variant="ghost" onClick={dismissPushPrompt}>
+                  ไว้ทีหลัง
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
           <Card className="bg-yellow-50">
             <CardContent className="pt-6 text-center">
               <Star className="w-12 h-12 text-yellow-600 mx-auto mb-3" />
-              <p className="text-4xl text-yellow-600 mb-2">4.8</p>
-              <p className="text-gray-600">คะแนนเฉลี่ย</p>
+              <p className="text-4xl text-yellow-600 mb-2">{user.reviewCount ? (user.rating || 0).toFixed(1) : '-'}</p>
+              <p className="text-gray-600">คะแนนเฉลี่ย{user.reviewCount ? ` (${user.reviewCount} รีวิว)` : ''}</p>
             </CardContent>
           </Card>
 
@@ -213,10 +251,12 @@ export function ProfilePage({ user, posts, onViewDetail, onEdit, onDelete }: Pro
 
         {/* Tabs Section */}
         <Tabs defaultValue="history" className="mb-6">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="history">ภาพรวม</TabsTrigger>
             <TabsTrigger value="transactions">ประวัติการซื้อ</TabsTrigger>
             <TabsTrigger value="reviews">รางวัล</TabsTrigger>
+            <TabsTrigger value="notifications">การแจ้งเตือน</TabsTrigger>
+            <TabsTrigger value="verification">ยืนยันฟาร์ม</TabsTrigger>
           </TabsList>
 
           <TabsContent value="history">
@@ -239,7 +279,7 @@ export function ProfilePage({ user, posts, onViewDetail, onEdit, onDelete }: Pro
                         <div className="relative h-48 bg-gradient-to-br from-green-100 to-blue-100">
                           {post.images && Array.isArray(post.images) && post.images.length > 0 && post.images[0] ? (
                             <ImageWithFallback 
-                              src={post.images[0]} 
+                              src={post.imageVariants?.[0]?.medium || post.images[0]} 
                               alt={post.title}
                               className="w-full h-full object-cover"
                             />
@@ -321,6 +361,14 @@ export function ProfilePage({ user, posts, onViewDetail, onEdit, onDelete }: Pro
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="notifications">
+            <NotificationSettings />
+          </TabsContent>
+
+          <TabsContent value="verification">
+            <FarmVerificationForm farmName={user.farmName} />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -0,0 +1,326 @@
+/**
+ * Reviews: star rating, the buyer's review form (BookingPage, completed bookings only)
+ * and the paginated review list with seller replies (PostDetail)
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Star, ImagePlus, X, Loader2, Reply } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import { Label } from './ui/label';
+import { ImageWithFallback } from './figma/ImageWithFallback';
+import {
+  createReview,
+  replyToReview,
+  getProductReviews,
+  uploadImages,
+  type Review,
+  type UploadedImage,
+} from '../apiServer';
+
+const MAX_PHOTOS = 5;
+const MAX_PHOTO_BYTES = 10 * 1024 * 1024;
+const PAGE_SIZE = 10;
+
+interface StarRatingProps {
+  value: number;
+  size?: 'sm' | 'md' | 'lg';
+  onChange?: (value: number) => void;  // Makes the stars clickable
+}
+
+const starSizes = { sm: 'w-4 h-4', md: 'w-5 h-5', lg: 'w-7 h-7' };
+
+export function StarRating({ value, size = 'sm', onChange }: StarRatingProps) {
+  return (
+    <div className="flex items-center gap-0.5">
+      {[1, 2, 3, 4, 5].map(star => {
+        const icon = (
+          <Star
+            className={`${starSizes[size]} ${
+              star <= Math.round(value) ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'
+            }`}
+          />
+        );
+        return onChange ? (
+          <button key={star} type="button" onClick={() => onChange(star)} aria-label={`${star} ดาว`}>
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+}
+
+interface ReviewFormProps {
+  bookingId: string;
+  onSubmitted: (review: Review) => void;
+  onCancel: () => void;
+}
+
+export function ReviewForm({ bookingId, onSubmitted, onCancel }: ReviewFormProps) {
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [photos, setPhotos] = useState<{ file: File; preview: string }[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Release preview URLs when the form goes away
+  const photosRef = useRef(photos);
+  photosRef.current = photos;
+  useEffect(() => () => photosRef.current.forEach(photo => URL.revokeObjectURL(photo.preview)), []);
+
+  const handleFiles = (files: FileList | null) => {
+    const selected = Array.from(files || []);
+    const tooLarge = selected.filter(file => file.size > MAX_PHOTO_BYTES);
+    if (tooLarge.length > 0) toast.error('รูปต้องมีขนาดไม่เกิน 10MB');
+
+    const accepted = selected
+      .filter(file => file.type.startsWith('image/') && file.size <= MAX_PHOTO_BYTES)
+      .slice(0, MAX_PHOTOS - photos.length);
+    setPhotos(prev => [...prev, ...accepted.map(file => ({ file, preview: URL.createObjectURL(file) }))]);
+  };
+
+  const removePhoto = (index: number) => {
+    URL.revokeObjectURL(photos[index].preview);
+    setPhotos(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      const uploaded: UploadedImage[] = photos.length > 0
+        ? (await uploadImages(photos.map(photo => photo.file), 'reviews')).data.data
+        : [];
+      const response = await createReview({
+        bookingId,
+        rating,
+        comment,
+        photos: uploaded.map(({ url, medium, thumbnail }) => ({ url, medium, thumbnail })),
+      });
+      toast.success('ขอบคุณสำหรับรีวิว!');
+      onSubmitted(response.data.data);
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'ไม่สามารถส่งรีวิวได้');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg space-y-3">
+      <div>
+        <Label className="mb-1 block">ให้คะแนน</Label>
+        <StarRating value={rating} size="lg" onChange={setRating} />
+      </div>
+      <div>
+        <Label htmlFor={`review-${bookingId}`}>รีวิว</Label>
+        <Textarea
+          id={`review-${bookingId}`}
+          rows={3}
+          maxLength={2000}
+          placeholder="คุณภาพปุ๋ย การจัดส่ง การติดต่อกับผู้ขาย..."
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+        />
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {photos.map((photo, index) => (
+          <div key={photo.preview} className="relative w-16 h-16 rounded overflow-hidden bg-gray-200">
+            <img src={photo.preview} alt="" className="w-full h-full object-cover" />
+            <button
+              type="button"
+              onClick={() => removePhoto(index)}
+              className="absolute top-0.5 right-0.5 bg-black/60 text-white rounded-full p-0.5"
+              aria-label="ลบรูป"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+        {photos.length < MAX_PHOTOS && (
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="w-16 h-16 rounded border-2 border-dashed border-gray-300 flex items-center justify-center text-gray-400 hover:text-green-600 hover:border-green-600"
+            aria-label="เพิ่มรูป"
+          >
+            <ImagePlus className="w-5 h-5" />
+          </button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            handleFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button
+          className="bg-green-600 hover:bg-green-700"
+          disabled={rating === 0 || isSubmitting}
+          onClick={handleSubmit}
+        >
+          {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          ส่งรีวิว
+        </Button>
+        <Button variant="outline" disabled={isSubmitting} onClick={onCancel}>
+          ยกเลิก
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface ReviewItemProps {
+  review: Review;
+  canReply: boolean;
+  onReplied: (review: Review) => void;
+}
+
+function ReviewItem({ review, canReply, onReplied }: ReviewItemProps) {
+  const [isReplying, setIsReplying] = useState(false);
+  const [replyText, setReplyText] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const handleReply = async () => {
+    setIsSending(true);
+    try {
+      const response = await replyToReview(review.id, replyText);
+      onReplied(response.data.data);
+      setIsReplying(false);
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'ไม่สามารถตอบกลับรีวิวได้');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="py-4 border-b last:border-b-0 space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <p className="font-medium">{review.buyerName}</p>
+          <StarRating value={review.rating} />
+        </div>
+        <p className="text-xs text-gray-500">{new Date(review.createdAt).toLocaleDateString('th-TH')}</p>
+      </div>
+
+      {review.comment && <p className="text-gray-700 whitespace-pre-line">{review.comment}</p>}
+
+      {review.photos.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {review.photos.map(photo => (
+            <a key={photo.url} href={photo.url} target="_blank" rel="noreferrer" className="w-20 h-20 rounded overflow-hidden bg-gray-100">
+              <ImageWithFallback src={photo.thumbnail} alt="รูปรีวิว" className="w-full h-full object-cover" />
+            </a>
+          ))}
+        </div>
+      )}
+
+      {review.reply && (
+        <div className="ml-4 pl-3 border-l-2 border-green-600">
+          <p className="text-sm font-medium text-green-700">การตอบกลับจากผู้ขาย</p>
+          <p className="text-sm text-gray-700 whitespace-pre-line">{review.reply.text}</p>
+        </div>
+      )}
+
+      {canReply && !review.reply && (
+        isReplying ? (
+          <div className="ml-4 space-y-2">
+            <Textarea rows={2} maxLength={1000} value={replyText} onChange={(e) => setReplyText(e.target.value)} />
+            <div className="flex gap-2">
+              <Button size="sm" className="bg-green-600 hover:bg-green-700" disabled={!replyText.trim() || isSending} onClick={handleReply}>
+                ตอบกลับ
+              </Button>
+              <Button size="sm" variant="outline" disabled={isSending} onClick={() => setIsReplying(false)}>
+                ยกเลิก
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button size="sm" variant="ghost" onClick={() => setIsReplying(true)}>
+            <Reply className="w-4 h-4 mr-1" />
+            ตอบกลับ (ได้ครั้งเดียว)
+          </Button>
+        )
+      )}
+    </div>
+  );
+}
+
+interface ProductReviewsProps {
+  productId: string;
+  rating: number;
+  reviewCount: number;
+  isMyPost: boolean;  // The seller can reply
+}
+
+export function ProductReviews({ productId, rating, reviewCount, isMyPost }: ProductReviewsProps) {
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadPage = useCallback(async (cursor?: string) => {
+    setIsLoading(true);
+    try {
+      const response = await getProductReviews(productId, { limit: PAGE_SIZE, cursor });
+      const page: Review[] = response.data.data;
+      setReviews(prev => (cursor ? [...prev, ...page] : page));
+      setNextCursor(response.data.nextCursor);
+    } catch (error) {
+      console.error('Error loading reviews:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [productId]);
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage]);
+
+  return (
+    <div>
+      <div className="flex items-center gap-3 mb-2">
+        <p className="text-lg">รีวิวจากผู้ซื้อ</p>
+        {reviewCount > 0 && (
+          <div className="flex items-center gap-1 text-sm text-gray-600">
+            <StarRating value={rating} />
+            <span>{rating.toFixed(1)} ({reviewCount} รีวิว)</span>
+          </div>
+        )}
+      </div>
+
+      {reviews.length === 0 && !isLoading && (
+        <p className="text-sm text-gray-500">ยังไม่มีรีวิว รีวิวเขียนได้หลังการจองเสร็จสิ้น</p>
+      )}
+
+      {reviews.map(review => (
+        <ReviewItem
+          key={review.id}
+          review={review}
+          canReply={isMyPost}
+          onReplied={(updated) => setReviews(prev => prev.map(r => (r.id === updated.id ? updated : r)))}
+        />
+      ))}
+
+      {isLoading && (
+        <div className="py-4 flex justify-center text-gray-500">
+          <Loader2 className="w-5 h-5 animate-spin" />
+        </div>
+      )}
+      {!isLoading && nextCursor && (
+        <Button variant="outline" className="w-full mt-2" onClick={() => loadPage(nextCursor)}>
+          ดูรีวิวเพิ่มเติม
+        </Button>
+      )}
+    </div>
+  );
+}
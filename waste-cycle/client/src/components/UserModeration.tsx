@@ -0,0 +1,246 @@
+/**
+ * Admin dialog for one user's account restrictions: time-bound suspension, ban (with what
+ * happens to their active listings), lifting either, and the moderation history
+ */
+
+import { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Checkbox } from './ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  suspendUser,
+  unsuspendUser,
+  banUser,
+  unbanUser,
+  getUserModerationLog,
+  type AdminUser,
+  type BanListingMode,
+  type ModerationLogEntry,
+} from '../apiServer';
+
+// Suspension lengths offered in the form; 'indefinite' lasts until lifted
+const DURATIONS = [
+  { value: '1', label: '1 วัน' },
+  { value: '3', label: '3 วัน' },
+  { value: '7', label: '7 วัน' },
+  { value: '30', label: '30 วัน' },
+  { value: 'indefinite', label: 'จนกว่าจะยกเลิก' },
+];
+
+const listingModes: Record<BanListingMode, string> = {
+  keep: 'คงประกาศไว้',
+  hide: 'ซ่อนประกาศที่ยังขายอยู่',
+  transfer: 'โอนประกาศให้ผู้ใช้อื่น',
+};
+
+const actionLabels: Record<ModerationLogEntry['action'], string> = {
+  suspend: 'ระงับชั่วคราว',
+  unsuspend: 'ยกเลิกการระงับ',
+  ban: 'แบน',
+  unban: 'ยกเลิกการแบน',
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('th-TH', { dateStyle: 'medium', timeStyle: 'short' });
+
+// The server ignores suspensions whose end has passed
+export const isSuspensionActive = (user: AdminUser) =>
+  user.suspended === true && (!user.suspendedUntil || new Date(user.suspendedUntil) > new Date());
+
+interface UserModerationDialogProps {
+  user: AdminUser | null;      // null = closed
+  onClose: () => void;
+  onChanged: () => void;       // Reload the user list
+}
+
+export function UserModerationDialog({ user, onClose, onChanged }: UserModerationDialogProps) {
+  const [reason, setReason] = useState('');
+  const [duration, setDuration] = useState('7');
+  const [listings, setListings] = useState<BanListingMode>('hide');
+  const [transferTo, setTransferTo] = useState('');
+  const [restoreListings, setRestoreListings] = useState(true);
+  const [history, setHistory] = useState<ModerationLogEntry[]>([]);
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    setReason('');
+    setTransferTo('');
+    setHistory([]);
+    getUserModerationLog(user.id, { limit: 10 })
+      .then(response => setHistory(response.data.data))
+      .catch(error => console.error('Error loading moderation log:', error));
+  }, [user?.id]);
+
+  if (!user) return null;
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setIsSending(true);
+    try {
+      await action();
+      toast.success(success);
+      onChanged();
+      onClose();
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'ไม่สามารถดำเนินการได้');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const suspended = isSuspensionActive(user);
+  const hasReason = reason.trim() !== '';
+
+  return (
+    <Dialog open onOpenChange={(open: boolean) => !open && onClose()}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>จัดการบัญชี {user.name}</DialogTitle>
+          <DialogDescription>{user.email}</DialogDescription>
+        </DialogHeader>
+
+        {user.banned ? (
+          <div className="space-y-3">
+            <p className="text-sm text-red-700">ถูกแบน{user.banReason ? `: ${user.banReason}` : ''}</p>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="restore-listings"
+                checked={restoreListings}
+                onCheckedChange={(checked: boolean | 'indeterminate') => setRestoreListings(checked === true)}
+              />
+              <Label htmlFor="restore-listings">คืนประกาศที่ถูกซ่อนหรือโอนไปตอนแบน</Label>
+            </div>
+            <Button
+              variant="outline"
+              disabled={isSending}
+              onClick={() => run(() => unbanUser(user.id, { restoreListings }), 'ยกเลิกการแบนแล้ว')}
+            >
+              ยกเลิกการแบน
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="moderation-reason">เหตุผล (ผู้ใช้จะเห็นข้อความนี้)</Label>
+              <Textarea
+                id="moderation-reason"
+                rows={2}
+                maxLength={500}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+
+            {suspended ? (
+              <div className="flex flex-wrap items-center gap-2">
+                <p className="text-sm text-yellow-700 flex-1">
+                  ระงับ{user.suspendedUntil ? `ถึง ${formatDateTime(user.suspendedUntil)}` : 'จนกว่าจะยกเลิก'}
+                  {user.suspensionReason ? ` (${user.suspensionReason})` : ''}
+                </p>
+                <Button
+                  variant="outline"
+                  disabled={isSending}
+                  onClick={() => run(() => unsuspendUser(user.id, reason.trim() || undefined), 'ยกเลิกการระงับแล้ว')}
+                >
+                  ยกเลิกการระงับ
+                </Button>
+              </div>
+            ) : (
+              <div className="flex flex-wrap items-center gap-2">
+                <Select value={duration} onValueChange={(value: string) => setDuration(value)}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DURATIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  disabled={!hasReason || isSending}
+                  onClick={() => run(
+                    () => suspendUser(user.id, {
+                      reason: reason.trim(),
+                      days: duration === 'indefinite' ? undefined : Number(duration),
+                    }),
+                    'ระงับบัญชีแล้ว'
+                  )}
+                >
+                  ระงับชั่วคราว
+                </Button>
+              </div>
+            )}
+
+            <div className="border-t pt-4 space-y-2">
+              <Label>ประกาศที่ยังขายอยู่เมื่อแบน</Label>
+              <div className="flex flex-wrap items-center gap-2">
+                <Select value={listings} onValueChange={(value: BanListingMode) => setListings(value)}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(listingModes) as BanListingMode[]).map(mode => (
+                      <SelectItem key={mode} value={mode}>{listingModes[mode]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {listings === 'transfer' && (
+                  <Input
+                    className="w-56"
+                    placeholder="รหัสผู้ใช้ที่รับโอน"
+                    value={transferTo}
+                    onChange={(e) => setTransferTo(e.target.value)}
+                  />
+                )}
+              </div>
+              <Button
+                variant="destructive"
+                disabled={!hasReason || (listings === 'transfer' && !transferTo.trim()) || isSending}
+                onClick={() => {
+                  if (!confirm(`แบน ${user.name}? บัญชีจะไม่สามารถเข้าสู่ระบบได้`)) return;
+                  run(
+                    () => banUser(user.id, {
+                      reason: reason.trim(),
+                      listings,
+                      transferTo: listings === 'transfer' ? transferTo.trim() : undefined,
+                    }),
+                    'แบนผู้ใช้แล้ว'
+                  );
+                }}
+              >
+                {isSending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                แบนผู้ใช้
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {history.length > 0 && (
+          <div className="border-t pt-4">
+            <p className="text-sm font-medium mb-2">ประวัติการดำเนินการ</p>
+            <ul className="space-y-1 text-sm text-gray-600">
+              {history.map(entry => (
+                <li key={entry.id}>
+                  {formatDateTime(entry.at)} • {actionLabels[entry.action]}
+                  {entry.until ? ` ถึง ${formatDateTime(entry.until)}` : ''}
+                  {entry.reason ? ` • ${entry.reason}` : ''}
+                  {entry.listings && entry.listings.productIds.length > 0
+                    ? ` • ประกาศ ${entry.listings.productIds.length} รายการ`
+                    : ''}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
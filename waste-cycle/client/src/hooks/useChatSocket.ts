@@ -0,0 +1,34 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  isChatSocketConnected,
+  subscribeChatEvents,
+  subscribeChatSocketStatus,
+  type ChatSocketEvent,
+} from '../services/chatSocket';
+
+/**
+ * Whether the real-time chat socket is connected; screens poll while it is false
+ */
+export function useChatSocketStatus() {
+  const [connected, setConnected] = useState(isChatSocketConnected());
+
+  useEffect(() => {
+    setConnected(isChatSocketConnected());
+    return subscribeChatSocketStatus(setConnected);
+  }, []);
+
+  return connected;
+}
+
+/**
+ * Run a handler for every chat socket event; the latest handler is always used
+ */
+export function useChatEvents(onEvent: (event: ChatSocketEvent) => void) {
+  const handlerRef = useRef(onEvent);
+
+  useEffect(() => {
+    handlerRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => subscribeChatEvents(event => handlerRef.current(event)), []);
+}
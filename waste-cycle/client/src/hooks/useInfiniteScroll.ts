@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Infinite scroll for cursor-paginated lists
+ *
+ * Returns a ref for a sentinel element placed at the end (or start) of the list.
+ * When the sentinel scrolls into view and another page exists, onLoadMore is called.
+ * The caller tracks hasMore (nextCursor !== null) and isLoading to avoid duplicate requests.
+ */
+export function useInfiniteScroll(
+  onLoadMore: () => void,
+  hasMore: boolean,
+  isLoading: boolean
+) {
+  const observerRef = useRef<IntersectionObserver | null>(null);
+  const loadMoreRef = useRef(onLoadMore);
+
+  useEffect(() => {
+    loadMoreRef.current = onLoadMore;
+  }, [onLoadMore]);
+
+  const sentinelRef = useCallback((node: HTMLElement | null) => {
+    observerRef.current?.disconnect();
+    if (!node || !hasMore || isLoading) return;
+
+    observerRef.current = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        loadMoreRef.current();
+      }
+    }, { rootMargin: '200px' });
+    observerRef.current.observe(node);
+  }, [hasMore, isLoading]);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  return sentinelRef;
+}
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { isPushSupported, getPushSubscription, enablePush, disablePush } from '../services/pushService';
+
+/**
+ * Web push on this device: whether it is supported and subscribed, the browser permission,
+ * and enable/disable actions (which toast their result)
+ */
+export function usePushNotifications() {
+  const supported = isPushSupported();
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [permission, setPermission] = useState<NotificationPermission>(
+    supported ? Notification.permission : 'denied'
+  );
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (!supported) return;
+    getPushSubscription()
+      .then(subscription => setIsSubscribed(!!subscription))
+      .catch(error => console.error('Error reading push subscription:', error));
+  }, [supported]);
+
+  const enable = useCallback(async () => {
+    setIsBusy(true);
+    try {
+      await enablePush();
+      setIsSubscribed(true);
+      toast.success('เปิดการแจ้งเตือนบนอุปกรณ์นี้แล้ว');
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || err?.message || 'ไม่สามารถเปิดการแจ้งเตือนได้');
+    } finally {
+      setPermission(Notification.permission);
+      setIsBusy(false);
+    }
+  }, []);
+
+  const disable = useCallback(async () => {
+    setIsBusy(true);
+    try {
+      await disablePush();
+      setIsSubscribed(false);
+      toast.success('ปิดการแจ้งเตือนบนอุปกรณ์นี้แล้ว');
+    } catch (err: any) {
+      toast.error(err?.message || 'ไม่สามารถปิดการแจ้งเตือนได้');
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  return { supported, isSubscribed, permission, isBusy, enable, disable };
+}
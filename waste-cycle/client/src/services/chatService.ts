@@ -5,19 +5,42 @@
  * - Uses API endpoints instead of direct Firestore access
  * - Prevents Firestore permission errors
  * - Backend handles authorization
- * - Polling for real-time-like updates
+ * - Real-time updates come from chatSocket.ts; the poll helpers below are the fallback
  */
 
 import api from '../apiServer';
 
+// Uploaded through apiServer (folder 'chat') before the message is sent
+export type ChatAttachment =
+  | { type: 'image'; url: string; medium: string; thumbnail: string; width?: number | null; height?: number | null }
+  | { type: 'file'; url: string; name: string; size: number; contentType: string }  // PDF only
+  | { type: 'location'; lat: number; lng: number; label?: string | null };
+
+// Structured offer inside the thread; accepting it creates the room's booking
+export interface ChatOffer {
+  quantity: number;
+  unit: string;
+  pricePerUnit: number;
+  pickupDate: string;
+  deliveryOption: 'pickup' | 'delivery';
+  note?: string;
+  status: 'pending' | 'accepted' | 'declined' | 'countered' | 'withdrawn';
+  bookingId?: string;
+  respondedAt?: string;
+}
+
 export interface Message {
   id: string;
   chatRoomId: string;
   senderId: string;      // MULTI-USER: Who sent the message
   receiverId: string;    // MULTI-USER: Who receives the message
   text: string;
+  attachments?: ChatAttachment[];
+  type?: 'offer';        // Plain text/attachment messages have no type
+  offer?: ChatOffer;
   timestamp: string;
   read?: boolean;
+  hidden?: boolean;      // Hidden by an admin after a report; text and attachments are blanked
 }
 
 export interface ChatRoom {
@@ -31,6 +54,11 @@ export interface ChatRoom {
   updatedAt: string;
   lastMessage: string;
   lastMessageSenderId: string | null;
+  lastReadAt?: Record<string, string>;  // Per participant: when they last read the room
+  unreadCount?: number;                  // Computed: messages the current user has not read
+  pendingOfferId?: string;               // Offer message waiting for an answer
+  bookingId?: string;                    // Booking created from an accepted offer
+  bookingStatus?: string;                // Kept in sync with the booking
   otherParticipantId?: string;  // Computed: The other user in the chat
   otherParticipantName?: string; // Computed: The other user's name
   // Legacy fields for backward compatibility
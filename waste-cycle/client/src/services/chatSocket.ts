@@ -0,0 +1,162 @@
+/**
+ * Chat Socket - real-time chat over WebSocket
+ *
+ * - Authenticates with the same Firebase ID token the REST API uses
+ * - Receives new messages, room updates and typing indicators for rooms the user is in
+ * - Reconnects with backoff; while disconnected, screens fall back to polling
+ *   (subscribe to status with subscribeChatSocketStatus)
+ */
+
+import { getAuth } from 'firebase/auth';
+import { API_URL } from '../apiServer'; // also initializes the Firebase app
+import type { ChatRoom, Message } from './chatService';
+
+export type ChatSocketEvent =
+  | { type: 'message'; roomId: string; message: Message }
+  | { type: 'room'; room: ChatRoom }
+  | { type: 'typing'; roomId: string; userId: string; isTyping: boolean };
+
+const auth = getAuth();
+
+const SOCKET_URL = API_URL.replace(/^http/, 'ws').replace(/\/api$/, '/ws/chat');
+const MIN_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+const CLOSE_RESTRICTED = 4403;
+
+let socket: WebSocket | null = null;
+let opening = false; // waiting for the ID token, before the socket exists
+let connected = false;
+let shouldConnect = false;
+let retryMs = MIN_RETRY_MS;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const eventListeners = new Set<(event: ChatSocketEvent) => void>();
+const statusListeners = new Set<(connected: boolean) => void>();
+
+const setConnected = (value: boolean) => {
+  if (connected === value) return;
+  connected = value;
+  statusListeners.forEach(listener => listener(value));
+};
+
+const scheduleReconnect = () => {
+  if (!shouldConnect || retryTimer) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    openSocket();
+  }, retryMs);
+  retryMs = Math.min(retryMs * 2, MAX_RETRY_MS);
+};
+
+const openSocket = async () => {
+  const currentUser = auth.currentUser;
+  if (!shouldConnect || !currentUser || socket || opening) return;
+
+  let token: string;
+  opening = true;
+  try {
+    token = await currentUser.getIdToken();
+  } catch (error) {
+    console.error('❌ Chat socket: could not get token', error);
+    scheduleReconnect();
+    return;
+  } finally {
+    opening = false;
+  }
+
+  // disconnectChatSocket may have run while the token was loading
+  if (!shouldConnect || socket) return;
+  // Someone else signed in meanwhile: start over with their token
+  if (auth.currentUser !== currentUser) {
+    openSocket();
+    return;
+  }
+
+  const ws = new WebSocket(SOCKET_URL);
+  socket = ws;
+
+  ws.onopen = () => ws.send(JSON.stringify({ type: 'auth', token }));
+
+  ws.onmessage = (event) => {
+    let data: any;
+    try {
+      data = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+    if (data.type === 'ready') {
+      retryMs = MIN_RETRY_MS;
+      setConnected(true);
+      return;
+    }
+    eventListeners.forEach(listener => listener(data as ChatSocketEvent));
+  };
+
+  ws.onclose = (event) => {
+    if (socket === ws) socket = null;
+    setConnected(false);
+    // 4403: the account is suspended or banned, retrying would only be refused again
+    if (event.code === CLOSE_RESTRICTED) {
+      shouldConnect = false;
+      return;
+    }
+    scheduleReconnect();
+  };
+
+  ws.onerror = () => ws.close();
+};
+
+/**
+ * Start the connection (no-op when already connected); call after login
+ */
+export const connectChatSocket = () => {
+  shouldConnect = true;
+  openSocket();
+};
+
+/**
+ * Close the connection and stop reconnecting; call on logout
+ */
+export const disconnectChatSocket = () => {
+  shouldConnect = false;
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  retryMs = MIN_RETRY_MS;
+  socket?.close();
+  socket = null;
+  setConnected(false);
+};
+
+export const isChatSocketConnected = () => connected;
+
+/**
+ * Listen for chat events
+ * @returns Function to stop listening
+ */
+export const subscribeChatEvents = (listener: (event: ChatSocketEvent) => void) => {
+  eventListeners.add(listener);
+  return () => {
+    eventListeners.delete(listener);
+  };
+};
+
+/**
+ * Listen for connection changes (true = connected and authenticated)
+ * @returns Function to stop listening
+ */
+export const subscribeChatSocketStatus = (listener: (connected: boolean) => void) => {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
+
+/**
+ * Tell the other participant(s) whether the user is typing in a room
+ */
+export const sendTyping = (roomId: string, isTyping: boolean) => {
+  if (!connected || !socket) return;
+  socket.send(JSON.stringify({ type: 'typing', roomId, isTyping }));
+};
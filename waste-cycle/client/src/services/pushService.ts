@@ -0,0 +1,71 @@
+/**
+ * Push Service - web push notifications on this browser/device
+ *
+ * - Registers the push service worker (public/push-sw.js)
+ * - Subscribes with the server's VAPID key and registers the subscription with the API
+ * - The server only pushes while the user has no chat socket open (i.e. is away from the app)
+ * - Clicks on a notification come back as { type: 'open-link', link } (subscribeOpenLink)
+ */
+
+import { getPushPublicKey, subscribePush, unsubscribePush } from '../apiServer';
+
+const SERVICE_WORKER_URL = '/push-sw.js';
+
+export const isPushSupported = () =>
+  'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+// VAPID keys are base64url; PushManager wants the raw bytes
+const decodeBase64Url = (value: string) => {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
+export const getPushSubscription = async () => {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+// Ask for permission, subscribe and register this device; errors carry a message for the user
+export const enablePush = async () => {
+  const response = await getPushPublicKey();
+  const publicKey: string | null = response.data.data.publicKey;
+  if (!publicKey) throw new Error('เซิร์ฟเวอร์ยังไม่เปิดใช้การแจ้งเตือนแบบพุช');
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') throw new Error('เบราว์เซอร์ไม่อนุญาตให้แสดงการแจ้งเตือน');
+
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = (await registration.pushManager.getSubscription())
+    || (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeBase64Url(publicKey),
+    }));
+
+  await subscribePush(subscription.toJSON());
+  return subscription;
+};
+
+// Stop pushes to this device (also on logout, so the next account does not get them)
+export const disablePush = async () => {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+  try {
+    await unsubscribePush(subscription.endpoint);
+  } catch (error) {
+    // Already gone on the server (or belongs to another account); unsubscribing locally is enough
+    console.error('Error removing push subscription:', error);
+  }
+  await subscription.unsubscribe();
+};
+
+// Notification clicks from the service worker
+export const subscribeOpenLink = (listener: (link: string) => void) => {
+  if (!('serviceWorker' in navigator)) return () => {};
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'open-link' && typeof event.data.link === 'string') listener(event.data.link);
+  };
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+};
@@ -12,12 +12,32 @@ const db = admin.firestore();
 // (ถ้าต้องการระบุโซน เช่น สิงคโปร์ ให้ uncomment บรรทัดล่าง)
 // setGlobalOptions({ region: "asia-southeast1" });
 
+// ข้อความแสดงแทนเมื่อข้อความไม่มีตัวอักษร (ตรงกับ server/src/utils/chatAttachments.js และ chatOffers.js)
+const ATTACHMENT_PREVIEWS = {
+  image: '📷 รูปภาพ',
+  file: '📄 ไฟล์แนบ',
+  location: '📍 ตำแหน่ง',
+};
+const MAX_PREVIEW_LENGTH = 50;
+
+const previewMessage = (message) => {
+  if (message.type === 'offer' && message.offer) {
+    return `💰 ข้อเสนอ ${message.offer.quantity} ${message.offer.unit || 'kg'} × ฿${message.offer.pricePerUnit}`;
+  }
+  const text = message.text || ATTACHMENT_PREVIEWS[message.attachments?.[0]?.type] || '';
+  return text.length > MAX_PREVIEW_LENGTH ? `${text.substring(0, MAX_PREVIEW_LENGTH)}...` : text;
+};
+
 /**
- * Trigger: ทำงานเมื่อมีข้อความใหม่ถูกสร้างใน subcollection 'messages'
+ * Trigger: ทำงานเมื่อมีข้อความใหม่ใน chatRooms/{roomId}/messages (เขียนโดย server/src/controllers/chatController.js)
  * (นี่คือ Syntax V1 - ใช้งานง่ายที่สุด)
+ *
+ * รวมข้อความเป็นชุด: ผู้รับมีการแจ้งเตือนแชตได้ 1 รายการต่อห้อง (notifications/chat_{roomId}_{userId})
+ * ข้อความที่เข้ามาระหว่างที่ยังไม่ได้อ่าน จะอัปเดตรายการเดิม (นับจำนวน + ข้อความล่าสุด) แทนการสร้างใหม่
+ * link ชี้ไปที่ห้องแชตนั้นโดยตรง (/chat/{roomId})
  */
 export const sendChatNotification = functions.firestore
-  .document('/chat_rooms/{roomId}/messages/{messageId}')
+  .document('chatRooms/{roomId}/messages/{messageId}')
   .onCreate(async (snap, context) => {
     
     // 1. ดึงข้อมูลข้อความที่เพิ่งถูกส่งมา
@@ -27,49 +47,80 @@ export const sendChatNotification = functions.firestore
       return null;
     }
     
-    const roomId = context.params.roomId;
-    const senderId = messageData.senderId;
-    const senderName = messageData.senderName || 'ผู้ใช้';
-    const messageText = messageData.text || '';
+    const { roomId } = context.params;
+    const senderId = String(messageData.senderId);
 
     try {
-      // 2. ดึงข้อมูล "ห้องแชต" เพื่อหาว่า "ผู้รับ" คือใคร
-      const roomRef = db.collection('chat_rooms').doc(roomId);
-      const roomDoc = await roomRef.get();
+      // 2. ดึงข้อมูล "ห้องแชต" เพื่อหาชื่อผู้ส่งและชื่อสินค้า
+      const roomDoc = await db.collection('chatRooms').doc(roomId).get();
       if (!roomDoc.exists) {
         console.log(`ไม่พบห้องแชต: ${roomId}`);
         return null;
       }
 
       const roomData = roomDoc.data();
+      const participants = (roomData.participants || []).map(id => String(id));
       
-      // 3. หา ID ของผู้รับ (คนที่ "ไม่ใช่" ผู้ส่ง)
-      const recipientId = roomData.participants.find(id => id !== senderId);
+      // 3. ผู้รับคือ receiverId ของข้อความ (หรือคนที่ "ไม่ใช่" ผู้ส่ง สำหรับข้อความเก่า)
+      const recipientId = messageData.receiverId
+        ? String(messageData.receiverId)
+        : participants.find(id => id !== senderId);
       
       if (!recipientId) {
         console.log('ไม่พบผู้รับ');
         return null;
       }
 
-      // 4. สร้าง Notification data
-      const notificationData = {
-        userId: recipientId, // 👈 ส่งหาผู้รับ
-        title: `คุณมีข้อความใหม่!`,
-        message: `${senderName} (เรื่อง: ${roomData.postTitle || '...'}): "${messageText.substring(0, 50)}..."`,
-        link: `/bookings`, // 👈 (หรือ /chat ถ้าคุณมีหน้ารวมแชต)
-        type: 'chat',
-        read: false,
-        createdAt: new Date().toISOString()
-      };
-      
-      // 5. เขียนการแจ้งเตือนนี้ลงใน Collection "notifications"
-      await db.collection('notifications').add(notificationData);
-      
-      console.log(`ส่งแจ้งเตือนแชตให้ ${recipientId} สำหรับห้อง ${roomId} สำเร็จ`);
+      // ผู้รับปิดการแจ้งเตือนแชต หรือปิดการแจ้งเตือนในแอป (notificationPreferences/{uid})
+      const preferencesDoc = await db.collection('notificationPreferences').doc(recipientId).get();
+      const preferences = preferencesDoc.exists ? preferencesDoc.data() : {};
+      if (preferences.types?.chat === false || preferences.channels?.inApp === false) {
+        return null;
+      }
+
+      const senderIndex = participants.indexOf(senderId);
+      const senderName = (roomData.participantNames || [])[senderIndex] || 'ผู้ใช้';
+      const productTitle = roomData.productTitle || '...';
+      const preview = previewMessage(messageData);
+
+      // 4. สร้างหรืออัปเดตการแจ้งเตือนของห้องนี้ใน transaction (ข้อความที่มาพร้อมกันจะไม่สร้างซ้ำ)
+      const notificationRef = db.collection('notifications').doc(`chat_${roomId}_${recipientId}`);
+      const messageCount = await db.runTransaction(async (t) => {
+        const existing = await t.get(notificationRef);
+        const previous = existing.exists ? existing.data() : null;
+
+        // Trigger อาจทำงานซ้ำสำหรับข้อความเดียวกัน
+        if (previous && previous.lastMessageId === snap.id) return null;
+
+        const isBatching = !!previous && !previous.read;
+        const count = isBatching ? (previous.messageCount || 1) + 1 : 1;
+        const now = new Date().toISOString();
+
+        t.set(notificationRef, {
+          userId: recipientId, // 👈 ส่งหาผู้รับ
+          type: 'chat',
+          title: count > 1 ? `คุณมีข้อความใหม่ ${count} ข้อความ` : 'คุณมีข้อความใหม่!',
+          message: count > 1
+            ? `${senderName} (เรื่อง: ${productTitle}) ล่าสุด: "${preview}"`
+            : `${senderName} (เรื่อง: ${productTitle}): "${preview}"`,
+          link: `/chat/${roomId}`,
+          roomId,
+          messageCount: count,
+          lastMessageId: snap.id,
+          read: false,
+          createdAt: now, // ขึ้นบนสุดของรายการทุกครั้งที่มีข้อความใหม่
+          firstMessageAt: isBatching ? previous.firstMessageAt || previous.createdAt : now,
+        });
+        return count;
+      });
+
+      if (messageCount) {
+        console.log(`ส่งแจ้งเตือนแชตให้ ${recipientId} สำหรับห้อง ${roomId} สำเร็จ (${messageCount} ข้อความ)`);
+      }
       return null;
 
     } catch (error) {
       console.error('ผิดพลาด! ไม่สามารถส่งแจ้งเตือนแชตได้:', error);
       return null;
     }
-  });
\ No newline at end of file
+  });
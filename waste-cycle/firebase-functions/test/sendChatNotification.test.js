@@ -0,0 +1,137 @@
+// firebase-functions/test/sendChatNotification.test.js
+// รันกับ Firestore emulator: `npm test` (firebase emulators:exec ตั้ง FIRESTORE_EMULATOR_HOST ให้)
+// emulator ต้องใช้ Java 11 ขึ้นไป และดาวน์โหลดตัว emulator ครั้งแรกที่รัน
+import { test, before, beforeEach, after } from 'node:test';
+import assert from 'node:assert/strict';
+import functionsTest from 'firebase-functions-test';
+
+const PROJECT_ID = process.env.GCLOUD_PROJECT || 'demo-waste-cycle';
+const fft = functionsTest({ projectId: PROJECT_ID });
+
+let db;
+let wrapped;
+
+// ห้องแชตตัวอย่างแบบที่ server/src/controllers/chatController.js เขียน
+const ROOM = {
+  participants: ['buyer1', 'seller1'],
+  participantNames: ['ผู้ซื้อ', 'ผู้ขาย'],
+  productTitle: 'มูลไก่แห้ง',
+};
+
+const clearFirestore = async () => {
+  const response = await fetch(
+    `http://${process.env.FIRESTORE_EMULATOR_HOST}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`,
+    { method: 'DELETE' }
+  );
+  assert.ok(response.ok, `ล้างข้อมูลใน emulator ไม่สำเร็จ (${response.status})`);
+};
+
+// เรียก trigger เหมือนมีข้อความใหม่ถูกสร้างใน chatRooms/{roomId}/messages/{messageId}
+const sendMessage = (roomId, messageId, message) => {
+  const snap = fft.firestore.makeDocumentSnapshot(message, `chatRooms/${roomId}/messages/${messageId}`);
+  return wrapped(snap, { params: { roomId, messageId } });
+};
+
+const getNotification = async (roomId, userId) => {
+  const doc = await db.collection('notifications').doc(`chat_${roomId}_${userId}`).get();
+  return doc.exists ? doc.data() : null;
+};
+
+before(async () => {
+  // ไม่ให้เผลอเขียนลงโปรเจกต์จริง
+  assert.ok(process.env.FIRESTORE_EMULATOR_HOST, 'ต้องรันผ่าน `npm test` เพื่อเปิด Firestore emulator');
+
+  const { sendChatNotification } = await import('../index.js');
+  const { default: admin } = await import('firebase-admin');
+  db = admin.firestore();
+  wrapped = fft.wrap(sendChatNotification);
+});
+
+beforeEach(async () => {
+  await clearFirestore();
+  await db.collection('chatRooms').doc('room1').set(ROOM);
+});
+
+after(() => fft.cleanup());
+
+test('สร้างการแจ้งเตือนให้ผู้รับพร้อมลิงก์ไปที่ห้องแชต', async () => {
+  await sendMessage('room1', 'm1', { senderId: 'buyer1', receiverId: 'seller1', text: 'ยังมีของไหมครับ' });
+
+  const notification = await getNotification('room1', 'seller1');
+  assert.equal(notification.userId, 'seller1');
+  assert.equal(notification.type, 'chat');
+  assert.equal(notification.link, '/chat/room1');
+  assert.equal(notification.messageCount, 1);
+  assert.equal(notification.read, false);
+  assert.equal(notification.message, 'ผู้ซื้อ (เรื่อง: มูลไก่แห้ง): "ยังมีของไหมครับ"');
+  assert.equal(await getNotification('room1', 'buyer1'), null);
+});
+
+test('ข้อความที่ตามมาขณะยังไม่อ่านรวมอยู่ในการแจ้งเตือนเดิม', async () => {
+  await sendMessage('room1', 'm1', { senderId: 'buyer1', receiverId: 'seller1', text: 'สวัสดีครับ' });
+  await sendMessage('room1', 'm2', { senderId: 'buyer1', receiverId: 'seller1', text: 'ขอราคาส่งได้ไหม' });
+  await sendMessage('room1', 'm3', { senderId: 'buyer1', receiverId: 'seller1', attachments: [{ type: 'image' }] });
+
+  const notifications = await db.collection('notifications').where('userId', '==', 'seller1').get();
+  assert.equal(notifications.size, 1);
+
+  const notification = notifications.docs[0].data();
+  assert.equal(notification.messageCount, 3);
+  assert.equal(notification.title, 'คุณมีข้อความใหม่ 3 ข้อความ');
+  assert.equal(notification.message, 'ผู้ซื้อ (เรื่อง: มูลไก่แห้ง) ล่าสุด: "📷 รูปภาพ"');
+  assert.equal(notification.lastMessageId, 'm3');
+});
+
+test('เริ่มนับใหม่เมื่อผู้รับอ่านการแจ้งเตือนแล้ว', async () => {
+  await sendMessage('room1', 'm1', { senderId: 'buyer1', receiverId: 'seller1', text: 'สวัสดีครับ' });
+  await db.collection('notifications').doc('chat_room1_seller1').update({ read: true });
+  await sendMessage('room1', 'm2', { senderId: 'buyer1', receiverId: 'seller1', text: 'อยู่ไหมครับ' });
+
+  const notification = await getNotification('room1', 'seller1');
+  assert.equal(notification.messageCount, 1);
+  assert.equal(notification.read, false);
+  assert.equal(notification.title, 'คุณมีข้อความใหม่!');
+});
+
+test('trigger ที่ทำงานซ้ำกับข้อความเดิมไม่นับเพิ่ม', async () => {
+  const message = { senderId: 'buyer1', receiverId: 'seller1', text: 'สวัสดีครับ' };
+  await sendMessage('room1', 'm1', message);
+  await sendMessage('room1', 'm1', message);
+
+  assert.equal((await getNotification('room1', 'seller1')).messageCount, 1);
+});
+
+test('ข้อความเก่าที่ไม่มี receiverId ส่งหาผู้ร่วมสนทนาอีกคน', async () => {
+  await sendMessage('room1', 'm1', { senderId: 'seller1', text: 'มีครับ' });
+
+  const notification = await getNotification('room1', 'buyer1');
+  assert.equal(notification.message, 'ผู้ขาย (เรื่อง: มูลไก่แห้ง): "มีครับ"');
+});
+
+test('แสดงข้อเสนอราคาเป็นข้อความสรุป', async () => {
+  await sendMessage('room1', 'm1', {
+    senderId: 'buyer1',
+    receiverId: 'seller1',
+    type: 'offer',
+    offer: { quantity: 100, unit: 'kg', pricePerUnit: 5 },
+  });
+
+  assert.equal((await getNotification('room1', 'seller1')).message, 'ผู้ซื้อ (เรื่อง: มูลไก่แห้ง): "💰 ข้อเสนอ 100 kg × ฿5"');
+});
+
+test('ไม่แจ้งเตือนเมื่อผู้รับปิดการแจ้งเตือนแชตหรือการแจ้งเตือนในแอป', async () => {
+  await db.collection('notificationPreferences').doc('seller1').set({ types: { chat: false } });
+  await sendMessage('room1', 'm1', { senderId: 'buyer1', receiverId: 'seller1', text: 'สวัสดีครับ' });
+  assert.equal(await getNotification('room1', 'seller1'), null);
+
+  await db.collection('notificationPreferences').doc('buyer1').set({ channels: { inApp: false } });
+  await sendMessage('room1', 'm2', { senderId: 'seller1', receiverId: 'buyer1', text: 'สวัสดีครับ' });
+  assert.equal(await getNotification('room1', 'buyer1'), null);
+});
+
+test('ไม่ทำอะไรเมื่อไม่พบห้องแชต', async () => {
+  await sendMessage('missing', 'm1', { senderId: 'buyer1', receiverId: 'seller1', text: 'สวัสดีครับ' });
+
+  const notifications = await db.collection('notifications').get();
+  assert.equal(notifications.size, 0);
+});
@@ -0,0 +1,56 @@
+/**
+ * Backfill Script: Add geohash to products that have a location
+ * 
+ * PROBLEM: Radius and bounding-box search (utils/geo.js) query the `geohash` field.
+ * Documents created before geohash indexing only have `location: { lat, lng }`
+ * and are invisible to those searches.
+ * 
+ * SOLUTION: This script computes geohash from location for every product
+ * that is missing it (or has a stale one).
+ * 
+ * USAGE:
+ *   node scripts/backfill-geohash.js
+ */
+
+import { db } from '../src/config/firebaseConfig.js';
+import { geoFields } from '../src/utils/geo.js';
+
+const backfillCollection = async (collectionName) => {
+  const snapshot = await db.collection(collectionName).get();
+
+  let updatedCount = 0;
+  let skippedCount = 0;
+
+  for (const doc of snapshot.docs) {
+    const data = doc.data();
+    const fields = geoFields(data.location);
+
+    if (!fields.geohash || fields.geohash === data.geohash) {
+      skippedCount++;
+      continue;
+    }
+
+    await db.collection(collectionName).doc(doc.id).update(fields);
+    console.log(`   ✅ ${collectionName}/${doc.id} → ${fields.geohash}`);
+    updatedCount++;
+  }
+
+  console.log(`📊 ${collectionName}: updated ${updatedCount}, skipped ${skippedCount}`);
+};
+
+const backfillGeohash = async () => {
+  try {
+    console.log('🔍 Starting geohash backfill...');
+
+    await backfillCollection('products');
+
+    console.log('\n✅ Backfill completed!');
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error during backfill:', error);
+    process.exit(1);
+  }
+};
+
+// Run backfill
+backfillGeohash();
@@ -0,0 +1,108 @@
+/**
+ * Migration Script: Move base64 product images into the blob store
+ *
+ * PROBLEM: Products created before the upload endpoint store images as base64
+ * data URLs inside the `images` array, which keeps documents close to the
+ * Firestore 1MB limit (see FIRESTORE_SIZE_LIMIT_FIX.md).
+ *
+ * SOLUTION: This script decodes every base64 image, stores it in all sizes via
+ * utils/imageProcessor.js (EXIF/GPS stripped), and replaces the array with URLs
+ * (`images` + `imageVariants`). Images that are already URLs are kept as they are.
+ * Products with an image that cannot be decoded or stored are left untouched and
+ * counted as failed; run the script again to retry them.
+ *
+ * USAGE:
+ *   node scripts/migrate-base64-images.js            # migrate
+ *   node scripts/migrate-base64-images.js --dry-run  # only report what would change
+ *
+ * Set BLOB_STORE=gcs to write to Cloud Storage (otherwise files go to server/uploads).
+ */
+
+import { db } from '../src/config/firebaseConfig.js';
+import { decodeDataUrl, isDataUrl, storeImage } from '../src/utils/imageProcessor.js';
+
+const dryRun = process.argv.includes('--dry-run');
+
+const migrateProduct = async (doc) => {
+  const data = doc.data();
+  const images = Array.isArray(data.images) ? data.images : [];
+  const variants = [];
+
+  for (const [index, image] of images.entries()) {
+    if (!isDataUrl(image)) {
+      variants.push({ url: image, medium: image, thumbnail: image });
+      continue;
+    }
+
+    // A product is only rewritten when every image was stored; otherwise it keeps its data URLs
+    // and is reported as failed, so a transient storage error never loses an image
+    const decoded = decodeDataUrl(image);
+    if (!decoded) {
+      throw new Error(`image ${index} is not a base64 image`);
+    }
+
+    try {
+      const stored = await storeImage(decoded.buffer, `products/${data.userId || 'unknown'}`);
+      variants.push({ url: stored.url, medium: stored.medium, thumbnail: stored.thumbnail });
+    } catch (error) {
+      throw new Error(`image ${index}: ${error.message}`);
+    }
+  }
+
+  await db.collection('products').doc(doc.id).update({
+    images: variants.map(variant => variant.url),
+    imageVariants: variants,
+  });
+  return variants.length;
+};
+
+const migrateBase64Images = async () => {
+  try {
+    console.log(`🔍 Starting base64 image migration${dryRun ? ' (dry run)' : ''}...`);
+
+    const snapshot = await db.collection('products').get();
+
+    let migratedCount = 0;
+    let skippedCount = 0;
+    let failedCount = 0;
+
+    for (const doc of snapshot.docs) {
+      const images = Array.isArray(doc.data().images) ? doc.data().images : [];
+      const base64Count = images.filter(isDataUrl).length;
+
+      if (base64Count === 0) {
+        skippedCount++;
+        continue;
+      }
+
+      if (dryRun) {
+        console.log(`   📝 products/${doc.id}: ${base64Count} base64 image(s)`);
+        migratedCount++;
+        continue;
+      }
+
+      try {
+        const storedCount = await migrateProduct(doc);
+        console.log(`   ✅ products/${doc.id}: ${storedCount} image URL(s)`);
+        migratedCount++;
+      } catch (error) {
+        console.error(`   ❌ products/${doc.id}: ${error.message} (left unchanged)`);
+        failedCount++;
+      }
+    }
+
+    console.log('\n📊 Migration Summary:');
+    console.log(`   ✅ ${dryRun ? 'To migrate' : 'Migrated'}: ${migratedCount}`);
+    console.log(`   ⏭️  Already URLs: ${skippedCount}`);
+    console.log(`   ❌ Failed: ${failedCount}`);
+
+    console.log('\n✅ Migration completed!');
+    process.exit(failedCount > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('❌ Error during migration:', error);
+    process.exit(1);
+  }
+};
+
+// Run migration
+migrateBase64Images();
@@ -0,0 +1,89 @@
+/**
+ * Dev Tool: Local web push service stub
+ *
+ * PROBLEM: Real push services (FCM, Mozilla autopush) only accept subscriptions created
+ * by a browser, so web push cannot be exercised end-to-end on a dev machine or in CI.
+ *
+ * SOLUTION: This script plays the push service. It prints a subscription that points at
+ * itself (with a freshly generated key pair), then receives pushes from the API, decrypts
+ * them (aes128gcm, RFC 8291) and logs the payload.
+ *
+ * USAGE:
+ *   node scripts/push-stub.js            (PUSH_STUB_PORT, default 8090)
+ *   1. Start the API with VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY and PUSH_STUB_ENDPOINTS=true set
+ *      (without the flag the API only accepts https push service endpoints)
+ *   2. POST the printed subscription to /api/notifications/push/subscriptions as the test user
+ *   3. Trigger a notification for that user while they have no chat socket open
+ *
+ * Endpoints under /gone/ answer 410, to check that expired subscriptions are removed.
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+
+const PORT = Number(process.env.PUSH_STUB_PORT) || 8090;
+
+const ecdh = crypto.createECDH('prime256v1');
+const userAgentPublicKey = ecdh.generateKeys();
+const authSecret = crypto.randomBytes(16);
+
+const hkdf = (ikm, salt, info, length) => Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+
+const decrypt = (body) => {
+  // Header: salt(16) | record size(4) | key id length(1) | key id (sender's public key)
+  const salt = body.subarray(0, 16);
+  const keyIdLength = body.readUInt8(20);
+  const senderPublicKey = body.subarray(21, 21 + keyIdLength);
+  const record = body.subarray(21 + keyIdLength);
+
+  const sharedSecret = ecdh.computeSecret(senderPublicKey);
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublicKey, senderPublicKey]);
+  const ikm = hkdf(sharedSecret, authSecret, keyInfo, 32);
+  const contentKey = hkdf(ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  const decipher = crypto.createDecipheriv('aes-128-gcm', contentKey, nonce);
+  decipher.setAuthTag(record.subarray(record.length - 16));
+  const padded = Buffer.concat([decipher.update(record.subarray(0, record.length - 16)), decipher.final()]);
+
+  // Strip the padding: content, then a 0x02 delimiter, then zeros
+  return padded.subarray(0, padded.lastIndexOf(2)).toString('utf8');
+};
+
+const server = http.createServer((req, res) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => {
+    if (req.method !== 'POST') {
+      res.writeHead(405).end();
+      return;
+    }
+
+    console.log(`\n📨 ${req.method} ${req.url}`);
+    console.log(`   TTL: ${req.headers.ttl}  Content-Encoding: ${req.headers['content-encoding']}`);
+    console.log(`   Authorization: ${(req.headers.authorization || '(none)').slice(0, 40)}...`);
+
+    if (req.url.startsWith('/gone/')) {
+      console.log('   → 410 Gone');
+      res.writeHead(410).end();
+      return;
+    }
+
+    try {
+      console.log(`   Payload: ${decrypt(Buffer.concat(chunks))}`);
+      res.writeHead(201).end();
+    } catch (error) {
+      console.error(`   ❌ Could not decrypt: ${error.message}`);
+      res.writeHead(400).end();
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  const keys = { p256dh: userAgentPublicKey.toString('base64url'), auth: authSecret.toString('base64url') };
+  console.log(`🔔 Push stub listening on http://localhost:${PORT}`);
+  console.log('\nSubscription to register (POST /api/notifications/push/subscriptions):');
+  console.log(JSON.stringify({ endpoint: `http://localhost:${PORT}/devices/stub`, keys }, null, 2));
+  console.log('\nExpired subscription (the API should delete it after the first push):');
+  console.log(JSON.stringify({ endpoint: `http://localhost:${PORT}/gone/stub`, keys }, null, 2));
+});
@@ -6,6 +6,11 @@ import express from 'express';
 import cors from 'cors';
 import { execSync } from 'child_process';
 import { notFound, errorHandler } from './src/middleware/errorMiddleware.js'; 
+import { expireStaleReservations } from './src/utils/stockReservation.js';
+import { processNotificationDeliveries } from './src/utils/notificationService.js';
+import { LOCAL_UPLOAD_DIR, LOCAL_PUBLIC_PATH } from './src/utils/blobStore.js';
+import { attachChatSocket } from './src/utils/chatSocket.js';
+import { requestId } from './src/middleware/auditMiddleware.js';
 
 // Import Routes ทั้งหมด
 import wasteRoutes from './src/routes/wasteRoutes.js'; 
@@ -15,9 +20,13 @@ import authRoutes from './src/routes/authRoutes.js';
 import bookingRoutes from './src/routes/bookingRoutes.js'; 
 import fertilizerRoutes from './src/routes/fertilizerRoutes.js'; 
 import matchingRoutes from './src/routes/matchingRoutes.js'; 
+import demandRoutes from './src/routes/demandRoutes.js'; 
 import farmRoutes from './src/routes/farmRoutes.js'; 
 import productRoutes from './src/routes/productRoutes.js'; 
 import chatRoutes from './src/routes/chatRoutes.js'; 
+import uploadRoutes from './src/routes/uploadRoutes.js';
+import reviewRoutes from './src/routes/reviewRoutes.js';
+import reportRoutes from './src/routes/reportRoutes.js';
 
 // Routes ใหม่จาก API (ตามรูป)
 import analyzeRoutes from './src/routes/analyzeRoutes.js';
@@ -32,6 +41,14 @@ import notificationRoutes from './src/routes/notificationRoutes.js';
 const app = express();
 const PORT = process.env.PORT || 8000;
 
+// req.ip (audit log, rate limit) only honours X-Forwarded-For from proxies listed here:
+// TRUST_PROXY=1 for one hop (load balancer), or addresses/subnets such as "loopback, 10.0.0.0/8".
+// Unset, the socket address is used and a client cannot spoof its IP with the header.
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY.trim();
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+}
+
 // Middleware
 app.use(cors({
   origin: [
@@ -48,14 +65,21 @@ app.use(cors({
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization'],
+  exposedHeaders: ['X-Request-Id', 'X-Truncated'],
 }));
-// Increase body size limit to handle base64 images (50MB limit)
-app.use(express.json({ limit: '50mb' }));
-app.use(express.urlencoded({ extended: true, limit: '50mb' }));
+// Images go through /api/uploads (multipart), so JSON bodies stay small
+app.use(express.json({ limit: '1mb' }));
+app.use(express.urlencoded({ extended: true, limit: '1mb' }));
+
+// Files written by the local blob store (dev/tests; production uses Cloud Storage URLs)
+app.use(LOCAL_PUBLIC_PATH, express.static(LOCAL_UPLOAD_DIR, { maxAge: '1y', immutable: true }));
+
+// Request id (X-Request-Id) shared by the log line, the response and audit log entries
+app.use(requestId);
 
 // Logging middleware
 app.use((req, res, next) => {
-  console.log(`[${new Date().toISOString()}] ${req.method} ${req.path}`);
+  console.log(`[${new Date().toISOString()}] ${req.id} ${req.method} ${req.path}`);
   next();
 });
 
@@ -81,8 +105,12 @@ app.use('/api/community', communityRoutes);
 app.use('/api/bookings', bookingRoutes);
 app.use('/api/fertilizer', fertilizerRoutes);
 app.use('/api/matching', matchingRoutes);
+app.use('/api/demands', demandRoutes);
 app.use('/api/farms', farmRoutes); 
 app.use('/api/chat', chatRoutes); 
+app.use('/api/uploads', uploadRoutes);
+app.use('/api/reviews', reviewRoutes);
+app.use('/api/reports', reportRoutes);
 
 // (API ใหม่ตามรูป)
 app.use('/api/analyze', analyzeRoutes);       // API-18
@@ -100,6 +128,20 @@ app.use(notFound);
 // Error handling middleware (ตัวจัดการ Error กลาง)
 app.use(errorHandler);
 
+// Release stock held by booking requests the seller never answered (every 15 minutes)
+setInterval(() => {
+  expireStaleReservations().catch((error) => {
+    console.error('❌ Failed to expire booking reservations:', error.message);
+  });
+}, 15 * 60 * 1000);
+
+// Retry failed email/LINE notifications and send the ones held for quiet hours (every minute)
+setInterval(() => {
+  processNotificationDeliveries().catch((error) => {
+    console.error('❌ Failed to process notification deliveries:', error.message);
+  });
+}, 60 * 1000);
+
 // Helper function to check and kill process on port
 const killProcessOnPort = (port) => {
   try {
@@ -144,6 +186,9 @@ const startServer = async () => {
     console.log(`✅ Using Firebase Auth (MOCK_AUTH mode has been removed)`);
   });
 
+  // Real-time chat (WebSocket on the same port)
+  attachChatSocket(server);
+
   // Handle server errors
   server.on('error', (error) => {
     if (error.code === 'EADDRINUSE') {
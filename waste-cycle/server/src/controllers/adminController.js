@@ -1,5 +1,13 @@
 import asyncHandler from '../middleware/asyncHandler.js';
 import { db } from '../config/firebaseConfig.js';
+import { parsePageParams, paginateQuery, paginateFiltered } from '../utils/pagination.js';
+import { USER_ROLES, syncUserClaims } from '../utils/userClaims.js';
+import { setProductsVerified } from '../utils/farmVerification.js';
+import { LISTING_MODES, suspendUser, unsuspendUser, banUser, unbanUser } from '../utils/userModeration.js';
+import { REPORT_TARGET_TYPES, setContentHidden } from '../utils/contentReports.js';
+import { setAuditDetails, addAuditEntry } from '../utils/auditLog.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 // @desc    Get admin dashboard data
 // @route   GET /api/admin/dashboard
@@ -30,24 +38,358 @@ const getAdminDashboard = asyncHandler(async (req, res) => {
   }
 });
 
-// @desc    Manage users (e.g., list, delete, update role)
-// @route   GET /api/admin/users
+// @desc    List users with search and filters, plus post and booking counts
+// @route   GET /api/admin/users?q=&role=&verified=&joinedFrom=&joinedTo=&limit=&cursor=
+// @access  Private/Admin
+// @note    q matches name/email/farmName (case-insensitive substring), so filtering happens while
+//          scanning; with a joined date range users are ordered by createdAt, otherwise by id
+const getAdminUsers = asyncHandler(async (req, res) => {
+  const { q, role, verified, joinedFrom, joinedTo } = req.query;
+
+  if (role && !USER_ROLES.includes(role)) {
+    res.status(400);
+    throw new Error(`Invalid role. Use one of: ${USER_ROLES.join(', ')}`);
+  }
+  if (verified !== undefined && verified !== 'true' && verified !== 'false') {
+    res.status(400);
+    throw new Error('verified must be true or false');
+  }
+  const from = joinedFrom ? new Date(joinedFrom) : null;
+  const to = joinedTo ? new Date(joinedTo) : null;
+  if ((from && Number.isNaN(from.getTime())) || (to && Number.isNaN(to.getTime()))) {
+    res.status(400);
+    throw new Error('joinedFrom/joinedTo must be dates (YYYY-MM-DD)');
+  }
+
+  const page = parsePageParams(req.query);
+  if (!page) {
+    res.status(400);
+    throw new Error('Invalid cursor');
+  }
+
+  let query = db.collection('users');
+  if (from) query = query.where('createdAt', '>=', from.toISOString());
+  if (to) {
+    // A date-only joinedTo includes that whole day
+    const end = /^\d{4}-\d{2}-\d{2}$/.test(joinedTo) ? new Date(to.getTime() + DAY_MS) : to;
+    query = query.where('createdAt', '<', end.toISOString());
+  }
+
+  const term = typeof q === 'string' ? q.trim().toLowerCase() : '';
+  // role/verified are checked here too: older profiles may not have the fields at all
+  const matches = (doc) => {
+    const user = doc.data();
+    if (role && (user.role || 'user') !== role) return false;
+    if (verified !== undefined && (user.verified === true) !== (verified === 'true')) return false;
+    if (!term) return true;
+    return [user.name, user.email, user.farmName].some(value => String(value || '').toLowerCase().includes(term));
+  };
+
+  const { docs, nextCursor } = from || to
+    ? await paginateFiltered(query, page, 'createdAt', 'desc', matches)
+    : await paginateFiltered(query, page, undefined, 'asc', matches);
+
+  const users = await Promise.all(docs.map(async (doc) => {
+    const [posts, bought, sold] = await Promise.all([
+      db.collection('products').where('userId', '==', doc.id).count().get(),
+      db.collection('bookings').where('buyerId', '==', doc.id).count().get(),
+      db.collection('bookings').where('sellerId', '==', doc.id).count().get(),
+    ]);
+    return {
+      id: doc.id,
+      uid: doc.id,
+      ...doc.data(),
+      role: doc.data().role || 'user',
+      postsCount: posts.data().count,
+      bookingsCount: bought.data().count + sold.data().count,
+    };
+  }));
+
+  res.status(200).json({ success: true, count: users.length, users, nextCursor });
+});
+
+/**
+ * Read { reason, until?, days? } for a suspension; until wins over days, neither = until lifted
+ * @returns {{ reason: string, until: string|null } | { error: string }}
+ */
+const parseSuspension = ({ reason, until, days } = {}) => {
+  const text = typeof reason === 'string' ? reason.trim() : '';
+  if (!text) return { error: 'A reason is required' };
+
+  let end = null;
+  if (until) {
+    end = new Date(until);
+  } else if (days !== undefined && days !== null) {
+    if (typeof days !== 'number' || days <= 0) return { error: 'days must be a positive number' };
+    end = new Date(Date.now() + days * DAY_MS);
+  }
+  if (end && (Number.isNaN(end.getTime()) || end <= new Date())) {
+    return { error: 'until must be a date in the future' };
+  }
+  return { reason: text, until: end ? end.toISOString() : null };
+};
+
+const loadUser = async (userId, res) => {
+  const doc = await db.collection('users').doc(String(userId)).get();
+  if (!doc.exists) {
+    res.status(404);
+    throw new Error('User not found');
+  }
+  return doc.data();
+};
+
+// Changes each bulk action makes to users/{uid}; suspend/unsuspend go through utils/userModeration.js
+const BULK_ACTIONS = {
+  suspend: null,
+  unsuspend: null,
+  role: ({ role }) => ({ role }),
+  verify: () => ({ verified: true, verifiedAt: new Date().toISOString() }),
+};
+const MAX_BULK_USERS = 100;
+
+// @desc    Suspend/unsuspend, change role or verify several users at once
+// @route   POST /api/admin/users/bulk   { action, userIds, role?, reason?, until?, days? }
+// @access  Private/Admin
+// @note    Custom claims are rebuilt for every user (utils/userClaims.js); results are per user
+const bulkUpdateUsers = asyncHandler(async (req, res) => {
+  const { action, userIds, role } = req.body;
+
+  if (!Object.hasOwn(BULK_ACTIONS, action)) {
+    res.status(400);
+    throw new Error(`Invalid action. Use one of: ${Object.keys(BULK_ACTIONS).join(', ')}`);
+  }
+  if (!Array.isArray(userIds) || userIds.length === 0 || userIds.length > MAX_BULK_USERS) {
+    res.status(400);
+    throw new Error(`userIds must list 1-${MAX_BULK_USERS} users`);
+  }
+  if (action === 'role' && !USER_ROLES.includes(role)) {
+    res.status(400);
+    throw new Error(`Invalid role. Use one of: ${USER_ROLES.join(', ')}`);
+  }
+
+  const suspension = action === 'suspend' ? parseSuspension(req.body) : null;
+  if (suspension?.error) {
+    res.status(400);
+    throw new Error(suspension.error);
+  }
+
+  const adminId = String(req.user.uid);
+  const ids = [...new Set(userIds.map(String))];
+  // Admins cannot lock themselves out
+  if ((action === 'suspend' || action === 'role') && ids.includes(adminId)) {
+    res.status(400);
+    throw new Error('You cannot suspend yourself or change your own role');
+  }
+
+  const results = await Promise.all(ids.map(async (userId) => {
+    const userRef = db.collection('users').doc(userId);
+    const doc = await userRef.get();
+    if (!doc.exists) return { id: userId, success: false, error: 'User not found' };
+
+    const user = doc.data();
+    // One audit entry per user, like the single-user endpoints
+    const audit = (changes) => addAuditEntry(res, {
+      action: `user.bulk_${action}`,
+      targetType: 'user',
+      targetId: userId,
+      before: user,
+      after: { ...user, ...changes },
+      metadata: { userIds: ids, role: role || null, reason: req.body.reason || null },
+    });
+
+    if (action === 'suspend') {
+      audit(await suspendUser(userId, user, { ...suspension, by: adminId }));
+      return { id: userId, success: true };
+    }
+    if (action === 'unsuspend') {
+      audit(await unsuspendUser(userId, user, { reason: req.body.reason, by: adminId }));
+      return { id: userId, success: true };
+    }
+
+    const changes = { ...BULK_ACTIONS[action]({ role }), updatedAt: new Date().toISOString() };
+    await userRef.update(changes);
+    if (action === 'verify') await setProductsVerified(userId, true);
+    const claimsUpdated = await syncUserClaims(userId, { ...user, ...changes });
+    audit(changes);
+
+    return { id: userId, success: true, claimsUpdated };
+  }));
+
+  const updated = results.filter(result => result.success).length;
+  res.status(200).json({ success: true, updated, results });
+});
+
+// @desc    Suspend a user for a while (or until lifted); they get a 403 with the reason and expiry
+// @route   POST /api/admin/users/:id/suspend   { reason, until? | days? }
+// @access  Private/Admin
+const suspendUserAccount = asyncHandler(async (req, res) => {
+  if (req.params.id === String(req.user.uid)) {
+    res.status(400);
+    throw new Error('You cannot suspend yourself');
+  }
+  const suspension = parseSuspension(req.body);
+  if (suspension.error) {
+    res.status(400);
+    throw new Error(suspension.error);
+  }
+
+  const user = await loadUser(req.params.id, res);
+  const changes = await suspendUser(req.params.id, user, { ...suspension, by: req.user.uid });
+  setAuditDetails(res, { action: 'user.suspend', targetType: 'user', targetId: req.params.id, before: user, after: { ...user, ...changes } });
+
+  res.status(200).json({ success: true, data: { id: req.params.id, ...changes } });
+});
+
+// @desc    Lift a suspension early
+// @route   POST /api/admin/users/:id/unsuspend   { reason? }
+// @access  Private/Admin
+const unsuspendUserAccount = asyncHandler(async (req, res) => {
+  const user = await loadUser(req.params.id, res);
+  const changes = await unsuspendUser(req.params.id, user, { reason: req.body.reason || '', by: req.user.uid });
+  setAuditDetails(res, { action: 'user.unsuspend', targetType: 'user', targetId: req.params.id, before: user, after: { ...user, ...changes } });
+
+  res.status(200).json({ success: true, data: { id: req.params.id, ...changes } });
+});
+
+// @desc    Ban a user: disables their Firebase Auth account; active listings are kept, hidden or transferred
+// @route   POST /api/admin/users/:id/ban   { reason, listings?: 'keep'|'hide'|'transfer', transferTo? }
+// @access  Private/Admin
+const banUserAccount = asyncHandler(async (req, res) => {
+  const { reason, listings = 'keep', transferTo } = req.body;
+
+  if (req.params.id === String(req.user.uid)) {
+    res.status(400);
+    throw new Error('You cannot ban yourself');
+  }
+  if (typeof reason !== 'string' || !reason.trim()) {
+    res.status(400);
+    throw new Error('A reason is required');
+  }
+  if (!LISTING_MODES.includes(listings)) {
+    res.status(400);
+    throw new Error(`Invalid listings option. Use one of: ${LISTING_MODES.join(', ')}`);
+  }
+  if (listings === 'transfer') {
+    if (!transferTo || String(transferTo) === req.params.id) {
+      res.status(400);
+      throw new Error('transferTo must be another user');
+    }
+    await loadUser(transferTo, res);
+  }
+
+  const user = await loadUser(req.params.id, res);
+  if (user.banned) {
+    res.status(409);
+    throw new Error('User is already banned');
+  }
+
+  const { changes, productIds } = await banUser(req.params.id, user, {
+    reason: reason.trim(),
+    by: req.user.uid,
+    listings,
+    transferTo,
+  });
+  setAuditDetails(res, {
+    action: 'user.ban',
+    targetType: 'user',
+    targetId: req.params.id,
+    before: user,
+    after: { ...user, ...changes },
+    metadata: { listings, transferTo: transferTo || null, productIds },
+  });
+
+  res.status(200).json({ success: true, data: { id: req.params.id, ...changes, listings, productIds } });
+});
+
+// @desc    Lift a ban; listings hidden or transferred by the ban come back unless restoreListings is false
+// @route   POST /api/admin/users/:id/unban   { reason?, restoreListings? }
+// @access  Private/Admin
+const unbanUserAccount = asyncHandler(async (req, res) => {
+  const user = await loadUser(req.params.id, res);
+  if (!user.banned) {
+    res.status(409);
+    throw new Error('User is not banned');
+  }
+
+  const { changes, restoredProductIds } = await unbanUser(req.params.id, user, {
+    reason: req.body.reason || '',
+    by: req.user.uid,
+    restoreListings: req.body.restoreListings !== false,
+  });
+  setAuditDetails(res, {
+    action: 'user.unban',
+    targetType: 'user',
+    targetId: req.params.id,
+    before: user,
+    after: { ...user, ...changes },
+    metadata: { restoredProductIds },
+  });
+
+  res.status(200).json({ success: true, data: { id: req.params.id, ...changes, restoredProductIds } });
+});
+
+// @desc    Suspension/ban history of a user, newest first
+// @route   GET /api/admin/users/:id/moderation
 // @access  Private/Admin
-const manageUsers = asyncHandler(async (req, res) => {
-  // Logic to manage users
-  res.status(200).json({ message: 'Manage users endpoint' });
+const getUserModerationLog = asyncHandler(async (req, res) => {
+  const page = parsePageParams(req.query);
+  if (!page) {
+    res.status(400);
+    throw new Error('Invalid cursor');
+  }
+
+  const { docs, nextCursor } = await paginateQuery(
+    db.collection('moderationLogs').where('userId', '==', req.params.id),
+    page,
+    'at',
+    'desc'
+  );
+
+  res.status(200).json({ success: true, data: docs.map(doc => ({ id: doc.id, ...doc.data() })), nextCursor });
 });
 
-// @desc    Manage content (e.g., posts, products)
-// @route   POST /api/admin/content
+// @desc    Hide reported content or show it again (outside of a report, e.g. undoing a hide)
+// @route   POST /api/admin/content   { action: 'hide'|'unhide', targetType, targetId, context?: { postId?, chatRoomId? } }
 // @access  Private/Admin
 const manageContent = asyncHandler(async (req, res) => {
-  // Logic to manage content
-  res.status(200).json({ message: 'Manage content endpoint' });
+  const { action, targetType, targetId, context = {} } = req.body;
+
+  if (!['hide', 'unhide'].includes(action)) {
+    res.status(400);
+    throw new Error('Invalid action. Use one of: hide, unhide');
+  }
+  if (!REPORT_TARGET_TYPES.includes(targetType) || targetType === 'user') {
+    res.status(400);
+    throw new Error('Invalid targetType. Use one of: product, community_post, comment, chat_message');
+  }
+  if (!targetId) {
+    res.status(400);
+    throw new Error('targetId is required');
+  }
+
+  const updated = await setContentHidden(targetType, targetId, context, action === 'hide');
+  if (!updated) {
+    res.status(404);
+    throw new Error('Content not found');
+  }
+  setAuditDetails(res, {
+    action: `content.${action}`,
+    targetType: 'content',
+    targetId,
+    metadata: { contentType: targetType, context },
+  });
+
+  res.status(200).json({ success: true, data: { targetType, targetId: String(targetId), hidden: action === 'hide' } });
 });
 
 export {
   getAdminDashboard,
-  manageUsers,
+  getAdminUsers,
+  bulkUpdateUsers,
+  suspendUserAccount,
+  unsuspendUserAccount,
+  banUserAccount,
+  unbanUserAccount,
+  getUserModerationLog,
   manageContent
 };
\ No newline at end of file
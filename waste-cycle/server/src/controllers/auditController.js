@@ -0,0 +1,115 @@
+import asyncHandler from '../middleware/asyncHandler.js';
+import { db } from '../config/firebaseConfig.js';
+import { parsePageParams, paginateFiltered } from '../utils/pagination.js';
+import { AUDIT_TARGET_TYPES } from '../utils/auditLog.js';
+
+/**
+ * Admin viewer for auditLogs (see utils/auditLog.js): the same filters drive the paged list
+ * and the CSV export.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_EXPORT_ROWS = 5000;
+
+const CSV_COLUMNS = [
+  'at', 'action', 'actorId', 'actorRole', 'targetType', 'targetId',
+  'changes', 'metadata', 'method', 'path', 'statusCode', 'ip', 'requestId',
+];
+
+/**
+ * Query and predicate for ?q=&action=&actorId=&targetType=&targetId=&from=&to=
+ * action/actorId/targetType/targetId are exact matches in Firestore; q is a case-insensitive
+ * substring of action, actor, target, path, IP or request id checked while scanning
+ * @returns {{ query: FirebaseFirestore.Query, matches: Function } | { error: string }}
+ */
+const buildAuditQuery = ({ q, action, actorId, targetType, targetId, from, to }) => {
+  if (targetType && !AUDIT_TARGET_TYPES.includes(targetType)) {
+    return { error: `Invalid targetType. Use one of: ${AUDIT_TARGET_TYPES.join(', ')}` };
+  }
+  const fromDate = from ? new Date(from) : null;
+  const toDate = to ? new Date(to) : null;
+  if ((fromDate && Number.isNaN(fromDate.getTime())) || (toDate && Number.isNaN(toDate.getTime()))) {
+    return { error: 'from/to must be dates (YYYY-MM-DD)' };
+  }
+
+  let query = db.collection('auditLogs');
+  if (action) query = query.where('action', '==', String(action));
+  if (actorId) query = query.where('actorId', '==', String(actorId));
+  if (targetType) query = query.where('targetType', '==', targetType);
+  if (targetId) query = query.where('targetId', '==', String(targetId));
+  if (fromDate) query = query.where('at', '>=', fromDate.toISOString());
+  if (toDate) {
+    // A date-only "to" includes that whole day
+    const end = /^\d{4}-\d{2}-\d{2}$/.test(to) ? new Date(toDate.getTime() + DAY_MS) : toDate;
+    query = query.where('at', '<', end.toISOString());
+  }
+
+  const term = typeof q === 'string' ? q.trim().toLowerCase() : '';
+  const matches = (doc) => !term || ['action', 'actorId', 'targetId', 'path', 'ip', 'requestId']
+    .some(field => String(doc.get(field) || '').toLowerCase().includes(term));
+
+  return { query, matches };
+};
+
+// Quote every cell; a leading =, +, - or @ would run as a formula in spreadsheet apps
+const csvCell = (value) => {
+  const text = value === null || value === undefined
+    ? ''
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return `"${safe.replace(/"/g, '""')}"`;
+};
+
+// @desc    Audit log entries, newest first
+// @route   GET /api/admin/audit-logs?q=&action=&actorId=&targetType=&targetId=&from=&to=&limit=&cursor=
+// @access  Private/Admin
+const getAuditLogs = asyncHandler(async (req, res) => {
+  const filter = buildAuditQuery(req.query);
+  if (filter.error) {
+    res.status(400);
+    throw new Error(filter.error);
+  }
+
+  const page = parsePageParams(req.query);
+  if (!page) {
+    res.status(400);
+    throw new Error('Invalid cursor');
+  }
+
+  const { docs, nextCursor } = await paginateFiltered(filter.query, page, 'at', 'desc', filter.matches);
+  res.status(200).json({ success: true, data: docs.map(doc => ({ id: doc.id, ...doc.data() })), nextCursor });
+});
+
+// @desc    Download the filtered audit log as CSV (newest first, at most MAX_EXPORT_ROWS rows)
+// @route   GET /api/admin/audit-logs/export?<same filters as getAuditLogs>
+// @access  Private/Admin
+const exportAuditLogs = asyncHandler(async (req, res) => {
+  const filter = buildAuditQuery(req.query);
+  if (filter.error) {
+    res.status(400);
+    throw new Error(filter.error);
+  }
+
+  const { docs, nextCursor } = await paginateFiltered(
+    filter.query,
+    { limit: MAX_EXPORT_ROWS, cursor: null },
+    'at',
+    'desc',
+    filter.matches
+  );
+
+  const rows = docs.map(doc => CSV_COLUMNS.map(column => csvCell(doc.get(column))).join(','));
+  const filename = `audit-logs-${new Date().toISOString().slice(0, 10)}.csv`;
+
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  // More rows matched than were exported; narrow the filters to get the rest
+  res.setHeader('X-Truncated', nextCursor ? 'true' : 'false');
+  // BOM so Excel reads Thai text as UTF-8
+  res.status(200).send(`\uFEFF${[CSV_COLUMNS.join(','), ...rows].join('\r\n')}`);
+});
+
+export {
+  getAuditLogs,
+  exportAuditLogs,
+};
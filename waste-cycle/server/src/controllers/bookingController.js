@@ -1,6 +1,118 @@
 import asyncHandler from '../middleware/asyncHandler.js';
 import { db } from '../config/firebaseConfig.js';
+import admin from 'firebase-admin'; // Required for FieldValue
 import { createNotification } from '../utils/notificationService.js';
+import {
+  BOOKING_STATUSES,
+  bookingStatusMessages,
+  normalizeBookingStatus,
+  getBookingRole,
+  getAllowedTransitions,
+  canTransitionBooking,
+} from '../utils/bookingStatus.js';
+import {
+  getAvailableQuantity,
+  reserveStock,
+  releaseStock,
+  consumeStock,
+  getReservationExpiry,
+} from '../utils/stockReservation.js';
+import { publishRoom } from '../utils/chatRooms.js';
+import { setAuditDetails } from '../utils/auditLog.js';
+
+/**
+ * Attach product summary, party names and the viewer's next legal statuses
+ * so the booking list can be rendered without extra lookups on the client
+ */
+const enrichBookings = async (bookings, userId) => {
+  const productIds = [...new Set(bookings.map(b => String(b.productId || '')).filter(Boolean))];
+  const userIds = [...new Set(bookings.flatMap(b => [b.buyerId, b.sellerId]).filter(Boolean).map(String))];
+
+  const [productDocs, userDocs] = await Promise.all([
+    Promise.all(productIds.map(id => db.collection('products').doc(id).get())),
+    Promise.all(userIds.map(id => db.collection('users').doc(id).get())),
+  ]);
+
+  const products = new Map(productDocs.filter(doc => doc.exists).map(doc => [doc.id, doc.data()]));
+  const users = new Map(userDocs.filter(doc => doc.exists).map(doc => [doc.id, doc.data()]));
+
+  return bookings.map(booking => {
+    const product = products.get(String(booking.productId));
+    const buyer = users.get(String(booking.buyerId));
+    const seller = users.get(String(booking.sellerId));
+    const role = getBookingRole(booking, userId);
+    const status = normalizeBookingStatus(booking.status);
+
+    return {
+      ...booking,
+      status,
+      role,
+      allowedTransitions: getAllowedTransitions(status, role),
+      buyerName: (buyer && buyer.name) || 'Buyer',
+      sellerName: (seller && seller.name) || (product && product.farmName) || 'Seller',
+      // Bookings from an accepted offer carry the negotiated price; others use the listing price
+      totalPrice: booking.pricePerUnit !== undefined
+        ? (Number(booking.quantity) || 0) * booking.pricePerUnit
+        : product ? (Number(booking.quantity) || 0) * (product.price || 0) : null,
+      product: product ? {
+        title: product.title || '',
+        npk: product.npk || { n: 0, p: 0, k: 0 },
+        price: product.price || 0,
+        unit: product.unit || 'kg',
+        wasteType: product.wasteType || '',
+        animalType: product.animalType || '',
+        farmName: product.farmName || '',
+        address: product.address || '',
+        distance: product.distance || 0,
+      } : null,
+    };
+  });
+};
+
+/**
+ * Create a booking both parties already agreed on (an accepted chat offer), inside the caller's transaction.
+ * Reserves the stock and starts as accepted, like bookings from demand offers.
+ * @param {FirebaseFirestore.Transaction} t
+ * @param {object} params
+ * @param {FirebaseFirestore.DocumentReference} params.productRef
+ * @param {object} params.product - Product data read in the same transaction
+ * @param {object} params.terms - { buyerId, sellerId, quantity, pricePerUnit, bookingDate, deliveryOption }
+ * @param {object} params.actor - { id, role } of the user who accepted
+ * @param {object} [params.links] - Where the booking came from, e.g. { chatRoomId, offerMessageId }
+ * @returns {{ id: string, booking: object } | { error: string }} error when the stock is no longer available
+ */
+const createAgreedBooking = (t, { productRef, product, terms, actor, links = {} }) => {
+  if (product.hidden) {
+    return { error: 'This product is no longer available' };
+  }
+  const available = getAvailableQuantity(product);
+  if (terms.quantity > available) {
+    return { error: `Only ${available} ${product.unit || 'kg'} of this product is available for booking` };
+  }
+
+  const bookingRef = db.collection('bookings').doc();
+  const now = new Date().toISOString();
+  const booking = {
+    productId: productRef.id,
+    buyerId: String(terms.buyerId),
+    sellerId: String(terms.sellerId),
+    quantity: terms.quantity,
+    pricePerUnit: terms.pricePerUnit,
+    bookingDate: terms.bookingDate,
+    deliveryOption: terms.deliveryOption || 'pickup',
+    status: 'accepted',
+    stockReserved: true,
+    ...links,
+    history: [
+      { from: null, to: 'accepted', actorId: String(actor.id), actorRole: actor.role, at: now, note: 'Accepted chat offer' },
+    ],
+    createdAt: now,
+  };
+
+  t.update(productRef, reserveStock(product, terms.quantity));
+  t.set(bookingRef, booking);
+  return { id: bookingRef.id, booking };
+};
 
 // @desc    Create a new booking
 // @route   POST /api/bookings
@@ -14,22 +126,61 @@ const createBooking = asyncHandler(async (req, res) => {
     throw new Error('User not authorized');
   }
 
-  const newBooking = {
-    productId,
-    buyerId,
-    sellerId,
-    quantity,
-    bookingDate,
-    status: 'pending', // e.g., pending, confirmed, cancelled
-    createdAt: new Date().toISOString(),
-  };
+  const bookingQuantity = Number(quantity);
+  if (!Number.isFinite(bookingQuantity) || bookingQuantity <= 0) {
+    res.status(400);
+    throw new Error('Quantity must be a positive number');
+  }
+
+  const productRef = db.collection('products').doc(String(productId));
+  const bookingRef = db.collection('bookings').doc();
+
+  // Reserve stock and create the booking atomically so two buyers cannot book the same stock
+  const newBooking = await db.runTransaction(async (t) => {
+    const productDoc = await t.get(productRef);
+
+    if (!productDoc.exists || productDoc.data().hidden) {
+      res.status(404);
+      throw new Error('Product not found');
+    }
+
+    const product = productDoc.data();
+    if (String(product.userId) === String(buyer.uid)) {
+      res.status(400);
+      throw new Error('You cannot book your own product');
+    }
 
-  const bookingRef = await db.collection('bookings').add(newBooking);
+    const available = getAvailableQuantity(product);
+    if (bookingQuantity > available) {
+      res.status(409);
+      throw new Error(`Only ${available} ${product.unit || 'kg'} of this product is available for booking`);
+    }
+
+    const now = new Date().toISOString();
+    const booking = {
+      productId: String(productId),
+      buyerId,
+      sellerId: String(product.userId || sellerId), // product owner is the source of truth
+      quantity: bookingQuantity,
+      bookingDate,
+      status: 'requested', // see utils/bookingStatus.js for the full lifecycle
+      stockReserved: true,
+      expiresAt: getReservationExpiry(),
+      history: [
+        { from: null, to: 'requested', actorId: buyer.uid, actorRole: 'buyer', at: now },
+      ],
+      createdAt: now,
+    };
+
+    t.update(productRef, reserveStock(product, bookingQuantity));
+    t.set(bookingRef, booking);
+    return booking;
+  });
 
   await createNotification(
-    sellerId,
+    newBooking.sellerId,
     'new_booking',
-    `You have a new booking request for product ${productId} from ${buyer.name}`,
+    `You have a new booking request for product ${productId} from ${buyer.displayName || buyer.email}`,
     `/bookings/${bookingRef.id}`
   );
 
@@ -53,8 +204,14 @@ const getUserBookings = asyncHandler(async (req, res) => {
   const bookingsAsBuyerSnapshot = await db.collection('bookings').where('buyerId', '==', userId).get();
   const bookingsAsSellerSnapshot = await db.collection('bookings').where('sellerId', '==', userId).get();
 
-  const bookingsAsBuyer = bookingsAsBuyerSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
-  const bookingsAsSeller = bookingsAsSellerSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+  const bookingsAsBuyer = await enrichBookings(
+    bookingsAsBuyerSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })),
+    userId
+  );
+  const bookingsAsSeller = await enrichBookings(
+    bookingsAsSellerSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })),
+    userId
+  );
 
   res.status(200).json({
     success: true,
@@ -85,52 +242,128 @@ const getBookingById = asyncHandler(async (req, res) => {
     throw new Error('User not authorized to view this booking');
   }
 
+  const [booking] = await enrichBookings([{ id: bookingDoc.id, ...bookingData }], req.user.uid);
+
   res.status(200).json({
     success: true,
-    data: { id: bookingDoc.id, ...bookingData },
+    data: booking,
   });
 });
 
 // @desc    Update booking status
 // @route   PUT /api/bookings/:id/status
-// @access  Private/Seller
+// @access  Private (Buyer or Seller of the booking)
 const updateBookingStatus = asyncHandler(async (req, res) => {
   const bookingId = req.params.id;
-  const { status } = req.body; // e.g., confirmed, cancelled
-  const seller = req.user;
+  const { status, note } = req.body; // e.g., accepted, confirmed, cancelled
+  const userId = String(req.user.uid);
+
+  if (!BOOKING_STATUSES.includes(status)) {
+    res.status(400);
+    throw new Error(`Invalid booking status: ${status}`);
+  }
 
   const bookingRef = db.collection('bookings').doc(bookingId);
-  const bookingDoc = await bookingRef.get();
 
-  if (!bookingDoc.exists) {
-    res.status(404);
-    throw new Error('Booking not found');
-  }
+  // Read and write in one transaction so two parties cannot race each other
+  const { bookingData, role, transition } = await db.runTransaction(async (t) => {
+    const bookingDoc = await t.get(bookingRef);
 
-  const bookingData = bookingDoc.data();
+    if (!bookingDoc.exists) {
+      res.status(404);
+      throw new Error('Booking not found');
+    }
 
-  if (bookingData.sellerId !== seller.uid) {
-    res.status(401);
-    throw new Error('Only the seller can update the booking status');
-  }
+    const bookingData = bookingDoc.data();
+    const role = getBookingRole(bookingData, userId);
+
+    if (!role) {
+      res.status(401);
+      throw new Error('User not authorized to update this booking');
+    }
 
-  await bookingRef.update({ status: status, updatedAt: new Date().toISOString() });
+    const currentStatus = normalizeBookingStatus(bookingData.status);
+    if (!canTransitionBooking(currentStatus, status, role)) {
+      res.status(409);
+      throw new Error(`Cannot change booking from ${currentStatus} to ${status} as ${role}`);
+    }
 
-  // Notify the buyer
+    // Stock held by this booking is released on cancel and consumed on completion
+    const productRef = db.collection('products').doc(String(bookingData.productId));
+    const productDoc = bookingData.stockReserved && (status === 'cancelled' || status === 'completed')
+      ? await t.get(productRef)
+      : null;
+
+    const transition = {
+      from: currentStatus,
+      to: status,
+      actorId: userId,
+      actorRole: role,
+      at: new Date().toISOString(),
+      ...(note ? { note: String(note) } : {}),
+    };
+
+    const bookingUpdate = {
+      status,
+      updatedAt: transition.at,
+      history: admin.firestore.FieldValue.arrayUnion(transition),
+    };
+
+    // Once the seller accepts, the reservation no longer expires
+    if (bookingData.expiresAt && status !== 'requested') {
+      bookingUpdate.expiresAt = admin.firestore.FieldValue.delete();
+    }
+
+    if (productDoc) {
+      const amount = Number(bookingData.quantity) || 0;
+      if (productDoc.exists) {
+        t.update(productRef, status === 'completed'
+          ? consumeStock(productDoc.data(), amount)
+          : releaseStock(productDoc.data(), amount));
+      }
+      bookingUpdate.stockReserved = false;
+    }
+
+    t.update(bookingRef, bookingUpdate);
+
+    return { bookingData, role, transition };
+  });
+
+  // Bookings made from a chat offer show their status in the chat room
+  if (bookingData.chatRoomId) {
+    const chatRoomRef = db.collection('chatRooms').doc(String(bookingData.chatRoomId));
+    const chatRoomDoc = await chatRoomRef.get();
+    if (chatRoomDoc.exists && chatRoomDoc.data().bookingId === bookingId) {
+      const roomUpdate = { bookingStatus: status, updatedAt: transition.at };
+      await chatRoomRef.update(roomUpdate);
+      publishRoom(chatRoomDoc.id, { ...chatRoomDoc.data(), ...roomUpdate });
+    }
+  }
+
+  // Notify the other party
+  const recipientId = role === 'buyer' ? bookingData.sellerId : bookingData.buyerId;
   await createNotification(
-    bookingData.buyerId,
+    recipientId,
     'booking_update',
-    `Your booking for product ${bookingData.productId} has been ${status}.`,
+    `Booking for product ${bookingData.productId} ${bookingStatusMessages[status]}.`,
     `/bookings/${bookingId}`
   );
 
+  setAuditDetails(res, {
+    targetType: 'booking',
+    targetId: bookingId,
+    before: { status: transition.from },
+    after: { status },
+    metadata: { actorRole: role, productId: bookingData.productId, note: transition.note || null },
+  });
   res.status(200).json({
     success: true,
-    data: { id: bookingId, status: status },
+    data: { id: bookingId, status, transition },
   });
 });
 
 export {
+  createAgreedBooking,
   createBooking,
   getUserBookings,
   getBookingById,
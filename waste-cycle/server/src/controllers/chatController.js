@@ -1,6 +1,17 @@
 import asyncHandler from '../middleware/asyncHandler.js';
 import { db } from '../config/firebaseConfig.js';
+import admin from 'firebase-admin'; // Required for FieldValue
 import crypto from 'crypto';
+import { parsePageParams, paginateQuery } from '../utils/pagination.js';
+import { sendToUsers } from '../utils/chatSocket.js';
+import { formatChatRoom, publishRoom } from '../utils/chatRooms.js';
+import { validateAttachments, describeMessage } from '../utils/chatAttachments.js';
+import { getBlobStore } from '../utils/blobStore.js';
+import { validateOfferTerms, describeOffer, offerResponsePreviews } from '../utils/chatOffers.js';
+import { getAvailableQuantity } from '../utils/stockReservation.js';
+import { createNotification } from '../utils/notificationService.js';
+import { setAuditDetails } from '../utils/auditLog.js';
+import { createAgreedBooking } from './bookingController.js';
 
 /**
  * Generate unique chat room ID from two user IDs and product ID
@@ -28,11 +39,87 @@ const generateChatRoomId = (userId1, userId2, productId) => {
   return hash.substring(0, 32);
 };
 
+/**
+ * Store a message in a room, bump the receiver's unread count and push it to both participants
+ * @param {object} params
+ * @param {FirebaseFirestore.DocumentReference} params.chatRoomRef
+ * @param {object} params.chatRoomData - Room data before the message (after any other change being published)
+ * @param {string} params.senderId
+ * @param {string} params.receiverId
+ * @param {object} params.fields - Message body: { text, attachments } or { type: 'offer', offer }
+ * @param {string} params.preview - Room list preview (lastMessage)
+ * @param {object} [params.roomFields] - Extra room fields to set with the same update
+ * @param {FirebaseFirestore.DocumentReference} [params.messageRef] - When the caller needs the id up front
+ * @returns {Promise<object>} The stored message with its id
+ */
+const appendMessage = async ({
+  chatRoomRef,
+  chatRoomData,
+  senderId,
+  receiverId,
+  fields,
+  preview,
+  roomFields = {},
+  messageRef = chatRoomRef.collection('messages').doc(),
+}) => {
+  // Create message with senderId and receiverId
+  const newMessage = {
+    chatRoomId: chatRoomRef.id,
+    senderId,        // MULTI-USER: Who sent the message
+    receiverId,      // MULTI-USER: Who receives the message
+    text: '',
+    attachments: [],
+    ...fields,
+    timestamp: new Date().toISOString(),
+    read: false,
+  };
+
+  // MULTI-USER: Store message in subcollection
+  await messageRef.set(newMessage);
+
+  // Update chat room with last message
+  const roomUpdate = {
+    ...roomFields,
+    lastMessage: preview,
+    lastMessageSenderId: senderId,
+    updatedAt: newMessage.timestamp,
+  };
+  await chatRoomRef.update({
+    ...roomUpdate,
+    [`unreadCounts.${receiverId}`]: admin.firestore.FieldValue.increment(1),
+    // Sending a message means the sender has read everything before it
+    [`lastReadAt.${senderId}`]: newMessage.timestamp,
+    [`unreadCounts.${senderId}`]: 0,
+  });
+
+  // Real-time: participants receive the message and the updated room without polling
+  const message = { id: messageRef.id, ...newMessage };
+  sendToUsers([senderId, receiverId], { type: 'message', roomId: chatRoomRef.id, message });
+  publishRoom(chatRoomRef.id, {
+    ...chatRoomData,
+    ...roomUpdate,
+    lastReadAt: { ...chatRoomData.lastReadAt, [senderId]: newMessage.timestamp },
+    unreadCounts: {
+      ...chatRoomData.unreadCounts,
+      [receiverId]: (chatRoomData.unreadCounts?.[receiverId] || 0) + 1,
+      [senderId]: 0,
+    },
+  });
+
+  // Web push only: the in-app chat notification comes from the chat trigger (firebase-functions)
+  const senderIndex = (chatRoomData.participants || []).map(String).indexOf(String(senderId));
+  const senderName = chatRoomData.participantNames?.[senderIndex] || 'ผู้ใช้';
+  createNotification(receiverId, 'chat', `${senderName}: ${preview}`, `/chat/${chatRoomRef.id}`, { channels: ['push'] });
+
+  return message;
+};
+
 /**
  * @desc    Get all chat rooms for the logged-in user
  * @route   GET /api/chat
  * @access  Private
  * @note    MULTI-USER: Returns only chat rooms where user is a participant
+ *          Paginated by last activity (updatedAt desc): ?limit=20&cursor=<nextCursor>
  */
 const getChatRooms = asyncHandler(async (req, res) => {
   if (!req.user) {
@@ -57,41 +144,23 @@ const getChatRooms = asyncHandler(async (req, res) => {
   
   const userId = String(req.user.uid); // ✅ ใช้ uid เท่านั้น
 
-  // MULTI-USER: Get chat rooms where user is buyer or seller
-  const chatsAsBuyerSnapshot = await db.collection('chatRooms')
-    .where('participants', 'array-contains', userId)
-    .get();
+  const page = parsePageParams(req.query);
+  if (!page) {
+    res.status(400);
+    throw new Error('Invalid cursor');
+  }
 
-  const chatRooms = chatsAsBuyerSnapshot.docs.map(doc => {
-    const data = doc.data();
-    // SAFETY CHECK: Ensure participants is an array and convert to strings
-    const participants = Array.isArray(data.participants) 
-      ? data.participants.map(p => String(p)) 
-      : [];
-    const userIdStr = String(userId);
-    const participantIndex = participants.findIndex(id => String(id) !== userIdStr);
-    
-    return {
-      id: doc.id,
-      ...data,
-      // Ensure participants are strings
-      participants: participants,
-      // Determine other participant
-      otherParticipantId: participants.find(id => String(id) !== userIdStr) || null,
-      otherParticipantName: (data.participantNames && Array.isArray(data.participantNames) && participantIndex >= 0) 
-        ? data.participantNames[participantIndex] 
-        : 'Unknown',
-    };
-  });
+  // MULTI-USER: Get chat rooms where user is buyer or seller, most recently active first
+  const { docs, nextCursor } = await paginateQuery(
+    db.collection('chatRooms').where('participants', 'array-contains', userId),
+    page,
+    'updatedAt',
+    'desc'
+  );
 
-  // Sort by last message timestamp (newest first)
-  chatRooms.sort((a, b) => {
-    const timeA = new Date(a.updatedAt || a.createdAt || 0).getTime();
-    const timeB = new Date(b.updatedAt || b.createdAt || 0).getTime();
-    return timeB - timeA;
-  });
+  const chatRooms = docs.map(doc => formatChatRoom(doc.id, doc.data(), userId));
 
-  res.status(200).json({ success: true, data: chatRooms });
+  res.status(200).json({ success: true, data: chatRooms, nextCursor });
 });
 
 /**
@@ -205,6 +274,9 @@ const createChatRoom = asyncHandler(async (req, res) => {
     updatedAt: new Date().toISOString(),
     lastMessage: '',
     lastMessageSenderId: null,
+    // Read receipts: per participant, when they last read the room and how many messages arrived since
+    lastReadAt: {},
+    unreadCounts: {},
     // Legacy fields for backward compatibility
     buyerId: String(buyerId),
     sellerId: String(sellerId),
@@ -217,6 +289,7 @@ const createChatRoom = asyncHandler(async (req, res) => {
   console.log(`📝 Participants: ${JSON.stringify(newChatRoom.participants)}`);
 
   await chatRoomRef.set(newChatRoom);
+  publishRoom(chatRoomId, newChatRoom);
 
   res.status(201).json({
     success: true,
@@ -283,12 +356,7 @@ const getChatRoomById = asyncHandler(async (req, res) => {
 
   res.status(200).json({
     success: true,
-    data: {
-      id: chatRoomDoc.id,
-      ...chatRoomData,
-      participants: participants, // Ensure participants are strings
-      otherParticipantId: participants.find(id => String(id) !== userIdStr) || null,
-    }
+    data: formatChatRoom(chatRoomDoc.id, chatRoomData, userIdStr),
   });
 });
 
@@ -297,6 +365,7 @@ const getChatRoomById = asyncHandler(async (req, res) => {
  * @route   POST /api/chat/:id/messages
  * @access  Private
  * @note    MULTI-USER: Message includes senderId and receiverId
+ *          Body: { text?, attachments? } - at least one; see utils/chatAttachments.js
  */
 const postMessage = asyncHandler(async (req, res) => {
   if (!req.user) {
@@ -322,11 +391,18 @@ const postMessage = asyncHandler(async (req, res) => {
   const senderId = String(req.user.uid); // ✅ ใช้ uid เท่านั้น
 
   const chatRoomId = req.params.id;
-  const { text } = req.body;
+  const text = typeof req.body.text === 'string' ? req.body.text.trim() : '';
+
+  const store = await getBlobStore();
+  const { attachments, error: attachmentError } = validateAttachments(req.body.attachments, store.owns);
+  if (attachmentError) {
+    res.status(400);
+    throw new Error(attachmentError);
+  }
 
-  if (!text || text.trim() === '') {
+  if (!text && attachments.length === 0) {
     res.status(400);
-    throw new Error('Message text is required');
+    throw new Error('Message text or an attachment is required');
   }
 
   // Get chat room
@@ -361,32 +437,18 @@ const postMessage = asyncHandler(async (req, res) => {
     throw new Error('Cannot determine receiver');
   }
 
-  // Create message with senderId and receiverId
-  const newMessage = {
-    chatRoomId,
-    senderId,        // MULTI-USER: Who sent the message
-    receiverId,      // MULTI-USER: Who receives the message
-    text: text.trim(),
-    timestamp: new Date().toISOString(),
-    read: false,
-  };
-
-  // MULTI-USER: Store message in subcollection
-  const messageRef = await chatRoomRef.collection('messages').add(newMessage);
-  
-  // Update chat room with last message
-  await chatRoomRef.update({
-    lastMessage: text.trim(),
-    lastMessageSenderId: senderId,
-    updatedAt: new Date().toISOString(),
+  const message = await appendMessage({
+    chatRoomRef,
+    chatRoomData,
+    senderId,
+    receiverId,
+    fields: { text, attachments },
+    preview: describeMessage(text, attachments),
   });
 
   res.status(201).json({
     success: true,
-    data: {
-      id: messageRef.id,
-      ...newMessage
-    }
+    data: message,
   });
 });
 
@@ -395,6 +457,7 @@ const postMessage = asyncHandler(async (req, res) => {
  * @route   GET /api/chat/:id/messages
  * @access  Private
  * @note    MULTI-USER: Only participants can access messages
+ *          Returns the newest page in chronological order; nextCursor loads older messages
  */
 const getMessages = asyncHandler(async (req, res) => {
   if (!req.user) {
@@ -473,19 +536,362 @@ const getMessages = asyncHandler(async (req, res) => {
   
   console.log(`✅ getMessages - User ${userIdStr} is authorized to access room ${chatRoomId}`);
 
-  // MULTI-USER: Get messages from subcollection
-  const messagesSnapshot = await db.collection('chatRooms')
-    .doc(chatRoomId)
-    .collection('messages')
-    .orderBy('timestamp', 'asc')
+  const page = parsePageParams(req.query);
+  if (!page) {
+    res.status(400);
+    throw new Error('Invalid cursor');
+  }
+
+  // MULTI-USER: Get messages from subcollection (newest first, then flipped for display)
+  const { docs, nextCursor } = await paginateQuery(
+    db.collection('chatRooms').doc(chatRoomId).collection('messages'),
+    page,
+    'timestamp',
+    'desc'
+  );
+
+  // read: the receiver has opened the room since the message was sent
+  const lastReadAt = chatRoomData.lastReadAt || {};
+  const messages = docs.map(doc => {
+    const message = doc.data();
+    const receiverReadAt = lastReadAt[String(message.receiverId)];
+    return {
+      id: doc.id,
+      ...message,
+      // Hidden by moderation (utils/contentReports.js): keep the slot, drop the content
+      ...(message.hidden ? { text: '', attachments: [] } : {}),
+      read: !!receiverReadAt && receiverReadAt >= message.timestamp,
+    };
+  }).reverse();
+
+  res.status(200).json({ success: true, data: messages, nextCursor });
+});
+
+/**
+ * @desc    Mark a chat room as read by the logged-in user
+ * @route   PUT /api/chat/:id/read
+ * @access  Private
+ * @note    Resets the user's unread count; the other participant sees the read receipt
+ */
+const markChatRoomRead = asyncHandler(async (req, res) => {
+  const userId = String(req.user.uid);
+  const chatRoomRef = db.collection('chatRooms').doc(req.params.id);
+  const chatRoomDoc = await chatRoomRef.get();
+
+  if (!chatRoomDoc.exists) {
+    res.status(404);
+    throw new Error('Chat room not found');
+  }
+
+  const chatRoomData = chatRoomDoc.data();
+  const participants = Array.isArray(chatRoomData.participants)
+    ? chatRoomData.participants.map(p => String(p))
+    : [];
+  if (!participants.includes(userId)) {
+    res.status(403);
+    throw new Error('Not authorized to access this chat room');
+  }
+
+  const readAt = new Date().toISOString();
+  await chatRoomRef.update({
+    [`lastReadAt.${userId}`]: readAt,
+    [`unreadCounts.${userId}`]: 0,
+  });
+
+  const updatedRoom = {
+    ...chatRoomData,
+    lastReadAt: { ...chatRoomData.lastReadAt, [userId]: readAt },
+    unreadCounts: { ...chatRoomData.unreadCounts, [userId]: 0 },
+  };
+  publishRoom(chatRoomDoc.id, updatedRoom);
+
+  res.status(200).json({ success: true, data: formatChatRoom(chatRoomDoc.id, updatedRoom, userId) });
+});
+
+/**
+ * @desc    Total unread messages across all of the user's chat rooms (header badge)
+ * @route   GET /api/chat/unread-count
+ * @access  Private
+ */
+const getUnreadCount = asyncHandler(async (req, res) => {
+  const userId = String(req.user.uid);
+
+  const snapshot = await db.collection('chatRooms')
+    .where('participants', 'array-contains', userId)
+    .aggregate({ unread: admin.firestore.AggregateField.sum(`unreadCounts.${userId}`) })
     .get();
 
-  const messages = messagesSnapshot.docs.map(doc => ({
-    id: doc.id,
-    ...doc.data()
-  }));
+  res.status(200).json({ success: true, data: { unread: snapshot.data().unread || 0 } });
+});
+
+/**
+ * Load a room the logged-in user takes part in (404/403 otherwise)
+ * @returns {Promise<{ chatRoomRef, chatRoomData, participants: string[], userId: string, otherId: string }>}
+ */
+const getParticipantRoom = async (req, res) => {
+  const userId = String(req.user.uid);
+  const chatRoomRef = db.collection('chatRooms').doc(req.params.id);
+  const chatRoomDoc = await chatRoomRef.get();
+
+  if (!chatRoomDoc.exists) {
+    res.status(404);
+    throw new Error('Chat room not found');
+  }
+
+  const chatRoomData = chatRoomDoc.data();
+  const participants = Array.isArray(chatRoomData.participants)
+    ? chatRoomData.participants.map(p => String(p))
+    : [];
+  if (!participants.includes(userId)) {
+    res.status(403);
+    throw new Error('Not authorized to access this chat room');
+  }
+
+  return { chatRoomRef, chatRoomData, participants, userId, otherId: participants.find(id => id !== userId) };
+};
+
+// A room with a booking that is not cancelled takes no new offers
+const hasActiveBooking = (chatRoomData) => !!chatRoomData.bookingId && chatRoomData.bookingStatus !== 'cancelled';
+
+/**
+ * @desc    Send an offer (or counter-offer) in a chat room
+ * @route   POST /api/chat/:id/offers
+ * @access  Private (Participants)
+ * @note    Body: { quantity, pricePerUnit, pickupDate, deliveryOption: 'pickup' | 'delivery', note? }
+ *          Replaces the room's pending offer: countered if the other side sent it, withdrawn if we did
+ */
+const postOffer = asyncHandler(async (req, res) => {
+  const { chatRoomRef, chatRoomData, userId, otherId } = await getParticipantRoom(req, res);
+
+  const { terms, error } = validateOfferTerms(req.body);
+  if (error) {
+    res.status(400);
+    throw new Error(error);
+  }
+
+  if (hasActiveBooking(chatRoomData)) {
+    res.status(409);
+    throw new Error('This chat already has an active booking');
+  }
+
+  const productDoc = await db.collection('products').doc(String(chatRoomData.productId)).get();
+  if (!productDoc.exists) {
+    res.status(404);
+    throw new Error('Product not found');
+  }
+
+  const product = productDoc.data();
+  const available = getAvailableQuantity(product);
+  if (terms.quantity > available) {
+    res.status(409);
+    throw new Error(`Only ${available} ${product.unit || 'kg'} of this product is available for booking`);
+  }
+
+  if (chatRoomData.pendingOfferId) {
+    const previousRef = chatRoomRef.collection('messages').doc(chatRoomData.pendingOfferId);
+    const previousDoc = await previousRef.get();
+    if (previousDoc.exists && previousDoc.data().offer?.status === 'pending') {
+      const previous = previousDoc.data();
+      const status = previous.senderId === userId ? 'withdrawn' : 'countered';
+      const respondedAt = new Date().toISOString();
+      await previousRef.update({ 'offer.status': status, 'offer.respondedAt': respondedAt });
+      sendToUsers([userId, otherId], {
+        type: 'message',
+        roomId: chatRoomRef.id,
+        message: { id: previousDoc.id, ...previous, offer: { ...previous.offer, status, respondedAt } },
+      });
+    }
+  }
+
+  const offer = { ...terms, unit: product.unit || 'kg', status: 'pending' };
+  const messageRef = chatRoomRef.collection('messages').doc();
+  const message = await appendMessage({
+    chatRoomRef,
+    chatRoomData,
+    senderId: userId,
+    receiverId: otherId,
+    fields: { type: 'offer', offer },
+    preview: describeOffer(offer),
+    roomFields: { pendingOfferId: messageRef.id },
+    messageRef,
+  });
+
+  res.status(201).json({ success: true, data: message });
+});
+
+/**
+ * Load the pending offer the logged-in user received (only the recipient can answer it)
+ */
+const getReceivedOffer = async (req, res) => {
+  const room = await getParticipantRoom(req, res);
+  const messageRef = room.chatRoomRef.collection('messages').doc(req.params.messageId);
+  const messageDoc = await messageRef.get();
+
+  if (!messageDoc.exists || messageDoc.data().type !== 'offer') {
+    res.status(404);
+    throw new Error('Offer not found');
+  }
+  if (String(messageDoc.data().receiverId) !== room.userId) {
+    res.status(403);
+    throw new Error('Only the recipient can respond to this offer');
+  }
+  if (messageDoc.data().offer.status !== 'pending') {
+    res.status(409);
+    throw new Error(`Offer is already ${messageDoc.data().offer.status}`);
+  }
+
+  return { ...room, messageRef };
+};
+
+/**
+ * @desc    Accept an offer: reserve the stock and create the booking for this chat
+ * @route   PUT /api/chat/:id/offers/:messageId/accept
+ * @access  Private (Recipient of the offer)
+ */
+const acceptChatOffer = asyncHandler(async (req, res) => {
+  const { chatRoomRef, messageRef, userId, otherId } = await getReceivedOffer(req, res);
+
+  // Re-read inside the transaction so a counter-offer or a second accept cannot slip in
+  const { bookingId, booking, offerMessage, chatRoomData } = await db.runTransaction(async (t) => {
+    const [chatRoomDoc, messageDoc] = await Promise.all([t.get(chatRoomRef), t.get(messageRef)]);
+    const chatRoomData = chatRoomDoc.data();
+    const offerMessage = messageDoc.data();
+
+    if (offerMessage.offer.status !== 'pending' || chatRoomData.pendingOfferId !== messageRef.id) {
+      res.status(409);
+      throw new Error('This offer can no longer be accepted');
+    }
+    if (hasActiveBooking(chatRoomData)) {
+      res.status(409);
+      throw new Error('This chat already has an active booking');
+    }
+
+    const productRef = db.collection('products').doc(String(chatRoomData.productId));
+    const productDoc = await t.get(productRef);
+    if (!productDoc.exists) {
+      res.status(404);
+      throw new Error('Product not found');
+    }
+
+    // The product owner sells, whoever made the offer
+    const product = productDoc.data();
+    const sellerId = String(product.userId || chatRoomData.sellerId);
+    const buyerId = sellerId === userId ? otherId : userId;
+    const { offer } = offerMessage;
+
+    const { id, booking, error } = createAgreedBooking(t, {
+      productRef,
+      product,
+      terms: {
+        buyerId,
+        sellerId,
+        quantity: offer.quantity,
+        pricePerUnit: offer.pricePerUnit,
+        bookingDate: offer.pickupDate,
+        deliveryOption: offer.deliveryOption,
+      },
+      actor: { id: userId, role: userId === sellerId ? 'seller' : 'buyer' },
+      links: { chatRoomId: chatRoomRef.id, offerMessageId: messageRef.id },
+    });
+    if (error) {
+      res.status(409);
+      throw new Error(error);
+    }
+
+    const respondedAt = booking.createdAt;
+    t.update(messageRef, { 'offer.status': 'accepted', 'offer.bookingId': id, 'offer.respondedAt': respondedAt });
+    t.update(chatRoomRef, {
+      pendingOfferId: admin.firestore.FieldValue.delete(),
+      bookingId: id,
+      bookingStatus: booking.status,
+    });
+
+    return {
+      bookingId: id,
+      booking,
+      offerMessage: { ...offerMessage, offer: { ...offer, status: 'accepted', bookingId: id, respondedAt } },
+      chatRoomData,
+    };
+  });
+
+  sendToUsers([userId, otherId], { type: 'message', roomId: chatRoomRef.id, message: { id: messageRef.id, ...offerMessage } });
+
+  const { pendingOfferId, ...roomWithoutOffer } = chatRoomData;
+  await appendMessage({
+    chatRoomRef,
+    chatRoomData: { ...roomWithoutOffer, bookingId, bookingStatus: booking.status },
+    senderId: userId,
+    receiverId: otherId,
+    fields: { text: offerResponsePreviews.accepted },
+    preview: offerResponsePreviews.accepted,
+  });
+
+  await createNotification(
+    otherId,
+    'new_booking',
+    `Your offer for ${chatRoomData.productTitle || 'a product'} was accepted and a booking was created`,
+    `/bookings/${bookingId}`
+  );
+
+  setAuditDetails(res, {
+    targetType: 'booking',
+    targetId: bookingId,
+    before: { status: null },
+    after: { status: booking.status },
+    metadata: {
+      actorRole: userId === booking.sellerId ? 'seller' : 'buyer',
+      productId: booking.productId,
+      chatRoomId: chatRoomRef.id,
+      offerMessageId: messageRef.id,
+    },
+  });
+  res.status(200).json({ success: true, data: { id: bookingId, ...booking } });
+});
+
+/**
+ * @desc    Decline an offer
+ * @route   PUT /api/chat/:id/offers/:messageId/decline
+ * @access  Private (Recipient of the offer)
+ * @note    Body: { reason? } - posted in the thread with the decline
+ */
+const declineChatOffer = asyncHandler(async (req, res) => {
+  const { chatRoomRef, messageRef, userId, otherId } = await getReceivedOffer(req, res);
+
+  // Re-read inside the transaction so an accept or a counter-offer in between is not overwritten
+  const { offerMessage, chatRoomData } = await db.runTransaction(async (t) => {
+    const [chatRoomDoc, messageDoc] = await Promise.all([t.get(chatRoomRef), t.get(messageRef)]);
+    const chatRoomData = chatRoomDoc.data();
+    const offerMessage = messageDoc.data();
+
+    if (offerMessage.offer.status !== 'pending' || chatRoomData.pendingOfferId !== messageRef.id) {
+      res.status(409);
+      throw new Error('This offer can no longer be declined');
+    }
+
+    const respondedAt = new Date().toISOString();
+    t.update(messageRef, { 'offer.status': 'declined', 'offer.respondedAt': respondedAt });
+    t.update(chatRoomRef, { pendingOfferId: admin.firestore.FieldValue.delete() });
+
+    return {
+      offerMessage: { ...offerMessage, offer: { ...offerMessage.offer, status: 'declined', respondedAt } },
+      chatRoomData,
+    };
+  });
+  sendToUsers([userId, otherId], { type: 'message', roomId: chatRoomRef.id, message: { id: messageRef.id, ...offerMessage } });
+
+  const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+  const text = reason ? `${offerResponsePreviews.declined}: ${reason}` : offerResponsePreviews.declined;
+  const { pendingOfferId, ...roomWithoutOffer } = chatRoomData;
+  await appendMessage({
+    chatRoomRef,
+    chatRoomData: roomWithoutOffer,
+    senderId: userId,
+    receiverId: otherId,
+    fields: { text },
+    preview: text,
+  });
 
-  res.status(200).json({ success: true, data: messages });
+  res.status(200).json({ success: true, data: { id: messageRef.id, ...offerMessage } });
 });
 
 /**
@@ -508,5 +914,10 @@ export {
   getChatRoomById,
   postMessage,
   getMessages,
+  markChatRoomRead,
+  getUnreadCount,
+  postOffer,
+  acceptChatOffer,
+  declineChatOffer,
   deleteChatRoom
 };
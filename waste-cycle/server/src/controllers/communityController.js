@@ -1,14 +1,24 @@
 import asyncHandler from '../middleware/asyncHandler.js';
 import { db } from '../config/firebaseConfig.js';
 import admin from 'firebase-admin'; // Required for FieldValue
+import { parsePageParams, paginateFiltered } from '../utils/pagination.js';
 
-// @desc    Get all community posts
+// Posts and comments hidden by moderation (utils/contentReports.js) are left out of public responses
+const visiblePost = (post) => ({ ...post, comments: (post.comments || []).filter(c => !c.hidden) });
+
+// @desc    Get community posts, newest first (?limit=20&cursor=<nextCursor>)
 // @route   GET /api/community
 // @access  Public
 const getAllPosts = asyncHandler(async (req, res) => {
-  const postsSnapshot = await db.collection('communityPosts').orderBy('createdAt', 'desc').get();
-  const posts = postsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
-  res.status(200).json({ success: true, data: posts });
+  const page = parsePageParams(req.query);
+  if (!page) {
+    res.status(400);
+    throw new Error('Invalid cursor');
+  }
+
+  const { docs, nextCursor } = await paginateFiltered(db.collection('communityPosts'), page, 'createdAt', 'desc', (doc) => !doc.get('hidden'));
+  const posts = docs.map(doc => visiblePost({ id: doc.id, ...doc.data() }));
+  res.status(200).json({ success: true, data: posts, nextCursor });
 });
 
 // @desc    Create a new community post
@@ -41,12 +51,12 @@ const getPostById = asyncHandler(async (req, res) => {
   const postId = req.params.id;
   const postDoc = await db.collection('communityPosts').doc(postId).get();
 
-  if (!postDoc.exists) {
+  if (!postDoc.exists || postDoc.get('hidden')) {
     res.status(404);
     throw new Error('Post not found');
   }
 
-  res.status(200).json({ success: true, data: { id: postDoc.id, ...postDoc.data() } });
+  res.status(200).json({ success: true, data: visiblePost({ id: postDoc.id, ...postDoc.data() }) });
 });
 
 // @desc    Update a post
@@ -0,0 +1,505 @@
+import asyncHandler from '../middleware/asyncHandler.js';
+import { db } from '../config/firebaseConfig.js';
+import admin from 'firebase-admin'; // Required for FieldValue
+import { createNotification } from '../utils/notificationService.js';
+import { isValidLocation, geoFields, findDocumentsNear } from '../utils/geo.js';
+import { getAvailableQuantity, reserveStock } from '../utils/stockReservation.js';
+import { parsePageParams, paginateQuery } from '../utils/pagination.js';
+import { setAuditDetails } from '../utils/auditLog.js';
+
+/**
+ * Demand requests: a buyer posts what they need (crop, wanted NPK, quantity, delivery window,
+ * max price, location); sellers answer with offers against one of their products.
+ * Accepting an offer turns it into a booking that is already accepted by the seller.
+ *
+ * demandRequests/{id}          status: open -> fulfilled (offer accepted) | closed (buyer withdrew)
+ * demandRequests/{id}/offers   status: pending -> accepted | rejected
+ */
+
+const DEFAULT_RADIUS_KM = 50;
+const MAX_REASON_LENGTH = 500;
+
+const isPositiveNumber = (value) => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+// Returns an error message, or null when the fields are valid.
+// partial = true validates only the fields present (updates).
+const validateDemandFields = (fields, partial = false) => {
+  const has = (key) => fields[key] !== undefined;
+
+  if ((!partial || has('crop')) && (typeof fields.crop !== 'string' || !fields.crop.trim())) {
+    return 'crop is required';
+  }
+  if ((!partial || has('quantity')) && !isPositiveNumber(fields.quantity)) {
+    return 'quantity must be a positive number';
+  }
+  if (has('maxPrice') && fields.maxPrice !== null && !isPositiveNumber(fields.maxPrice)) {
+    return 'maxPrice must be a positive number';
+  }
+  if (has('wantedNpk')) {
+    const npk = fields.wantedNpk || {};
+    if (!['n', 'p', 'k'].every(key => typeof npk[key] === 'number' && npk[key] >= 0)) {
+      return 'wantedNpk must contain numeric n, p and k';
+    }
+  }
+  if (!partial || has('deliveryWindow')) {
+    const { from, to } = fields.deliveryWindow || {};
+    if (!from || !to || Number.isNaN(Date.parse(from)) || Number.isNaN(Date.parse(to))) {
+      return 'deliveryWindow.from and deliveryWindow.to must be dates';
+    }
+    if (Date.parse(from) > Date.parse(to)) {
+      return 'deliveryWindow.from must be before deliveryWindow.to';
+    }
+  }
+  if ((!partial || has('location')) && !isValidLocation(fields.location)) {
+    return 'location with numeric lat and lng is required';
+  }
+  return null;
+};
+
+const pickDemandFields = (body) => {
+  const fields = {};
+  ['crop', 'wantedNpk', 'quantity', 'unit', 'deliveryWindow', 'maxPrice', 'location', 'notes'].forEach(key => {
+    if (body[key] !== undefined) fields[key] = body[key];
+  });
+  if (typeof fields.crop === 'string') fields.crop = fields.crop.trim();
+  return fields;
+};
+
+// Load a demand request and check the caller owns it
+// Pass the transaction when the caller writes based on the demand's status
+const getOwnedDemand = async (req, res, t = null) => {
+  const demandRef = db.collection('demandRequests').doc(req.params.id);
+  const demandDoc = await (t ? t.get(demandRef) : demandRef.get());
+
+  if (!demandDoc.exists) {
+    res.status(404);
+    throw new Error('Demand request not found');
+  }
+  if (demandDoc.data().buyerId !== req.user.uid) {
+    res.status(403);
+    throw new Error('Not authorized to change this demand request');
+  }
+  return { demandRef, demand: demandDoc.data() };
+};
+
+// @desc    List open demand requests near a location (seller view)
+// @route   GET /api/demands?lat=&lng=&radiusKm=&crop=
+// @access  Private
+const getOpenDemands = asyncHandler(async (req, res) => {
+  const queryCenter = { lat: parseFloat(req.query.lat), lng: parseFloat(req.query.lng) };
+  const center = isValidLocation(queryCenter) ? queryCenter : req.user.location;
+  if (!isValidLocation(center)) {
+    res.status(400);
+    throw new Error('Location is required to find nearby demand requests');
+  }
+
+  const radiusKm = req.query.radiusKm !== undefined ? Number(req.query.radiusKm) : DEFAULT_RADIUS_KM;
+  if (!Number.isFinite(radiusKm) || radiusKm <= 0) {
+    res.status(400);
+    throw new Error('radiusKm must be a positive number');
+  }
+
+  const crop = req.query.crop ? String(req.query.crop).toLowerCase() : null;
+  const nearby = await findDocumentsNear('demandRequests', center, radiusKm);
+
+  const demands = nearby
+    .map(({ doc, distance }) => ({ id: doc.id, ...doc.data(), distance: Math.round(distance * 10) / 10 }))
+    .filter(demand => demand.status === 'open')
+    .filter(demand => !crop || String(demand.crop).toLowerCase().includes(crop));
+
+  res.status(200).json({ success: true, count: demands.length, data: demands });
+});
+
+// @desc    Demand requests created by the current user
+// @route   GET /api/demands/mine
+// @access  Private
+const getMyDemands = asyncHandler(async (req, res) => {
+  const page = parsePageParams(req.query);
+  if (!page) {
+    res.status(400);
+    throw new Error('Invalid cursor');
+  }
+
+  const { docs, nextCursor } = await paginateQuery(
+    db.collection('demandRequests').where('buyerId', '==', req.user.uid),
+    page,
+    'createdAt',
+    'desc'
+  );
+
+  res.status(200).json({ success: true, data: docs.map(doc => ({ id: doc.id, ...doc.data() })), nextCursor });
+});
+
+// @desc    Get a demand request
+// @route   GET /api/demands/:id
+// @access  Private
+const getDemandById = asyncHandler(async (req, res) => {
+  const demandDoc = await db.collection('demandRequests').doc(req.params.id).get();
+
+  if (!demandDoc.exists) {
+    res.status(404);
+    throw new Error('Demand request not found');
+  }
+
+  res.status(200).json({ success: true, data: { id: demandDoc.id, ...demandDoc.data() } });
+});
+
+// @desc    Create a demand request
+// @route   POST /api/demands
+// @access  Private
+const createDemand = asyncHandler(async (req, res) => {
+  const fields = pickDemandFields(req.body);
+  const error = validateDemandFields(fields);
+  if (error) {
+    res.status(400);
+    throw new Error(error);
+  }
+
+  const now = new Date().toISOString();
+  const demand = {
+    ...fields,
+    unit: fields.unit || 'kg',
+    wantedNpk: fields.wantedNpk || null,
+    maxPrice: fields.maxPrice ?? null,
+    ...geoFields(fields.location),
+    buyerId: req.user.uid,
+    buyerName: req.user.displayName || req.user.email || '',
+    status: 'open',
+    offerCount: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const demandRef = await db.collection('demandRequests').add(demand);
+  res.status(201).json({ success: true, data: { id: demandRef.id, ...demand } });
+});
+
+// @desc    Update an open demand request
+// @route   PUT /api/demands/:id
+// @access  Private (Owner)
+const updateDemand = asyncHandler(async (req, res) => {
+  const { demandRef, demand } = await getOwnedDemand(req, res);
+
+  if (demand.status !== 'open') {
+    res.status(409);
+    throw new Error(`Cannot edit a demand request that is ${demand.status}`);
+  }
+
+  const fields = pickDemandFields(req.body);
+  const error = validateDemandFields({ ...fields, deliveryWindow: fields.deliveryWindow || demand.deliveryWindow }, true);
+  if (error) {
+    res.status(400);
+    throw new Error(error);
+  }
+
+  const update = { ...fields, ...geoFields(fields.location), updatedAt: new Date().toISOString() };
+  await demandRef.update(update);
+
+  res.status(200).json({ success: true, data: { id: demandRef.id, ...demand, ...update } });
+});
+
+// @desc    Close a demand request (pending offers are rejected)
+// @route   DELETE /api/demands/:id
+// @access  Private (Owner)
+const closeDemand = asyncHandler(async (req, res) => {
+  const { demandRef, demand, pendingOffers } = await db.runTransaction(async (t) => {
+    const { demandRef, demand } = await getOwnedDemand(req, res, t);
+
+    if (demand.status !== 'open') {
+      res.status(409);
+      throw new Error(`Demand request is already ${demand.status}`);
+    }
+
+    const now = new Date().toISOString();
+    const pendingOffers = await t.get(demandRef.collection('offers').where('status', '==', 'pending'));
+    t.update(demandRef, { status: 'closed', updatedAt: now });
+    pendingOffers.docs.forEach(doc => t.update(doc.ref, { status: 'rejected', updatedAt: now }));
+
+    return { demandRef, demand, pendingOffers };
+  });
+
+  await Promise.all(pendingOffers.docs.map(doc => createNotification(
+    doc.data().sellerId,
+    'match_rejected',
+    `The buyer closed the request for ${demand.crop}; your offer was not accepted.`,
+    `/demands/${demandRef.id}`
+  )));
+
+  res.status(200).json({ success: true, message: 'Demand request closed' });
+});
+
+// @desc    Offers on a demand request (buyer sees all, sellers see their own)
+// @route   GET /api/demands/:id/offers
+// @access  Private
+const getOffers = asyncHandler(async (req, res) => {
+  const demandRef = db.collection('demandRequests').doc(req.params.id);
+  const demandDoc = await demandRef.get();
+
+  if (!demandDoc.exists) {
+    res.status(404);
+    throw new Error('Demand request not found');
+  }
+
+  let offersQuery = demandRef.collection('offers');
+  if (demandDoc.data().buyerId !== req.user.uid) {
+    offersQuery = offersQuery.where('sellerId', '==', req.user.uid);
+  }
+
+  const snapshot = await offersQuery.get();
+  const offers = snapshot.docs
+    .map(doc => ({ id: doc.id, ...doc.data() }))
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  res.status(200).json({ success: true, data: offers });
+});
+
+// @desc    Submit an offer against a demand request
+// @route   POST /api/demands/:id/offers
+// @access  Private
+const createOffer = asyncHandler(async (req, res) => {
+  const { productId, quantity, pricePerUnit, deliveryDate, message } = req.body;
+  const seller = req.user;
+
+  if (!productId) {
+    res.status(400);
+    throw new Error('productId is required');
+  }
+  if (!isPositiveNumber(quantity) || !isPositiveNumber(pricePerUnit)) {
+    res.status(400);
+    throw new Error('quantity and pricePerUnit must be positive numbers');
+  }
+  if (!deliveryDate || Number.isNaN(Date.parse(deliveryDate))) {
+    res.status(400);
+    throw new Error('deliveryDate is required');
+  }
+
+  const demandRef = db.collection('demandRequests').doc(req.params.id);
+  const productRef = db.collection('products').doc(String(productId));
+  const offerRef = demandRef.collection('offers').doc();
+
+  // Read and write together so an offer cannot land on a request that was just fulfilled or closed
+  const { demand, product, offer } = await db.runTransaction(async (t) => {
+    const [demandDoc, productDoc] = await Promise.all([t.get(demandRef), t.get(productRef)]);
+
+    if (!demandDoc.exists) {
+      res.status(404);
+      throw new Error('Demand request not found');
+    }
+    if (!productDoc.exists || productDoc.get('hidden')) {
+      res.status(404);
+      throw new Error('Product not found');
+    }
+
+    const demand = demandDoc.data();
+    const product = productDoc.data();
+
+    if (demand.status !== 'open') {
+      res.status(409);
+      throw new Error('This demand request is no longer open');
+    }
+    if (demand.buyerId === seller.uid) {
+      res.status(400);
+      throw new Error('You cannot make an offer on your own request');
+    }
+    if (String(product.userId) !== seller.uid) {
+      res.status(403);
+      throw new Error('You can only offer your own products');
+    }
+    if (demand.maxPrice && pricePerUnit > demand.maxPrice) {
+      res.status(400);
+      throw new Error(`pricePerUnit exceeds the buyer's maximum of ${demand.maxPrice}`);
+    }
+    const available = getAvailableQuantity(product);
+    if (quantity > available) {
+      res.status(409);
+      throw new Error(`Only ${available} ${product.unit || 'kg'} of this product is available`);
+    }
+
+    const now = new Date().toISOString();
+    const offer = {
+      demandId: demandRef.id,
+      sellerId: seller.uid,
+      sellerName: seller.displayName || seller.email || '',
+      productId: String(productId),
+      productTitle: product.title || '',
+      npk: product.npk || null,
+      quantity,
+      pricePerUnit,
+      deliveryDate,
+      message: message ? String(message).trim() : '',
+      status: 'pending',
+      bookingId: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    t.set(offerRef, offer);
+    t.update(demandRef, { offerCount: admin.firestore.FieldValue.increment(1), updatedAt: now });
+
+    return { demand, product, offer };
+  });
+
+  await createNotification(
+    demand.buyerId,
+    'new_offer',
+    `${offer.sellerName || 'A seller'} offered ${quantity} ${product.unit || 'kg'} for your ${demand.crop} request`,
+    `/demands/${demandRef.id}`
+  );
+
+  res.status(201).json({ success: true, data: { id: offerRef.id, ...offer } });
+});
+
+// @desc    Accept an offer: reserve the product stock and create the booking
+// @route   PUT /api/demands/:id/offers/:offerId/accept
+// @access  Private (Owner of the demand request)
+const acceptOffer = asyncHandler(async (req, res) => {
+  const buyerId = req.user.uid;
+  const demandRef = db.collection('demandRequests').doc(req.params.id);
+  const offerRef = demandRef.collection('offers').doc(req.params.offerId);
+  const bookingRef = db.collection('bookings').doc();
+
+  const { demand, offer, booking } = await db.runTransaction(async (t) => {
+    const [demandDoc, offerDoc] = await Promise.all([t.get(demandRef), t.get(offerRef)]);
+
+    if (!demandDoc.exists || !offerDoc.exists) {
+      res.status(404);
+      throw new Error('Offer not found');
+    }
+
+    const demand = demandDoc.data();
+    const offer = offerDoc.data();
+
+    if (demand.buyerId !== buyerId) {
+      res.status(403);
+      throw new Error('Not authorized to accept offers on this request');
+    }
+    if (demand.status !== 'open' || offer.status !== 'pending') {
+      res.status(409);
+      throw new Error('This offer can no longer be accepted');
+    }
+
+    const productRef = db.collection('products').doc(offer.productId);
+    const productDoc = await t.get(productRef);
+    if (!productDoc.exists || productDoc.get('hidden')) {
+      res.status(404);
+      throw new Error('The offered product no longer exists');
+    }
+
+    const product = productDoc.data();
+    const available = getAvailableQuantity(product);
+    if (offer.quantity > available) {
+      res.status(409);
+      throw new Error(`Only ${available} ${product.unit || 'kg'} of the offered product is still available`);
+    }
+
+    // The seller already agreed by making the offer, so the booking starts as accepted
+    const now = new Date().toISOString();
+    const booking = {
+      productId: offer.productId,
+      buyerId,
+      sellerId: offer.sellerId,
+      quantity: offer.quantity,
+      pricePerUnit: offer.pricePerUnit,
+      bookingDate: offer.deliveryDate,
+      status: 'accepted',
+      stockReserved: true,
+      demandId: demandRef.id,
+      offerId: offerRef.id,
+      history: [
+        { from: null, to: 'accepted', actorId: buyerId, actorRole: 'buyer', at: now, note: 'Accepted demand offer' },
+      ],
+      createdAt: now,
+    };
+
+    t.update(productRef, reserveStock(product, offer.quantity));
+    t.set(bookingRef, booking);
+    t.update(offerRef, { status: 'accepted', bookingId: bookingRef.id, updatedAt: now });
+    t.update(demandRef, { status: 'fulfilled', acceptedOfferId: offerRef.id, updatedAt: now });
+
+    return { demand, offer, booking };
+  });
+
+  // The request is fulfilled; the other pending offers are declined
+  const otherOffers = await demandRef.collection('offers').where('status', '==', 'pending').get();
+  if (!otherOffers.empty) {
+    const batch = db.batch();
+    otherOffers.docs.forEach(doc => batch.update(doc.ref, { status: 'rejected', updatedAt: new Date().toISOString() }));
+    await batch.commit();
+  }
+
+  await Promise.all([
+    createNotification(
+      offer.sellerId,
+      'match_accepted',
+      `Your offer for the ${demand.crop} request was accepted`,
+      `/bookings/${bookingRef.id}`
+    ),
+    ...otherOffers.docs.map(doc => createNotification(
+      doc.data().sellerId,
+      'match_rejected',
+      `The buyer accepted another offer for the ${demand.crop} request.`,
+      `/demands/${demandRef.id}`
+    )),
+  ]);
+
+  setAuditDetails(res, {
+    targetType: 'booking',
+    targetId: bookingRef.id,
+    before: { status: null },
+    after: { status: booking.status },
+    metadata: { actorRole: 'buyer', productId: booking.productId, demandId: demandRef.id, offerId: offerRef.id },
+  });
+  res.status(200).json({ success: true, data: { id: bookingRef.id, ...booking } });
+});
+
+// @desc    Reject a pending offer
+// @route   PUT /api/demands/:id/offers/:offerId/reject
+// @access  Private (Owner of the demand request)
+const rejectOffer = asyncHandler(async (req, res) => {
+  const reason = req.body.reason ? String(req.body.reason).slice(0, MAX_REASON_LENGTH) : '';
+
+  const { demandRef, demand, offerRef, offer } = await db.runTransaction(async (t) => {
+    const { demandRef, demand } = await getOwnedDemand(req, res, t);
+    const offerRef = demandRef.collection('offers').doc(req.params.offerId);
+    const offerDoc = await t.get(offerRef);
+
+    if (!offerDoc.exists) {
+      res.status(404);
+      throw new Error('Offer not found');
+    }
+    if (demand.status !== 'open') {
+      res.status(409);
+      throw new Error(`Demand request is already ${demand.status}`);
+    }
+    if (offerDoc.data().status !== 'pending') {
+      res.status(409);
+      throw new Error(`Offer is already ${offerDoc.data().status}`);
+    }
+
+    t.update(offerRef, { status: 'rejected', reason, updatedAt: new Date().toISOString() });
+
+    return { demandRef, demand, offerRef, offer: offerDoc.data() };
+  });
+
+  await createNotification(
+    offer.sellerId,
+    'match_rejected',
+    `Your offer for the ${demand.crop} request was declined.`,
+    `/demands/${demandRef.id}`
+  );
+
+  res.status(200).json({ success: true, data: { id: offerRef.id, status: 'rejected' } });
+});
+
+export {
+  getOpenDemands,
+  getMyDemands,
+  getDemandById,
+  createDemand,
+  updateDemand,
+  closeDemand,
+  getOffers,
+  createOffer,
+  acceptOffer,
+  rejectOffer,
+};
@@ -1,36 +1,131 @@
 import asyncHandler from '../middleware/asyncHandler.js';
-import { calculateFertilizer } from '../utils/fertilizerCalculator.js';
+import {
+  calculateFertilizer,
+  crops,
+  manureTypes,
+  soilAdjustments,
+  GROWTH_STAGES,
+} from '../utils/fertilizerCalculator.js';
+import {
+  compositionTable,
+  feedFactors,
+  processingStates,
+  calculateNutrientContent,
+} from '../utils/manureComposition.js';
 
-// @desc    Calculate NPK from waste
+// @desc    Calculate NPK content of a quantity of manure
 // @route   POST /api/fertilizer/calculate
 // @access  Private
 const calculateNPK = asyncHandler(async (req, res) => {
-  const { wasteType, quantity, animalType, feedType } = req.body;
+  const { animalType, feedType = 'mixed', processingState = 'fresh', quantity } = req.body;
+  const quantityKg = Number(quantity);
 
-  // This is a simplified example. Real logic should be in fertilizerCalculator.js
-  const npkResult = {
-    n: quantity * 0.5, // Example calculation
-    p: quantity * 0.2,
-    k: quantity * 0.3,
-  };
+  if (!Object.hasOwn(compositionTable, animalType)) {
+    res.status(400);
+    throw new Error(`Unknown animalType. Use one of: ${Object.keys(compositionTable).join(', ')}`);
+  }
+  if (!Object.hasOwn(feedFactors, feedType)) {
+    res.status(400);
+    throw new Error(`Unknown feedType. Use one of: ${Object.keys(feedFactors).join(', ')}`);
+  }
+  if (!Object.hasOwn(processingStates, processingState)) {
+    res.status(400);
+    throw new Error(`Unknown processingState. Use one of: ${Object.keys(processingStates).join(', ')}`);
+  }
+  if (!(quantityKg > 0)) {
+    res.status(400);
+    throw new Error('quantity must be a positive number (kg)');
+  }
 
-  res.status(200).json({ success: true, data: npkResult });
+  const { composition, nutrientsKg, nutrientsKgRange } = calculateNutrientContent(animalType, feedType, processingState, quantityKg);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      animalType,
+      feedType,
+      processingState,
+      quantity: quantityKg,
+      dryMatter: composition.dryMatter,
+      npk: composition.npk,
+      npkRange: composition.range,
+      nutrientsKg,
+      nutrientsKgRange,
+      confidence: composition.spread,
+    },
+  });
 });
 
-// @desc    Get fertilizer recommendation
-// @route   POST /api/fertilizer/recommend
+// @desc    Get fertilizer recommendation (manure application rate per rai)
+// @route   POST /api/fertilizer/recommend   { cropType, growthStage?, area, areaUnit?, soilType?, manureTypes?, feedType?, processingState? }
 // @access  Private
 const getFertilizerRecommendation = asyncHandler(async (req, res) => {
-  const { cropType, area, soilType } = req.body;
-  const user = req.user;
+  const { cropType, growthStage, area, areaUnit, soilType, manureTypes: selectedManures, feedType, processingState } = req.body;
+
+  if (!Object.hasOwn(crops, cropType)) {
+    res.status(400);
+    throw new Error(`Unknown cropType. Use one of: ${Object.keys(crops).join(', ')}`);
+  }
+  if (growthStage && !GROWTH_STAGES.includes(growthStage)) {
+    res.status(400);
+    throw new Error(`Unknown growthStage. Use one of: ${GROWTH_STAGES.join(', ')}`);
+  }
+  if (soilType && !Object.hasOwn(soilAdjustments, soilType)) {
+    res.status(400);
+    throw new Error(`Unknown soilType. Use one of: ${Object.keys(soilAdjustments).join(', ')}`);
+  }
+  if (selectedManures && (!Array.isArray(selectedManures) || selectedManures.some(type => !Object.hasOwn(manureTypes, type)))) {
+    res.status(400);
+    throw new Error(`manureTypes must be a list of: ${Object.keys(manureTypes).join(', ')}`);
+  }
+  if (feedType && !Object.hasOwn(feedFactors, feedType)) {
+    res.status(400);
+    throw new Error(`Unknown feedType. Use one of: ${Object.keys(feedFactors).join(', ')}`);
+  }
+  if (processingState && !Object.hasOwn(processingStates, processingState)) {
+    res.status(400);
+    throw new Error(`Unknown processingState. Use one of: ${Object.keys(processingStates).join(', ')}`);
+  }
 
-  // Example: Call the utility function
-  const recommendation = calculateFertilizer(cropType, area, soilType, user.availableWaste);
+  let recommendation;
+  try {
+    recommendation = calculateFertilizer({
+      cropType,
+      growthStage,
+      area: Number(area),
+      areaUnit,
+      soilType,
+      manureTypes: selectedManures,
+      feedType,
+      processingState,
+    });
+  } catch (error) {
+    res.status(400);
+    throw error;
+  }
 
   res.status(200).json({ success: true, data: recommendation });
 });
 
+// @desc    Crops, growth stages, soil types, manure types, feed types and processing states known to the calculator
+// @route   GET /api/fertilizer/catalog
+// @access  Public
+const getFertilizerCatalog = asyncHandler(async (req, res) => {
+  res.status(200).json({
+    success: true,
+    data: {
+      crops: Object.entries(crops).map(([key, crop]) => ({ key, name: crop.name })),
+      growthStages: GROWTH_STAGES,
+      soilTypes: Object.entries(soilAdjustments).map(([key, soil]) => ({ key, name: soil.name })),
+      manureTypes: Object.entries(manureTypes).map(([key, manure]) => ({ key, name: manure.name })),
+      feedTypes: Object.entries(feedFactors).map(([key, feed]) => ({ key, name: feed.name })),
+      processingStates: Object.entries(processingStates).map(([key, state]) => ({ key, name: state.name })),
+    },
+  });
+});
+
 export {
   calculateNPK,
-  getFertilizerRecommendation
+  getFertilizerRecommendation,
+  getFertilizerCatalog
 };
\ No newline at end of file
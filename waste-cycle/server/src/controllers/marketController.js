@@ -1,34 +1,132 @@
 import asyncHandler from '../middleware/asyncHandler.js';
 import { db } from '../config/firebaseConfig.js';
+import { searchProducts } from '../utils/searchIndex.js';
+import { isValidLocation, distanceKm, findDocumentsNear, findDocumentsInBox } from '../utils/geo.js';
+
+// Products use createdDate; createdAt is accepted for older clients
+const SORT_FIELD_ALIASES = { createdAt: 'createdDate' };
+
+const compareByField = (field, order) => (a, b) => {
+  const direction = order === 'asc' ? 1 : -1;
+  const valueA = a[field];
+  const valueB = b[field];
+  if (valueA === valueB) return 0;
+  if (valueA === undefined || valueA === null) return 1; // missing values last
+  if (valueB === undefined || valueB === null) return -1;
+  return (valueA > valueB ? 1 : -1) * direction;
+};
+
+// Origin for distances: lat/lng query params, else the logged-in user's saved location
+const parseOrigin = (query, user) => {
+  if (query.lat !== undefined && query.lng !== undefined) {
+    const origin = { lat: Number(query.lat), lng: Number(query.lng) };
+    return isValidLocation(origin) ? origin : undefined;
+  }
+  return user && isValidLocation(user.location) ? user.location : null;
+};
+
+// bbox=minLat,minLng,maxLat,maxLng
+const parseBox = (bbox) => {
+  const [minLat, minLng, maxLat, maxLng] = String(bbox).split(',').map(Number);
+  const box = { minLat, minLng, maxLat, maxLng };
+  const isValid = Object.values(box).every(Number.isFinite) && minLat <= maxLat && minLng <= maxLng;
+  return isValid ? box : null;
+};
 
 // @desc    Search marketplace
 // @route   GET /api/market/search
 // @access  Public
+// @note    q is matched by the in-process search index (utils/searchIndex.js):
+//          Thai/English words, typo tolerant, across title/description/animalType/feedType/farmName.
+//          radiusKm (needs lat/lng or a saved user location) and bbox use the geohash layer (utils/geo.js).
+//          Without sortBy, radius results are ordered by true distance and text results by relevance.
 const searchMarket = asyncHandler(async (req, res) => {
-  const { q, wasteType, location, sortBy, order = 'desc' } = req.query;
+  const { q, wasteType, sortBy, order = 'desc', radiusKm, bbox, includeSold } = req.query;
 
-  let query = db.collection('products').where('status', '==', 'available');
+  const origin = parseOrigin(req.query, req.user);
+  if (origin === undefined) {
+    res.status(400);
+    throw new Error('lat and lng must be valid coordinates');
+  }
 
-  if (wasteType) {
-    query = query.where('wasteType', '==', wasteType);
+  const radius = radiusKm !== undefined ? Number(radiusKm) : null;
+  if (radius !== null && (!Number.isFinite(radius) || radius <= 0)) {
+    res.status(400);
+    throw new Error('radiusKm must be a positive number');
   }
-  if (q) {
-    // Firestore doesn't support full-text search natively.
-    // This is a very simple "startsWith" search.
-    // For real search, use Algolia or another search service.
-    query = query.where('title', '>=', q).where('title', '<=', q + '\uf8ff');
+  if (radius !== null && !origin) {
+    res.status(400);
+    throw new Error('radiusKm requires lat/lng or a saved user location');
   }
-  
-  if (sortBy) {
-    query = query.orderBy(sortBy, order);
+
+  const box = bbox ? parseBox(bbox) : null;
+  if (bbox && !box) {
+    res.status(400);
+    throw new Error('bbox must be minLat,minLng,maxLat,maxLng');
+  }
+
+  // Geo filters narrow the candidate set (id -> document) before text matching
+  let geoDocs = null;
+  if (radius !== null || box) {
+    const [nearDocs, boxDocs] = await Promise.all([
+      radius !== null ? findDocumentsNear('products', origin, radius).then(results => results.map(r => r.doc)) : null,
+      box ? findDocumentsInBox('products', box) : null,
+    ]);
+    const [first, second] = [nearDocs, boxDocs].filter(Boolean);
+    const secondIds = second ? new Set(second.map(doc => doc.id)) : null;
+    geoDocs = new Map(first.filter(doc => !secondIds || secondIds.has(doc.id)).map(doc => [doc.id, doc]));
+  }
+
+  let products;
+  if (q && q.trim()) {
+    const matches = await searchProducts(q);
+    const relevance = new Map(matches.map(match => [match.id, match.score]));
+    // Load fresh documents so stock and sold flags are current
+    const productDocs = matches.length > 0
+      ? await db.getAll(...matches.map(match => db.collection('products').doc(match.id)))
+      : [];
+    products = productDocs
+      .filter(doc => doc.exists)
+      .map(doc => ({ id: doc.id, ...doc.data(), relevance: relevance.get(doc.id) }));
   } else {
-    query = query.orderBy('createdAt', 'desc');
+    const productDocs = geoDocs ? [...geoDocs.values()] : (await db.collection('products').get()).docs;
+    products = productDocs.map(doc => ({ id: doc.id, ...doc.data() }));
+  }
+
+  if (geoDocs) {
+    products = products.filter(product => geoDocs.has(product.id));
   }
 
-  const productsSnapshot = await query.get();
-  const products = productsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+  // Listings hidden by moderation never show up
+  products = products.filter(product => !product.hidden);
+
+  // Only listings that can still be booked (unless the caller wants sold ones too)
+  if (includeSold !== 'true') {
+    products = products.filter(product => !product.sold && (!product.status || product.status === 'available'));
+  }
+
+  // Replace the client-supplied distance with the real one from the origin
+  if (origin) {
+    products = products.map(product => ({
+      ...product,
+      distance: isValidLocation(product.location) ? distanceKm(origin, product.location) : null,
+    }));
+  }
+
+  if (wasteType) {
+    products = products.filter(product => product.wasteType === wasteType);
+  }
+
+  if (sortBy) {
+    const sortOrder = sortBy === 'distance' && !req.query.order ? 'asc' : order;
+    products.sort(compareByField(SORT_FIELD_ALIASES[sortBy] || sortBy, sortOrder));
+  } else if (radius !== null) {
+    products.sort(compareByField('distance', 'asc'));
+  } else if (!q || !q.trim()) {
+    products.sort(compareByField('createdDate', 'desc'));
+  }
 
-  res.status(200).json({ success: true, data: products });
+  res.status(200).json({ success: true, count: products.length, data: products });
 });
 
 // @desc    Get product details
@@ -1,32 +1,75 @@
 import asyncHandler from '../middleware/asyncHandler.js';
 import { db } from '../config/firebaseConfig.js';
+import { isValidLocation, findDocumentsNear } from '../utils/geo.js';
+import { getAvailableQuantity } from '../utils/stockReservation.js';
+import { cropNeeds } from '../utils/fertilizerCalculator.js';
+import { rankProducts, MATCH_WEIGHTS } from '../utils/matchingEngine.js';
 
-// @desc    Find potential matches for waste
+const DEFAULT_RADIUS_KM = 50;
+const DEFAULT_LIMIT = 10;
+
+// @desc    Rank available products for a crop need (NPK fit, distance, price per nutrient kg,
+//          seller verification and rating), with a score breakdown per factor
 // @route   POST /api/matching/find
 // @access  Private
 const findMatches = asyncHandler(async (req, res) => {
-  const { wasteType, quantity, location } = req.body;
+  const { cropType, quantity, location, radiusKm = DEFAULT_RADIUS_KM, limit = DEFAULT_LIMIT } = req.body;
   const user = req.user;
 
-  // Simple matching logic: Find users (buyers) who need this waste type
-  // This should be much more complex in a real app
-  
-  let query = db.collection('users')
-                .where('needs.wasteType', '==', wasteType)
-                .where('needs.quantity', '>=', quantity);
-  
-  // Add location-based filtering (e.g., within 50km)
-  // This requires GeoFire or similar
-  
-  const matchesSnapshot = await query.get();
-  const matches = matchesSnapshot.docs.map(doc => ({
-    userId: doc.id,
-    name: doc.data().name,
-    farmName: doc.data().farmName,
-    location: doc.data().location,
-  }));
+  const needs = Object.hasOwn(cropNeeds, cropType) ? cropNeeds[cropType] : null;
+  if (!needs) {
+    res.status(400);
+    throw new Error(`Unknown cropType. Use one of: ${Object.keys(cropNeeds).join(', ')}`);
+  }
+
+  const radius = Number(radiusKm);
+  if (!Number.isFinite(radius) || radius <= 0) {
+    res.status(400);
+    throw new Error('radiusKm must be a positive number');
+  }
 
-  res.status(200).json({ success: true, data: matches });
+  // Search around the given location, else the buyer's saved location; without one, rank every listing
+  const origin = isValidLocation(location) ? location : user.location;
+  let candidates;
+  if (isValidLocation(origin)) {
+    const nearby = await findDocumentsNear('products', origin, radius);
+    candidates = nearby.map(({ doc, distance }) => ({ id: doc.id, data: doc.data(), distance }));
+  } else {
+    const snapshot = await db.collection('products').get();
+    candidates = snapshot.docs.map(doc => ({ id: doc.id, data: doc.data() }));
+  }
+
+  // Only visible listings from other sellers with stock left (and enough of it, when a quantity is given)
+  candidates = candidates.filter(({ data }) =>
+    !data.hidden &&
+    String(data.userId) !== user.uid &&
+    getAvailableQuantity(data) > 0 &&
+    (!quantity || getAvailableQuantity(data) >= Number(quantity))
+  );
+
+  // Seller profiles for verification status
+  const sellerIds = [...new Set(candidates.map(({ data }) => String(data.userId)).filter(Boolean))];
+  const sellerDocs = sellerIds.length > 0
+    ? await db.getAll(...sellerIds.map(id => db.collection('users').doc(id)))
+    : [];
+  const sellers = new Map(sellerDocs.filter(doc => doc.exists).map(doc => [doc.id, doc.data()]));
+  candidates.forEach(candidate => {
+    candidate.seller = sellers.get(String(candidate.data.userId));
+  });
+
+  const ranked = rankProducts(candidates, needs, {
+    origin: isValidLocation(origin) ? origin : null,
+    radiusKm: radius,
+  });
+  const maxResults = Math.min(Math.max(parseInt(limit, 10) || DEFAULT_LIMIT, 1), 50);
+
+  res.status(200).json({
+    success: true,
+    count: Math.min(ranked.length, maxResults),
+    data: ranked.slice(0, maxResults),
+    cropNeeds: needs,
+    weights: MATCH_WEIGHTS,
+  });
 });
 
 // @desc    Accept a match
@@ -1,6 +1,18 @@
 // server/src/controllers/notificationController.js
 import { db } from '../config/firebaseConfig.js';
 import asyncHandler from '../middleware/asyncHandler.js';
+import { parsePageParams, paginateQuery } from '../utils/pagination.js';
+import { NOTIFICATION_TYPES } from '../utils/notificationService.js';
+import {
+  preferencesRef,
+  getNotificationPreferences as loadNotificationPreferences,
+  toPublicPreferences,
+  validatePreferencesUpdate,
+} from '../utils/notificationPreferences.js';
+import { validateSubscription, saveSubscription, removeSubscription } from '../utils/pushSubscriptions.js';
+
+// Firestore batches take at most 500 writes
+const BATCH_SIZE = 500;
 
 // Helper function to safely get notifications collection
 const getNotificationsCollection = () => {
@@ -10,27 +22,68 @@ const getNotificationsCollection = () => {
   return db.collection('notifications');
 };
 
+// Load a notification that belongs to the logged-in user (404/403 otherwise)
+const getOwnedNotification = async (req, res) => {
+  const notifRef = getNotificationsCollection().doc(req.params.id);
+  const doc = await notifRef.get();
+
+  if (!doc.exists) {
+    res.status(404);
+    throw new Error('Notification not found');
+  }
+
+  // ตรวจสอบว่าเป็นเจ้าของ
+  if (doc.data().userId !== req.user.uid) {
+    res.status(403);
+    throw new Error('Unauthorized');
+  }
+
+  return notifRef;
+};
+
 /**
- * @desc    ดึงการแจ้งเตือนทั้งหมดของผู้ใช้
+ * @desc    ดึงการแจ้งเตือนของผู้ใช้ (ใหม่สุดก่อน, แบ่งหน้า)
  * @route   GET /api/notifications
  * @access  Private
+ * @note    ?limit=20&cursor=<nextCursor>&type=<new_booking|booking_update|match_accepted|chat|...>
  */
-export const getUserNotifications = asyncHandler(async (req, res, next) => {
+export const getUserNotifications = asyncHandler(async (req, res) => {
   const userId = req.user.uid;
-  const notificationsCollection = getNotificationsCollection();
+  const { type } = req.query;
 
-  const snapshot = await notificationsCollection
-    .where('userId', '==', userId)
-    .orderBy('createdAt', 'desc')
-    .limit(50) // จำกัด 50 อันล่าสุด
-    .get();
+  if (type && !NOTIFICATION_TYPES.includes(type)) {
+    res.status(400);
+    throw new Error(`Invalid notification type. Use one of: ${NOTIFICATION_TYPES.join(', ')}`);
+  }
+
+  const page = parsePageParams(req.query);
+  if (!page) {
+    res.status(400);
+    throw new Error('Invalid cursor');
+  }
+
+  let query = getNotificationsCollection().where('userId', '==', userId);
+  if (type) query = query.where('type', '==', type);
 
-  const notifications = [];
-  snapshot.forEach(doc => {
-    notifications.push({ id: doc.id, ...doc.data() });
-  });
+  const { docs, nextCursor } = await paginateQuery(query, page, 'createdAt', 'desc');
+  const notifications = docs.map(doc => ({ id: doc.id, ...doc.data() }));
 
-  res.json({ success: true, count: notifications.length, data: notifications });
+  res.json({ success: true, count: notifications.length, data: notifications, nextCursor });
+});
+
+/**
+ * @desc    จำนวนการแจ้งเตือนที่ยังไม่ได้อ่าน (badge ที่กระดิ่ง)
+ * @route   GET /api/notifications/unread-count
+ * @access  Private
+ */
+export const getUnreadNotificationCount = asyncHandler(async (req, res) => {
+  const snapshot = await getNotificationsCollection()
+    .where('userId', '==', req.user.uid)
+    .where('read', '==', false)
+    .count()
+    .get();
+
+  res.json({ success: true, data: { unread: snapshot.data().count } });
 });
 
 /**
@@ -38,28 +91,132 @@ export const getUserNotifications = asyncHandler(async (req, res, next) => {
  * @route   PUT /api/notifications/:id/read
  * @access  Private
  */
-export const markAsRead = asyncHandler(async (req, res, next) => {
-  const userId = req.user.uid;
-  const { id } = req.params;
-  const notificationsCollection = getNotificationsCollection();
+export const markAsRead = asyncHandler(async (req, res) => {
+  const notifRef = await getOwnedNotification(req, res);
 
-  const notifRef = notificationsCollection.doc(id);
-  const doc = await notifRef.get();
+  await notifRef.update({ read: true });
 
-  if (!doc.exists) {
-    const error = new Error('Notification not found');
-    error.status = 404;
-    return next(error);
+  res.json({ success: true, message: 'ทำเครื่องหมายว่าอ่านแล้ว' });
+});
+
+/**
+ * @desc    ทำเครื่องหมายว่า "อ่านแล้ว" ทั้งหมด
+ * @route   PUT /api/notifications/read-all
+ * @access  Private
+ */
+export const markAllAsRead = asyncHandler(async (req, res) => {
+  const snapshot = await getNotificationsCollection()
+    .where('userId', '==', req.user.uid)
+    .where('read', '==', false)
+    .get();
+
+  for (let i = 0; i < snapshot.docs.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    snapshot.docs.slice(i, i + BATCH_SIZE).forEach(doc => batch.update(doc.ref, { read: true }));
+    await batch.commit();
   }
 
-  // ตรวจสอบว่าเป็นเจ้าของ
-  if (doc.data().userId !== userId) {
-    const error = new Error('Unauthorized');
-    error.status = 403;
-    return next(error);
+  res.json({ success: true, data: { updated: snapshot.size } });
+});
+
+/**
+ * @desc    ลบการแจ้งเตือน
+ * @route   DELETE /api/notifications/:id
+ * @access  Private
+ */
+export const deleteNotification = asyncHandler(async (req, res) => {
+  const notifRef = await getOwnedNotification(req, res);
+
+  await notifRef.delete();
+
+  res.json({ success: true, message: 'ลบการแจ้งเตือนแล้ว' });
+});
+
+
+/**
+ * @desc    ดูการตั้งค่าการแจ้งเตือน (ประเภท, ช่องทาง, ช่วงเวลางดแจ้งเตือน)
+ * @route   GET /api/notifications/preferences
+ * @access  Private
+ */
+export const getNotificationPreferences = asyncHandler(async (req, res) => {
+  const preferences = await loadNotificationPreferences(req.user.uid);
+
+  res.json({ success: true, data: toPublicPreferences(preferences) });
+});
+
+/**
+ * @desc    แก้ไขการตั้งค่าการแจ้งเตือน (ส่งเฉพาะส่วนที่เปลี่ยน)
+ * @route   PUT /api/notifications/preferences
+ * @access  Private
+ * @note    { types?: { chat: false }, channels?: { email: true }, quietHours?: { enabled, start, end, timezone },
+ *            line?: { notifyToken | userId: string | null } }
+ */
+export const updateNotificationPreferences = asyncHandler(async (req, res) => {
+  const { update, error } = validatePreferencesUpdate(req.body);
+  if (error) {
+    res.status(400);
+    throw new Error(error);
   }
 
-  await notifRef.update({ read: true });
+  const ref = preferencesRef(req.user.uid);
+  // set() creates the document; update() is needed for the dotted field paths
+  await ref.set({ updatedAt: new Date().toISOString() }, { merge: true });
+  if (Object.keys(update).length > 0) await ref.update(update);
 
-  res.json({ success: true, message: 'ทำเครื่องหมายว่าอ่านแล้ว' });
-});
\ No newline at end of file
+  const preferences = await loadNotificationPreferences(req.user.uid);
+  res.json({ success: true, data: toPublicPreferences(preferences) });
+});
+
+/**
+ * @desc    VAPID public key สำหรับสมัครรับ web push (null = เซิร์ฟเวอร์ยังไม่ได้ตั้งค่า)
+ * @route   GET /api/notifications/push/public-key
+ * @access  Private
+ */
+export const getPushPublicKey = asyncHandler(async (req, res) => {
+  res.json({ success: true, data: { publicKey: process.env.VAPID_PUBLIC_KEY || null } });
+});
+
+/**
+ * @desc    บันทึก push subscription ของอุปกรณ์นี้
+ * @route   POST /api/notifications/push/subscriptions
+ * @access  Private
+ * @note    body คือ PushSubscription.toJSON(): { endpoint, keys: { p256dh, auth } }
+ */
+export const subscribePush = asyncHandler(async (req, res) => {
+  if (!process.env.VAPID_PUBLIC_KEY) {
+    res.status(503);
+    throw new Error('Web push is not configured on this server');
+  }
+
+  const error = validateSubscription(req.body);
+  if (error) {
+    res.status(400);
+    throw new Error(error);
+  }
+
+  const id = await saveSubscription(req.user.uid, req.body, req.get('user-agent'));
+
+  res.status(201).json({ success: true, data: { id } });
+});
+
+/**
+ * @desc    ยกเลิก push subscription ของอุปกรณ์นี้
+ * @route   DELETE /api/notifications/push/subscriptions
+ * @access  Private
+ * @note    body: { endpoint }
+ */
+export const unsubscribePush = asyncHandler(async (req, res) => {
+  const { endpoint } = req.body || {};
+  if (typeof endpoint !== 'string' || !endpoint) {
+    res.status(400);
+    throw new Error('endpoint is required');
+  }
+
+  const removed = await removeSubscription(endpoint, req.user.uid);
+  if (!removed) {
+    res.status(404);
+    throw new Error('Subscription not found');
+  }
+
+  res.json({ success: true, message: 'ยกเลิกการแจ้งเตือนบนอุปกรณ์นี้แล้ว' });
+});
@@ -1,20 +1,62 @@
 // src/controllers/productController.js
 import admin from "firebase-admin";
+import { indexProduct, removeProduct } from "../utils/searchIndex.js";
+import { geoFields } from "../utils/geo.js";
+import { parsePageParams, paginateFiltered } from "../utils/pagination.js";
+import { setAuditDetails } from "../utils/auditLog.js";
 
 const db = admin.firestore();
 
+const MAX_PRODUCT_IMAGES = 5;
+const isHttpUrl = (value) => typeof value === "string" && /^https?:\/\//.test(value);
+
+/**
+ * Normalise product images in place. Images are uploaded through /api/uploads first;
+ * the product only keeps their URLs (`images`: full size, `imageVariants`: every size).
+ * @returns {string|null} Error message, or null when valid
+ */
+const normalizeImages = (data) => {
+  if (Array.isArray(data.imageVariants)) {
+    data.imageVariants = data.imageVariants.map(variant => ({
+      url: variant?.url,
+      medium: variant?.medium || variant?.url,
+      thumbnail: variant?.thumbnail || variant?.url,
+    }));
+    data.images = data.imageVariants.map(variant => variant.url);
+  } else {
+    data.images = Array.isArray(data.images) ? data.images : [];
+    data.imageVariants = data.images.map(url => ({ url, medium: url, thumbnail: url }));
+  }
+
+  if (data.images.length > MAX_PRODUCT_IMAGES) {
+    return `A product can have at most ${MAX_PRODUCT_IMAGES} images`;
+  }
+  const urls = data.imageVariants.flatMap(variant => [variant.url, variant.medium, variant.thumbnail]);
+  if (!urls.every(isHttpUrl)) {
+    return "Images must be uploaded via /api/uploads/images; only image URLs are stored";
+  }
+  return null;
+};
+
 /**
  * @desc    Get all products (for Marketplace - shows posts from all users)
  * @route   GET /api/products/all
  * @access  Private
  * @note    This endpoint returns ALL posts from ALL users for the marketplace view
+ *          Paginated newest first: ?limit=20&cursor=<nextCursor>
  */
 export const getAllProducts = async (req, res) => {
   try {
-    const snapshot = await db.collection("products").get();
+    const page = parsePageParams(req.query);
+    if (!page) {
+      return res.status(400).json({ success: false, message: "Invalid cursor" });
+    }
+
+    // Listings hidden by moderation (e.g. a banned seller) stay out of the marketplace
+    const { docs, nextCursor } = await paginateFiltered(db.collection("products"), page, "createdDate", "desc", (doc) => !doc.get("hidden"));
     const products = [];
 
-    snapshot.forEach((doc) => {
+    docs.forEach((doc) => {
       const productData = doc.data();
       // Ensure images is always an array
       if (!Array.isArray(productData.images)) {
@@ -29,7 +71,7 @@ export const getAllProducts = async (req, res) => {
     });
 
     console.log(`📦 getAllProducts: Returning ${products.length} products from all users`);
-    res.status(200).json({ success: true, data: products });
+    res.status(200).json({ success: true, data: products, nextCursor });
   } catch (err) {
     console.error("🔥 getAllProducts error:", err);
     console.error("🔥 Error details:", {
@@ -107,6 +149,36 @@ export const getMyProducts = async (req, res) => {
  */
 export const getProducts = getAllProducts;
 
+/**
+ * @desc    Get a single product
+ * @route   GET /api/products/:id
+ * @access  Private
+ */
+export const getProductById = async (req, res) => {
+  try {
+    const productDoc = await db.collection("products").doc(req.params.id).get();
+    if (!productDoc.exists) {
+      return res.status(404).json({ success: false, message: "Product not found" });
+    }
+
+    const productData = productDoc.data();
+    // Hidden listings are only visible to their owner and admins
+    if (productData.hidden && String(productData.userId) !== String(req.user.uid) && req.user.role !== 'admin') {
+      return res.status(404).json({ success: false, message: "Product not found" });
+    }
+    if (!Array.isArray(productData.images)) {
+      productData.images = [];
+    }
+    if (productData.userId) {
+      productData.userId = String(productData.userId);
+    }
+    res.status(200).json({ success: true, data: { id: productDoc.id, ...productData } });
+  } catch (err) {
+    console.error("🔥 getProductById error:", err);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+};
+
 export const createProduct = async (req, res) => {
   try {
     const data = req.body;
@@ -136,28 +208,19 @@ export const createProduct = async (req, res) => {
     console.log(`📝 createProduct - Storing userId in product: ${data.userId}`);
 
     data.createdDate = new Date().toISOString();
+    // Rating aggregates are only changed by reviews (reviewController.js)
     data.rating = 0;
     data.reviewCount = 0;
-    // Ensure images is always an array
-    data.images = Array.isArray(data.images) ? data.images : [];
-
-    // FIREBASE FIRESTORE LIMIT CHECK:
-    // Firestore has a limit of ~1MB per array field
-    // Calculate total size of images array (base64 strings)
-    if (data.images.length > 0) {
-      const imagesSize = JSON.stringify(data.images).length;
-      const maxSize = 1000000; // ~1MB in bytes (Firestore limit is 1,048,487 bytes)
-      
-      console.log(`📊 Images array size: ${imagesSize} bytes (max: ${maxSize} bytes)`);
-      
-      if (imagesSize > maxSize) {
-        console.error(`🔥 createProduct error: Images array too large (${imagesSize} bytes > ${maxSize} bytes)`);
-        return res.status(400).json({
-          success: false,
-          message: `รูปภาพมีขนาดใหญ่เกินไป (${Math.round(imagesSize / 1024)}KB > ${Math.round(maxSize / 1024)}KB). กรุณาลดจำนวนหรือขนาดรูปภาพ`,
-          error: `Images array size (${imagesSize} bytes) exceeds Firestore limit (${maxSize} bytes)`
-        });
-      }
+    data.ratingSum = 0;
+    // Moderation fields (utils/userModeration.js)
+    delete data.hidden;
+    delete data.hiddenReason;
+    delete data.hiddenAt;
+    delete data.transferredFrom;
+    delete data.transferredAt;
+    const imageError = normalizeImages(data);
+    if (imageError) {
+      return res.status(400).json({ success: false, message: imageError });
     }
 
     // Validate and ensure location is properly formatted
@@ -170,6 +233,9 @@ export const createProduct = async (req, res) => {
         });
       }
     }
+    // geohash is derived from location (used by radius search), never taken from the client
+    delete data.geohash;
+    Object.assign(data, geoFields(data.location));
 
     // Ensure npk is an object with numbers
     if (!data.npk || typeof data.npk !== 'object') {
@@ -184,11 +250,14 @@ export const createProduct = async (req, res) => {
 
     // Ensure numeric fields are numbers
     data.quantity = typeof data.quantity === 'number' ? data.quantity : 0;
+    data.reservedQuantity = 0; // Managed by bookings (see utils/stockReservation.js)
     data.price = typeof data.price === 'number' ? data.price : 0;
     data.distance = typeof data.distance === 'number' ? data.distance : 0;
 
     // Ensure boolean fields are booleans
-    data.verified = typeof data.verified === 'boolean' ? data.verified : false;
+    // verified follows the seller's farm verification (verificationController.js), never the client
+    const sellerDoc = await db.collection("users").doc(userId).get();
+    data.verified = sellerDoc.exists && sellerDoc.data().verified === true;
     data.sold = typeof data.sold === 'boolean' ? data.sold : false;
 
     console.log("📦 Creating product with data:", {
@@ -200,6 +269,7 @@ export const createProduct = async (req, res) => {
     });
 
     const ref = await db.collection("products").add(data);
+    indexProduct(ref.id, data);
 
     res.status(201).json({
       success: true,
@@ -280,33 +350,79 @@ export const updateProduct = async (req, res) => {
       });
     }
 
-    // Ensure images is always an array if provided
-    if (data.images !== undefined) {
-      data.images = Array.isArray(data.images) ? data.images : [];
-      
-      // FIREBASE FIRESTORE LIMIT CHECK:
-      // Firestore has a limit of ~1MB per array field
-      if (data.images.length > 0) {
-        const imagesSize = JSON.stringify(data.images).length;
-        const maxSize = 1000000; // ~1MB in bytes
-        
-        console.log(`📊 Update: Images array size: ${imagesSize} bytes (max: ${maxSize} bytes)`);
-        
-        if (imagesSize > maxSize) {
-          console.error(`🔥 updateProduct error: Images array too large (${imagesSize} bytes > ${maxSize} bytes)`);
-          return res.status(400).json({
-            success: false,
-            message: `รูปภาพมีขนาดใหญ่เกินไป (${Math.round(imagesSize / 1024)}KB > ${Math.round(maxSize / 1024)}KB). กรุณาลดจำนวนหรือขนาดรูปภาพ`,
-            error: `Images array size (${imagesSize} bytes) exceeds Firestore limit (${maxSize} bytes)`
-          });
-        }
+    if (data.images !== undefined || data.imageVariants !== undefined) {
+      const imageError = normalizeImages(data);
+      if (imageError) {
+        return res.status(400).json({ success: false, message: imageError });
       }
     }
 
     // Prevent userId from being changed (security measure)
     delete data.userId;
+    // Reserved stock is owned by bookings, never by the client
+    delete data.reservedQuantity;
+    // Rating aggregates are only changed by reviews (reviewController.js)
+    delete data.rating;
+    delete data.reviewCount;
+    delete data.ratingSum;
+    // verified is only set by farm verification approval
+    delete data.verified;
+    // Moderation fields (utils/userModeration.js)
+    delete data.hidden;
+    delete data.hiddenReason;
+    delete data.hiddenAt;
+    delete data.transferredFrom;
+    delete data.transferredAt;
+    // geohash follows location
+    delete data.geohash;
+    if (data.location !== undefined) {
+      if (!data.location || typeof data.location.lat !== 'number' || typeof data.location.lng !== 'number') {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid location format. lat and lng must be numbers."
+        });
+      }
+      Object.assign(data, geoFields(data.location));
+    }
+
+    if (data.quantity !== undefined && typeof data.quantity !== 'number') {
+      return res.status(400).json({
+        success: false,
+        message: "ปริมาณต้องเป็นตัวเลข",
+        error: "Quantity must be a number"
+      });
+    }
+
+    // Stock cannot drop below what active bookings already hold. Bookings reserve stock in
+    // transactions (utils/stockReservation.js), so the check and the write share one too
+    const productRef = db.collection("products").doc(id);
+    const result = await db.runTransaction(async (t) => {
+      const currentDoc = await t.get(productRef);
+      if (!currentDoc.exists) return { notFound: true };
+
+      const current = currentDoc.data();
+      const changes = { ...data };
+      if (data.quantity !== undefined) {
+        const reservedQuantity = Number(current.reservedQuantity) || 0;
+        if (data.quantity < reservedQuantity) return { reservedQuantity };
+        changes.sold = data.quantity - reservedQuantity <= 0;
+      }
 
-    await db.collection("products").doc(id).update(data);
+      t.update(productRef, changes);
+      return { product: { ...current, ...changes } };
+    });
+
+    if (result.notFound) {
+      return res.status(404).json({ success: false, message: "Product not found" });
+    }
+    if (result.reservedQuantity !== undefined) {
+      return res.status(400).json({
+        success: false,
+        message: `ปริมาณต้องไม่น้อยกว่าที่ถูกจองไว้แล้ว (${result.reservedQuantity} กก.)`,
+        error: `Quantity must be a number not less than reserved quantity (${result.reservedQuantity})`
+      });
+    }
+    indexProduct(id, result.product);
 
     console.log(`📦 updateProduct: User ${userId} updated product ${id}`);
     res.status(200).json({ success: true, message: "Updated" });
@@ -370,6 +486,8 @@ export const deleteProduct = async (req, res) => {
     }
 
     await db.collection("products").doc(id).delete();
+    removeProduct(id);
+    setAuditDetails(res, { targetType: "product", targetId: id, before: productData });
 
     console.log(`📦 deleteProduct: User ${userId} deleted product ${id}`);
     res.status(200).json({ success: true, message: "Deleted" });
@@ -0,0 +1,297 @@
+import asyncHandler from '../middleware/asyncHandler.js';
+import { db } from '../config/firebaseConfig.js';
+import admin from 'firebase-admin'; // Required for FieldValue
+import { createNotification } from '../utils/notificationService.js';
+import { parsePageParams, paginateQuery } from '../utils/pagination.js';
+import { suspendUser } from '../utils/userModeration.js';
+import { setAuditDetails } from '../utils/auditLog.js';
+import {
+  REPORT_TARGET_TYPES,
+  REPORT_STATUSES,
+  OPEN_STATUSES,
+  REPORT_REASONS,
+  loadReportTarget,
+  setContentHidden,
+} from '../utils/contentReports.js';
+
+/**
+ * Content reports from users and the admin moderation queue (see utils/contentReports.js).
+ * Acting on a report closes every open report on the same target and tells each reporter.
+ */
+
+const MAX_DETAILS_LENGTH = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Admin actions and the status they leave the report in
+const REPORT_ACTIONS = {
+  hide: 'actioned',
+  warn: 'actioned',
+  suspend: 'actioned',
+  dismiss: 'dismissed',
+};
+
+const targetLabels = {
+  product: 'listing',
+  community_post: 'post',
+  comment: 'comment',
+  chat_message: 'message',
+  user: 'account',
+};
+
+// @desc    Report a product, community post, comment, chat message or user
+// @route   POST /api/reports   { targetType, targetId, reason, details?, context?: { postId?, chatRoomId? } }
+// @access  Private
+const createReport = asyncHandler(async (req, res) => {
+  const { targetType, targetId, reason, details, context = {} } = req.body;
+  const reporterId = String(req.user.uid);
+
+  if (!REPORT_TARGET_TYPES.includes(targetType)) {
+    res.status(400);
+    throw new Error(`Invalid targetType. Use one of: ${REPORT_TARGET_TYPES.join(', ')}`);
+  }
+  if (!targetId) {
+    res.status(400);
+    throw new Error('targetId is required');
+  }
+  if (!REPORT_REASONS.includes(reason)) {
+    res.status(400);
+    throw new Error(`Invalid reason. Use one of: ${REPORT_REASONS.join(', ')}`);
+  }
+  if (details !== undefined && (typeof details !== 'string' || details.length > MAX_DETAILS_LENGTH)) {
+    res.status(400);
+    throw new Error(`details must be text of at most ${MAX_DETAILS_LENGTH} characters`);
+  }
+
+  const reportContext = {
+    ...(context.postId ? { postId: String(context.postId) } : {}),
+    ...(context.chatRoomId ? { chatRoomId: String(context.chatRoomId) } : {}),
+  };
+  const target = await loadReportTarget(targetType, targetId, reportContext);
+  if (!target) {
+    res.status(404);
+    throw new Error('Reported content not found');
+  }
+  if (target.ownerId === reporterId) {
+    res.status(400);
+    throw new Error('You cannot report your own content');
+  }
+  // Only the people in a chat can report its messages
+  if (target.participants && !target.participants.includes(reporterId)) {
+    res.status(403);
+    throw new Error('Not authorized to report this message');
+  }
+
+  const existing = await db.collection('reports')
+    .where('reporterId', '==', reporterId)
+    .where('targetType', '==', targetType)
+    .where('targetId', '==', String(targetId))
+    .get();
+  if (existing.docs.some(doc => OPEN_STATUSES.includes(doc.get('status')))) {
+    res.status(409);
+    throw new Error('You already reported this and it is being reviewed');
+  }
+
+  const now = new Date().toISOString();
+  const report = {
+    targetType,
+    targetId: String(targetId),
+    context: reportContext,
+    targetOwnerId: target.ownerId,
+    targetPreview: target.preview,
+    reporterId,
+    reporterName: req.user.displayName || '',
+    reason,
+    details: (details || '').trim(),
+    status: 'pending',
+    resolution: null,
+    history: [{ status: 'pending', by: reporterId, at: now }],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const ref = await db.collection('reports').add(report);
+  res.status(201).json({ success: true, data: { id: ref.id, ...report } });
+});
+
+// @desc    Moderation queue (pending/reviewing oldest first, closed ones newest first)
+// @route   GET /api/admin/reports?status=pending&targetType=
+// @access  Private/Admin
+const getReports = asyncHandler(async (req, res) => {
+  const { status = 'pending', targetType } = req.query;
+
+  if (!REPORT_STATUSES.includes(status)) {
+    res.status(400);
+    throw new Error(`Invalid status. Use one of: ${REPORT_STATUSES.join(', ')}`);
+  }
+  if (targetType && !REPORT_TARGET_TYPES.includes(targetType)) {
+    res.status(400);
+    throw new Error(`Invalid targetType. Use one of: ${REPORT_TARGET_TYPES.join(', ')}`);
+  }
+
+  const page = parsePageParams(req.query);
+  if (!page) {
+    res.status(400);
+    throw new Error('Invalid cursor');
+  }
+
+  let query = db.collection('reports').where('status', '==', status);
+  if (targetType) query = query.where('targetType', '==', targetType);
+
+  const { docs, nextCursor } = await paginateQuery(
+    query,
+    page,
+    'createdAt',
+    OPEN_STATUSES.includes(status) ? 'asc' : 'desc'
+  );
+
+  res.status(200).json({ success: true, data: docs.map(doc => ({ id: doc.id, ...doc.data() })), nextCursor });
+});
+
+const loadOpenReport = async (reportId, res) => {
+  const doc = await db.collection('reports').doc(reportId).get();
+  if (!doc.exists) {
+    res.status(404);
+    throw new Error('Report not found');
+  }
+  if (!OPEN_STATUSES.includes(doc.get('status'))) {
+    res.status(409);
+    throw new Error(`Report is already ${doc.get('status')}`);
+  }
+  return { id: doc.id, ...doc.data() };
+};
+
+// @desc    Pick up a report for review (so other admins can see it is being handled)
+// @route   PUT /api/admin/reports/:id/review
+// @access  Private/Admin
+const startReview = asyncHandler(async (req, res) => {
+  const report = await loadOpenReport(req.params.id, res);
+  const now = new Date().toISOString();
+  const adminId = String(req.user.uid);
+
+  await db.collection('reports').doc(report.id).update({
+    status: 'reviewing',
+    reviewerId: adminId,
+    updatedAt: now,
+    history: admin.firestore.FieldValue.arrayUnion({ status: 'reviewing', by: adminId, at: now }),
+  });
+  setAuditDetails(res, {
+    action: 'report.review',
+    targetType: 'report',
+    targetId: report.id,
+    before: { status: report.status },
+    after: { status: 'reviewing' },
+  });
+
+  res.status(200).json({ success: true, data: { ...report, status: 'reviewing', reviewerId: adminId, updatedAt: now } });
+});
+
+// @desc    Resolve a report: hide the content, warn or suspend its owner, or dismiss
+// @route   POST /api/admin/reports/:id/action   { action: 'hide'|'warn'|'suspend'|'dismiss', note?, days? }
+// @access  Private/Admin
+// @note    Every open report on the same target is closed the same way; reporters are notified
+const actOnReport = asyncHandler(async (req, res) => {
+  const { action, note = '', days } = req.body;
+  const adminId = String(req.user.uid);
+
+  if (!Object.hasOwn(REPORT_ACTIONS, action)) {
+    res.status(400);
+    throw new Error(`Invalid action. Use one of: ${Object.keys(REPORT_ACTIONS).join(', ')}`);
+  }
+  if (typeof note !== 'string' || note.length > MAX_DETAILS_LENGTH) {
+    res.status(400);
+    throw new Error(`note must be text of at most ${MAX_DETAILS_LENGTH} characters`);
+  }
+  if (days !== undefined && (typeof days !== 'number' || days <= 0)) {
+    res.status(400);
+    throw new Error('days must be a positive number');
+  }
+
+  const report = await loadOpenReport(req.params.id, res);
+  const label = targetLabels[report.targetType];
+  const target = await loadReportTarget(report.targetType, report.targetId, report.context);
+
+  if (action === 'hide') {
+    const hidden = report.targetType !== 'user' && await setContentHidden(report.targetType, report.targetId, report.context, true);
+    if (!hidden) {
+      res.status(400);
+      throw new Error(report.targetType === 'user' ? 'Accounts cannot be hidden; suspend them instead' : 'Reported content no longer exists');
+    }
+  }
+  if (action === 'warn') {
+    await createNotification(
+      report.targetOwnerId,
+      'warning',
+      `Your ${label} was reported and goes against our community guidelines${note ? `: ${note}` : '.'} Repeated violations may lead to suspension.`,
+      target?.link || null
+    );
+  }
+  if (action === 'suspend') {
+    if (report.targetOwnerId === adminId) {
+      res.status(400);
+      throw new Error('You cannot suspend yourself');
+    }
+    const ownerDoc = await db.collection('users').doc(report.targetOwnerId).get();
+    if (!ownerDoc.exists) {
+      res.status(404);
+      throw new Error('User not found');
+    }
+    await suspendUser(report.targetOwnerId, ownerDoc.data(), {
+      reason: note || `Reported ${label}: ${report.reason}`,
+      until: days ? new Date(Date.now() + days * DAY_MS).toISOString() : null,
+      by: adminId,
+    });
+  }
+
+  // Close every open report on this target the same way
+  const status = REPORT_ACTIONS[action];
+  const now = new Date().toISOString();
+  const resolution = { action, note, by: adminId, at: now };
+  const related = await db.collection('reports')
+    .where('targetType', '==', report.targetType)
+    .where('targetId', '==', report.targetId)
+    .get();
+  const open = related.docs.filter(doc => OPEN_STATUSES.includes(doc.get('status')));
+
+  const batch = db.batch();
+  open.forEach(doc => batch.update(doc.ref, {
+    status,
+    resolution,
+    updatedAt: now,
+    history: admin.firestore.FieldValue.arrayUnion({ status, by: adminId, at: now, ...(note ? { note } : {}) }),
+  }));
+  await batch.commit();
+
+  setAuditDetails(res, {
+    action: `report.${action}`,
+    targetType: 'report',
+    targetId: report.id,
+    before: { status: report.status },
+    after: { status, resolution },
+    metadata: {
+      reportTargetType: report.targetType,
+      reportTargetId: report.targetId,
+      targetOwnerId: report.targetOwnerId,
+      closedReportIds: open.map(doc => doc.id),
+      ...(action === 'suspend' ? { days: days || null } : {}),
+    },
+  });
+
+  const message = status === 'actioned'
+    ? `Thanks for your report. We reviewed the ${label} you reported and took action.`
+    : `Thanks for your report. We reviewed the ${label} you reported and found it does not break our guidelines.`;
+  await Promise.all([...new Set(open.map(doc => doc.get('reporterId')))]
+    .map(reporterId => createNotification(reporterId, 'report_update', message, null)));
+
+  res.status(200).json({
+    success: true,
+    data: { ...report, status, resolution, updatedAt: now },
+    closedReports: open.length,
+  });
+});
+
+export {
+  createReport,
+  getReports,
+  startReview,
+  actOnReport,
+};
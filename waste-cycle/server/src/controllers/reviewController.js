@@ -0,0 +1,170 @@
+import asyncHandler from '../middleware/asyncHandler.js';
+import { db } from '../config/firebaseConfig.js';
+import { createNotification } from '../utils/notificationService.js';
+import { normalizeBookingStatus } from '../utils/bookingStatus.js';
+import { getBlobStore } from '../utils/blobStore.js';
+import { parsePageParams, paginateQuery } from '../utils/pagination.js';
+import { validateReview, validateReply, addRating } from '../utils/reviews.js';
+
+/**
+ * Reviews: the buyer of a completed booking rates it once (1-5, text, photos),
+ * the seller may reply once. See utils/reviews.js for the document shape.
+ */
+
+// Paginated reviews matching `field == value`, newest first
+const listReviews = async (req, res, field, value) => {
+  const page = parsePageParams(req.query);
+  if (!page) {
+    res.status(400);
+    throw new Error('Invalid cursor');
+  }
+
+  const { docs, nextCursor } = await paginateQuery(
+    db.collection('reviews').where(field, '==', String(value)),
+    page,
+    'createdAt',
+    'desc'
+  );
+
+  res.status(200).json({ success: true, data: docs.map(doc => ({ id: doc.id, ...doc.data() })), nextCursor });
+};
+
+// @desc    Review a completed booking (buyer only, once per booking)
+// @route   POST /api/reviews
+// @access  Private
+const createReview = asyncHandler(async (req, res) => {
+  const { bookingId } = req.body;
+  const userId = String(req.user.uid);
+
+  if (!bookingId || typeof bookingId !== 'string') {
+    res.status(400);
+    throw new Error('bookingId is required');
+  }
+
+  const store = await getBlobStore();
+  const { review: fields, error } = validateReview(req.body, store.owns);
+  if (error) {
+    res.status(400);
+    throw new Error(error);
+  }
+
+  const bookingRef = db.collection('bookings').doc(bookingId);
+  // The booking id doubles as the review id, so a second review for the same booking is a conflict
+  const reviewRef = db.collection('reviews').doc(bookingId);
+
+  // Review and both aggregates are written together, so concurrent reviews never lose a rating
+  const review = await db.runTransaction(async (t) => {
+    const [bookingDoc, existingReview] = await Promise.all([t.get(bookingRef), t.get(reviewRef)]);
+
+    if (!bookingDoc.exists) {
+      res.status(404);
+      throw new Error('Booking not found');
+    }
+
+    const booking = bookingDoc.data();
+    if (String(booking.buyerId) !== userId) {
+      res.status(403);
+      throw new Error('Only the buyer of this booking can review it');
+    }
+    if (normalizeBookingStatus(booking.status) !== 'completed') {
+      res.status(409);
+      throw new Error('Only completed bookings can be reviewed');
+    }
+    if (existingReview.exists) {
+      res.status(409);
+      throw new Error('This booking has already been reviewed');
+    }
+
+    const productRef = db.collection('products').doc(String(booking.productId));
+    const sellerRef = db.collection('users').doc(String(booking.sellerId));
+    const buyerRef = db.collection('users').doc(userId);
+    const [productDoc, sellerDoc, buyerDoc] = await Promise.all([t.get(productRef), t.get(sellerRef), t.get(buyerRef)]);
+
+    const review = {
+      bookingId,
+      productId: String(booking.productId),
+      productTitle: productDoc.exists ? productDoc.data().title || '' : '',
+      sellerId: String(booking.sellerId),
+      buyerId: userId,
+      buyerName: (buyerDoc.exists && buyerDoc.data().name) || req.user.displayName || 'ผู้ซื้อ',
+      ...fields,
+      reply: null,
+      createdAt: new Date().toISOString(),
+    };
+
+    t.set(reviewRef, review);
+    t.update(bookingRef, { reviewId: reviewRef.id });
+    if (productDoc.exists) t.update(productRef, addRating(productDoc.data(), fields.rating));
+    if (sellerDoc.exists) t.update(sellerRef, addRating(sellerDoc.data(), fields.rating));
+
+    return review;
+  });
+
+  await createNotification(
+    review.sellerId,
+    'new_review',
+    `${review.buyerName} gave ${review.rating}/5 stars to ${review.productTitle || 'your product'}.`,
+    `/products/${review.productId}`
+  );
+
+  res.status(201).json({ success: true, data: { id: reviewRef.id, ...review } });
+});
+
+// @desc    Reply to a review of one of my products (seller only, once)
+// @route   PUT /api/reviews/:id/reply
+// @access  Private
+const replyToReview = asyncHandler(async (req, res) => {
+  const { text, error } = validateReply(req.body.text);
+  if (error) {
+    res.status(400);
+    throw new Error(error);
+  }
+
+  const reviewRef = db.collection('reviews').doc(req.params.id);
+
+  const review = await db.runTransaction(async (t) => {
+    const reviewDoc = await t.get(reviewRef);
+
+    if (!reviewDoc.exists) {
+      res.status(404);
+      throw new Error('Review not found');
+    }
+
+    const review = reviewDoc.data();
+    if (review.sellerId !== String(req.user.uid)) {
+      res.status(403);
+      throw new Error('Only the seller can reply to this review');
+    }
+    if (review.reply) {
+      res.status(409);
+      throw new Error('This review already has a reply');
+    }
+
+    const reply = { text, createdAt: new Date().toISOString() };
+    t.update(reviewRef, { reply });
+    return { ...review, reply };
+  });
+
+  res.status(200).json({ success: true, data: { id: reviewRef.id, ...review } });
+});
+
+// @desc    Reviews of a product (newest first, paginated)
+// @route   GET /api/reviews/product/:productId
+// @access  Private
+const getProductReviews = asyncHandler(async (req, res) => {
+  await listReviews(req, res, 'productId', req.params.productId);
+});
+
+// @desc    Reviews of a seller across all their products (newest first, paginated)
+// @route   GET /api/reviews/seller/:sellerId
+// @access  Private
+const getSellerReviews = asyncHandler(async (req, res) => {
+  await listReviews(req, res, 'sellerId', req.params.sellerId);
+});
+
+export {
+  createReview,
+  replyToReview,
+  getProductReviews,
+  getSellerReviews,
+};
@@ -0,0 +1,75 @@
+import asyncHandler from '../middleware/asyncHandler.js';
+import { randomUUID } from 'crypto';
+import { storeImage } from '../utils/imageProcessor.js';
+import { getBlobStore } from '../utils/blobStore.js';
+
+// PDF files start with "%PDF-"; the declared mimetype alone is not trusted
+const PDF_MAGIC = Buffer.from('%PDF-');
+
+// Blob key prefix per kind of upload
+const UPLOAD_FOLDERS = ['products', 'chat', 'reviews', 'verifications'];
+
+// @desc    Upload images (multipart field "images"); returns URLs of each stored size
+// @route   POST /api/uploads/images?folder=products
+// @access  Private
+const uploadImages = asyncHandler(async (req, res) => {
+  const folder = req.query.folder || 'products';
+  if (!UPLOAD_FOLDERS.includes(folder)) {
+    res.status(400);
+    throw new Error(`Unknown folder. Use one of: ${UPLOAD_FOLDERS.join(', ')}`);
+  }
+
+  const files = req.files || [];
+  if (files.length === 0) {
+    res.status(400);
+    throw new Error('No images uploaded');
+  }
+
+  const images = [];
+  for (const file of files) {
+    try {
+      images.push(await storeImage(file.buffer, `${folder}/${req.user.uid}`));
+    } catch (error) {
+      console.error(`Failed to process image ${file.originalname}:`, error.message);
+      res.status(400);
+      throw new Error(`Could not read image: ${file.originalname}`);
+    }
+  }
+
+  res.status(201).json({ success: true, data: images });
+});
+
+// @desc    Upload PDF documents (multipart field "files"), e.g. lab NPK certificates in chat
+// @route   POST /api/uploads/files?folder=chat
+// @access  Private
+const uploadFiles = asyncHandler(async (req, res) => {
+  const folder = req.query.folder || 'chat';
+  if (!UPLOAD_FOLDERS.includes(folder)) {
+    res.status(400);
+    throw new Error(`Unknown folder. Use one of: ${UPLOAD_FOLDERS.join(', ')}`);
+  }
+
+  const files = req.files || [];
+  if (files.length === 0) {
+    res.status(400);
+    throw new Error('No files uploaded');
+  }
+
+  const invalid = files.find(file => !file.buffer.subarray(0, PDF_MAGIC.length).equals(PDF_MAGIC));
+  if (invalid) {
+    res.status(400);
+    throw new Error(`Not a PDF file: ${invalid.originalname}`);
+  }
+
+  const store = await getBlobStore();
+  const stored = [];
+  for (const file of files) {
+    const id = randomUUID();
+    const url = await store.put(`${folder}/${req.user.uid}/${id}/document.pdf`, file.buffer, file.mimetype);
+    stored.push({ id, url, name: file.originalname, size: file.size, contentType: file.mimetype });
+  }
+
+  res.status(201).json({ success: true, data: stored });
+});
+
+export { uploadImages, uploadFiles };
@@ -1,5 +1,9 @@
 import asyncHandler from '../middleware/asyncHandler.js';
 import { db, auth } from '../config/firebaseConfig.js';
+import admin from 'firebase-admin'; // Required for FieldValue
+import { parsePageParams, paginateQuery } from '../utils/pagination.js';
+import { USER_ROLES, syncUserClaims } from '../utils/userClaims.js';
+import { setAuditDetails } from '../utils/auditLog.js';
 
 /**
  * @desc    Get user profile from Firestore
@@ -180,6 +184,10 @@ const updateUserProfile = asyncHandler(async (req, res) => {
     location: location !== undefined ? location : userDoc.data().location,
     updatedAt: new Date().toISOString(),
   };
+  // Users are never searched by radius; drop the geohash older profile saves wrote
+  if (userDoc.data().geohash !== undefined) {
+    updatedProfile.geohash = admin.firestore.FieldValue.delete();
+  }
 
   await userRef.update(updatedProfile);
   const newDoc = await userRef.get();
@@ -198,15 +206,22 @@ const updateUserProfile = asyncHandler(async (req, res) => {
  * @desc    Get all users (Admin only)
  * @route   GET /api/users
  * @access  Private/Admin
+ * @note    Paginated by user id (older profiles may lack createdAt): ?limit=20&cursor=<nextCursor>
  */
 const getAllUsers = asyncHandler(async (req, res) => {
-  const usersSnapshot = await db.collection('users').get();
-  const users = usersSnapshot.docs.map(doc => ({ 
+  const page = parsePageParams(req.query);
+  if (!page) {
+    res.status(400);
+    throw new Error('Invalid cursor');
+  }
+
+  const { docs, nextCursor } = await paginateQuery(db.collection('users'), page);
+  const users = docs.map(doc => ({ 
     id: doc.id, 
     uid: doc.id,
     ...doc.data() 
   }));
-  res.status(200).json({ success: true, count: users.length, users });
+  res.status(200).json({ success: true, count: users.length, users, nextCursor });
 });
 
 /**
@@ -246,17 +261,23 @@ const updateUserRole = asyncHandler(async (req, res) => {
     res.status(400);
     throw new Error('Role is required');
   }
+  if (!USER_ROLES.includes(role)) {
+    res.status(400);
+    throw new Error(`Invalid role. Use one of: ${USER_ROLES.join(', ')}`);
+  }
 
   const userRef = db.collection('users').doc(userId);
+  const before = await userRef.get();
+  if (!before.exists) {
+    res.status(404);
+    throw new Error('User not found');
+  }
   await userRef.update({ role, updatedAt: new Date().toISOString() });
 
-  // Update Firebase Auth custom claims
-  try {
-    await auth.setCustomUserClaims(userId, { role });
-  } catch (error) {
-    console.error('Error updating custom claims:', error);
-    // Continue even if custom claims update fails
-  }
+  // Update Firebase Auth custom claims (continues even if this fails)
+  const updated = await userRef.get();
+  await syncUserClaims(userId, updated.data());
+  setAuditDetails(res, { targetType: 'user', targetId: userId, before: before.data(), after: updated.data() });
 
   res.status(200).json({ success: true, message: 'User role updated' });
 });
@@ -268,8 +289,11 @@ const updateUserRole = asyncHandler(async (req, res) => {
  */
 const deleteUser = asyncHandler(async (req, res) => {
   const userId = req.params.id;
+  const userRef = db.collection('users').doc(userId);
+  const userDoc = await userRef.get();
 
-  await db.collection('users').doc(userId).delete();
+  await userRef.delete();
+  setAuditDetails(res, { targetType: 'user', targetId: userId, before: userDoc.exists ? userDoc.data() : null });
   
   // Delete from Firebase Auth
   try {
@@ -0,0 +1,201 @@
+import asyncHandler from '../middleware/asyncHandler.js';
+import { db } from '../config/firebaseConfig.js';
+import admin from 'firebase-admin'; // Required for FieldValue
+import { createNotification } from '../utils/notificationService.js';
+import { getBlobStore } from '../utils/blobStore.js';
+import { parsePageParams, paginateQuery } from '../utils/pagination.js';
+import { VERIFICATION_STATUSES, validateApplication, setProductsVerified } from '../utils/farmVerification.js';
+import { syncUserClaims } from '../utils/userClaims.js';
+import { setAuditDetails } from '../utils/auditLog.js';
+
+/**
+ * Farm verification: sellers apply with their farm registration, photos and GAP certificate,
+ * admins approve or reject from the queue. See utils/farmVerification.js for the document shape.
+ *
+ * pending -> approved (user and products become verified) | rejected (seller may apply again)
+ */
+
+const verificationRef = (userId) => db.collection('farmVerifications').doc(String(userId));
+
+// @desc    My verification application (null when I never applied)
+// @route   GET /api/farms/verification
+// @access  Private
+const getMyVerification = asyncHandler(async (req, res) => {
+  const doc = await verificationRef(req.user.uid).get();
+
+  res.status(200).json({ success: true, data: doc.exists ? { id: doc.id, ...doc.data() } : null });
+});
+
+// @desc    Apply for farm verification (again after a rejection)
+// @route   POST /api/farms/verification
+// @access  Private
+const submitVerification = asyncHandler(async (req, res) => {
+  const userId = String(req.user.uid);
+
+  const store = await getBlobStore();
+  const { application, error } = validateApplication(req.body, store.owns);
+  if (error) {
+    res.status(400);
+    throw new Error(error);
+  }
+
+  const ref = verificationRef(userId);
+  const userRef = db.collection('users').doc(userId);
+
+  const submitted = await db.runTransaction(async (t) => {
+    const [existing, userDoc] = await Promise.all([t.get(ref), t.get(userRef)]);
+
+    if (existing.exists && existing.data().status === 'pending') {
+      res.status(409);
+      throw new Error('Your application is already waiting for review');
+    }
+    if ((existing.exists && existing.data().status === 'approved') || (userDoc.exists && userDoc.data().verified)) {
+      res.status(409);
+      throw new Error('Your farm is already verified');
+    }
+
+    const user = userDoc.exists ? userDoc.data() : {};
+    const now = new Date().toISOString();
+    const submitted = {
+      userId,
+      userName: user.name || req.user.displayName || '',
+      email: user.email || req.user.email || '',
+      ...application,
+      farmName: application.farmName || user.farmName || '',
+      status: 'pending',
+      reason: '',
+      submittedAt: now,
+      reviewedAt: null,
+      reviewedBy: null,
+      history: [...(existing.exists ? existing.data().history || [] : []), { status: 'pending', at: now, by: userId }],
+    };
+
+    t.set(ref, submitted);
+    return submitted;
+  });
+
+  res.status(201).json({ success: true, data: { id: ref.id, ...submitted } });
+});
+
+// @desc    Verification applications for admins (pending: oldest first, others: newest first)
+// @route   GET /api/admin/verifications?status=pending
+// @access  Private/Admin
+const getVerificationQueue = asyncHandler(async (req, res) => {
+  const status = req.query.status || 'pending';
+  if (!VERIFICATION_STATUSES.includes(status)) {
+    res.status(400);
+    throw new Error(`Invalid status. Use one of: ${VERIFICATION_STATUSES.join(', ')}`);
+  }
+
+  const page = parsePageParams(req.query);
+  if (!page) {
+    res.status(400);
+    throw new Error('Invalid cursor');
+  }
+
+  const { docs, nextCursor } = await paginateQuery(
+    db.collection('farmVerifications').where('status', '==', status),
+    page,
+    'submittedAt',
+    status === 'pending' ? 'asc' : 'desc'
+  );
+
+  res.status(200).json({ success: true, data: docs.map(doc => ({ id: doc.id, ...doc.data() })), nextCursor });
+});
+
+/**
+ * Move a pending application to approved/rejected in one transaction (404/409 otherwise)
+ * and keep users/{uid}.verified in step
+ */
+const reviewApplication = async (req, res, status, reason = '') => {
+  const ref = verificationRef(req.params.userId);
+  const userRef = db.collection('users').doc(String(req.params.userId));
+
+  const application = await db.runTransaction(async (t) => {
+    const doc = await t.get(ref);
+
+    if (!doc.exists) {
+      res.status(404);
+      throw new Error('Verification application not found');
+    }
+    if (doc.data().status !== 'pending') {
+      res.status(409);
+      throw new Error(`Application is already ${doc.data().status}`);
+    }
+
+    const now = new Date().toISOString();
+    const adminId = String(req.user.uid);
+    const entry = { status, at: now, by: adminId, ...(reason ? { reason } : {}) };
+
+    t.update(ref, {
+      status,
+      reason,
+      reviewedAt: now,
+      reviewedBy: adminId,
+      history: admin.firestore.FieldValue.arrayUnion(entry),
+    });
+    if (status === 'approved') {
+      t.update(userRef, { verified: true, verifiedAt: now, updatedAt: now });
+    }
+
+    return { id: doc.id, ...doc.data(), status, reason, reviewedAt: now, reviewedBy: adminId };
+  });
+
+  setAuditDetails(res, {
+    action: `verification.${status === 'approved' ? 'approve' : 'reject'}`,
+    targetType: 'verification',
+    targetId: application.userId,
+    before: { status: 'pending' },
+    after: { status, reason },
+  });
+  return application;
+};
+
+// @desc    Approve a farm: the seller and all their products become verified
+// @route   PUT /api/admin/verifications/:userId/approve
+// @access  Private/Admin
+const approveVerification = asyncHandler(async (req, res) => {
+  const application = await reviewApplication(req, res, 'approved');
+  const productsUpdated = await setProductsVerified(application.userId, true);
+  const user = await db.collection('users').doc(application.userId).get();
+  await syncUserClaims(application.userId, user.data());
+
+  await createNotification(
+    application.userId,
+    'verification',
+    `Your farm${application.farmName ? ` ${application.farmName}` : ''} has been verified. Your listings now show the verified badge.`,
+    '/profile'
+  );
+
+  res.status(200).json({ success: true, data: { ...application, productsUpdated } });
+});
+
+// @desc    Reject a farm application with a reason the seller can act on
+// @route   PUT /api/admin/verifications/:userId/reject
+// @access  Private/Admin
+const rejectVerification = asyncHandler(async (req, res) => {
+  const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+  if (!reason) {
+    res.status(400);
+    throw new Error('A reason is required to reject an application');
+  }
+
+  const application = await reviewApplication(req, res, 'rejected', reason);
+
+  await createNotification(
+    application.userId,
+    'verification',
+    `Your farm verification was not approved: ${reason}`,
+    '/profile'
+  );
+
+  res.status(200).json({ success: true, data: application });
+});
+
+export {
+  getMyVerification,
+  submitVerification,
+  getVerificationQueue,
+  approveVerification,
+  rejectVerification,
+};
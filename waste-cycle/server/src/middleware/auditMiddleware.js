@@ -0,0 +1,36 @@
+// server/src/middleware/auditMiddleware.js
+import { randomUUID } from 'crypto';
+import { writeAuditLog } from '../utils/auditLog.js';
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+const MAX_REQUEST_ID_LENGTH = 128;
+
+// Every request gets an id (a proxy's X-Request-Id is kept) that is echoed back and stored in audit logs
+export const requestId = (req, res, next) => {
+  const incoming = req.get('X-Request-Id');
+  req.id = incoming && incoming.length <= MAX_REQUEST_ID_LENGTH ? incoming : randomUUID();
+  res.setHeader('X-Request-Id', req.id);
+  next();
+};
+
+/**
+ * Write an auditLogs entry once a mutating request has succeeded (utils/auditLog.js).
+ * Controllers add the target and before/after state with setAuditDetails(res, ...), or one
+ * entry per target with addAuditEntry(res, ...).
+ * @param {string} [action] - e.g. 'booking.status'; defaults to "<METHOD> <route path>"
+ */
+export const auditTrail = (action) => (req, res, next) => {
+  if (!MUTATING_METHODS.includes(req.method)) return next();
+
+  res.on('finish', () => {
+    if (res.statusCode >= 400) return;
+    const entries = res.locals.auditEntries || [res.locals.audit || {}];
+    entries.forEach(({ action: detailAction, metadata, ...details }) => writeAuditLog(req, {
+      action: detailAction || action || `${req.method} ${req.baseUrl}${req.route ? req.route.path : req.path}`,
+      statusCode: res.statusCode,
+      metadata: metadata || { params: req.params, body: req.body },
+      ...details,
+    }));
+  });
+  next();
+};
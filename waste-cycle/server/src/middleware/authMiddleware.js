@@ -172,6 +172,25 @@ const firebaseVerifyToken = async (req, res, next) => {
     }
     
     const userData = userDoc.data();
+
+    // Suspended/banned accounts keep their data but cannot use the API (utils/userModeration.js)
+    const { getAccountRestriction } = await import('../utils/userModeration.js');
+    const restriction = getAccountRestriction(userData);
+    if (restriction) {
+      const banned = restriction.code === 'ACCOUNT_BANNED';
+      return res.status(403).json({
+        success: false,
+        error: banned ? 'Account banned' : 'Account suspended',
+        code: restriction.code,
+        message: banned
+          ? 'Your account has been banned. Please contact the administrator'
+          : restriction.expiresAt
+            ? `Your account is suspended until ${restriction.expiresAt}`
+            : 'Your account has been suspended. Please contact the administrator',
+        reason: restriction.reason,
+        expiresAt: restriction.expiresAt
+      });
+    }
     
     // CRITICAL FIX: ใช้ decodedToken.uid เท่านั้น (ไม่ใช้ token string)
     // decodedToken.uid คือ Firebase User UID ที่ไม่เปลี่ยนแปลง
@@ -184,6 +203,7 @@ const firebaseVerifyToken = async (req, res, next) => {
       photoURL: userData.photoURL || userData.avatar || decodedToken.picture,
       emailVerified: decodedToken.email_verified,
       role: userData.role || 'user',
+      location: userData.location || null,
       tokenIssuedAt: new Date(decodedToken.iat * 1000).toISOString(),
       tokenExpireAt: new Date(decodedToken.exp * 1000).toISOString()
     };
@@ -310,6 +330,35 @@ export const protectTokenOnly = asyncHandler(async (req, res, next) => {
   }
 });
 
+/**
+ * Middleware สำหรับ route สาธารณะ: ถ้ามี Bearer token ที่ถูกต้องจะตั้งค่า req.user
+ * ถ้าไม่มีหรือ token ไม่ถูกต้อง จะผ่านไปแบบ anonymous (ไม่ reject)
+ */
+export const optionalAuth = async (req, res, next) => {
+  const authHeader = req.headers.authorization || req.headers.Authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return next();
+  }
+
+  try {
+    const { auth, db } = await import('../config/firebaseConfig.js');
+    const decodedToken = await auth.verifyIdToken(authHeader.split('Bearer ')[1]);
+    const userDoc = await db.collection('users').doc(decodedToken.uid).get();
+    const userData = userDoc.exists ? userDoc.data() : {};
+
+    req.user = {
+      uid: decodedToken.uid,
+      id: decodedToken.uid,
+      email: decodedToken.email,
+      role: userData.role || 'user',
+      location: userData.location || null,
+    };
+  } catch (error) {
+    console.warn(`⚠️  optionalAuth - continuing without user: ${error.message}`);
+  }
+  next();
+};
+
 /**
  * ✅ Middleware เพิ่มเติม: ตรวจสอบว่า userId ตรงกับ resource
  */
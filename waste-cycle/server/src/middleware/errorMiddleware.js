@@ -18,6 +18,11 @@ const errorHandler = (err, req, res, next) => {
     message = 'Token has been revoked.';
   }
 
+  // Upload limits (multer): too large, too many files, wrong type
+  if (err.name === 'MulterError') {
+    statusCode = 400;
+  }
+
   // Handle Firestore not found errors
   if (err.code === 5) { // 5 = NOT_FOUND in gRPC
     statusCode = 404;
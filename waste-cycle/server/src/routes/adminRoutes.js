@@ -1,18 +1,56 @@
 import express from 'express';
 import {
   getAdminDashboard,
-  manageUsers, // Corrected: Changed 'getAllUsers' to 'manageUsers'
+  getAdminUsers,
+  bulkUpdateUsers,
+  suspendUserAccount,
+  unsuspendUserAccount,
+  banUserAccount,
+  unbanUserAccount,
+  getUserModerationLog,
   manageContent,
 } from '../controllers/adminController.js';
+import {
+  getVerificationQueue,
+  approveVerification,
+  rejectVerification,
+} from '../controllers/verificationController.js';
+import {
+  getReports,
+  startReview,
+  actOnReport,
+} from '../controllers/reportController.js';
+import {
+  getAuditLogs,
+  exportAuditLogs,
+} from '../controllers/auditController.js';
 import { protect } from '../middleware/authMiddleware.js'; // Corrected: Changed 'authenticateUser' back to 'protect'
 import { admin } from '../middleware/roleMiddleware.js';
+import { auditTrail } from '../middleware/auditMiddleware.js';
 
 const router = express.Router();
 
-router.use(protect, admin); // Corrected: Use 'protect'
+router.use(protect, admin, auditTrail()); // Corrected: Use 'protect'; every change made here is audited
 
 router.get('/dashboard', getAdminDashboard);
-router.get('/users', manageUsers); // Corrected: Use the imported 'manageUsers'
+router.get('/users', getAdminUsers);
+router.post('/users/bulk', bulkUpdateUsers);
+router.post('/users/:id/suspend', suspendUserAccount);
+router.post('/users/:id/unsuspend', unsuspendUserAccount);
+router.post('/users/:id/ban', banUserAccount);
+router.post('/users/:id/unban', unbanUserAccount);
+router.get('/users/:id/moderation', getUserModerationLog);
 router.post('/content', manageContent);
 
+router.get('/verifications', getVerificationQueue);
+router.put('/verifications/:userId/approve', approveVerification);
+router.put('/verifications/:userId/reject', rejectVerification);
+
+router.get('/reports', getReports);
+router.put('/reports/:id/review', startReview);
+router.post('/reports/:id/action', actOnReport);
+
+router.get('/audit-logs', getAuditLogs);
+router.get('/audit-logs/export', exportAuditLogs);
+
 export default router;
\ No newline at end of file
@@ -6,7 +6,7 @@ import {
   updateBookingStatus,
 } from '../controllers/bookingController.js';
 import { protect } from '../middleware/authMiddleware.js';
-import { seller } from '../middleware/roleMiddleware.js';
+import { auditTrail } from '../middleware/auditMiddleware.js';
 
 const router = express.Router();
 
@@ -20,6 +20,6 @@ router.route('/:id')
   .get(protect, getBookingById);
 
 router.route('/:id/status')
-  .put(protect, seller, updateBookingStatus);
+  .put(protect, auditTrail('booking.status'), updateBookingStatus);
 
 export default router;
\ No newline at end of file
@@ -5,10 +5,16 @@ import {
   getChatRoomById,
   postMessage,
   getMessages,
+  markChatRoomRead,
+  getUnreadCount,
+  postOffer,
+  acceptChatOffer,
+  declineChatOffer,
   deleteChatRoom,
 } from '../controllers/chatController.js';
 import { protect } from '../middleware/authMiddleware.js';
 import { admin } from '../middleware/roleMiddleware.js';
+import { auditTrail } from '../middleware/auditMiddleware.js';
 
 const router = express.Router();
 
@@ -17,10 +23,17 @@ const router = express.Router();
 
 router.get('/', protect, getChatRooms);
 router.post('/', protect, createChatRoom);
+router.get('/unread-count', protect, getUnreadCount);
 
 // Messages routes (more specific - must come before /:id)
 router.get('/:id/messages', protect, getMessages);
 router.post('/:id/messages', protect, postMessage);
+router.put('/:id/read', protect, markChatRoomRead);
+
+// Offers (messages with type 'offer'; accepting creates the booking)
+router.post('/:id/offers', protect, postOffer);
+router.put('/:id/offers/:messageId/accept', protect, auditTrail('booking.status'), acceptChatOffer);
+router.put('/:id/offers/:messageId/decline', protect, declineChatOffer);
 
 // Chat room routes (less specific - must come after /:id/messages)
 router.get('/:id', protect, getChatRoomById);
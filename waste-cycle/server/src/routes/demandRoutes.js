@@ -0,0 +1,38 @@
+import express from 'express';
+import {
+  getOpenDemands,
+  getMyDemands,
+  getDemandById,
+  createDemand,
+  updateDemand,
+  closeDemand,
+  getOffers,
+  createOffer,
+  acceptOffer,
+  rejectOffer,
+} from '../controllers/demandController.js';
+import { protect } from '../middleware/authMiddleware.js';
+import { auditTrail } from '../middleware/auditMiddleware.js';
+
+const router = express.Router();
+
+// /mine must come before /:id
+router.route('/')
+  .get(protect, getOpenDemands)
+  .post(protect, createDemand);
+
+router.get('/mine', protect, getMyDemands);
+
+router.route('/:id')
+  .get(protect, getDemandById)
+  .put(protect, updateDemand)
+  .delete(protect, closeDemand);
+
+router.route('/:id/offers')
+  .get(protect, getOffers)
+  .post(protect, createOffer);
+
+router.put('/:id/offers/:offerId/accept', protect, auditTrail('booking.status'), acceptOffer);
+router.put('/:id/offers/:offerId/reject', protect, rejectOffer);
+
+export default router;
@@ -3,6 +3,7 @@ import {
   getFarmProfile,
   updateFarmProfile,
 } from '../controllers/farmController.js';
+import { getMyVerification, submitVerification } from '../controllers/verificationController.js';
 import { protect } from '../middleware/authMiddleware.js';
 import { seller } from '../middleware/roleMiddleware.js';
 
@@ -12,4 +13,9 @@ router.route('/profile')
   .get(protect, seller, getFarmProfile)
   .put(protect, seller, updateFarmProfile);
 
+// Anyone who posts listings can apply; approval is what makes them a verified farm
+router.route('/verification')
+  .get(protect, getMyVerification)
+  .post(protect, submitVerification);
+
 export default router;
\ No newline at end of file
@@ -2,6 +2,7 @@ import express from 'express';
 import {
   calculateNPK,
   getFertilizerRecommendation,
+  getFertilizerCatalog,
 } from '../controllers/fertilizerController.js';
 import { protect } from '../middleware/authMiddleware.js';
 
@@ -9,5 +10,6 @@ const router = express.Router();
 
 router.post('/calculate', protect, calculateNPK);
 router.post('/recommend', protect, getFertilizerRecommendation);
+router.get('/catalog', getFertilizerCatalog);
 
 export default router;
\ No newline at end of file
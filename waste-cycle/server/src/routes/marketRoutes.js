@@ -3,11 +3,11 @@ import {
   searchMarket,
   getProductDetails,
 } from '../controllers/marketController.js';
-import { protect } from '../middleware/authMiddleware.js';
+import { optionalAuth } from '../middleware/authMiddleware.js';
 
 const router = express.Router();
 
-router.get('/search', searchMarket); // Public search
+router.get('/search', optionalAuth, searchMarket); // Public search (uses saved location when logged in)
 router.get('/product/:id', getProductDetails); // Public view
 
 export default router;
\ No newline at end of file
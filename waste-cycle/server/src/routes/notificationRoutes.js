@@ -1,7 +1,15 @@
 import express from 'express';
 import {
   getUserNotifications,
+  getUnreadNotificationCount,
   markAsRead,
+  markAllAsRead,
+  deleteNotification,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+  getPushPublicKey,
+  subscribePush,
+  unsubscribePush,
 } from '../controllers/notificationController.js';
 import { protect } from '../middleware/authMiddleware.js';
 
@@ -10,7 +18,21 @@ const router = express.Router();
 router.route('/')
   .get(protect, getUserNotifications);
 
+// Before /:id so these are not read as notification ids
+router.get('/unread-count', protect, getUnreadNotificationCount);
+router.put('/read-all', protect, markAllAsRead);
+router.route('/preferences')
+  .get(protect, getNotificationPreferences)
+  .put(protect, updateNotificationPreferences);
+router.get('/push/public-key', protect, getPushPublicKey);
+router.route('/push/subscriptions')
+  .post(protect, subscribePush)
+  .delete(protect, unsubscribePush);
+
 router.route('/:id/read')
   .put(protect, markAsRead);
 
-export default router;
\ No newline at end of file
+router.route('/:id')
+  .delete(protect, deleteNotification);
+
+export default router;
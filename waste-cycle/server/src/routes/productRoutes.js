@@ -1,10 +1,12 @@
 // src/routes/productRoutes.js
 import express from "express";
 import { protect } from "../middleware/authMiddleware.js";
+import { auditTrail } from "../middleware/auditMiddleware.js";
 import {
   getProducts,           // Legacy endpoint - returns all products
   getAllProducts,        // Explicit endpoint for all products (Marketplace)
   getMyProducts,         // Endpoint for current user's products only (Profile/Dashboard)
+  getProductById,
   createProduct,
   updateProduct,
   deleteProduct
@@ -24,6 +26,9 @@ router.get("/all", protect, getAllProducts);
 // Filters by userId - shows only posts belonging to the logged-in user
 router.get("/my-posts", protect, getMyProducts);
 
+// Single product (after the specific routes above so /all and /my-posts are not matched as :id)
+router.get("/:id", protect, getProductById);
+
 // Create a new product (automatically assigns userId from auth)
 router.post("/", protect, createProduct);
 
@@ -31,6 +36,6 @@ router.post("/", protect, createProduct);
 router.put("/:id", protect, updateProduct);
 
 // Delete product (only owner can delete - checks userId)
-router.delete("/:id", protect, deleteProduct);
+router.delete("/:id", protect, auditTrail("product.delete"), deleteProduct);
 
 export default router;
@@ -0,0 +1,11 @@
+import express from 'express';
+import { createReport } from '../controllers/reportController.js';
+import { protect } from '../middleware/authMiddleware.js';
+
+const router = express.Router();
+
+// The moderation queue itself is under /api/admin/reports
+router.route('/')
+  .post(protect, createReport);
+
+export default router;
@@ -0,0 +1,21 @@
+import express from 'express';
+import {
+  createReview,
+  replyToReview,
+  getProductReviews,
+  getSellerReviews,
+} from '../controllers/reviewController.js';
+import { protect } from '../middleware/authMiddleware.js';
+
+const router = express.Router();
+
+router.route('/')
+  .post(protect, createReview);
+
+router.get('/product/:productId', protect, getProductReviews);
+router.get('/seller/:sellerId', protect, getSellerReviews);
+
+router.route('/:id/reply')
+  .put(protect, replyToReview);
+
+export default router;
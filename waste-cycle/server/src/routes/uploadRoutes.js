@@ -0,0 +1,30 @@
+import express from 'express';
+import multer from 'multer';
+import { uploadImages, uploadFiles } from '../controllers/uploadController.js';
+import { protect } from '../middleware/authMiddleware.js';
+import { ACCEPTED_TYPES, MAX_UPLOAD_BYTES } from '../utils/imageProcessor.js';
+import { FILE_TYPES, MAX_FILE_BYTES } from '../utils/chatAttachments.js';
+
+const MAX_FILES = 5;
+
+// Files stay in memory: they are resized/checked and written to the blob store, never to the request temp dir
+const createUpload = (types, maxBytes, label) => multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: maxBytes, files: MAX_FILES },
+  fileFilter: (req, file, cb) => {
+    if (types.includes(file.mimetype)) return cb(null, true);
+    const error = new multer.MulterError('LIMIT_UNEXPECTED_FILE', file.fieldname);
+    error.message = `Unsupported ${label} type: ${file.mimetype}`;
+    cb(error);
+  },
+});
+
+const imageUpload = createUpload(ACCEPTED_TYPES, MAX_UPLOAD_BYTES, 'image');
+const fileUpload = createUpload(FILE_TYPES, MAX_FILE_BYTES, 'file');
+
+const router = express.Router();
+
+router.post('/images', protect, imageUpload.array('images', MAX_FILES), uploadImages);
+router.post('/files', protect, fileUpload.array('files', MAX_FILES), uploadFiles);
+
+export default router;
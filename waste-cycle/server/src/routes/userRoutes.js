@@ -10,6 +10,7 @@ import {
 } from '../controllers/userController.js';
 import { protect, protectTokenOnly } from '../middleware/authMiddleware.js';
 import { admin } from '../middleware/roleMiddleware.js';
+import { auditTrail } from '../middleware/auditMiddleware.js';
 
 const router = express.Router();
 
@@ -68,13 +69,13 @@ router.get('/:id', protect, admin, getUserById);
  * @desc    Update user role (Admin only)
  * @access  Private/Admin
  */
-router.put('/:id', protect, admin, updateUserRole);
+router.put('/:id', protect, admin, auditTrail('user.role'), updateUserRole);
 
 /**
  * @route   DELETE /api/users/:id
  * @desc    Delete user (Admin only)
  * @access  Private/Admin
  */
-router.delete('/:id', protect, admin, deleteUser);
+router.delete('/:id', protect, admin, auditTrail('user.delete'), deleteUser);
 
 export default router;
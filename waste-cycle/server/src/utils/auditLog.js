@@ -0,0 +1,111 @@
+// src/utils/auditLog.js
+import { db } from '../config/firebaseConfig.js';
+import admin from 'firebase-admin'; // Required for FieldValue
+
+/**
+ * Audit trail of admin and ownership-sensitive changes: auditLogs/{id}
+ *   { action, actorId, actorRole, targetType, targetId, changes: { [field]: { before, after } },
+ *     metadata, method, path, statusCode, ip, requestId, at }
+ *
+ * Entries are written by the auditTrail middleware after a mutation succeeds and are never
+ * updated or deleted. Controllers describe what they changed with setAuditDetails, or with
+ * addAuditEntry once per target when one request changes several; a route without details is
+ * still logged with its params and body in metadata. Background jobs call writeAuditLog without
+ * a request; their entries have actorRole 'system' and no method, path or IP.
+ */
+
+const AUDIT_TARGET_TYPES = ['user', 'product', 'booking', 'report', 'verification', 'content'];
+// Bookkeeping fields that change on every write
+const IGNORED_FIELDS = ['updatedAt', 'history'];
+const MAX_VALUE_LENGTH = 500;
+const MAX_METADATA_LENGTH = 5000;
+
+// Firestore rejects undefined, FieldValue sentinels mean nothing in a diff and long values are cut
+const auditValue = (value, maxLength = MAX_VALUE_LENGTH) => {
+  if (value === undefined || value instanceof admin.firestore.FieldValue) return null;
+  const json = JSON.stringify(value, (key, v) => (v instanceof admin.firestore.FieldValue ? null : v));
+  if (json === undefined) return null;
+  return json.length > maxLength ? `${json.slice(0, maxLength)}…` : JSON.parse(json);
+};
+
+/**
+ * Fields whose value differs between two versions of a document
+ * @param {object|null} before - null for created documents
+ * @param {object|null} after - null for deleted documents
+ * @returns {Object<string, { before: *, after: * }>}
+ */
+const diffChanges = (before, after) => {
+  const changes = {};
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.includes(field)) return;
+    const previous = before ? before[field] : undefined;
+    const next = after ? after[field] : undefined;
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[field] = { before: auditValue(previous), after: auditValue(next) };
+    }
+  });
+  return changes;
+};
+
+// req.ip follows X-Forwarded-For only through the proxies trusted in server.js (TRUST_PROXY)
+const clientIp = (req) => req.ip || req.socket?.remoteAddress || null;
+
+/**
+ * Describe what the current request changed; picked up by the auditTrail middleware
+ * @param {{ action?: string, targetType?: string, targetId?: string, before?: object|null,
+ *           after?: object|null, metadata?: object }} details
+ */
+const setAuditDetails = (res, details) => {
+  res.locals.audit = { ...res.locals.audit, ...details };
+};
+
+/**
+ * Log one more entry for this request (same shape as setAuditDetails), e.g. one per user of a
+ * bulk action; when any are added they replace the single request entry
+ */
+const addAuditEntry = (res, details) => {
+  res.locals.auditEntries = [...(res.locals.auditEntries || []), details];
+};
+
+/**
+ * Append an entry to auditLogs. Failures are logged and never fail the request.
+ * @param {import('express').Request|null} req - null for background jobs
+ */
+const writeAuditLog = async (req, {
+  action,
+  targetType = null,
+  targetId = null,
+  before = null,
+  after = null,
+  metadata = {},
+  statusCode = null,
+}) => {
+  try {
+    await db.collection('auditLogs').add({
+      action,
+      actorId: req?.user ? String(req.user.uid) : null,
+      actorRole: req ? req.user?.role || null : 'system',
+      targetType,
+      targetId: targetId === null ? null : String(targetId),
+      changes: diffChanges(before, after),
+      metadata: auditValue(metadata, MAX_METADATA_LENGTH) || {},
+      method: req ? req.method : null,
+      path: req ? req.originalUrl.split('?')[0] : null,
+      statusCode,
+      ip: req ? clientIp(req) : null,
+      requestId: req?.id || null,
+      at: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error(`Error writing audit log for ${action}:`, error.message);
+  }
+};
+
+export {
+  AUDIT_TARGET_TYPES,
+  diffChanges,
+  setAuditDetails,
+  addAuditEntry,
+  writeAuditLog,
+};
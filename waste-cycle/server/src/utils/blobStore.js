@@ -0,0 +1,99 @@
+// src/utils/blobStore.js
+import { mkdir, writeFile, rm } from 'fs/promises';
+import { fileURLToPath } from 'url';
+import { dirname, join, resolve, sep } from 'path';
+
+/**
+ * Blob storage for uploaded files.
+ *
+ * Every adapter has the same shape:
+ *   put(key, buffer, contentType) → public URL
+ *   remove(key)
+ *   owns(url) → whether the URL points into this store (attachments must, see chatAttachments.js)
+ * Keys are slash-separated paths such as "products/<uid>/<imageId>/medium.webp".
+ *
+ * BLOB_STORE selects the adapter: "local" (files under server/uploads, served at /uploads — dev and tests)
+ * or "gcs" (the Firebase Storage bucket). Defaults to gcs in production and local everywhere else.
+ */
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const LOCAL_UPLOAD_DIR = process.env.LOCAL_UPLOAD_DIR || join(__dirname, '..', '..', 'uploads');
+const LOCAL_PUBLIC_PATH = '/uploads';
+
+// Local disk adapter
+const createLocalBlobStore = ({
+  rootDir = LOCAL_UPLOAD_DIR,
+  baseUrl = process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 8000}`,
+} = {}) => {
+  const root = resolve(rootDir);
+
+  // Keep every key inside rootDir
+  const pathFor = (key) => {
+    const filePath = resolve(root, key);
+    if (!filePath.startsWith(root + sep)) throw new Error(`Invalid blob key: ${key}`);
+    return filePath;
+  };
+
+  const publicPrefix = `${baseUrl}${LOCAL_PUBLIC_PATH}/`;
+
+  return {
+    name: 'local',
+    rootDir: root,
+    put: async (key, buffer) => {
+      const filePath = pathFor(key);
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(filePath, buffer);
+      return `${publicPrefix}${key}`;
+    },
+    remove: async (key) => {
+      await rm(pathFor(key), { force: true });
+    },
+    owns: (url) => typeof url === 'string' && url.startsWith(publicPrefix),
+  };
+};
+
+// Google Cloud Storage adapter (the Firebase Storage bucket from firebaseConfig.js)
+const createCloudStorageBlobStore = (bucket) => ({
+  name: 'gcs',
+  put: async (key, buffer, contentType) => {
+    const file = bucket.file(key);
+    await file.save(buffer, {
+      resumable: false,
+      contentType,
+      metadata: { cacheControl: 'public, max-age=31536000, immutable' },
+    });
+    await file.makePublic();
+    return `https://storage.googleapis.com/${bucket.name}/${encodeURI(key)}`;
+  },
+  remove: async (key) => {
+    await bucket.file(key).delete({ ignoreNotFound: true });
+  },
+  owns: (url) => typeof url === 'string' && url.startsWith(`https://storage.googleapis.com/${bucket.name}/`),
+});
+
+let blobStore = null;
+
+// Adapter for this process (created on first use)
+const getBlobStore = async () => {
+  if (blobStore) return blobStore;
+
+  const adapter = process.env.BLOB_STORE || (process.env.NODE_ENV === 'production' ? 'gcs' : 'local');
+  if (adapter === 'gcs') {
+    const { bucket } = await import('../config/firebaseConfig.js');
+    blobStore = createCloudStorageBlobStore(bucket);
+  } else if (adapter === 'local') {
+    blobStore = createLocalBlobStore();
+  } else {
+    throw new Error(`Unknown BLOB_STORE: ${adapter}`);
+  }
+  return blobStore;
+};
+
+export {
+  LOCAL_UPLOAD_DIR,
+  LOCAL_PUBLIC_PATH,
+  createLocalBlobStore,
+  createCloudStorageBlobStore,
+  getBlobStore,
+};
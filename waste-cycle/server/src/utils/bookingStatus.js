@@ -0,0 +1,54 @@
+// src/utils/bookingStatus.js
+
+// Booking lifecycle (same statuses BookingPage.tsx renders)
+const BOOKING_STATUSES = ['requested', 'accepted', 'confirmed', 'in-transit', 'completed', 'cancelled'];
+
+// Legal transitions: current status -> next status -> roles allowed to make the move
+// - Seller accepts the request, then confirms it is ready for pickup
+// - Buyer can cancel any time before pickup (in-transit); seller can only decline before confirming
+// - Either party can mark the pickup in-transit and the delivery completed
+const bookingTransitions = {
+  requested: { accepted: ['seller'], cancelled: ['buyer', 'seller'] },
+  accepted: { confirmed: ['seller'], cancelled: ['buyer', 'seller'] },
+  confirmed: { 'in-transit': ['buyer', 'seller'], cancelled: ['buyer'] },
+  'in-transit': { completed: ['buyer', 'seller'] },
+  completed: {},
+  cancelled: {},
+};
+
+// Notification text sent to the other party for each transition
+const bookingStatusMessages = {
+  accepted: 'has been accepted by the seller',
+  confirmed: 'has been confirmed and is ready for pickup',
+  'in-transit': 'is now in transit',
+  completed: 'has been completed',
+  cancelled: 'has been cancelled',
+};
+
+// Bookings created before the state machine were stored as 'pending'
+const normalizeBookingStatus = (status) => (status === 'pending' ? 'requested' : status);
+
+// Returns 'buyer', 'seller' or null when the user is not part of the booking
+const getBookingRole = (booking, userId) => {
+  const uid = String(userId);
+  if (String(booking.buyerId) === uid) return 'buyer';
+  if (String(booking.sellerId) === uid) return 'seller';
+  return null;
+};
+
+const getAllowedTransitions = (status, role) => {
+  const transitions = bookingTransitions[normalizeBookingStatus(status)] || {};
+  return Object.keys(transitions).filter(next => transitions[next].includes(role));
+};
+
+const canTransitionBooking = (status, nextStatus, role) =>
+  getAllowedTransitions(status, role).includes(nextStatus);
+
+export {
+  BOOKING_STATUSES,
+  bookingStatusMessages,
+  normalizeBookingStatus,
+  getBookingRole,
+  getAllowedTransitions,
+  canTransitionBooking,
+};
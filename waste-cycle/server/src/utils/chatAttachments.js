@@ -0,0 +1,94 @@
+// src/utils/chatAttachments.js
+
+/**
+ * Attachments on chat messages.
+ *
+ * Files are uploaded first (POST /api/uploads/images or /api/uploads/files with folder=chat);
+ * the message only carries their URLs, which must point into our blob store.
+ *   { type: 'image', url, medium, thumbnail, width?, height? }
+ *   { type: 'file', url, name, size, contentType }        PDF only (lab certificates)
+ *   { type: 'location', lat, lng, label? }
+ */
+
+const MAX_ATTACHMENTS = 5;
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+const FILE_TYPES = ['application/pdf'];
+const MAX_LABEL_LENGTH = 200;
+
+// Shown as the room's lastMessage when a message has no text
+const ATTACHMENT_PREVIEWS = {
+  image: '📷 รูปภาพ',
+  file: '📄 ไฟล์แนบ',
+  location: '📍 ตำแหน่ง',
+};
+
+const isFiniteNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+
+const normalizeAttachment = (attachment, owns) => {
+  switch (attachment?.type) {
+    case 'image': {
+      const { url, medium = url, thumbnail = url } = attachment;
+      if (![url, medium, thumbnail].every(owns)) return { error: 'Image attachments must be uploaded first' };
+      return {
+        value: {
+          type: 'image',
+          url,
+          medium,
+          thumbnail,
+          width: isFiniteNumber(attachment.width) ? attachment.width : null,
+          height: isFiniteNumber(attachment.height) ? attachment.height : null,
+        },
+      };
+    }
+    case 'file': {
+      const { url, name, size, contentType } = attachment;
+      if (!owns(url)) return { error: 'File attachments must be uploaded first' };
+      if (!FILE_TYPES.includes(contentType)) return { error: `Unsupported file type. Allowed: ${FILE_TYPES.join(', ')}` };
+      if (!isFiniteNumber(size) || size <= 0 || size > MAX_FILE_BYTES) {
+        return { error: `Files must be at most ${MAX_FILE_BYTES / (1024 * 1024)}MB` };
+      }
+      return { value: { type: 'file', url, name: String(name || 'file.pdf').slice(0, MAX_LABEL_LENGTH), size, contentType } };
+    }
+    case 'location': {
+      const { lat, lng, label } = attachment;
+      if (!isFiniteNumber(lat) || !isFiniteNumber(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+        return { error: 'Location attachments need valid lat and lng' };
+      }
+      return { value: { type: 'location', lat, lng, label: label ? String(label).slice(0, MAX_LABEL_LENGTH) : '' } };
+    }
+    default:
+      return { error: `Unknown attachment type. Use one of: ${Object.keys(ATTACHMENT_PREVIEWS).join(', ')}` };
+  }
+};
+
+/**
+ * Validate the attachments of a new message
+ * @param {unknown} attachments - From the request body
+ * @param {(url: string) => boolean} owns - Blob store check (blobStore.owns)
+ * @returns {{ attachments: object[] } | { error: string }}
+ */
+const validateAttachments = (attachments, owns) => {
+  if (attachments === undefined || attachments === null) return { attachments: [] };
+  if (!Array.isArray(attachments)) return { error: 'attachments must be an array' };
+  if (attachments.length > MAX_ATTACHMENTS) return { error: `A message can have at most ${MAX_ATTACHMENTS} attachments` };
+
+  const normalized = [];
+  for (const attachment of attachments) {
+    const { value, error } = normalizeAttachment(attachment, owns);
+    if (error) return { error };
+    normalized.push(value);
+  }
+  return { attachments: normalized };
+};
+
+// Room list preview for a message
+const describeMessage = (text, attachments) =>
+  text || (attachments.length > 0 ? ATTACHMENT_PREVIEWS[attachments[0].type] : '');
+
+export {
+  MAX_ATTACHMENTS,
+  MAX_FILE_BYTES,
+  FILE_TYPES,
+  validateAttachments,
+  describeMessage,
+};
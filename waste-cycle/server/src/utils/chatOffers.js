@@ -0,0 +1,58 @@
+// src/utils/chatOffers.js
+
+/**
+ * Structured offers inside a chat room.
+ *
+ * An offer is a chat message with type 'offer' and an `offer` map:
+ *   { quantity, unit, pricePerUnit, pickupDate, deliveryOption, note, status, bookingId?, respondedAt? }
+ *
+ * status: pending -> accepted (booking created) | declined | countered (the other side sent new terms)
+ *                 | withdrawn (the sender replaced it with new terms)
+ * A room has at most one pending offer (chatRooms/{id}.pendingOfferId).
+ */
+
+const DELIVERY_OPTIONS = ['pickup', 'delivery'];
+const MAX_NOTE_LENGTH = 500;
+
+const isPositiveNumber = (value) => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+/**
+ * Validate offer terms from a request body
+ * @returns {{ terms: object } | { error: string }}
+ */
+const validateOfferTerms = ({ quantity, pricePerUnit, pickupDate, deliveryOption = 'pickup', note } = {}) => {
+  if (!isPositiveNumber(quantity) || !isPositiveNumber(pricePerUnit)) {
+    return { error: 'quantity and pricePerUnit must be positive numbers' };
+  }
+  if (!pickupDate || Number.isNaN(Date.parse(pickupDate))) {
+    return { error: 'pickupDate is required' };
+  }
+  if (!DELIVERY_OPTIONS.includes(deliveryOption)) {
+    return { error: `deliveryOption must be one of: ${DELIVERY_OPTIONS.join(', ')}` };
+  }
+  return {
+    terms: {
+      quantity,
+      pricePerUnit,
+      pickupDate,
+      deliveryOption,
+      note: note ? String(note).slice(0, MAX_NOTE_LENGTH) : '',
+    },
+  };
+};
+
+// Room list preview for an offer message
+const describeOffer = (offer) => `💰 ข้อเสนอ ${offer.quantity} ${offer.unit || 'kg'} × ฿${offer.pricePerUnit}`;
+
+// Room list preview when an offer is answered
+const offerResponsePreviews = {
+  accepted: '✅ ตอบรับข้อเสนอแล้ว',
+  declined: '❌ ปฏิเสธข้อเสนอ',
+};
+
+export {
+  DELIVERY_OPTIONS,
+  validateOfferTerms,
+  describeOffer,
+  offerResponsePreviews,
+};
@@ -0,0 +1,47 @@
+// src/utils/chatRooms.js
+import { sendToUsers, rememberParticipants } from './chatSocket.js';
+
+/**
+ * Chat room as seen by one participant (adds the other participant's id and name,
+ * and how many messages this participant has not read yet)
+ * @param {string} id - Chat room ID
+ * @param {object} data - Chat room document data
+ * @param {string} userId - Viewing user
+ */
+const formatChatRoom = (id, data, userId) => {
+  // SAFETY CHECK: Ensure participants is an array and convert to strings
+  const participants = Array.isArray(data.participants)
+    ? data.participants.map(p => String(p))
+    : [];
+  const userIdStr = String(userId);
+  const participantIndex = participants.findIndex(pid => pid !== userIdStr);
+
+  return {
+    id,
+    ...data,
+    participants,
+    otherParticipantId: participants.find(pid => pid !== userIdStr) || null,
+    otherParticipantName: (Array.isArray(data.participantNames) && participantIndex >= 0)
+      ? data.participantNames[participantIndex]
+      : 'Unknown',
+    unreadCount: data.unreadCounts?.[userIdStr] || 0,
+  };
+};
+
+/**
+ * Push a room's current state to each participant over the chat socket
+ * @param {string} id - Chat room ID
+ * @param {object} data - Chat room document data (after the change)
+ */
+const publishRoom = (id, data) => {
+  const participants = Array.isArray(data.participants) ? data.participants.map(p => String(p)) : [];
+  rememberParticipants(id, participants);
+  for (const participantId of participants) {
+    sendToUsers([participantId], { type: 'room', room: formatChatRoom(id, data, participantId) });
+  }
+};
+
+export {
+  formatChatRoom,
+  publishRoom,
+};
@@ -0,0 +1,202 @@
+// src/utils/chatSocket.js
+import { WebSocketServer } from 'ws';
+import { auth, db } from '../config/firebaseConfig.js';
+import { getAccountRestriction } from './userModeration.js';
+
+/**
+ * Real-time chat channel (WebSocket at /ws/chat).
+ *
+ * Protocol (JSON frames):
+ *   client → server  { type: 'auth', token }                      first frame, Firebase ID token (same as `protect`)
+ *                    { type: 'typing', roomId, isTyping }
+ *   server → client  { type: 'ready', uid }
+ *                    { type: 'message', roomId, message }          new message in a room the user is in
+ *                    { type: 'room', room }                        room created or changed (last message, status)
+ *                    { type: 'typing', roomId, userId, isTyping }
+ *
+ * Events only go to room participants. The socket closes with 4401 when the token expires
+ * so the client reconnects with a fresh one, and with 4403 for suspended or banned accounts
+ * (refused at auth, and open sockets are closed by utils/userModeration.js).
+ * Connections live in this process's memory, so this assumes a single API instance.
+ */
+
+const SOCKET_PATH = '/ws/chat';
+const AUTH_TIMEOUT_MS = 10 * 1000;
+const HEARTBEAT_MS = 30 * 1000;
+const PARTICIPANTS_TTL_MS = 5 * 60 * 1000;
+
+const CLOSE_UNAUTHORIZED = 4401;
+const CLOSE_RESTRICTED = 4403;
+
+// uid -> Set<WebSocket>
+const connections = new Map();
+// roomId -> { participants, expiresAt }; saves a read per typing event
+const participantsCache = new Map();
+
+const send = (socket, event) => {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(event));
+};
+
+/**
+ * Push an event to every open connection of these users
+ * @param {string[]} userIds
+ * @param {object} event
+ */
+const sendToUsers = (userIds, event) => {
+  for (const userId of userIds) {
+    for (const socket of connections.get(String(userId)) || []) send(socket, event);
+  }
+};
+
+/**
+ * Close every chat connection of a user (account suspended or banned)
+ * @param {string} userId
+ */
+const disconnectUser = (userId) => {
+  for (const socket of connections.get(String(userId)) || []) socket.close(CLOSE_RESTRICTED, 'Account restricted');
+};
+
+// Whether the user has at least one open chat connection
+const isUserConnected = (userId) => (connections.get(String(userId))?.size || 0) > 0;
+
+const rememberParticipants = (roomId, participants) => {
+  participantsCache.set(roomId, { participants: participants.map(String), expiresAt: Date.now() + PARTICIPANTS_TTL_MS });
+};
+
+const getParticipants = async (roomId) => {
+  const cached = participantsCache.get(roomId);
+  if (cached && cached.expiresAt > Date.now()) return cached.participants;
+
+  const roomDoc = await db.collection('chatRooms').doc(roomId).get();
+  const participants = roomDoc.exists && Array.isArray(roomDoc.data().participants) ? roomDoc.data().participants : [];
+  rememberParticipants(roomId, participants);
+  return participants.map(String);
+};
+
+const register = (socket, uid) => {
+  if (!connections.has(uid)) connections.set(uid, new Set());
+  connections.get(uid).add(socket);
+};
+
+const unregister = (socket, uid) => {
+  const sockets = connections.get(uid);
+  if (!sockets) return;
+  sockets.delete(socket);
+  if (sockets.size === 0) connections.delete(uid);
+};
+
+const authenticate = async (socket, token) => {
+  const decodedToken = await auth.verifyIdToken(token, true);
+
+  // Same account check as authMiddleware's protect
+  const userDoc = await db.collection('users').doc(decodedToken.uid).get();
+  if (getAccountRestriction(userDoc.exists ? userDoc.data() : {})) {
+    socket.close(CLOSE_RESTRICTED, 'Account restricted');
+    return;
+  }
+
+  // The client may have gone while the token was checked; its close handler has already run
+  // without a uid, so registering now would leave a dead socket in connections
+  if (socket.readyState !== socket.OPEN) return;
+
+  socket.uid = decodedToken.uid;
+  register(socket, socket.uid);
+
+  // Make the client reconnect with a fresh token before this one stops being valid
+  const expiresInMs = decodedToken.exp * 1000 - Date.now();
+  socket.expiryTimer = setTimeout(() => socket.close(CLOSE_UNAUTHORIZED, 'Token expired'), Math.max(expiresInMs, 0));
+
+  send(socket, { type: 'ready', uid: socket.uid });
+};
+
+const relayTyping = async (socket, { roomId, isTyping }) => {
+  if (typeof roomId !== 'string' || !roomId) return;
+  const participants = await getParticipants(roomId);
+  if (!participants.includes(socket.uid)) return;
+
+  sendToUsers(
+    participants.filter(id => id !== socket.uid),
+    { type: 'typing', roomId, userId: socket.uid, isTyping: !!isTyping }
+  );
+};
+
+const handleFrame = async (socket, raw) => {
+  let frame;
+  try {
+    frame = JSON.parse(raw.toString());
+  } catch {
+    return;
+  }
+
+  if (!socket.uid) {
+    if (frame.type !== 'auth' || typeof frame.token !== 'string') {
+      socket.close(CLOSE_UNAUTHORIZED, 'Authenticate first');
+      return;
+    }
+    try {
+      await authenticate(socket, frame.token);
+    } catch (error) {
+      console.warn(`⚠️  chatSocket - authentication failed: ${error.code || error.message}`);
+      socket.close(CLOSE_UNAUTHORIZED, 'Invalid token');
+    }
+    return;
+  }
+
+  if (frame.type === 'typing') {
+    await relayTyping(socket, frame);
+  }
+};
+
+/**
+ * Attach the chat WebSocket server to the HTTP server
+ * @param {import('http').Server} server
+ */
+const attachChatSocket = (server) => {
+  const wss = new WebSocketServer({ server, path: SOCKET_PATH });
+
+  wss.on('connection', (socket) => {
+    socket.isAlive = true;
+    socket.on('pong', () => { socket.isAlive = true; });
+
+    const authTimer = setTimeout(() => {
+      if (!socket.uid) socket.close(CLOSE_UNAUTHORIZED, 'Authentication timeout');
+    }, AUTH_TIMEOUT_MS);
+
+    socket.on('message', (raw) => {
+      handleFrame(socket, raw).catch((error) => {
+        console.error('❌ chatSocket - failed to handle frame:', error.message);
+      });
+    });
+
+    socket.on('close', () => {
+      clearTimeout(authTimer);
+      clearTimeout(socket.expiryTimer);
+      if (socket.uid) unregister(socket, socket.uid);
+    });
+  });
+
+  // Drop connections that stopped answering pings
+  const heartbeat = setInterval(() => {
+    for (const socket of wss.clients) {
+      if (!socket.isAlive) {
+        socket.terminate();
+        continue;
+      }
+      socket.isAlive = false;
+      socket.ping();
+    }
+  }, HEARTBEAT_MS);
+  wss.on('close', () => clearInterval(heartbeat));
+
+  console.log(`🔌 Chat WebSocket listening on ${SOCKET_PATH}`);
+  return wss;
+};
+
+export {
+  SOCKET_PATH,
+  attachChatSocket,
+  sendToUsers,
+  disconnectUser,
+  isUserConnected,
+  rememberParticipants,
+};
@@ -0,0 +1,117 @@
+// src/utils/contentReports.js
+import { db } from '../config/firebaseConfig.js';
+
+/**
+ * Content reports: reports/{id}
+ *   { targetType, targetId, context: { postId?, chatRoomId? }, targetOwnerId, targetPreview,
+ *     reporterId, reporterName, reason, details, status, resolution: { action, note, by, at } | null,
+ *     history: [{ status, by, at, note? }], createdAt, updatedAt }
+ *
+ * pending -> reviewing (an admin picked it up) -> actioned (hide / warn / suspend) | dismissed
+ *
+ * Comments live in communityPosts/{postId}.comments and chat messages in
+ * chatRooms/{chatRoomId}/messages, so those targets need the parent id in context.
+ * Hidden content keeps its data (hidden: true) and can be shown again by an admin.
+ */
+
+const REPORT_TARGET_TYPES = ['product', 'community_post', 'comment', 'chat_message', 'user'];
+const REPORT_STATUSES = ['pending', 'reviewing', 'actioned', 'dismissed'];
+const OPEN_STATUSES = ['pending', 'reviewing'];
+const REPORT_REASONS = ['spam', 'scam', 'misleading', 'inappropriate', 'harassment', 'other'];
+const MAX_PREVIEW_LENGTH = 200;
+
+const preview = (text) => String(text || '').slice(0, MAX_PREVIEW_LENGTH);
+
+/**
+ * Load what a report points at
+ * @param {string} targetType - One of REPORT_TARGET_TYPES
+ * @param {string} targetId
+ * @param {{ postId?: string, chatRoomId?: string }} context
+ * @returns {Promise<{ ownerId: string, preview: string, link: string|null, participants?: string[] } | null>}
+ *          null when the target does not exist
+ */
+const loadReportTarget = async (targetType, targetId, context = {}) => {
+  const id = String(targetId);
+
+  if (targetType === 'product') {
+    const doc = await db.collection('products').doc(id).get();
+    return doc.exists ? { ownerId: String(doc.get('userId')), preview: preview(doc.get('title')), link: `/products/${id}` } : null;
+  }
+  if (targetType === 'community_post') {
+    const doc = await db.collection('communityPosts').doc(id).get();
+    return doc.exists ? { ownerId: String(doc.get('userId')), preview: preview(doc.get('title') || doc.get('content')), link: null } : null;
+  }
+  if (targetType === 'comment') {
+    if (!context.postId) return null;
+    const doc = await db.collection('communityPosts').doc(String(context.postId)).get();
+    const comment = doc.exists ? (doc.get('comments') || []).find(c => c.id === id) : null;
+    return comment ? { ownerId: String(comment.userId), preview: preview(comment.text), link: null } : null;
+  }
+  if (targetType === 'chat_message') {
+    if (!context.chatRoomId) return null;
+    const roomRef = db.collection('chatRooms').doc(String(context.chatRoomId));
+    const [room, message] = await Promise.all([roomRef.get(), roomRef.collection('messages').doc(id).get()]);
+    if (!room.exists || !message.exists) return null;
+    return {
+      ownerId: String(message.get('senderId')),
+      preview: preview(message.get('text') || (message.get('type') === 'offer' ? '[offer]' : '[attachment]')),
+      link: `/chat/${roomRef.id}`,
+      participants: (room.get('participants') || []).map(String),
+    };
+  }
+  if (targetType === 'user') {
+    const doc = await db.collection('users').doc(id).get();
+    return doc.exists ? { ownerId: id, preview: preview(doc.get('name') || doc.get('email')), link: null } : null;
+  }
+  return null;
+};
+
+/**
+ * Hide or show reported content again (users cannot be hidden; suspend them instead)
+ * @returns {Promise<boolean>} false when the target type cannot be hidden or no longer exists
+ */
+const setContentHidden = async (targetType, targetId, context = {}, hidden) => {
+  const id = String(targetId);
+  const now = new Date().toISOString();
+  const flags = { hidden, hiddenAt: hidden ? now : null };
+
+  if (targetType === 'product') {
+    const ref = db.collection('products').doc(id);
+    if (!(await ref.get()).exists) return false;
+    await ref.update({ ...flags, hiddenReason: hidden ? 'reported' : null });
+    return true;
+  }
+  if (targetType === 'community_post') {
+    const ref = db.collection('communityPosts').doc(id);
+    if (!(await ref.get()).exists) return false;
+    await ref.update(flags);
+    return true;
+  }
+  if (targetType === 'comment') {
+    const ref = db.collection('communityPosts').doc(String(context.postId));
+    // Comments are array entries, so the whole array is rewritten in a transaction
+    return db.runTransaction(async (t) => {
+      const doc = await t.get(ref);
+      const comments = doc.exists ? doc.get('comments') || [] : [];
+      if (!comments.some(c => c.id === id)) return false;
+      t.update(ref, { comments: comments.map(c => (c.id === id ? { ...c, ...flags } : c)) });
+      return true;
+    });
+  }
+  if (targetType === 'chat_message') {
+    const ref = db.collection('chatRooms').doc(String(context.chatRoomId)).collection('messages').doc(id);
+    if (!(await ref.get()).exists) return false;
+    await ref.update(flags);
+    return true;
+  }
+  return false;
+};
+
+export {
+  REPORT_TARGET_TYPES,
+  REPORT_STATUSES,
+  OPEN_STATUSES,
+  REPORT_REASONS,
+  loadReportTarget,
+  setContentHidden,
+};
@@ -0,0 +1,90 @@
+// src/utils/farmVerification.js
+import { db } from '../config/firebaseConfig.js';
+
+/**
+ * Farm verification applications: farmVerifications/{uid} (one per seller, resubmitted after a rejection)
+ *   { userId, userName, email, farmName, registrationNumber, livestockType, livestockCount,
+ *     photos: [{ url, medium, thumbnail }], gapCertificate: { url, name, size, contentType } | null,
+ *     status: 'pending' | 'approved' | 'rejected', reason, submittedAt, reviewedAt, reviewedBy,
+ *     history: [{ status, at, by, reason? }] }
+ *
+ * Files are uploaded first with folder=verifications. Approval sets `verified` on users/{uid}
+ * and on every product of the seller; nothing else writes that flag.
+ */
+
+const VERIFICATION_STATUSES = ['pending', 'approved', 'rejected'];
+const MAX_VERIFICATION_PHOTOS = 5;
+const MAX_CERTIFICATE_BYTES = 5 * 1024 * 1024;
+const MAX_TEXT_LENGTH = 100;
+// Firestore batches take at most 500 writes
+const BATCH_SIZE = 500;
+
+const optionalText = (value) => (typeof value === 'string' ? value.trim().slice(0, MAX_TEXT_LENGTH) : '');
+
+/**
+ * Validate an application from the request body
+ * @param {object} body - { farmName?, registrationNumber, livestockType?, livestockCount, photos, gapCertificate? }
+ * @param {(url: string) => boolean} owns - Blob store check (blobStore.owns)
+ * @returns {{ application: object } | { error: string }}
+ */
+const validateApplication = ({ farmName, registrationNumber, livestockType, livestockCount, photos, gapCertificate } = {}, owns) => {
+  const registration = optionalText(registrationNumber);
+  if (!registration) return { error: 'registrationNumber is required' };
+
+  if (!Number.isInteger(livestockCount) || livestockCount < 1) {
+    return { error: 'livestockCount must be a whole number of at least 1' };
+  }
+
+  if (!Array.isArray(photos) || photos.length === 0) return { error: 'At least one farm photo is required' };
+  if (photos.length > MAX_VERIFICATION_PHOTOS) return { error: `At most ${MAX_VERIFICATION_PHOTOS} farm photos` };
+  const normalizedPhotos = [];
+  for (const photo of photos) {
+    const { url, medium = url, thumbnail = url } = photo || {};
+    if (![url, medium, thumbnail].every(owns)) return { error: 'Farm photos must be uploaded first' };
+    normalizedPhotos.push({ url, medium, thumbnail });
+  }
+
+  // GAP certificate is optional (PDF, as returned by /api/uploads/files)
+  let certificate = null;
+  if (gapCertificate) {
+    const { url, name, size, contentType } = gapCertificate;
+    if (!owns(url)) return { error: 'The GAP certificate must be uploaded first' };
+    if (contentType !== 'application/pdf') return { error: 'The GAP certificate must be a PDF' };
+    if (typeof size !== 'number' || size <= 0 || size > MAX_CERTIFICATE_BYTES) {
+      return { error: `The GAP certificate must be at most ${MAX_CERTIFICATE_BYTES / (1024 * 1024)}MB` };
+    }
+    certificate = { url, name: optionalText(name) || 'gap-certificate.pdf', size, contentType };
+  }
+
+  return {
+    application: {
+      farmName: optionalText(farmName),
+      registrationNumber: registration,
+      livestockType: optionalText(livestockType),
+      livestockCount,
+      photos: normalizedPhotos,
+      gapCertificate: certificate,
+    },
+  };
+};
+
+/**
+ * Set `verified` on every product of a seller (in batches)
+ * @returns {Promise<number>} How many products were updated
+ */
+const setProductsVerified = async (userId, verified) => {
+  const snapshot = await db.collection('products').where('userId', '==', String(userId)).get();
+
+  for (let i = 0; i < snapshot.docs.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    snapshot.docs.slice(i, i + BATCH_SIZE).forEach(doc => batch.update(doc.ref, { verified }));
+    await batch.commit();
+  }
+  return snapshot.size;
+};
+
+export {
+  VERIFICATION_STATUSES,
+  validateApplication,
+  setProductsVerified,
+};
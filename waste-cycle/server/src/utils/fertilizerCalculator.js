@@ -1,55 +1,266 @@
 // src/utils/fertilizerCalculator.js
+import { animals, getManureComposition } from './manureComposition.js';
 
-// Basic NPK values for different waste types (example values)
-const npkValues = {
-  cow: { n: 0.5, p: 0.2, k: 0.4 },
-  chicken: { n: 1.1, p: 0.8, k: 0.5 },
-  pig: { n: 0.6, p: 0.4, k: 0.3 },
-  // ... more types
-};
-
-// Crop nutrient requirements (example values, kg per hectare)
-const cropNeeds = {
-  corn: { n: 120, p: 60, k: 60 },
-  rice: { n: 100, p: 50, k: 50 },
-  // ... more crops
-};
-
-function calculateFertilizer(cropType, area, soilType, availableWaste) {
-  const needs = cropNeeds[cropType] || cropNeeds.corn; // Default to corn
-  const waste = availableWaste || [{ type: 'cow', quantity: 1000 }]; // Example default
-
-  // Calculate total available NPK from waste
-  let availableNPK = { n: 0, p: 0, k: 0 };
-  waste.forEach(w => {
-    const npk = npkValues[w.type] || npkValues.cow;
-    availableNPK.n += npk.n * w.quantity;
-    availableNPK.p += npk.p * w.quantity;
-    availableNPK.k += npk.k * w.quantity;
-  });
-
-  // Calculate required NPK for the area
-  const requiredNPK = {
-    n: needs.n * area,
-    p: needs.p * area,
-    k: needs.k * area,
-  };
+/**
+ * Agronomic model for manure application rates.
+ *
+ * need (kg/ha for the growth stage) × soil adjustment → kg of N, P, K needed per rai
+ * manure as applied: as-is nutrient % (compositionTable in manureComposition.js, for the feed type
+ * and processing state) × first-season availability → plant-available kg per kg
+ * rate = need / available per kg, per nutrient; the manure is dosed to meet N (the nutrient farmers run short of)
+ * and the P/K surplus or deficit at that rate is reported alongside.
+ *
+ * Nutrients are elemental N, P and K (not P2O5/K2O).
+ */
+
+// Unit conversion
+const SQ_M_PER_RAI = 1600;
+const SQ_M_PER_HECTARE = 10000;
+const HECTARE_PER_RAI = SQ_M_PER_RAI / SQ_M_PER_HECTARE; // 0.16
+const KG_PER_TON = 1000;
+
+const AREA_UNITS = {
+  rai: 1,
+  hectare: 1 / HECTARE_PER_RAI,
+  ha: 1 / HECTARE_PER_RAI,
+  sqm: 1 / SQ_M_PER_RAI,
+};
+
+// Convert an area to rai
+const toRai = (area, unit = 'rai') => {
+  if (!Object.hasOwn(AREA_UNITS, unit)) throw new Error(`Unknown area unit: ${unit}`);
+  return area * AREA_UNITS[unit];
+};
+
+const raiToHectare = (rai) => rai * HECTARE_PER_RAI;
+const kgToTon = (kg) => kg / KG_PER_TON;
+const tonToKg = (ton) => ton * KG_PER_TON;
+
+// Crop catalog: nutrient need (kg/ha) applied in each growth stage; season need is the sum
+const crops = {
+  rice: {
+    name: 'ข้าว',
+    stages: {
+      seedling: { n: 20, p: 15, k: 10 },
+      vegetative: { n: 45, p: 20, k: 20 },
+      flowering: { n: 30, p: 10, k: 15 },
+      fruiting: { n: 5, p: 5, k: 5 },
+    },
+  },
+  corn: {
+    name: 'ข้าวโพด',
+    stages: {
+      seedling: { n: 20, p: 20, k: 10 },
+      vegetative: { n: 60, p: 25, k: 30 },
+      flowering: { n: 30, p: 10, k: 15 },
+      fruiting: { n: 10, p: 5, k: 5 },
+    },
+  },
+  vegetables: {
+    name: 'ผักใบ',
+    stages: {
+      seedling: { n: 30, p: 20, k: 20 },
+      vegetative: { n: 80, p: 25, k: 50 },
+      flowering: { n: 30, p: 10, k: 20 },
+      fruiting: { n: 10, p: 5, k: 10 },
+    },
+  },
+  fruits: {
+    name: 'ไม้ผล',
+    stages: {
+      seedling: { n: 15, p: 15, k: 15 },
+      vegetative: { n: 35, p: 20, k: 30 },
+      flowering: { n: 15, p: 15, k: 35 },
+      fruiting: { n: 15, p: 10, k: 40 },
+    },
+  },
+  cassava: {
+    name: 'มันสำปะหลัง',
+    stages: {
+      seedling: { n: 15, p: 10, k: 15 },
+      vegetative: { n: 45, p: 15, k: 45 },
+      flowering: { n: 20, p: 5, k: 30 },
+      fruiting: { n: 10, p: 5, k: 30 },
+    },
+  },
+  sugarcane: {
+    name: 'อ้อย',
+    stages: {
+      seedling: { n: 25, p: 20, k: 20 },
+      vegetative: { n: 70, p: 20, k: 50 },
+      flowering: { n: 20, p: 5, k: 20 },
+      fruiting: { n: 5, p: 5, k: 10 },
+    },
+  },
+};
+
+const GROWTH_STAGES = ['seedling', 'vegetative', 'flowering', 'fruiting'];
+
+// First-season availability of each nutrient, per animal (composition comes from manureComposition.js)
+const availability = {
+  chicken: { n: 0.55, p: 0.7, k: 0.9 },
+  cow: { n: 0.3, p: 0.6, k: 0.9 },
+  pig: { n: 0.45, p: 0.7, k: 0.9 },
+  buffalo: { n: 0.3, p: 0.6, k: 0.9 },
+  goat: { n: 0.35, p: 0.6, k: 0.9 },
+};
+
+// Manure catalog: same animals as the composition table
+const manureTypes = Object.fromEntries(
+  Object.keys(availability).map(type => [type, { name: animals[type].name, availability: availability[type] }])
+);
+
+// Manure is usually spread composted (fresh manure scorches crops); the ration is rarely known
+const DEFAULT_FEED = 'mixed';
+const DEFAULT_PROCESSING = 'composted';
+
+// Soil adjustments multiply the crop need
+// sandy: N and K leach; clay: P is fixed, K is held; organic: soil mineralises N
+const soilAdjustments = {
+  sandy: { name: 'ดินทราย', n: 1.2, p: 1.0, k: 1.25 },
+  loam: { name: 'ดินร่วน', n: 1.0, p: 1.0, k: 1.0 },
+  clay: { name: 'ดินเหนียว', n: 0.9, p: 1.15, k: 0.85 },
+  organic: { name: 'ดินอินทรีย์', n: 0.8, p: 1.0, k: 1.0 },
+};
 
-  // Calculate deficit
-  const deficit = {
-    n: Math.max(0, requiredNPK.n - availableNPK.n),
-    p: Math.max(0, requiredNPK.p - availableNPK.p),
-    k: Math.max(0, requiredNPK.k - availableNPK.k),
+const DEFAULT_SOIL = 'loam';
+const NUTRIENTS = ['n', 'p', 'k'];
+
+const round = (value, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+const mapNutrients = (fn) => Object.fromEntries(NUTRIENTS.map(key => [key, fn(key)]));
+
+// Season need per crop (kg/ha), used by the matching engine for the N:P:K ratio
+const cropNeeds = Object.fromEntries(
+  Object.entries(crops).map(([key, crop]) => [
+    key,
+    mapNutrients(nutrient => Object.values(crop.stages).reduce((sum, stage) => sum + stage[nutrient], 0)),
+  ])
+);
+
+/**
+ * Nutrient need in kg per rai for a crop stage on a soil type
+ * @param {string} cropType
+ * @param {string} [growthStage] - Omit for the whole season
+ * @param {string} [soilType]
+ */
+const getNutrientNeedPerRai = (cropType, growthStage, soilType = DEFAULT_SOIL) => {
+  if (!Object.hasOwn(crops, cropType)) throw new Error(`Unknown crop type: ${cropType}`);
+  if (growthStage && !GROWTH_STAGES.includes(growthStage)) throw new Error(`Unknown growth stage: ${growthStage}`);
+  if (!Object.hasOwn(soilAdjustments, soilType)) throw new Error(`Unknown soil type: ${soilType}`);
+  const need = growthStage ? crops[cropType].stages[growthStage] : cropNeeds[cropType];
+  const soil = soilAdjustments[soilType];
+
+  return mapNutrients(nutrient => need[nutrient] * soil[nutrient] * HECTARE_PER_RAI);
+};
+
+/**
+ * Plant-available kg of each nutrient in 1 kg of manure as applied
+ * @returns {{ n: number, p: number, k: number } | null} null for unknown keys
+ */
+const getAvailableNutrientsPerKg = (manureType, feedType = DEFAULT_FEED, processingState = DEFAULT_PROCESSING) => {
+  const composition = Object.hasOwn(manureTypes, manureType) && getManureComposition(manureType, feedType, processingState);
+  if (!composition) return null;
+  return mapNutrients(nutrient => (composition.npk[nutrient] / 100) * manureTypes[manureType].availability[nutrient]);
+};
+
+/**
+ * Application rate of one manure type for a nutrient need
+ * @param {{ n: number, p: number, k: number }} needPerRai - kg per rai
+ * @param {string} manureType
+ * @param {{ feedType?: string, processingState?: string }} [options] - Which composition to dose from
+ */
+const getManureRate = (needPerRai, manureType, { feedType = DEFAULT_FEED, processingState = DEFAULT_PROCESSING } = {}) => {
+  if (!Object.hasOwn(manureTypes, manureType)) throw new Error(`Unknown manure type: ${manureType}`);
+  const manure = manureTypes[manureType];
+
+  const availablePerKg = getAvailableNutrientsPerKg(manureType, feedType, processingState);
+  if (!availablePerKg) throw new Error(`Unknown feed type or processing state: ${feedType}, ${processingState}`);
+  // kg of manure that would meet each nutrient on its own
+  const ratePerNutrient = mapNutrients(nutrient => (availablePerKg[nutrient] > 0 ? needPerRai[nutrient] / availablePerKg[nutrient] : Infinity));
+  const kgPerRai = ratePerNutrient.n;
+  const supplied = mapNutrients(nutrient => availablePerKg[nutrient] * kgPerRai);
+
+  // Nutrient still short at the N-based rate (needs a top-up), if any; compared on rates so
+  // floating-point noise in supplied N never reports N itself as short
+  const shortfall = NUTRIENTS
+    .filter(nutrient => ratePerNutrient[nutrient] > kgPerRai)
+    .sort((a, b) => ratePerNutrient[b] - ratePerNutrient[a]);
+
+  return {
+    manureType,
+    name: manure.name,
+    feedType,
+    processingState,
+    kgPerRai: round(kgPerRai, 1),
+    tonPerRai: round(kgToTon(kgPerRai), 3),
+    ratePerNutrient: mapNutrients(nutrient => round(ratePerNutrient[nutrient], 1)),
+    suppliedPerRai: mapNutrients(nutrient => round(supplied[nutrient])),
+    balancePerRai: mapNutrients(nutrient => round(supplied[nutrient] - needPerRai[nutrient])),
+    limitingNutrient: shortfall[0] || null,
   };
+};
+
+/**
+ * Fertilizer recommendation for a field
+ * @param {Object} params
+ * @param {string} params.cropType - Key of crops
+ * @param {string} [params.growthStage] - Key of GROWTH_STAGES; omit for the whole season
+ * @param {number} params.area
+ * @param {'rai'|'hectare'|'ha'|'sqm'} [params.areaUnit='rai']
+ * @param {string} [params.soilType='loam']
+ * @param {string[]} [params.manureTypes] - Defaults to every manure in the catalog
+ * @param {string} [params.feedType='mixed'] - Key of feedFactors (manureComposition.js)
+ * @param {string} [params.processingState='composted'] - Key of processingStates (manureComposition.js)
+ */
+function calculateFertilizer({
+  cropType,
+  growthStage,
+  area,
+  areaUnit = 'rai',
+  soilType = DEFAULT_SOIL,
+  manureTypes: selected,
+  feedType = DEFAULT_FEED,
+  processingState = DEFAULT_PROCESSING,
+}) {
+  if (!(Number(area) > 0)) throw new Error('area must be a positive number');
+
+  const areaRai = toRai(Number(area), areaUnit);
+  const needPerRai = getNutrientNeedPerRai(cropType, growthStage, soilType);
+  const manures = (selected && selected.length > 0 ? selected : Object.keys(manureTypes))
+    .map(type => getManureRate(needPerRai, type, { feedType, processingState }))
+    .map(rate => ({
+      ...rate,
+      totalKg: round(rate.kgPerRai * areaRai, 1),
+      totalTon: round(kgToTon(rate.kgPerRai * areaRai), 3),
+    }))
+    .sort((a, b) => a.kgPerRai - b.kgPerRai);
 
   return {
-    requiredNPK,
-    availableNPK,
-    deficit,
-    recommendation: `You need to add ${deficit.n.toFixed(2)} kg of N, ${deficit.p.toFixed(2)} kg of P, and ${deficit.k.toFixed(2)} kg of K.`,
+    cropType,
+    growthStage: growthStage || null,
+    soilType,
+    feedType,
+    processingState,
+    area: { rai: round(areaRai), hectare: round(raiToHectare(areaRai), 3) },
+    needPerRai: mapNutrients(nutrient => round(needPerRai[nutrient])),
+    totalNeed: mapNutrients(nutrient => round(needPerRai[nutrient] * areaRai)),
+    manures,
   };
 }
 
 export {
+  HECTARE_PER_RAI,
+  GROWTH_STAGES,
+  crops,
+  cropNeeds,
+  manureTypes,
+  soilAdjustments,
+  toRai,
+  raiToHectare,
+  kgToTon,
+  tonToKg,
+  getNutrientNeedPerRai,
+  getAvailableNutrientsPerKg,
+  getManureRate,
   calculateFertilizer
-};
\ No newline at end of file
+};
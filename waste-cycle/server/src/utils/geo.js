@@ -0,0 +1,152 @@
+// src/utils/geo.js
+import { db } from '../config/firebaseConfig.js';
+
+/**
+ * Geospatial helpers shared by market search and matching.
+ *
+ * Documents with a { lat, lng } location also store a `geohash` string.
+ * Nearby points share a geohash prefix, so a radius or bounding-box search becomes
+ * a few ordered range queries on `geohash` (single-field index, no GeoFire needed),
+ * followed by an exact distance/box check in memory.
+ */
+
+const EARTH_RADIUS_KM = 6371;
+const GEOHASH_PRECISION = 10; // ~1m cells, more than enough for farm locations
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+const MAX_CELLS = 16;         // upper bound on range queries per search
+
+const isValidLocation = (location) =>
+  !!location &&
+  typeof location.lat === 'number' && typeof location.lng === 'number' &&
+  Math.abs(location.lat) <= 90 && Math.abs(location.lng) <= 180;
+
+const toRadians = (degrees) => (degrees * Math.PI) / 180;
+
+// Great-circle distance in kilometres
+const distanceKm = (from, to) => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+const encodeGeohash = ({ lat, lng }, precision = GEOHASH_PRECISION) => {
+  let latRange = [-90, 90];
+  let lngRange = [-180, 180];
+  let hash = '';
+  let bits = 0;
+  let value = 0;
+  let evenBit = true; // geohash interleaves longitude first
+
+  while (hash.length < precision) {
+    const range = evenBit ? lngRange : latRange;
+    const coordinate = evenBit ? lng : lat;
+    const mid = (range[0] + range[1]) / 2;
+    value <<= 1;
+    if (coordinate >= mid) {
+      value |= 1;
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+    evenBit = !evenBit;
+    if (++bits === 5) {
+      hash += BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+  return hash;
+};
+
+// Cell size in degrees for a geohash length
+const cellSize = (precision) => {
+  const totalBits = precision * 5;
+  const lngBits = Math.ceil(totalBits / 2);
+  const latBits = Math.floor(totalBits / 2);
+  return { lat: 180 / 2 ** latBits, lng: 360 / 2 ** lngBits };
+};
+
+// Bounding box around a point, clamped to valid coordinates
+const boxAround = ({ lat, lng }, radiusKm) => {
+  const latDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const lngDelta = latDelta / Math.max(Math.cos(toRadians(lat)), 0.01);
+  return {
+    minLat: Math.max(-90, lat - latDelta),
+    maxLat: Math.min(90, lat + latDelta),
+    minLng: Math.max(-180, lng - lngDelta),
+    maxLng: Math.min(180, lng + lngDelta),
+  };
+};
+
+const isInBox = (location, box) =>
+  location.lat >= box.minLat && location.lat <= box.maxLat &&
+  location.lng >= box.minLng && location.lng <= box.maxLng;
+
+// Geohash prefixes covering a box: the longest prefix whose cells keep the count small
+const geohashCover = (box) => {
+  for (let precision = GEOHASH_PRECISION; precision >= 1; precision--) {
+    const size = cellSize(precision);
+    const rows = Math.ceil((box.maxLat - box.minLat) / size.lat) + 1;
+    const cols = Math.ceil((box.maxLng - box.minLng) / size.lng) + 1;
+    if (rows * cols > MAX_CELLS && precision > 1) continue;
+
+    const hashes = new Set();
+    for (let row = 0; row < rows; row++) {
+      const lat = Math.min(box.minLat + row * size.lat, box.maxLat);
+      for (let col = 0; col < cols; col++) {
+        const lng = Math.min(box.minLng + col * size.lng, box.maxLng);
+        hashes.add(encodeGeohash({ lat, lng }, precision));
+      }
+    }
+    return [...hashes];
+  }
+  return [''];
+};
+
+// Run one range query per covering cell and de-duplicate the documents
+const queryByGeohashCover = async (collectionName, box) => {
+  const snapshots = await Promise.all(
+    geohashCover(box).map(prefix =>
+      db.collection(collectionName).orderBy('geohash').startAt(prefix).endAt(prefix + '').get()
+    )
+  );
+  const docs = new Map();
+  snapshots.forEach(snapshot => snapshot.docs.forEach(doc => docs.set(doc.id, doc)));
+  return [...docs.values()];
+};
+
+/**
+ * Documents within radiusKm of center, nearest first
+ * @returns {Promise<Array<{ doc: FirebaseFirestore.DocumentSnapshot, distance: number }>>}
+ */
+const findDocumentsNear = async (collectionName, center, radiusKm) => {
+  const docs = await queryByGeohashCover(collectionName, boxAround(center, radiusKm));
+  return docs
+    .filter(doc => isValidLocation(doc.data().location))
+    .map(doc => ({ doc, distance: distanceKm(center, doc.data().location) }))
+    .filter(result => result.distance <= radiusKm)
+    .sort((a, b) => a.distance - b.distance);
+};
+
+/**
+ * Documents whose location lies inside the box
+ * @returns {Promise<FirebaseFirestore.DocumentSnapshot[]>}
+ */
+const findDocumentsInBox = async (collectionName, box) => {
+  const docs = await queryByGeohashCover(collectionName, box);
+  return docs.filter(doc => isValidLocation(doc.data().location) && isInBox(doc.data().location, box));
+};
+
+// Fields to merge into a document whenever its location is written
+const geoFields = (location) => (isValidLocation(location) ? { geohash: encodeGeohash(location) } : {});
+
+export {
+  isValidLocation,
+  distanceKm,
+  encodeGeohash,
+  geoFields,
+  findDocumentsNear,
+  findDocumentsInBox,
+};
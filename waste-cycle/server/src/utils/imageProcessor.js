@@ -0,0 +1,69 @@
+// src/utils/imageProcessor.js
+import sharp from 'sharp';
+import { randomUUID } from 'crypto';
+import { getBlobStore } from './blobStore.js';
+
+/**
+ * Resizes uploaded images and writes every size to the blob store.
+ *
+ * Output is WebP with no metadata: sharp drops EXIF (including GPS coordinates of the farm)
+ * unless asked to keep it; rotate() applies the EXIF orientation first so photos stay upright.
+ */
+
+const IMAGE_SIZES = {
+  full: 1600,
+  medium: 800,
+  thumbnail: 320,
+};
+
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+const ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
+const OUTPUT_TYPE = 'image/webp';
+
+const DATA_URL_PATTERN = /^data:(image\/[\w.+-]+);base64,(.+)$/s;
+
+// Decode a base64 data URL (legacy product images); null if the string is not one
+const decodeDataUrl = (value) => {
+  const match = typeof value === 'string' ? value.match(DATA_URL_PATTERN) : null;
+  if (!match) return null;
+  return { contentType: match[1], buffer: Buffer.from(match[2], 'base64') };
+};
+
+const isDataUrl = (value) => typeof value === 'string' && value.startsWith('data:');
+
+const renderSize = (buffer, maxDimension) =>
+  sharp(buffer)
+    .rotate()
+    .resize(maxDimension, maxDimension, { fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer({ resolveWithObject: true });
+
+/**
+ * Store an image in every size
+ * @param {Buffer} buffer - Original upload
+ * @param {string} folder - Key prefix, e.g. "products/<uid>"
+ * @returns {Promise<{ id: string, url: string, medium: string, thumbnail: string, width: number, height: number }>}
+ */
+const storeImage = async (buffer, folder) => {
+  const store = await getBlobStore();
+  const id = randomUUID();
+  const urls = {};
+  let dimensions = null;
+
+  for (const [size, maxDimension] of Object.entries(IMAGE_SIZES)) {
+    const { data, info } = await renderSize(buffer, maxDimension);
+    urls[size] = await store.put(`${folder}/${id}/${size}.webp`, data, OUTPUT_TYPE);
+    if (size === 'full') dimensions = { width: info.width, height: info.height };
+  }
+
+  return { id, url: urls.full, medium: urls.medium, thumbnail: urls.thumbnail, ...dimensions };
+};
+
+export {
+  IMAGE_SIZES,
+  MAX_UPLOAD_BYTES,
+  ACCEPTED_TYPES,
+  decodeDataUrl,
+  isDataUrl,
+  storeImage,
+};
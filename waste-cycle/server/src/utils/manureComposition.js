@@ -0,0 +1,118 @@
+// src/utils/manureComposition.js
+
+/**
+ * Manure composition keyed by animal, feed type and processing state. This is the one nutrient
+ * model: the NPK calculator reads it directly and the application-rate recommender
+ * (fertilizerCalculator.js) doses from the same entries.
+ *
+ * Starts from each animal's nutrient content on a dry-matter basis, adjusts it for the feed
+ * ration, then for processing:
+ * - fresh:     as excreted, high moisture
+ * - dried:     sun/air dried; some N lost as ammonia
+ * - composted: organic matter breaks down (nutrients concentrate) while N volatilises and K leaches
+ * Percentages are on an as-is basis (what the buyer weighs), elemental N, P and K.
+ *
+ * Every entry carries a ± relative spread: lab values vary with animal age, bedding and storage,
+ * so results are an estimate with a confidence range rather than a single number.
+ */
+
+const NUTRIENTS = ['n', 'p', 'k'];
+
+// Concentrates raise N and P excretion; forage-based diets carry more K
+const feedFactors = {
+  concentrate: { name: 'อาหารข้น', n: 1.15, p: 1.2, k: 0.95, spread: 0 },
+  grass: { name: 'หญ้า/ฟาง', n: 0.85, p: 0.8, k: 1.15, spread: 0 },
+  mixed: { name: 'อาหารผสม', n: 1.0, p: 1.0, k: 1.0, spread: 0.05 }, // unknown ration mix
+};
+
+// Dry matter as excreted and nutrient % of dry matter, per animal
+const animals = {
+  chicken: { name: 'มูลไก่', freshDryMatter: 0.25, nutrientsDM: { n: 3.8, p: 3.0, k: 2.2 } },
+  cow: { name: 'มูลโค', freshDryMatter: 0.15, nutrientsDM: { n: 1.8, p: 0.9, k: 1.9 } },
+  pig: { name: 'มูลสุกร', freshDryMatter: 0.1, nutrientsDM: { n: 3.0, p: 2.4, k: 1.5 } },
+  buffalo: { name: 'มูลกระบือ', freshDryMatter: 0.15, nutrientsDM: { n: 1.4, p: 0.7, k: 1.6 } },
+  goat: { name: 'มูลแพะ', freshDryMatter: 0.35, nutrientsDM: { n: 2.2, p: 0.9, k: 2.0 } },
+};
+
+const processingStates = {
+  fresh: { name: 'สด', dryMatter: null, dryMatterLoss: 0, retention: { n: 1, p: 1, k: 1 }, spread: 0 },
+  dried: { name: 'ตากแห้ง', dryMatter: 0.85, dryMatterLoss: 0, retention: { n: 0.85, p: 1, k: 1 }, spread: 0 },
+  composted: { name: 'หมักแล้ว', dryMatter: 0.55, dryMatterLoss: 0.35, retention: { n: 0.7, p: 1, k: 0.9 }, spread: 0.05 },
+};
+
+// Relative spread of lab values around the estimate for each animal
+const BASE_SPREAD = 0.2;
+
+const round = (value, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+const mapNutrients = (fn) => Object.fromEntries(NUTRIENTS.map(key => [key, fn(key)]));
+
+const buildComposition = (animal, feedType, state) => {
+  const feed = feedFactors[feedType];
+  const processing = processingStates[state];
+  const dryMatter = processing.dryMatter ?? animals[animal].freshDryMatter;
+  const spread = BASE_SPREAD + feed.spread + processing.spread;
+
+  // Nutrient % of dry matter after processing: losses reduce it, dry-matter loss concentrates it
+  const percentDM = mapNutrients(nutrient =>
+    animals[animal].nutrientsDM[nutrient] * feed[nutrient] * processing.retention[nutrient] / (1 - processing.dryMatterLoss)
+  );
+  const npk = mapNutrients(nutrient => round(percentDM[nutrient] * dryMatter));
+
+  return {
+    dryMatter,
+    npk,
+    range: mapNutrients(nutrient => ({ min: round(npk[nutrient] * (1 - spread)), max: round(npk[nutrient] * (1 + spread)) })),
+    spread: round(spread),
+  };
+};
+
+// compositionTable[animal][feedType][processingState]
+const compositionTable = Object.fromEntries(
+  Object.keys(animals).map(animal => [
+    animal,
+    Object.fromEntries(
+      Object.keys(feedFactors).map(feedType => [
+        feedType,
+        Object.fromEntries(Object.keys(processingStates).map(state => [state, buildComposition(animal, feedType, state)])),
+      ])
+    ),
+  ])
+);
+
+/**
+ * Composition of a manure
+ * @returns {{ dryMatter: number, npk: object, range: object, spread: number } | null} null for unknown keys
+ */
+const getManureComposition = (animal, feedType = 'mixed', processingState = 'fresh') =>
+  Object.hasOwn(compositionTable, animal) && Object.hasOwn(feedFactors, feedType) && Object.hasOwn(processingStates, processingState)
+    ? compositionTable[animal][feedType][processingState]
+    : null;
+
+/**
+ * Nutrients in a quantity of manure
+ * @param {number} quantityKg - Manure weight as-is
+ * @returns {{ composition: object, nutrientsKg: object, nutrientsKgRange: object } | null}
+ */
+const calculateNutrientContent = (animal, feedType, processingState, quantityKg) => {
+  const composition = getManureComposition(animal, feedType, processingState);
+  if (!composition) return null;
+
+  const toKg = (percent) => round((quantityKg * percent) / 100);
+  return {
+    composition,
+    nutrientsKg: mapNutrients(nutrient => toKg(composition.npk[nutrient])),
+    nutrientsKgRange: mapNutrients(nutrient => ({
+      min: toKg(composition.range[nutrient].min),
+      max: toKg(composition.range[nutrient].max),
+    })),
+  };
+};
+
+export {
+  animals,
+  feedFactors,
+  processingStates,
+  compositionTable,
+  getManureComposition,
+  calculateNutrientContent,
+};
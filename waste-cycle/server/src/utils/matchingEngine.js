@@ -0,0 +1,107 @@
+// src/utils/matchingEngine.js
+import { distanceKm, isValidLocation } from './geo.js';
+import { getAvailableQuantity } from './stockReservation.js';
+
+/**
+ * Ranks fertilizer products for a crop need.
+ *
+ * Each factor is scored 0..1 and combined with MATCH_WEIGHTS into a 0..100 match score:
+ * - npkFit:        how closely the product's N:P:K ratio follows the crop's requirement (cosine similarity)
+ * - distance:      1 at the buyer's farm, 0 at the edge of the search radius
+ * - price:         baht per kg of nutrient (N+P+K), relative to the cheapest candidate
+ * - verification:  verified seller or listing
+ * - rating:        average review rating out of 5 (unrated listings get a neutral 0.5)
+ */
+
+const MATCH_WEIGHTS = {
+  npkFit: 0.4,
+  distance: 0.2,
+  price: 0.2,
+  verification: 0.1,
+  rating: 0.1,
+};
+
+const NEUTRAL_SCORE = 0.5;
+
+const round = (value, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Cosine similarity between two N-P-K vectors (1 = same proportions)
+const npkSimilarity = (a, b) => {
+  const dot = a.n * b.n + a.p * b.p + a.k * b.k;
+  const magnitude = Math.hypot(a.n, a.p, a.k) * Math.hypot(b.n, b.p, b.k);
+  return magnitude > 0 ? dot / magnitude : 0;
+};
+
+const toNpk = (npk) => ({
+  n: Number(npk?.n) || 0,
+  p: Number(npk?.p) || 0,
+  k: Number(npk?.k) || 0,
+});
+
+// Baht per kg of N+P+K; null when the product has no nutrient content or price
+const pricePerNutrientKg = (product) => {
+  const npk = toNpk(product.npk);
+  const nutrientFraction = (npk.n + npk.p + npk.k) / 100;
+  const price = Number(product.price);
+  if (!(nutrientFraction > 0) || !(price > 0)) return null;
+  return price / nutrientFraction;
+};
+
+/**
+ * Score and rank products
+ * @param {Array<{ id: string, data: object, seller?: object, distance?: number }>} candidates
+ * @param {{ n: number, p: number, k: number }} cropNeeds - Nutrient requirement (any unit, only the ratio matters)
+ * @param {{ origin?: { lat: number, lng: number }, radiusKm: number }} options
+ * @returns {Array<object>} Best match first, with a per-factor breakdown
+ */
+const rankProducts = (candidates, cropNeeds, { origin, radiusKm }) => {
+  const need = toNpk(cropNeeds);
+  const prices = candidates.map(c => pricePerNutrientKg(c.data)).filter(price => price !== null);
+  const cheapest = prices.length > 0 ? Math.min(...prices) : null;
+
+  return candidates
+    .map(({ id, data: product, seller, distance }) => {
+      const npk = toNpk(product.npk);
+      const unitPrice = pricePerNutrientKg(product);
+      const km = distance ?? (origin && isValidLocation(product.location) ? distanceKm(origin, product.location) : null);
+      const rating = Number(product.rating) || 0;
+      const verified = !!(seller?.verified || product.verified);
+
+      const breakdown = {
+        npkFit: { score: npkSimilarity(npk, need), value: npk },
+        distance: { score: km === null ? NEUTRAL_SCORE : Math.max(0, 1 - km / radiusKm), value: km === null ? null : round(km, 1) },
+        price: { score: unitPrice === null ? 0 : cheapest / unitPrice, value: unitPrice === null ? null : round(unitPrice) },
+        verification: { score: verified ? 1 : 0, value: verified },
+        rating: { score: rating > 0 ? rating / 5 : NEUTRAL_SCORE, value: rating > 0 ? rating : null },
+      };
+
+      let total = 0;
+      for (const [factor, weight] of Object.entries(MATCH_WEIGHTS)) {
+        breakdown[factor].score = round(breakdown[factor].score, 3);
+        breakdown[factor].weight = weight;
+        total += breakdown[factor].score * weight;
+      }
+
+      return {
+        productId: id,
+        title: product.title || '',
+        sellerId: product.userId ? String(product.userId) : null,
+        farmName: product.farmName || seller?.farmName || '',
+        npk,
+        price: Number(product.price) || 0,
+        unit: product.unit || 'kg',
+        available: getAvailableQuantity(product),
+        distance: breakdown.distance.value,
+        matchScore: Math.round(total * 100),
+        breakdown,
+      };
+    })
+    .sort((a, b) => b.matchScore - a.matchScore);
+};
+
+export {
+  MATCH_WEIGHTS,
+  npkSimilarity,
+  pricePerNutrientKg,
+  rankProducts,
+};
@@ -0,0 +1,160 @@
+// src/utils/notificationChannels.js
+import nodemailer from 'nodemailer';
+import webpush from 'web-push';
+import { removeSubscription, validateSubscription } from './pushSubscriptions.js';
+
+/**
+ * Delivery channels for notifications outside the app.
+ *
+ * Every adapter has the same shape:
+ *   name
+ *   canDeliver(recipient) → whether this recipient can be reached (address/token present)
+ *   send(recipient, notification) → resolves when delivered, throws to trigger a retry
+ * recipient:    { email, lineUserId, pushSubscriptions }
+ * notification: { type, message, link }
+ *
+ * Configuration (env):
+ *   SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS, MAIL_FROM
+ *     For local development point SMTP_HOST/SMTP_PORT at a mail sink such as MailHog or smtp4dev (localhost:1025).
+ *   LINE_CHANNEL_ACCESS_TOKEN   LINE Messaging API (push to the user's LINE userId; LINE Notify was shut down in 2025)
+ *   VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT   Web push (generate keys with `npx web-push generate-vapid-keys`)
+ *     Endpoints must be public https URLs; PUSH_STUB_ENDPOINTS=true (not in production) lets the
+ *     plain-http stub in scripts/push-stub.js subscribe.
+ * Channels without configuration are simply absent from getChannels().
+ */
+
+const LINE_PUSH_URL = 'https://api.line.me/v2/bot/message/push';
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Push services drop messages the device has not picked up within this time
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+const appUrl = (link) => (link ? `${process.env.FRONTEND_URL || 'http://localhost:3001'}${link}` : '');
+
+const formatText = ({ message, link }) => (link ? `${message}\n${appUrl(link)}` : message);
+
+// Treat non-2xx responses as failures so the delivery is retried
+const postOrThrow = async (url, init) => {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`${url} responded ${response.status}: ${(await response.text()).slice(0, 200)}`);
+  }
+};
+
+// Email over SMTP
+const createEmailChannel = ({
+  host = process.env.SMTP_HOST,
+  port = Number(process.env.SMTP_PORT) || 587,
+  secure = process.env.SMTP_SECURE === 'true',
+  user = process.env.SMTP_USER,
+  pass = process.env.SMTP_PASS,
+  from = process.env.MAIL_FROM || 'Waste-Cycle <no-reply@waste-cycle.local>',
+} = {}) => {
+  const transport = nodemailer.createTransport({
+    host,
+    port,
+    secure,
+    auth: user ? { user, pass } : undefined,
+  });
+
+  return {
+    name: 'email',
+    canDeliver: (recipient) => !!recipient.email,
+    send: async (recipient, notification) => {
+      await transport.sendMail({
+        from,
+        to: recipient.email,
+        subject: 'Waste-Cycle: การแจ้งเตือนใหม่',
+        text: formatText(notification),
+      });
+    },
+  };
+};
+
+// LINE Messaging API (push from the platform's official account)
+const createLineMessagingChannel = ({ channelAccessToken = process.env.LINE_CHANNEL_ACCESS_TOKEN } = {}) => ({
+  name: 'line',
+  canDeliver: (recipient) => !!recipient.lineUserId,
+  send: async (recipient, notification) => {
+    await postOrThrow(LINE_PUSH_URL, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${channelAccessToken}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ to: recipient.lineUserId, messages: [{ type: 'text', text: formatText(notification) }] }),
+    });
+  },
+});
+
+// Web push to every device the user subscribed (VAPID)
+const createPushChannel = ({
+  publicKey = process.env.VAPID_PUBLIC_KEY,
+  privateKey = process.env.VAPID_PRIVATE_KEY,
+  subject = process.env.VAPID_SUBJECT || 'mailto:admin@waste-cycle.local',
+  onExpired = (subscription) => removeSubscription(subscription.endpoint),
+} = {}) => ({
+  name: 'push',
+  canDeliver: (recipient) => (recipient.pushSubscriptions?.length || 0) > 0,
+  send: async (recipient, notification) => {
+    const payload = JSON.stringify({
+      title: 'Waste-Cycle',
+      body: notification.message,
+      link: notification.link,
+      type: notification.type,
+      tag: notification.link || notification.type, // A newer push for the same chat/booking replaces the old one
+    });
+
+    const failures = [];
+    let attempted = 0;
+    for (const subscription of recipient.pushSubscriptions) {
+      // Stored before endpoints were restricted, or a stub endpoint with the stub flag now off
+      if (validateSubscription(subscription)) {
+        await onExpired(subscription);
+        continue;
+      }
+      attempted += 1;
+      try {
+        const request = webpush.generateRequestDetails(subscription, payload, {
+          vapidDetails: { subject, publicKey, privateKey },
+          TTL: PUSH_TTL_SECONDS,
+        });
+        const response = await fetch(request.endpoint, {
+          method: request.method,
+          headers: request.headers,
+          body: request.body,
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+        // 404/410: the browser unsubscribed or the subscription expired
+        if (response.status === 404 || response.status === 410) {
+          await onExpired(subscription);
+        } else if (!response.ok) {
+          failures.push(`${response.status}`);
+        }
+      } catch (error) {
+        failures.push(error.message);
+      }
+    }
+
+    // Retry only when no device got it, so devices that did are not notified twice
+    if (failures.length > 0 && failures.length === attempted) {
+      throw new Error(`Push failed for every device: ${failures.join(', ')}`);
+    }
+  },
+});
+
+let channels = null;
+
+// External channels for this process, by name (created on first use)
+const getChannels = () => {
+  if (channels) return channels;
+
+  channels = {};
+  if (process.env.LINE_CHANNEL_ACCESS_TOKEN) channels.line = createLineMessagingChannel();
+  if (process.env.SMTP_HOST) channels.email = createEmailChannel();
+  if (process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY) channels.push = createPushChannel();
+  return channels;
+};
+
+export {
+  createEmailChannel,
+  createLineMessagingChannel,
+  createPushChannel,
+  getChannels,
+};
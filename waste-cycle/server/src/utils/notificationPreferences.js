@@ -0,0 +1,163 @@
+// src/utils/notificationPreferences.js
+import { db } from '../config/firebaseConfig.js';
+
+/**
+ * Per-user notification preferences (notificationPreferences/{uid}).
+ *
+ *   types:      { [notificationType]: boolean }   false = never notify about this event
+ *   channels:   { inApp, email, line, push }       where enabled events are delivered
+ *               push goes to the devices in pushSubscriptions, and only while the user is offline
+ *   quietHours: { enabled, start: 'HH:mm', end: 'HH:mm', timezone }
+ *               email/LINE/push deliveries wait until the quiet hours end; in-app still appears
+ *   line:       { userId? }                         Messaging API user id (never sent back to clients)
+ *
+ * Users without a document get DEFAULT_PREFERENCES.
+ */
+
+// Every type createNotification is called with (the notification center filters on these)
+const NOTIFICATION_TYPES = [
+  'new_booking',
+  'booking_update',
+  'match_accepted',
+  'match_rejected',
+  'new_offer',
+  'new_review',
+  'verification',
+  'chat',
+  'report_update',
+  'warning',
+];
+
+const CHANNELS = ['inApp', 'email', 'line', 'push'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+// LINE user ids as the Messaging API reports them (not the @handle users see)
+const LINE_USER_ID_PATTERN = /^U[0-9a-f]{32}$/;
+
+const DEFAULT_PREFERENCES = {
+  types: Object.fromEntries(NOTIFICATION_TYPES.map(type => [type, true])),
+  channels: { inApp: true, email: false, line: false, push: true },
+  quietHours: { enabled: false, start: '22:00', end: '07:00', timezone: 'Asia/Bangkok' },
+  line: {},
+};
+
+const preferencesRef = (userId) => db.collection('notificationPreferences').doc(String(userId));
+
+// Stored preferences merged over the defaults (new types default to enabled)
+const getNotificationPreferences = async (userId) => {
+  const doc = await preferencesRef(userId).get();
+  const stored = doc.exists ? doc.data() : {};
+  return {
+    types: { ...DEFAULT_PREFERENCES.types, ...stored.types },
+    channels: { ...DEFAULT_PREFERENCES.channels, ...stored.channels },
+    quietHours: { ...DEFAULT_PREFERENCES.quietHours, ...stored.quietHours },
+    line: { ...stored.line },
+  };
+};
+
+// What the client may see: the LINE user id is replaced by whether one is set
+const toPublicPreferences = ({ line, ...preferences }) => ({
+  ...preferences,
+  line: { connected: !!line.userId },
+});
+
+/**
+ * Validate a partial update from the client
+ * @returns {{ update: object } | { error: string }} update uses dotted paths so untouched fields are kept
+ */
+const validatePreferencesUpdate = ({ types, channels, quietHours, line } = {}) => {
+  const update = {};
+
+  if (types !== undefined) {
+    for (const [type, enabled] of Object.entries(types || {})) {
+      if (!NOTIFICATION_TYPES.includes(type) || typeof enabled !== 'boolean') {
+        return { error: `types must map one of ${NOTIFICATION_TYPES.join(', ')} to true/false` };
+      }
+      update[`types.${type}`] = enabled;
+    }
+  }
+
+  if (channels !== undefined) {
+    for (const [channel, enabled] of Object.entries(channels || {})) {
+      if (!CHANNELS.includes(channel) || typeof enabled !== 'boolean') {
+        return { error: `channels must map one of ${CHANNELS.join(', ')} to true/false` };
+      }
+      update[`channels.${channel}`] = enabled;
+    }
+  }
+
+  if (quietHours !== undefined) {
+    const { enabled, start, end, timezone } = quietHours || {};
+    if (enabled !== undefined && typeof enabled !== 'boolean') return { error: 'quietHours.enabled must be true/false' };
+    if ((start !== undefined && !TIME_PATTERN.test(start)) || (end !== undefined && !TIME_PATTERN.test(end))) {
+      return { error: 'quietHours.start and quietHours.end must be HH:mm' };
+    }
+    if (timezone !== undefined) {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      } catch {
+        return { error: `Unknown timezone: ${timezone}` };
+      }
+    }
+    for (const [key, value] of Object.entries({ enabled, start, end, timezone })) {
+      if (value !== undefined) update[`quietHours.${key}`] = value;
+    }
+  }
+
+  // null disconnects; a user id replaces the stored one
+  if (line !== undefined) {
+    const { userId } = line || {};
+    if (userId !== undefined) {
+      if (userId !== null && (typeof userId !== 'string' || !LINE_USER_ID_PATTERN.test(userId.trim()))) {
+        return { error: 'line.userId must be a LINE user id (U followed by 32 hex characters) or null' };
+      }
+      update['line.userId'] = userId === null ? null : userId.trim();
+    }
+  }
+
+  return { update };
+};
+
+const minutesOfDay = (time) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Minutes past midnight at `date` in the given timezone
+const localMinutes = (date, timeZone) => {
+  const parts = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+    .formatToParts(date);
+  const get = (type) => Number(parts.find(part => part.type === type)?.value || 0);
+  return get('hour') * 60 + get('minute');
+};
+
+/**
+ * When quiet hours are on at `date`, the time they end; otherwise null
+ * Windows may wrap midnight (22:00 - 07:00)
+ */
+const getQuietHoursEnd = (quietHours, date = new Date()) => {
+  if (!quietHours?.enabled) return null;
+
+  const start = minutesOfDay(quietHours.start);
+  const end = minutesOfDay(quietHours.end);
+  if (start === end) return null;
+
+  const now = localMinutes(date, quietHours.timezone || DEFAULT_PREFERENCES.quietHours.timezone);
+  const isQuiet = start < end ? now >= start && now < end : now >= start || now < end;
+  if (!isQuiet) return null;
+
+  const minutesLeft = (end - now + 24 * 60) % (24 * 60);
+  const endsAt = new Date(date.getTime() + minutesLeft * 60 * 1000);
+  endsAt.setSeconds(0, 0);
+  return endsAt;
+};
+
+export {
+  NOTIFICATION_TYPES,
+  CHANNELS,
+  DEFAULT_PREFERENCES,
+  preferencesRef,
+  getNotificationPreferences,
+  toPublicPreferences,
+  validatePreferencesUpdate,
+  getQuietHoursEnd,
+};
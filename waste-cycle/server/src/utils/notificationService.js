@@ -1,21 +1,183 @@
 import { db } from '../config/firebaseConfig.js';
+import admin from 'firebase-admin'; // Required for FieldValue
+import { NOTIFICATION_TYPES, getNotificationPreferences, getQuietHoursEnd } from './notificationPreferences.js';
+import { getChannels } from './notificationChannels.js';
+import { getUserSubscriptions, hasPushSubscriptions } from './pushSubscriptions.js';
+import { isUserConnected } from './chatSocket.js';
 
-const createNotification = async (userId, type, message, link) => {
+/**
+ * Notifications follow the recipient's preferences (see notificationPreferences.js):
+ * - event type switched off → nothing is sent
+ * - inApp → a notifications/{id} document (listed by the notification center)
+ * - email / line / push → one notificationDeliveries/{id} per channel, sent right away or when quiet hours end
+ *   (push only when the user has a subscribed device and no open chat socket, i.e. is not in the app)
+ *
+ * Failed deliveries are retried with exponential backoff by processNotificationDeliveries (server.js runs it
+ * every minute). After MAX_ATTEMPTS, or on errors a retry cannot fix, they move to notificationDeadLetters.
+ * The due-deliveries query (status + nextAttemptAt) needs a composite index.
+ */
+
+const EXTERNAL_CHANNELS = ['email', 'line', 'push'];
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 60 * 1000;
+// A claimed delivery becomes due again after this, in case the sender crashed mid-send
+const CLAIM_LEASE_MS = 2 * 60 * 1000;
+const WORKER_BATCH_SIZE = 20;
+
+// Errors a retry cannot fix (no address, channel not configured)
+const permanentError = (message) => Object.assign(new Error(message), { permanent: true });
+
+const getRecipient = async (userId, channel) => {
+  const [preferences, userDoc, pushSubscriptions] = await Promise.all([
+    getNotificationPreferences(userId),
+    db.collection('users').doc(String(userId)).get(),
+    channel === 'push' ? getUserSubscriptions(userId) : [],
+  ]);
+  return {
+    email: userDoc.exists ? userDoc.data().email || null : null,
+    lineUserId: preferences.line.userId || null,
+    pushSubscriptions,
+  };
+};
+
+// Push is for users who are away from the app, and only if they allowed it on some device
+const shouldPush = async (userId) => !isUserConnected(userId) && hasPushSubscriptions(userId);
+
+const deadLetter = async (deliveryRef, delivery, attempts, error) => {
+  const batch = db.batch();
+  batch.set(db.collection('notificationDeadLetters').doc(deliveryRef.id), {
+    ...delivery,
+    attempts,
+    lastError: error.message,
+    failedAt: new Date().toISOString(),
+  });
+  batch.delete(deliveryRef);
+  await batch.commit();
+  console.error(`❌ Notification delivery ${deliveryRef.id} (${delivery.channel}) dead-lettered: ${error.message}`);
+};
+
+/**
+ * Try to send one due delivery
+ * @param {FirebaseFirestore.DocumentReference} deliveryRef
+ */
+const attemptDelivery = async (deliveryRef) => {
+  // Claim it first so the worker and an immediate send never deliver twice
+  const delivery = await db.runTransaction(async (t) => {
+    const doc = await t.get(deliveryRef);
+    if (!doc.exists) return null;
+    const data = doc.data();
+    if (data.status !== 'pending' || data.nextAttemptAt > new Date().toISOString()) return null;
+    t.update(deliveryRef, { nextAttemptAt: new Date(Date.now() + CLAIM_LEASE_MS).toISOString() });
+    return data;
+  });
+  if (!delivery) return;
+
+  const attempts = (delivery.attempts || 0) + 1;
   try {
-    await db.collection('notifications').add({
-      userId,
-      type,
-      message,
-      link,
-      read: false,
-      createdAt: new Date().toISOString(),
+    const channel = getChannels()[delivery.channel];
+    if (!channel) throw permanentError(`Channel ${delivery.channel} is not configured`);
+
+    const recipient = await getRecipient(delivery.userId, delivery.channel);
+    if (!channel.canDeliver(recipient)) throw permanentError(`User ${delivery.userId} has no ${delivery.channel} address`);
+
+    await channel.send(recipient, delivery.notification);
+    await deliveryRef.update({
+      status: 'sent',
+      attempts,
+      sentAt: new Date().toISOString(),
+      lastError: admin.firestore.FieldValue.delete(),
     });
-    // console.log('Notification created for user:', userId);
+  } catch (error) {
+    if (error.permanent || attempts >= MAX_ATTEMPTS) {
+      await deadLetter(deliveryRef, delivery, attempts, error);
+      return;
+    }
+    await deliveryRef.update({
+      attempts,
+      lastError: error.message,
+      nextAttemptAt: new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1)).toISOString(),
+    });
+  }
+};
+
+/**
+ * Notify a user through the channels their preferences allow (never throws)
+ * @param {string} userId
+ * @param {string} type - One of NOTIFICATION_TYPES
+ * @param {string} message
+ * @param {string} [link] - In-app path, e.g. /bookings/<id>
+ * @param {object} [options]
+ * @param {string[]} [options.channels] - Limit to these channels (e.g. ['push'] when the in-app part is created elsewhere)
+ */
+const createNotification = async (userId, type, message, link, { channels: only } = {}) => {
+  const allowed = (channel) => !only || only.includes(channel);
+
+  try {
+    const preferences = await getNotificationPreferences(userId);
+    if (preferences.types[type] === false) return;
+
+    const now = new Date().toISOString();
+
+    if (preferences.channels.inApp && allowed('inApp')) {
+      await db.collection('notifications').add({
+        userId,
+        type,
+        message,
+        link,
+        read: false,
+        createdAt: now,
+      });
+    }
+
+    const available = getChannels();
+    const quietHoursEnd = getQuietHoursEnd(preferences.quietHours);
+
+    for (const channel of EXTERNAL_CHANNELS) {
+      if (!preferences.channels[channel] || !available[channel] || !allowed(channel)) continue;
+      if (channel === 'push' && !(await shouldPush(userId))) continue;
+
+      const deliveryRef = db.collection('notificationDeliveries').doc();
+      await deliveryRef.set({
+        userId: String(userId),
+        channel,
+        notification: { type, message, link: link || null },
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: (quietHoursEnd || new Date()).toISOString(),
+        createdAt: now,
+      });
+
+      // Outside quiet hours send now; failures are picked up by the worker
+      if (!quietHoursEnd) {
+        attemptDelivery(deliveryRef).catch((error) => {
+          console.error(`Error delivering notification ${deliveryRef.id}:`, error);
+        });
+      }
+    }
   } catch (error) {
     console.error('Error creating notification:', error);
   }
 };
 
+/**
+ * Send deliveries that are due (retries and the ones held for quiet hours)
+ * @returns {Promise<number>} How many were attempted
+ */
+const processNotificationDeliveries = async () => {
+  const snapshot = await db.collection('notificationDeliveries')
+    .where('status', '==', 'pending')
+    .where('nextAttemptAt', '<=', new Date().toISOString())
+    .limit(WORKER_BATCH_SIZE)
+    .get();
+
+  for (const doc of snapshot.docs) {
+    await attemptDelivery(doc.ref);
+  }
+  return snapshot.size;
+};
+
 export {
-  createNotification
-};
\ No newline at end of file
+  NOTIFICATION_TYPES,
+  createNotification,
+  processNotificationDeliveries,
+};
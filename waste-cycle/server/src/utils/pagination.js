@@ -0,0 +1,107 @@
+// src/utils/pagination.js
+import admin from 'firebase-admin'; // Required for FieldPath
+
+/**
+ * Cursor-based pagination for Firestore list endpoints.
+ *
+ * Request:  ?limit=20&cursor=<nextCursor from the previous page>
+ * Response: { success, data, nextCursor }  (nextCursor is null on the last page)
+ *
+ * Pages are ordered by one field plus the document id as a tie-breaker, so documents
+ * sharing a timestamp are never skipped or repeated. The cursor is an opaque base64url
+ * string holding the last document's sort value and id.
+ * Combined with a where() filter this needs a composite index (Firestore logs a link to create it).
+ */
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+// Documents read per round trip by paginateFiltered
+const SCAN_CHUNK_SIZE = 200;
+
+const encodeCursor = (doc, orderField) =>
+  Buffer.from(JSON.stringify({ value: orderField ? doc.get(orderField) ?? null : null, id: doc.id }))
+    .toString('base64url');
+
+const decodeCursor = (cursor) => {
+  try {
+    const decoded = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+    return decoded && typeof decoded.id === 'string' ? decoded : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Read limit/cursor from req.query
+ * @returns {{ limit: number, cursor: object|null } | null} null when the cursor is malformed
+ */
+const parsePageParams = (query = {}) => {
+  const requested = parseInt(query.limit, 10);
+  const limit = Number.isNaN(requested) ? DEFAULT_PAGE_SIZE : Math.min(Math.max(requested, 1), MAX_PAGE_SIZE);
+
+  if (!query.cursor) return { limit, cursor: null };
+  const cursor = decodeCursor(query.cursor);
+  return cursor ? { limit, cursor } : null;
+};
+
+/**
+ * Fetch one page of a query
+ * @param {FirebaseFirestore.Query} query - Collection or filtered query (no orderBy/limit yet)
+ * @param {{ limit: number, cursor: object|null }} page - From parsePageParams
+ * @param {string} [orderField] - Sort field; omit to page by document id only
+ * @param {'asc'|'desc'} [direction]
+ * @returns {Promise<{ docs: FirebaseFirestore.QueryDocumentSnapshot[], nextCursor: string|null }>}
+ */
+const paginateQuery = async (query, page, orderField, direction = 'asc') => {
+  const documentId = admin.firestore.FieldPath.documentId();
+  let ordered = orderField
+    ? query.orderBy(orderField, direction).orderBy(documentId, direction)
+    : query.orderBy(documentId, direction);
+
+  if (page.cursor) {
+    ordered = orderField
+      ? ordered.startAfter(page.cursor.value, page.cursor.id)
+      : ordered.startAfter(page.cursor.id);
+  }
+
+  // Read one extra document to know whether another page exists
+  const snapshot = await ordered.limit(page.limit + 1).get();
+  const docs = snapshot.docs.slice(0, page.limit);
+  const nextCursor = snapshot.docs.length > page.limit ? encodeCursor(docs[docs.length - 1], orderField) : null;
+
+  return { docs, nextCursor };
+};
+
+/**
+ * Like paginateQuery, but keeps only documents matching a predicate (checks Firestore cannot
+ * express, e.g. substring search). Scans ahead in chunks until the page is full or the query
+ * runs out; the cursor points at the last returned document so nothing is skipped.
+ * @param {(doc: FirebaseFirestore.QueryDocumentSnapshot) => boolean} predicate
+ */
+const paginateFiltered = async (query, page, orderField, direction = 'asc', predicate = () => true) => {
+  const docs = [];
+  let cursor = page.cursor;
+
+  for (;;) {
+    const { docs: scanned, nextCursor } = await paginateQuery(query, { limit: SCAN_CHUNK_SIZE, cursor }, orderField, direction);
+    for (const doc of scanned) {
+      if (!predicate(doc)) continue;
+      docs.push(doc);
+      if (docs.length === page.limit) {
+        // Another match may still follow this one; an empty last page is possible but harmless
+        const more = doc !== scanned[scanned.length - 1] || nextCursor !== null;
+        return { docs, nextCursor: more ? encodeCursor(doc, orderField) : null };
+      }
+    }
+    if (!nextCursor) return { docs, nextCursor: null };
+    cursor = decodeCursor(nextCursor);
+  }
+};
+
+export {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  parsePageParams,
+  paginateQuery,
+  paginateFiltered,
+};
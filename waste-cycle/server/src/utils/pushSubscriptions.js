@@ -0,0 +1,88 @@
+// src/utils/pushSubscriptions.js
+import crypto from 'crypto';
+import { db } from '../config/firebaseConfig.js';
+
+/**
+ * Web push subscriptions, one document per browser/device: pushSubscriptions/{sha256(endpoint)}
+ *   { userId, endpoint, keys: { p256dh, auth }, userAgent, createdAt, updatedAt }
+ * A device that subscribes again (or logs in with another account) overwrites its document.
+ */
+
+const subscriptionsCollection = () => db.collection('pushSubscriptions');
+
+// The server POSTs to every stored endpoint, so only public https push services are accepted.
+// PUSH_STUB_ENDPOINTS=true (ignored in production) also allows http and local hosts for scripts/push-stub.js.
+const allowStubEndpoints = () => process.env.PUSH_STUB_ENDPOINTS === 'true' && process.env.NODE_ENV !== 'production';
+const IP_HOST_PATTERN = /^(\d{1,3}(\.\d{1,3}){3}|\[[0-9a-f:.]+\])$/i;
+
+const subscriptionRef = (endpoint) =>
+  subscriptionsCollection().doc(crypto.createHash('sha256').update(endpoint).digest('hex'));
+
+// Error message for a malformed PushSubscription JSON, or null
+const validateSubscription = (subscription) => {
+  const { endpoint, keys } = subscription || {};
+  let url;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return 'subscription.endpoint must be a URL';
+  }
+  if (allowStubEndpoints()) {
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return 'subscription.endpoint must be an http(s) URL';
+  } else {
+    if (url.protocol !== 'https:') return 'subscription.endpoint must be an https URL';
+    // Push services have public host names; IP literals and localhost only reach internal hosts
+    if (IP_HOST_PATTERN.test(url.hostname) || url.hostname === 'localhost' || url.hostname.endsWith('.localhost')) {
+      return 'subscription.endpoint must be a push service URL';
+    }
+  }
+  if (typeof keys?.p256dh !== 'string' || typeof keys?.auth !== 'string') {
+    return 'subscription.keys.p256dh and subscription.keys.auth are required';
+  }
+  return null;
+};
+
+const saveSubscription = async (userId, { endpoint, keys }, userAgent) => {
+  const ref = subscriptionRef(endpoint);
+  const existing = await ref.get();
+  const now = new Date().toISOString();
+
+  await ref.set({
+    userId: String(userId),
+    endpoint,
+    keys: { p256dh: keys.p256dh, auth: keys.auth },
+    userAgent: userAgent || null,
+    createdAt: existing.exists ? existing.data().createdAt : now,
+    updatedAt: now,
+  });
+  return ref.id;
+};
+
+// Remove a device; with userId, only if it belongs to that user. Resolves to whether it was removed.
+const removeSubscription = async (endpoint, userId) => {
+  const ref = subscriptionRef(endpoint);
+  if (userId !== undefined) {
+    const doc = await ref.get();
+    if (!doc.exists || doc.data().userId !== String(userId)) return false;
+  }
+  await ref.delete();
+  return true;
+};
+
+const getUserSubscriptions = async (userId) => {
+  const snapshot = await subscriptionsCollection().where('userId', '==', String(userId)).get();
+  return snapshot.docs.map(doc => ({ endpoint: doc.data().endpoint, keys: doc.data().keys }));
+};
+
+const hasPushSubscriptions = async (userId) => {
+  const snapshot = await subscriptionsCollection().where('userId', '==', String(userId)).limit(1).get();
+  return !snapshot.empty;
+};
+
+export {
+  validateSubscription,
+  saveSubscription,
+  removeSubscription,
+  getUserSubscriptions,
+  hasPushSubscriptions,
+};
@@ -0,0 +1,76 @@
+// src/utils/reviews.js
+
+/**
+ * Reviews of completed bookings: reviews/{bookingId}, so a booking can only be reviewed once.
+ *   { bookingId, productId, productTitle, sellerId, buyerId, buyerName,
+ *     rating: 1-5, comment, photos: [{ url, medium, thumbnail }], reply: { text, createdAt } | null, createdAt }
+ *
+ * Products and seller profiles (users/{uid}) carry the aggregate, updated in the same
+ * transaction as the review: { rating (average, 1 decimal), reviewCount, ratingSum }.
+ */
+
+const MAX_REVIEW_PHOTOS = 5;
+const MAX_COMMENT_LENGTH = 2000;
+const MAX_REPLY_LENGTH = 1000;
+
+/**
+ * Validate a new review from the request body
+ * @param {object} body - { rating, comment, photos }
+ * @param {(url: string) => boolean} owns - Blob store check (photos must be uploaded first, folder=reviews)
+ * @returns {{ review: { rating, comment, photos } } | { error: string }}
+ */
+const validateReview = ({ rating, comment, photos } = {}, owns) => {
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    return { error: 'rating must be a whole number from 1 to 5' };
+  }
+  if (comment !== undefined && comment !== null && typeof comment !== 'string') {
+    return { error: 'comment must be text' };
+  }
+  const text = (comment || '').trim();
+  if (text.length > MAX_COMMENT_LENGTH) {
+    return { error: `comment must be at most ${MAX_COMMENT_LENGTH} characters` };
+  }
+
+  if (photos !== undefined && photos !== null && !Array.isArray(photos)) return { error: 'photos must be an array' };
+  const list = photos || [];
+  if (list.length > MAX_REVIEW_PHOTOS) return { error: `A review can have at most ${MAX_REVIEW_PHOTOS} photos` };
+
+  const normalized = [];
+  for (const photo of list) {
+    const { url, medium = url, thumbnail = url } = photo || {};
+    if (![url, medium, thumbnail].every(owns)) return { error: 'Review photos must be uploaded first' };
+    normalized.push({ url, medium, thumbnail });
+  }
+
+  return { review: { rating, comment: text, photos: normalized } };
+};
+
+// @returns {{ text: string } | { error: string }}
+const validateReply = (text) => {
+  const trimmed = typeof text === 'string' ? text.trim() : '';
+  if (!trimmed) return { error: 'Reply text is required' };
+  if (trimmed.length > MAX_REPLY_LENGTH) return { error: `Reply must be at most ${MAX_REPLY_LENGTH} characters` };
+  return { text: trimmed };
+};
+
+/**
+ * Aggregate fields after adding one rating
+ * Documents from before ratingSum existed start from rating × reviewCount
+ */
+const addRating = (aggregate, rating) => {
+  const previousCount = Number(aggregate.reviewCount) || 0;
+  const previousSum = aggregate.ratingSum !== undefined
+    ? Number(aggregate.ratingSum) || 0
+    : (Number(aggregate.rating) || 0) * previousCount;
+
+  const reviewCount = previousCount + 1;
+  const ratingSum = previousSum + rating;
+  return { rating: Math.round((ratingSum / reviewCount) * 10) / 10, reviewCount, ratingSum };
+};
+
+export {
+  MAX_REVIEW_PHOTOS,
+  validateReview,
+  validateReply,
+  addRating,
+};
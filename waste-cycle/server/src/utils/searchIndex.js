@@ -0,0 +1,192 @@
+// src/utils/searchIndex.js
+import { db } from '../config/firebaseConfig.js';
+
+/**
+ * In-process full-text index for the marketplace (no external search service).
+ *
+ * - Thai has no spaces between words, so text is split with Intl.Segmenter ('th' handles English too)
+ * - Inverted index: term -> Map(productId -> weighted term frequency)
+ * - Query terms match exactly, by prefix, or within a small edit distance (typo tolerance)
+ * - Only ids and scores are returned; callers load fresh documents for stock/filters
+ */
+
+// How much a hit in each field counts toward relevance
+const FIELD_WEIGHTS = {
+  title: 3,
+  farmName: 2,
+  animalType: 2,
+  feedType: 1.5,
+  description: 1,
+};
+
+// Match quality multipliers
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.8;
+const FUZZY_MATCH = 0.6;
+
+// Rebuild from Firestore after this long, to pick up writes made outside productController
+const INDEX_TTL_MS = 10 * 60 * 1000;
+
+const segmenter = new Intl.Segmenter('th', { granularity: 'word' });
+
+const index = new Map();        // term -> Map(productId -> weight)
+const documentTerms = new Map(); // productId -> Set(term), so a product can be removed/re-indexed
+let builtAt = 0;
+let buildPromise = null;
+
+const tokenize = (text) => {
+  if (!text) return [];
+  const normalized = String(text).normalize('NFC').toLowerCase();
+  const tokens = [];
+  for (const { segment, isWordLike } of segmenter.segment(normalized)) {
+    const token = segment.trim();
+    if (isWordLike && token) tokens.push(token);
+  }
+  return tokens;
+};
+
+// Allowed typos grow with word length; short words must match exactly or by prefix
+const maxTyposFor = (term) => {
+  const length = [...term].length;
+  if (length >= 8) return 2;
+  if (length >= 4) return 1;
+  return 0;
+};
+
+// Damerau-Levenshtein (optimal string alignment) with an early exit above maxDistance
+const editDistance = (a, b, maxDistance) => {
+  const s = [...a];
+  const t = [...b];
+  if (Math.abs(s.length - t.length) > maxDistance) return maxDistance + 1;
+
+  let prevPrev = null;
+  let prev = Array.from({ length: t.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= s.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= t.length; j++) {
+      const cost = s[i - 1] === t[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (prevPrev && i > 1 && j > 1 && s[i - 1] === t[j - 2] && s[i - 2] === t[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+  return prev[t.length];
+};
+
+const removeProduct = (productId) => {
+  const id = String(productId);
+  const terms = documentTerms.get(id);
+  if (!terms) return;
+  for (const term of terms) {
+    const postings = index.get(term);
+    if (!postings) continue;
+    postings.delete(id);
+    if (postings.size === 0) index.delete(term);
+  }
+  documentTerms.delete(id);
+};
+
+const indexProduct = (productId, product) => {
+  const id = String(productId);
+  removeProduct(id);
+
+  const terms = new Set();
+  for (const [field, weight] of Object.entries(FIELD_WEIGHTS)) {
+    for (const term of tokenize(product[field])) {
+      if (!index.has(term)) index.set(term, new Map());
+      const postings = index.get(term);
+      postings.set(id, (postings.get(id) || 0) + weight);
+      terms.add(term);
+    }
+  }
+  documentTerms.set(id, terms);
+};
+
+const buildSearchIndex = async () => {
+  const snapshot = await db.collection('products').get();
+  index.clear();
+  documentTerms.clear();
+  snapshot.forEach(doc => indexProduct(doc.id, doc.data()));
+  builtAt = Date.now();
+  console.log(`🔎 Search index built: ${documentTerms.size} products, ${index.size} terms`);
+};
+
+// Build on first use and when stale; concurrent callers share one build
+const ensureSearchIndex = async () => {
+  if (builtAt && Date.now() - builtAt < INDEX_TTL_MS) return;
+  if (!buildPromise) {
+    buildPromise = buildSearchIndex().finally(() => {
+      buildPromise = null;
+    });
+  }
+  await buildPromise;
+};
+
+// Best match quality of each index term against one query token
+const matchTerm = (queryToken) => {
+  const matches = [];
+  const maxTypos = maxTyposFor(queryToken);
+  for (const term of index.keys()) {
+    if (term === queryToken) {
+      matches.push([term, EXACT_MATCH]);
+    } else if (term.startsWith(queryToken)) {
+      matches.push([term, PREFIX_MATCH]);
+    } else if (maxTypos > 0 && editDistance(queryToken, term, maxTypos) <= maxTypos) {
+      matches.push([term, FUZZY_MATCH]);
+    }
+  }
+  return matches;
+};
+
+/**
+ * Search the index
+ * @param {string} query - Free text (Thai and/or English)
+ * @returns {Promise<Array<{ id: string, score: number }>>} Best matches first
+ */
+const searchProducts = async (query) => {
+  await ensureSearchIndex();
+
+  const queryTokens = [...new Set(tokenize(query))];
+  if (queryTokens.length === 0) return [];
+
+  const totalDocs = Math.max(documentTerms.size, 1);
+  const scores = new Map();   // productId -> score
+  const coverage = new Map(); // productId -> number of query tokens matched
+
+  for (const token of queryTokens) {
+    const tokenScores = new Map();
+    for (const [term, quality] of matchTerm(token)) {
+      const postings = index.get(term);
+      // Rare terms are worth more than terms in every listing
+      const idf = Math.log(1 + totalDocs / postings.size);
+      for (const [id, weight] of postings) {
+        const score = weight * idf * quality;
+        tokenScores.set(id, Math.max(tokenScores.get(id) || 0, score));
+      }
+    }
+    for (const [id, score] of tokenScores) {
+      scores.set(id, (scores.get(id) || 0) + score);
+      coverage.set(id, (coverage.get(id) || 0) + 1);
+    }
+  }
+
+  // Products matching every query word rank above partial matches
+  return [...scores.entries()]
+    .map(([id, score]) => ({ id, score: score * (coverage.get(id) / queryTokens.length) }))
+    .sort((a, b) => b.score - a.score);
+};
+
+export {
+  tokenize,
+  indexProduct,
+  removeProduct,
+  ensureSearchIndex,
+  searchProducts,
+};
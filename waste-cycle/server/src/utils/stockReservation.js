@@ -0,0 +1,117 @@
+// src/utils/stockReservation.js
+import { db } from '../config/firebaseConfig.js';
+import admin from 'firebase-admin'; // Required for FieldValue
+import { createNotification } from './notificationService.js';
+import { writeAuditLog } from './auditLog.js';
+
+// Booking requests the seller has not accepted within this window release their stock
+const RESERVATION_TTL_MS = (Number(process.env.BOOKING_RESERVATION_HOURS) || 48) * 60 * 60 * 1000;
+
+/**
+ * Product stock model:
+ * - quantity:         stock the seller still has (decreases when a booking completes)
+ * - reservedQuantity: stock held by active bookings
+ * - sold:             true when nothing is left to book (quantity - reservedQuantity <= 0)
+ */
+const getAvailableQuantity = (product) =>
+  Math.max(0, (Number(product.quantity) || 0) - (Number(product.reservedQuantity) || 0));
+
+const stockUpdate = (quantity, reservedQuantity) => ({
+  quantity,
+  reservedQuantity,
+  sold: quantity - reservedQuantity <= 0,
+});
+
+// Hold stock for a new booking
+const reserveStock = (product, amount) =>
+  stockUpdate(Number(product.quantity) || 0, (Number(product.reservedQuantity) || 0) + amount);
+
+// Give held stock back (booking cancelled or expired)
+const releaseStock = (product, amount) =>
+  stockUpdate(Number(product.quantity) || 0, Math.max(0, (Number(product.reservedQuantity) || 0) - amount));
+
+// Held stock left the farm (booking completed)
+const consumeStock = (product, amount) =>
+  stockUpdate(
+    Math.max(0, (Number(product.quantity) || 0) - amount),
+    Math.max(0, (Number(product.reservedQuantity) || 0) - amount)
+  );
+
+const getReservationExpiry = (from = Date.now()) => new Date(from + RESERVATION_TTL_MS).toISOString();
+
+/**
+ * Cancel booking requests past their expiresAt and release their stock.
+ * expiresAt is removed once the seller accepts, so only unanswered requests match.
+ * @returns {Promise<number>} number of bookings expired
+ */
+const expireStaleReservations = async () => {
+  const now = new Date().toISOString();
+  const snapshot = await db.collection('bookings').where('expiresAt', '<=', now).get();
+
+  let expiredCount = 0;
+  for (const doc of snapshot.docs) {
+    const expired = await db.runTransaction(async (t) => {
+      const bookingDoc = await t.get(doc.ref);
+      const booking = bookingDoc.data();
+      if (!bookingDoc.exists || !booking.expiresAt || booking.status !== 'requested') {
+        return null;
+      }
+
+      const productRef = db.collection('products').doc(String(booking.productId));
+      const productDoc = await t.get(productRef);
+
+      if (productDoc.exists && booking.stockReserved) {
+        t.update(productRef, releaseStock(productDoc.data(), Number(booking.quantity) || 0));
+      }
+
+      t.update(doc.ref, {
+        status: 'cancelled',
+        stockReserved: false,
+        expiresAt: admin.firestore.FieldValue.delete(),
+        updatedAt: now,
+        history: admin.firestore.FieldValue.arrayUnion({
+          from: 'requested',
+          to: 'cancelled',
+          actorId: null,
+          actorRole: 'system',
+          at: now,
+          note: 'Reservation expired',
+        }),
+      });
+
+      return booking;
+    });
+
+    if (expired) {
+      expiredCount++;
+      await writeAuditLog(null, {
+        action: 'booking.status',
+        targetType: 'booking',
+        targetId: doc.id,
+        before: { status: 'requested' },
+        after: { status: 'cancelled' },
+        metadata: { actorRole: 'system', productId: expired.productId, note: 'Reservation expired' },
+      });
+      await createNotification(
+        expired.buyerId,
+        'booking_update',
+        `Your booking for product ${expired.productId} expired because the seller did not respond.`,
+        `/bookings/${doc.id}`
+      );
+    }
+  }
+
+  if (expiredCount > 0) {
+    console.log(`⏰ Expired ${expiredCount} booking reservation(s)`);
+  }
+  return expiredCount;
+};
+
+export {
+  getAvailableQuantity,
+  reserveStock,
+  releaseStock,
+  consumeStock,
+  getReservationExpiry,
+  expireStaleReservations,
+};
@@ -0,0 +1,37 @@
+// src/utils/userClaims.js
+import { auth } from '../config/firebaseConfig.js';
+
+/**
+ * Firebase Auth custom claims mirror the access-related fields of users/{uid}.
+ * setCustomUserClaims replaces every claim, so they are always rebuilt from the whole user doc
+ * instead of being set one field at a time.
+ */
+
+const USER_ROLES = ['user', 'seller', 'admin'];
+
+const claimsFor = (user = {}) => ({
+  role: user.role || 'user',
+  verified: user.verified === true,
+  suspended: user.suspended === true,
+  banned: user.banned === true,
+});
+
+/**
+ * Write the claims for a user; failures are logged, Firestore stays the source of truth
+ * @returns {Promise<boolean>} Whether the claims were updated
+ */
+const syncUserClaims = async (userId, user) => {
+  try {
+    await auth.setCustomUserClaims(String(userId), claimsFor(user));
+    return true;
+  } catch (error) {
+    console.error(`Error updating custom claims for ${userId}:`, error.message);
+    return false;
+  }
+};
+
+export {
+  USER_ROLES,
+  claimsFor,
+  syncUserClaims,
+};
@@ -0,0 +1,198 @@
+// src/utils/userModeration.js
+import { db, auth } from '../config/firebaseConfig.js';
+import { syncUserClaims } from './userClaims.js';
+import { disconnectUser } from './chatSocket.js';
+
+/**
+ * Account restrictions set by admins, stored on users/{uid}:
+ * - suspended, suspendedAt, suspendedUntil (ISO, null = until lifted), suspensionReason, suspendedBy
+ * - banned, bannedAt, banReason, bannedBy (the Firebase Auth account is disabled too)
+ *
+ * authMiddleware and the chat socket reject restricted users (getAccountRestriction); a suspension
+ * simply stops applying once suspendedUntil has passed.
+ *
+ * Every change is appended to moderationLogs (never updated or deleted):
+ *   { userId, action: 'suspend' | 'unsuspend' | 'ban' | 'unban', reason, until, by, at,
+ *     listings: { mode: 'keep' | 'hide' | 'transfer' | 'restore', productIds, transferTo } | null }
+ * A ban's log entry is what unban uses to put hidden or transferred listings back.
+ */
+
+const LISTING_MODES = ['keep', 'hide', 'transfer'];
+// Firestore batches take at most 500 writes
+const BATCH_SIZE = 500;
+
+/**
+ * Why a user may not use the API right now
+ * @returns {{ code: string, reason: string, expiresAt: string|null } | null}
+ */
+const getAccountRestriction = (user = {}, now = new Date()) => {
+  if (user.banned === true) {
+    return { code: 'ACCOUNT_BANNED', reason: user.banReason || '', expiresAt: null };
+  }
+  if (user.suspended === true && (!user.suspendedUntil || new Date(user.suspendedUntil) > now)) {
+    return { code: 'ACCOUNT_SUSPENDED', reason: user.suspensionReason || '', expiresAt: user.suspendedUntil || null };
+  }
+  return null;
+};
+
+const logModeration = (userId, action, { reason = '', until = null, by, listings = null }) =>
+  db.collection('moderationLogs').add({
+    userId: String(userId),
+    action,
+    reason,
+    until,
+    listings,
+    by: String(by),
+    at: new Date().toISOString(),
+  });
+
+// verifyIdToken checks revocation, so this ends the user's current sessions; open chat sockets are closed too
+const revokeSessions = (userId) => {
+  disconnectUser(userId);
+  return auth.revokeRefreshTokens(String(userId)).catch(error => console.error(`Error revoking tokens for ${userId}:`, error.message));
+};
+
+const updateProducts = async (docs, changes) => {
+  for (let i = 0; i < docs.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    docs.slice(i, i + BATCH_SIZE).forEach(doc => batch.update(doc.ref, changes));
+    await batch.commit();
+  }
+};
+
+/**
+ * Suspend a user until a date (or until lifted)
+ * @param {object} user - Current users/{uid} data
+ * @param {{ reason: string, until: string|null, by: string }} options
+ * @returns {Promise<object>} The fields written to the user
+ */
+const suspendUser = async (userId, user, { reason = '', until = null, by }) => {
+  const now = new Date().toISOString();
+  const changes = {
+    suspended: true,
+    suspendedAt: now,
+    suspendedUntil: until,
+    suspensionReason: reason,
+    suspendedBy: String(by),
+    updatedAt: now,
+  };
+
+  await db.collection('users').doc(String(userId)).update(changes);
+  await revokeSessions(userId);
+  await syncUserClaims(userId, { ...user, ...changes });
+  await logModeration(userId, 'suspend', { reason, until, by });
+  return changes;
+};
+
+const unsuspendUser = async (userId, user, { reason = '', by }) => {
+  const changes = {
+    suspended: false,
+    suspendedUntil: null,
+    suspensionReason: '',
+    updatedAt: new Date().toISOString(),
+  };
+
+  await db.collection('users').doc(String(userId)).update(changes);
+  await syncUserClaims(userId, { ...user, ...changes });
+  await logModeration(userId, 'unsuspend', { reason, by });
+  return changes;
+};
+
+/**
+ * Ban a user: disables the Firebase Auth account and optionally hides or transfers
+ * their active (not sold) listings
+ * @param {{ reason: string, by: string, listings?: 'keep'|'hide'|'transfer', transferTo?: string }} options
+ * @returns {Promise<{ changes: object, productIds: string[] }>}
+ */
+const banUser = async (userId, user, { reason = '', by, listings = 'keep', transferTo = null }) => {
+  const id = String(userId);
+  const now = new Date().toISOString();
+  const changes = { banned: true, bannedAt: now, banReason: reason, bannedBy: String(by), updatedAt: now };
+
+  await db.collection('users').doc(id).update(changes);
+  await auth.updateUser(id, { disabled: true }).catch(error => console.error(`Error disabling auth account ${id}:`, error.message));
+  await revokeSessions(id);
+  await syncUserClaims(id, { ...user, ...changes });
+
+  let productIds = [];
+  if (listings !== 'keep') {
+    const snapshot = await db.collection('products').where('userId', '==', id).get();
+    const active = snapshot.docs.filter(doc => !doc.get('sold') && !doc.get('hidden'));
+    productIds = active.map(doc => doc.id);
+
+    if (listings === 'hide') {
+      await updateProducts(active, { hidden: true, hiddenReason: 'banned', hiddenAt: now });
+    } else {
+      // The badge follows the new seller's farm verification, like a freshly created listing
+      const recipientDoc = await db.collection('users').doc(String(transferTo)).get();
+      await updateProducts(active, {
+        userId: String(transferTo),
+        verified: recipientDoc.exists && recipientDoc.get('verified') === true,
+        transferredFrom: id,
+        transferredAt: now,
+      });
+    }
+  }
+
+  await logModeration(id, 'ban', {
+    reason,
+    by,
+    listings: { mode: listings, productIds, transferTo: listings === 'transfer' ? String(transferTo) : null },
+  });
+  return { changes, productIds };
+};
+
+/**
+ * Lift a ban, re-enable the Auth account and (by default) undo what the ban did to listings.
+ * Transferred listings come back with this user's own verified badge.
+ * Listings changed since the ban (deleted, unhidden, transferred again) are left alone.
+ * @returns {Promise<{ changes: object, restoredProductIds: string[] }>}
+ */
+const unbanUser = async (userId, user, { reason = '', by, restoreListings = true }) => {
+  const id = String(userId);
+  const changes = { banned: false, banReason: '', updatedAt: new Date().toISOString() };
+
+  await db.collection('users').doc(id).update(changes);
+  await auth.updateUser(id, { disabled: false }).catch(error => console.error(`Error enabling auth account ${id}:`, error.message));
+  await syncUserClaims(id, { ...user, ...changes });
+
+  let restoredProductIds = [];
+  if (restoreListings) {
+    const lastBan = await db.collection('moderationLogs')
+      .where('userId', '==', id)
+      .where('action', '==', 'ban')
+      .orderBy('at', 'desc')
+      .limit(1)
+      .get();
+    const { mode, productIds = [], transferTo } = lastBan.empty ? {} : lastBan.docs[0].get('listings') || {};
+
+    if ((mode === 'hide' || mode === 'transfer') && productIds.length > 0) {
+      const docs = (await db.getAll(...productIds.map(productId => db.collection('products').doc(productId))))
+        .filter(doc => doc.exists)
+        .filter(doc => (mode === 'hide'
+          ? doc.get('hidden') === true && doc.get('hiddenReason') === 'banned'
+          : doc.get('userId') === transferTo && doc.get('transferredFrom') === id));
+
+      await updateProducts(docs, mode === 'hide'
+        ? { hidden: false, hiddenReason: null, hiddenAt: null }
+        : { userId: id, verified: user.verified === true, transferredFrom: null, transferredAt: null });
+      restoredProductIds = docs.map(doc => doc.id);
+    }
+  }
+
+  await logModeration(id, 'unban', {
+    reason,
+    by,
+    listings: restoreListings ? { mode: 'restore', productIds: restoredProductIds, transferTo: null } : null,
+  });
+  return { changes, restoredProductIds };
+};
+
+export {
+  LISTING_MODES,
+  getAccountRestriction,
+  suspendUser,
+  unsuspendUser,
+  banUser,
+  unbanUser,
+};
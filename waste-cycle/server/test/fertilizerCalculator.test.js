@@ -0,0 +1,112 @@
+// test/fertilizerCalculator.test.js
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  toRai,
+  raiToHectare,
+  getNutrientNeedPerRai,
+  getAvailableNutrientsPerKg,
+  getManureRate,
+  calculateFertilizer,
+  manureTypes,
+} from '../src/utils/fertilizerCalculator.js';
+import { getManureComposition } from '../src/utils/manureComposition.js';
+
+// Reference values are worked out by hand from the catalogs (kg/ha needs, % of dry matter)
+// so a change to the model shows up as a failing number rather than a silent shift
+
+const assertClose = (actual, expected, tolerance = 1e-9) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `expected ${expected}, got ${actual}`);
+
+test('converts areas with 1 rai = 1,600 m² = 0.16 ha', () => {
+  assert.equal(toRai(1600, 'sqm'), 1);
+  assert.equal(toRai(1, 'hectare'), 6.25);
+  assert.equal(toRai(2, 'ha'), 12.5);
+  assert.equal(raiToHectare(6.25), 1);
+  assert.throws(() => toRai(1, 'acre'), /Unknown area unit/);
+  assert.throws(() => toRai(1, 'constructor'), /Unknown area unit/);
+});
+
+test('season need for rice on loam is 100/50/50 kg/ha = 16/8/8 kg per rai', () => {
+  const need = getNutrientNeedPerRai('rice');
+  assertClose(need.n, 16);
+  assertClose(need.p, 8);
+  assertClose(need.k, 8);
+});
+
+test('sandy soil raises N and K need: corn vegetative 60/25/30 kg/ha → 11.52/4/6 kg per rai', () => {
+  const need = getNutrientNeedPerRai('corn', 'vegetative', 'sandy');
+  assertClose(need.n, 60 * 1.2 * 0.16);
+  assertClose(need.p, 25 * 0.16);
+  assertClose(need.k, 30 * 1.25 * 0.16);
+});
+
+test('rejects unknown and inherited catalog keys', () => {
+  assert.throws(() => getNutrientNeedPerRai('toString'), /Unknown crop type/);
+  assert.throws(() => getNutrientNeedPerRai('rice', 'constructor'), /Unknown growth stage/);
+  assert.throws(() => getNutrientNeedPerRai('rice', undefined, '__proto__'), /Unknown soil type/);
+  assert.throws(() => getManureRate({ n: 1, p: 1, k: 1 }, 'hasOwnProperty'), /Unknown manure type/);
+});
+
+test('composted chicken manure (mixed feed): 2.25% N as-is × 55% availability = 12.375 g N per kg', () => {
+  // 3.8% N of DM × 0.7 retained ÷ 0.65 DM left × 0.55 DM = 2.25% (compositionTable)
+  const perKg = getAvailableNutrientsPerKg('chicken');
+  assertClose(perKg.n, 0.0225 * 0.55);
+  assertClose(perKg.p, getManureComposition('chicken', 'mixed', 'composted').npk.p / 100 * 0.7);
+  assert.equal(getAvailableNutrientsPerKg('chicken', 'mixed', 'unknown'), null);
+});
+
+test('doses from the same composition the NPK calculator reports', () => {
+  for (const state of ['fresh', 'dried', 'composted']) {
+    const { npk } = getManureComposition('pig', 'concentrate', state);
+    const perKg = getAvailableNutrientsPerKg('pig', 'concentrate', state);
+    assertClose(perKg.k, (npk.k / 100) * manureTypes.pig.availability.k);
+  }
+});
+
+test('composted cow manure for a rice season is dosed on N: 16 kg ÷ 3.21 g/kg ≈ 4,984.4 kg per rai', () => {
+  // 1.8% N of DM × 0.7 ÷ 0.65 × 0.55 DM = 1.07% N as-is, 30% available
+  const rate = getManureRate(getNutrientNeedPerRai('rice'), 'cow');
+
+  assert.equal(rate.processingState, 'composted');
+  assert.equal(rate.kgPerRai, 4984.4);
+  assert.equal(rate.tonPerRai, 4.984);
+  // P (0.76% × 60%) and K (1.45% × 90%) are over-supplied at that rate
+  assert.equal(rate.suppliedPerRai.n, 16);
+  assert.equal(rate.suppliedPerRai.p, 22.73);
+  assert.equal(rate.balancePerRai.k, 57.05);
+  assert.equal(rate.limitingNutrient, null);
+});
+
+test('fresh manure needs more weight than dried for the same need', () => {
+  const need = getNutrientNeedPerRai('rice');
+  const fresh = getManureRate(need, 'cow', { processingState: 'fresh' });
+  const dried = getManureRate(need, 'cow', { processingState: 'dried' });
+
+  // 1.8% × 0.15 DM = 0.27% N fresh; 1.8% × 0.85 retained × 0.85 DM = 1.30% N dried
+  assert.equal(fresh.kgPerRai, Math.round((16 / (0.0027 * 0.3)) * 10) / 10);
+  assert.equal(dried.kgPerRai, Math.round((16 / (0.013 * 0.3)) * 10) / 10);
+});
+
+test('reports the nutrient left short at the N-based rate', () => {
+  // Fruiting fruit trees need far more K than N; chicken manure at the N rate cannot cover it
+  const rate = getManureRate(getNutrientNeedPerRai('fruits', 'fruiting'), 'chicken');
+  assert.equal(rate.limitingNutrient, 'k');
+  assert.ok(rate.balancePerRai.k < 0);
+});
+
+test('scales totals by the field area and sorts manures from the lowest rate', () => {
+  const result = calculateFertilizer({ cropType: 'rice', area: 2, areaUnit: 'ha', manureTypes: ['cow', 'chicken'] });
+
+  assert.deepEqual(result.area, { rai: 12.5, hectare: 2 });
+  assert.deepEqual(result.totalNeed, { n: 200, p: 100, k: 100 });
+  assert.deepEqual(result.manures.map(manure => manure.manureType), ['chicken', 'cow']);
+
+  const cow = result.manures.find(manure => manure.manureType === 'cow');
+  assert.equal(cow.totalKg, Math.round(4984.4 * 12.5 * 10) / 10);
+});
+
+test('rejects a missing or non-positive area', () => {
+  assert.throws(() => calculateFertilizer({ cropType: 'rice', area: 0 }), /area must be a positive number/);
+  assert.throws(() => calculateFertilizer({ cropType: 'rice' }), /area must be a positive number/);
+});
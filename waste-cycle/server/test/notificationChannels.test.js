@@ -0,0 +1,92 @@
+// test/notificationChannels.test.js
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import net from 'node:net';
+import { createEmailChannel } from '../src/utils/notificationChannels.js';
+
+// Just enough SMTP for nodemailer (no TLS, no auth): every accepted message lands in `messages`
+const createMailSink = () => {
+  const messages = [];
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let envelope = { from: null, to: [] };
+    let data = null;
+
+    socket.setEncoding('utf8');
+    socket.write('220 sink ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk;
+      let end;
+      while ((end = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        if (data !== null) {
+          if (line === '.') {
+            messages.push({ ...envelope, data: data.join('\r\n') });
+            envelope = { from: null, to: [] };
+            data = null;
+            socket.write('250 Queued\r\n');
+          } else {
+            data.push(line.startsWith('..') ? line.slice(1) : line);
+          }
+          continue;
+        }
+
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === 'EHLO' || command === 'HELO') socket.write('250 sink\r\n');
+        else if (command === 'MAIL') { envelope.from = line.match(/<(.*)>/)?.[1]; socket.write('250 OK\r\n'); }
+        else if (command === 'RCPT') { envelope.to.push(line.match(/<(.*)>/)?.[1]); socket.write('250 OK\r\n'); }
+        else if (command === 'DATA') { data = []; socket.write('354 End data with <CR><LF>.<CR><LF>\r\n'); }
+        else if (command === 'QUIT') socket.end('221 Bye\r\n');
+        else socket.write('250 OK\r\n');
+      }
+    });
+  });
+  return { server, messages };
+};
+
+const sink = createMailSink();
+let port;
+
+before(async () => {
+  await new Promise(resolve => sink.server.listen(0, '127.0.0.1', resolve));
+  port = sink.server.address().port;
+});
+
+after(() => new Promise(resolve => sink.server.close(resolve)));
+
+test('email channel only delivers to recipients with an address', () => {
+  const channel = createEmailChannel({ host: '127.0.0.1', port: 1 });
+  assert.equal(channel.name, 'email');
+  assert.equal(channel.canDeliver({ email: 'buyer@example.com' }), true);
+  assert.equal(channel.canDeliver({ email: null }), false);
+});
+
+test('email channel sends the notification and its app link through SMTP', async () => {
+  process.env.FRONTEND_URL = 'https://app.example.com';
+  const channel = createEmailChannel({ host: '127.0.0.1', port, secure: false, from: 'Waste-Cycle <no-reply@example.com>' });
+
+  await channel.send(
+    { email: 'buyer@example.com' },
+    { type: 'booking_update', message: 'Your booking was accepted', link: '/bookings/b1' }
+  );
+
+  assert.equal(sink.messages.length, 1);
+  const [message] = sink.messages;
+  assert.equal(message.from, 'no-reply@example.com');
+  assert.deepEqual(message.to, ['buyer@example.com']);
+  assert.match(message.data, /^To: buyer@example\.com$/m);
+  assert.match(message.data, /Your booking was accepted/);
+  assert.match(message.data, /https:\/\/app\.example\.com\/bookings\/b1/);
+});
+
+test('email channel rejects when the SMTP server is unreachable, so the delivery is retried', async () => {
+  const closed = net.createServer();
+  await new Promise(resolve => closed.listen(0, '127.0.0.1', resolve));
+  const unusedPort = closed.address().port;
+  await new Promise(resolve => closed.close(resolve));
+
+  const channel = createEmailChannel({ host: '127.0.0.1', port: unusedPort, secure: false });
+  await assert.rejects(channel.send({ email: 'buyer@example.com' }, { type: 'chat', message: 'hi', link: null }));
+});